@@ -19,28 +19,40 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Location from 'expo-location';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, useFocusEffect } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { getRecommendations, getRecommendationsWithFoursquare } from './services/gemini';
-
-// Use Foursquare for FREE searches (10K/month)
-// Note: Check at runtime since env vars may not be available at module init
-const USE_FOURSQUARE = !!process.env.EXPO_PUBLIC_FOURSQUARE_API_KEY;
-console.log(`🔑 Foursquare API key configured: ${USE_FOURSQUARE ? 'YES' : 'NO (using Google)'}`);
-console.log(`🔑 EXPO_PUBLIC_FOURSQUARE_API_KEY: ${process.env.EXPO_PUBLIC_FOURSQUARE_API_KEY ? '***present***' : 'undefined'}`);
-import { geocodeLocation, parseLocationFromQuery } from './services/geocoding';
-import { getHiddenPlaces, getCachedResults, saveCachedResults, clearCachedResults, getGridCachedResults, saveGridCachedResults, clearGridCache } from './services/storage';
-import { addToHistory } from './services/collections';
+import { getRecommendations, getProviderOrder } from './services/providers';
+import { dedupePlaces } from './services/providers/merge';
+
+console.log(`🔑 Place providers: ${getProviderOrder().join(' → ')}`);
+import { resolveSearchTarget, SearchTarget } from './services/geocoding';
+import { isAbortError } from './services/transport';
+import { parseQueryIntent, getRadiusForIntent, PriceRange } from './services/queryIntent';
+import { formatPriceLevel, matchesPriceRange } from './services/price';
+import { isOpenAt } from './services/openingHours';
+import { getHiddenPlaces, isPlaceHidden, unhidePlace, HiddenPlace, getCachedResults, saveCachedResults, clearCachedResults, getGridCachedResults, saveGridCachedResults, clearGridCache } from './services/storage';
+import { addPlacesToHistory } from './services/collections';
+import { isPlaceAllowed, loadActiveVenueRules, placeMatchesRule, saveVenueRulePreferences, VenueRuleChange } from './services/venueRules';
+import { getDatabase } from './services/database';
+import { getPinnedTrip, unpinTrip, recordTripHistory } from './services/trips';
+import { findCityPack, getPackTilePathTemplate, CityPack } from './services/offlinePacks';
+import { getOfflineResults, queueSearch, takeQueuedSearch, clearQueuedSearch, OfflineResults, OfflineSource } from './services/offlineSearch';
+import { isOnline, subscribeToConnectivity } from './services/connectivity';
+import { buildCrawl, getCandidateSearches, getCrawlTheme, saveCrawlAsCollection, Crawl, CrawlThemeId } from './services/crawl';
 import { trackSearch, trackPlaceView, getUsageStats, hasExceededFreeTier, getRemainingSearches, UsageStats, FREE_TIER_LIMITS, resetUsageStats } from './services/usage';
-import { Coordinates, Place } from './types';
+import { Coordinates, Place, PriceLevel, Trip } from './types';
 import { PlaceCard } from './components/PlaceCard';
 import { CenterPiece } from './components/CenterPiece';
 import { LoadingScreen } from './components/LoadingScreen';
+import { OpenAtPicker, OpenAtFilter, formatOpenAtFilter } from './components/OpenAtPicker';
+import { CrawlPicker } from './components/CrawlPicker';
 import { PlacePopup } from './components/PlacePopup';
 import { UsageIndicator } from './components/UsageIndicator';
 import { UpgradePrompt } from './components/UpgradePrompt';
+import { VenueFiltersModal } from './components/VenueFiltersModal';
 import { FullScreenMap } from './components/FullScreenMap';
 import { SavedPlacesScreen } from './screens/SavedPlacesScreen';
+import { DownloadsScreen } from './screens/DownloadsScreen';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Svg, Path, Circle } from 'react-native-svg';
 
@@ -48,6 +60,8 @@ const Tab = createBottomTabNavigator();
 
 const { width, height } = Dimensions.get('window');
 
+const UNDO_TOAST_MS = 5000; // How long "Undo" stays up after hiding a place
+
 // Animated Spinner Component
 const AnimatedSpinner = () => {
   const spinValue = useRef(new Animated.Value(0)).current;
@@ -84,6 +98,7 @@ export function DiscoverScreen() {
   const [coords, setCoords] = useState<Coordinates | null>(null); // Current search center
   const [userGpsCoords, setUserGpsCoords] = useState<Coordinates | null>(null); // Original GPS location
   const [city, setCity] = useState<string>("Locating...");
+  const [undoToast, setUndoToast] = useState<{ message: string; undo: () => Promise<void> } | null>(null);
   const [userGpsCity, setUserGpsCity] = useState<string | null>(null); // City name for original GPS location
   const [places, setPlaces] = useState<Place[]>([]);
   const [shownPlaces, setShownPlaces] = useState<string[]>([]); // Track shown place names for variety
@@ -97,8 +112,22 @@ export function DiscoverScreen() {
   const [showFullMap, setShowFullMap] = useState<boolean>(false);
   const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
   const [currentRadius, setCurrentRadius] = useState<number>(3.2); // Track current search radius
-  const [openNowFilter, setOpenNowFilter] = useState<boolean>(false); // Filter for places open now
+  const [openAtFilter, setOpenAtFilter] = useState<OpenAtFilter>(null); // Only places open now / at a chosen time
+  const [showOpenAtPicker, setShowOpenAtPicker] = useState<boolean>(false);
+  const [crawl, setCrawl] = useState<Crawl | null>(null); // Themed route shown on the full map
+  const [showCrawlPicker, setShowCrawlPicker] = useState<boolean>(false);
+  const [crawlLoadingTheme, setCrawlLoadingTheme] = useState<CrawlThemeId | null>(null);
+  const [crawlError, setCrawlError] = useState<string | null>(null);
+  const crawlAbortRef = useRef<AbortController | null>(null);
+  const [isOffline, setIsOffline] = useState<boolean>(false);
+  const wasOfflineRef = useRef(false); // Went offline this session - coming back runs the queued search
+  const [offlineSource, setOfflineSource] = useState<OfflineSource | null>(null); // Cached source behind the results while offline
+  const [hasQueuedSearch, setHasQueuedSearch] = useState<boolean>(false); // A search waits for the connection
+  const [offlineCityPack, setOfflineCityPack] = useState<CityPack | null>(null); // Pack serving this area while offline
+  const [pinnedTrip, setPinnedTrip] = useState<Trip | null>(null); // Trip whose destination is the search center
+  const appliedTripRef = useRef<string | null>(null); // Trip start already applied, so returning to the tab doesn't re-search
   const [hotAndNewFilter, setHotAndNewFilter] = useState<boolean>(false); // Filter for trending/new places
+  const [budgetFilter, setBudgetFilter] = useState<PriceLevel | null>(null); // Max price tier ($-$$$$), null = any price
   const [categoryFilters, setCategoryFilters] = useState<Set<string>>(() => new Set()); // Active category filters (EAT, DRINK, EXPLORE) - use lazy initialization to prevent recreating Set on every render
 
   // Memoize categoryFilters as a stable string for useCallback dependencies
@@ -108,6 +137,7 @@ export function DiscoverScreen() {
   const [usageStats, setUsageStats] = useState<UsageStats | null>(null); // Usage tracking stats
   const [showUpgradePrompt, setShowUpgradePrompt] = useState<boolean>(false); // Show upgrade prompt when limit reached
   const [showMenu, setShowMenu] = useState<boolean>(false); // Show hamburger menu
+  const [showVenueFilters, setShowVenueFilters] = useState<boolean>(false); // Show venue filter rules
   const [lastUpdated, setLastUpdated] = useState<number | null>(null); // Timestamp of last search
   const [usingCachedData, setUsingCachedData] = useState<boolean>(false); // Whether showing cached data
   // Removed pull-to-refresh - users scroll down to load more instead
@@ -115,6 +145,45 @@ export function DiscoverScreen() {
   // Track initial mount to prevent filter useEffects from firing on first load
   const categoryFilterInitialMount = useRef(true);
   const hotAndNewFilterInitialMount = useRef(true);
+  const budgetFilterInitialMount = useRef(true);
+
+  // Each search gets a session ID - responses from an older session are dropped
+  const searchSessionRef = useRef(0);
+  const searchAbortRef = useRef<AbortController | null>(null);
+
+  // Abort the in-flight search; bumping the session makes any late response stale
+  const cancelSearchSession = useCallback(() => {
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    searchSessionRef.current += 1;
+  }, []);
+
+  const beginSearchSession = useCallback(() => {
+    cancelSearchSession();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    return { session: searchSessionRef.current, signal: controller.signal };
+  }, [cancelSearchSession]);
+
+  const isStaleSession = (session: number) => session !== searchSessionRef.current;
+
+  // Don't leave requests running after the app unmounts
+  useEffect(() => () => searchAbortRef.current?.abort(), []);
+
+  // Undo toast after hiding - gone after a few seconds
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // Open the local database now, so stored data is migrated before anything reads it
+  useEffect(() => {
+    getDatabase().catch(error => console.error('Error opening local database:', error));
+  }, []);
+
+  // Offline banner - the queued search runs when the connection returns (see below)
+  useEffect(() => subscribeToConnectivity(online => setIsOffline(!online)), []);
 
   // Determine nearest major city for iconic searches
   const getMajorCity = useCallback(() => {
@@ -157,91 +226,29 @@ export function DiscoverScreen() {
   // Memoize majorCity to prevent recalculation on every render
   const majorCity = useMemo(() => getMajorCity(), [getMajorCity]);
 
-  // Filter places based on "Open Now" toggle
-  const filteredPlaces = useMemo(() => {
-    // DEBUG DISABLED: console.log(`🔍 Filter check: openNowFilter=${openNowFilter}, places.length=${places.length}`);
-    if (!openNowFilter) {
-      return places;
-    }
-
-    // Only show places that are confirmed open
-    const openPlaces = places.filter(place => place.isOpen === true);
-    return openPlaces;
-  }, [places, openNowFilter]);
-
-  // Determine city scale for radius calculation
-  const getMajorCityScale = useCallback((cityName: string): 'major' | 'medium' | 'small' => {
-    const lowerCity = cityName.toLowerCase();
-
-    // Major world cities (10-15 mile radius appropriate)
-    const majorCities = [
-      'new york', 'nyc', 'los angeles', 'la', 'chicago', 'london', 'tokyo',
-      'paris', 'dubai', 'singapore', 'hong kong', 'shanghai', 'mumbai',
-      'delhi', 'beijing', 'mexico city', 'sao paulo', 'jakarta'
-    ];
-
-    // Medium cities (7-10 mile radius)
-    const mediumCities = [
-      'boston', 'seattle', 'san francisco', 'miami', 'denver', 'portland',
-      'austin', 'philadelphia', 'phoenix', 'san diego', 'dallas', 'houston',
-      'atlanta', 'detroit', 'washington', 'barcelona', 'amsterdam', 'berlin',
-      'rome', 'milan', 'sydney', 'melbourne', 'toronto', 'vancouver'
-    ];
-
-    if (majorCities.some(city => lowerCity.includes(city))) {
-      return 'major';
-    }
-
-    if (mediumCities.some(city => lowerCity.includes(city))) {
-      return 'medium';
-    }
-
-    return 'small';
-  }, []);
-
-  // Calculate search radius based on query keywords and city scale
-  const getRadiusForQuery = useCallback((query?: string, searchLocation?: string): number => {
-    if (!query) return 3.2; // Default 2 miles
-
-    const lowerQuery = query.toLowerCase();
-
-    // "Nearby" or "around here" means truly close (1-2 miles) - always tight radius
-    if (lowerQuery.includes('nearby') || lowerQuery.includes('around here') || lowerQuery.includes('close by')) {
-      return 3.2; // 2 miles
-    }
-
-    // "Local" or "neighborhood" means moderate (3 miles)
-    if (lowerQuery.includes('local') || lowerQuery.includes('neighborhood') || lowerQuery.includes('near me')) {
-      return 4.8; // 3 miles
-    }
-
-    // City-specific searches - use city scale to determine radius
-    if (lowerQuery.includes(' in ') && !lowerQuery.includes('near me')) {
-      // Extract the city name from query (e.g., "pizza in NYC" -> "NYC")
-      const match = lowerQuery.match(/\sin\s+(.+?)(?:\s|$)/);
-      const cityInQuery = match ? match[1] : searchLocation || city;
+  const budgetRange = useMemo<PriceRange | null>(
+    () => (budgetFilter ? { min: 1, max: budgetFilter } : null),
+    [budgetFilter]
+  );
 
-      const scale = getMajorCityScale(cityInQuery);
+  // Searching from the pinned trip's destination (not somewhere else searched since)
+  const isAtTripCenter = !!pinnedTrip && !!coords &&
+    Math.abs(pinnedTrip.destinationCoords.latitude - coords.latitude) < 0.01 &&
+    Math.abs(pinnedTrip.destinationCoords.longitude - coords.longitude) < 0.01;
 
-      if (scale === 'major') {
-        return 20; // 12.4 miles - wide radius for major cities like NYC, LA
-      } else if (scale === 'medium') {
-        return 14; // 8.7 miles - moderate radius for medium cities like Boston
-      } else {
-        return 8; // 5 miles - smaller radius for towns
-      }
-    }
-
-    // Iconic/landmark searches need wider radius
-    if (lowerQuery.includes('iconic') || lowerQuery.includes('famous') || lowerQuery.includes('landmark')) {
-      // Check current city scale
-      const scale = getMajorCityScale(searchLocation || city);
-      return scale === 'major' ? 20 : scale === 'medium' ? 14 : 8;
+  // Filter places based on "Open at…" and budget toggles
+  const filteredPlaces = useMemo(() => {
+    // DEBUG DISABLED: console.log(`🔍 Filter check: openAtFilter=${openAtFilter}, places.length=${places.length}`);
+    if (!openAtFilter && !budgetRange) {
+      return places;
     }
 
-    // Default
-    return 4.8; // 3 miles
-  }, [city, getMajorCityScale]);
+    // Only show places confirmed open at that time and within budget (unknown prices pass)
+    const openAt = openAtFilter === 'now' ? new Date() : openAtFilter;
+    return places.filter(place =>
+      (!openAt || isOpenAt(place, openAt) === true) && matchesPriceRange(place, budgetRange)
+    );
+  }, [places, openAtFilter, budgetRange]);
 
   // Search suggestion templates showcasing different search patterns
   const searchSuggestions = useMemo(() => [
@@ -253,9 +260,13 @@ export function DiscoverScreen() {
   ], [majorCity]);
 
   const fetchVibe = useCallback(async (latitude: number, longitude: number, query?: string, append: boolean = false, excludePlaces: string[] = []) => {
+    // A new search cancels the previous one (quick chip taps, Hot & New toggles, new queries)
+    const { session, signal } = beginSearchSession();
+
     // Check free tier limits before searching (only for new searches, not appends)
     if (!append) {
       const exceeded = await hasExceededFreeTier();
+      if (isStaleSession(session)) return;
       if (exceeded) {
         setShowUpgradePrompt(true);
         return;
@@ -268,7 +279,8 @@ export function DiscoverScreen() {
       setLoading(true);
       setCanLoadMore(true);
     }
-    let radiusKm = getRadiusForQuery(query, city);
+    // Radius from the query: "nearby" is tight, "pizza in NYC" scales with the city
+    let radiusKm = getRadiusForIntent(parseQueryIntent(query), city);
 
     // Increase radius when Hot & New filter is active
     if (hotAndNewFilter) {
@@ -289,12 +301,34 @@ export function DiscoverScreen() {
     try {
       console.log(`🎯 Frontend: Passing categories to API:`, categoriesArray.length > 0 ? categoriesArray : 'none (all categories)');
 
+      // Offline - cached sources stand in for the providers and the search waits for the connection
+      const online = await isOnline();
+      if (isStaleSession(session)) return;
+      if (!online && append) {
+        setCanLoadMore(false); // Nothing more to load until back online
+        return;
+      }
+      // A city pack covering the area also brings its map tiles
+      const offlinePack = online ? null : await findCityPack({ latitude, longitude });
+      if (isStaleSession(session)) return;
+      if (!append) setOfflineCityPack(offlinePack);
+      if (online && !append) {
+        // Searching online makes any queued search redundant
+        clearQueuedSearch();
+        setHasQueuedSearch(false);
+        setOfflineSource(null);
+      }
+
       // GRID CACHE: Check for cached results first
       let data: { places: Place[]; city: string } | undefined;
       let gridCacheHit = false;
-      if (!append) {
+      // Budget searches skip the grid cache - its entries aren't keyed by price
+      const useGridCache = !budgetRange;
+      // Offline reads the cell in getOfflineResults, where expired results still count
+      if (!append && useGridCache && online) {
         const categoryKey = categoriesArray.length === 1 ? categoriesArray[0] : undefined;
         const cachedPlaces = await getGridCachedResults(latitude, longitude, categoryKey, query);
+        if (isStaleSession(session)) return;
 
         if (cachedPlaces && cachedPlaces.length > 0) {
           console.log(`💾 GRID CACHE HIT: Using ${cachedPlaces.length} cached places (no API call!)`);
@@ -308,16 +342,29 @@ export function DiscoverScreen() {
         }
       }
 
-      // If no grid cache hit, call API
-      if (!gridCacheHit) {
-        // Use Foursquare for FREE searches when API key is available
-        if (USE_FOURSQUARE) {
-          console.log('🟣 Using Foursquare API (FREE tier - 10K calls/month)');
-          data = await getRecommendationsWithFoursquare({ latitude, longitude }, query, radiusKm, hotAndNewFilter, excludePlaces, categoriesArray);
-        } else {
-          console.log('🔵 Using Google Places API');
-          data = await getRecommendations({ latitude, longitude }, query, radiusKm, hotAndNewFilter, excludePlaces, categoriesArray);
+      // If no grid cache hit, call API - or fall back to cached sources when offline
+      let offline: OfflineResults | null = null;
+      if (!gridCacheHit && !online) {
+        offline = await getOfflineResults({ latitude, longitude }, { categories: categoriesArray, query, radiusKm });
+        await queueSearch({ coords: { latitude, longitude }, query });
+        if (isStaleSession(session)) return;
+        setHasQueuedSearch(true);
+        setOfflineSource(offline?.source || null);
+        if (!offline) {
+          console.log('📵 Offline with nothing cached here - waiting for the connection');
+          setPlaces([]);
+          return;
         }
+        data = { places: offline.places, city: offline.city || city || 'Unknown' };
+      } else if (!gridCacheHit) {
+        // Provider chain: Foursquare (FREE) first, falling back to the next provider when results are thin
+        data = await getRecommendations({ latitude, longitude }, query, radiusKm, hotAndNewFilter, excludePlaces, categoriesArray, budgetRange, signal);
+      }
+
+      // A newer search started while this one was running - its results win
+      if (isStaleSession(session)) {
+        console.log('🗑️ Dropping stale search results');
+        return;
       }
 
       // Early return if no data
@@ -344,9 +391,10 @@ export function DiscoverScreen() {
         setCity(data.city);
       }
 
-      // Filter out hidden places
-      const hiddenPlaces = await getHiddenPlaces();
-      const filteredPlaces = data.places.filter(place => !hiddenPlaces.includes(place.name));
+      // Filter out hidden places - and venues cached before a rule was added ("hide this chain")
+      const [hiddenPlaces, venueRules] = await Promise.all([getHiddenPlaces(), loadActiveVenueRules()]);
+      if (isStaleSession(session)) return;
+      const filteredPlaces = data.places.filter(place => !isPlaceHidden(place, hiddenPlaces) && isPlaceAllowed(place, venueRules));
 
       if (append) {
         // Filter out duplicates when appending
@@ -363,18 +411,21 @@ export function DiscoverScreen() {
         });
         // Track newly shown places
         setShownPlaces(prev => [...prev, ...filteredPlaces.map(p => p.name)]);
-        // Add to history
-        filteredPlaces.forEach(place => {
-          addToHistory(place, query, data.city);
-        });
+        // Add to history - one write at a time, each is a transaction
+        addPlacesToHistory(filteredPlaces, query, data.city).then(() => recordTripHistory(filteredPlaces, query, data.city));
       } else {
         setPlaces(filteredPlaces);
         // Track all shown places
         setShownPlaces(prev => [...prev, ...filteredPlaces.map(p => p.name)]);
-        // Add to history
-        filteredPlaces.forEach(place => {
-          addToHistory(place, query, data.city);
-        });
+        // Add to history - one write at a time, each is a transaction
+        addPlacesToHistory(filteredPlaces, query, data.city).then(() => recordTripHistory(filteredPlaces, query, data.city));
+
+        // Offline results were cached already and don't use up a search
+        if (offline) {
+          setLastUpdated(offline.updatedAt ?? null);
+          setUsingCachedData(true);
+          return;
+        }
 
         // Track search in usage stats
         const updatedStats = await trackSearch();
@@ -390,7 +441,7 @@ export function DiscoverScreen() {
         await saveCachedResults(filteredPlaces, data.city, latitude, longitude, query);
 
         // Save to grid cache if this was a fresh API call
-        if (!gridCacheHit) {
+        if (!gridCacheHit && useGridCache) {
           const categoryKey = categoriesArray.length === 1 ? categoriesArray[0] : undefined;
           await saveGridCachedResults(latitude, longitude, filteredPlaces, categoryKey, query);
         }
@@ -399,14 +450,54 @@ export function DiscoverScreen() {
         setUsingCachedData(false);
       }
     } catch (err) {
+      if (isAbortError(err) || isStaleSession(session)) return;
       setError("Failed to get recommendations. AI might be tired.");
     } finally {
-      setLoading(false);
-      setLoadingMore(false);
+      // A newer search owns the loading state
+      if (!isStaleSession(session)) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  }, [userGpsCoords, userGpsCity, getRadiusForQuery, city, hotAndNewFilter, categoryFiltersKey]);
+  }, [userGpsCoords, userGpsCity, city, hotAndNewFilter, categoryFiltersKey, budgetRange, beginSearchSession]);
+
+  // Search from a trip's destination - starting the trip pre-cached it, so this is a grid cache hit
+  const applyPinnedTrip = useCallback((trip: Trip) => {
+    appliedTripRef.current = `${trip.id}:${trip.startedAt}`;
+    console.log(`✈️ Searching from pinned trip: ${trip.destination}`);
+    setPinnedTrip(trip);
+    setCoords(trip.destinationCoords);
+    setCity(trip.destination);
+    setSearchQuery('');
+    fetchVibe(trip.destinationCoords.latitude, trip.destinationCoords.longitude);
+  }, [fetchVibe]);
+
+  const handleUnpinTrip = useCallback(async () => {
+    await unpinTrip();
+    appliedTripRef.current = null;
+    setPinnedTrip(null);
+  }, []);
+
+  // Trips are started from the Saved tab - pick up a newly pinned one when Discover comes back into focus
+  useFocusEffect(
+    useCallback(() => {
+      if (!permissionGranted) return; // handleLocate checks for a pinned trip
+      let active = true;
+      getPinnedTrip().then(trip => {
+        if (!active) return;
+        setPinnedTrip(trip);
+        if (trip && appliedTripRef.current !== `${trip.id}:${trip.startedAt}`) {
+          applyPinnedTrip(trip);
+        }
+      });
+      return () => {
+        active = false;
+      };
+    }, [permissionGranted, applyPinnedTrip])
+  );
 
   const handleLocate = useCallback(async () => {
+    const { session, signal } = beginSearchSession();
     setLoading(true);
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
@@ -425,13 +516,23 @@ export function DiscoverScreen() {
       setUserGpsCoords(gpsCoords);
 
       // Get the actual city name from GPS coordinates using reverse geocoding
+      // (offline it can't be looked up - cached results carry their city)
       const { reverseGeocode } = await import('./services/geocoding');
-      const actualCity = await reverseGeocode(gpsCoords);
+      const actualCity = (await isOnline()) ? await reverseGeocode(gpsCoords, signal) : null;
+      if (isStaleSession(session)) return;
       if (actualCity) {
         setUserGpsCity(actualCity);
         setCity(actualCity);
       }
 
+      // A pinned trip overrides GPS as the search center
+      const trip = await getPinnedTrip();
+      if (isStaleSession(session)) return;
+      if (trip) {
+        applyPinnedTrip(trip);
+        return;
+      }
+
       // Try to load cached results first
       const cached = await getCachedResults();
       if (cached && cached.places.length > 0) {
@@ -448,11 +549,99 @@ export function DiscoverScreen() {
         fetchVibe(latitude, longitude);
       }
     } catch (err) {
+      if (isAbortError(err) || isStaleSession(session)) return;
       setLoading(false);
       setError("We need your location to find the vibe.");
       console.error(err);
     }
-  }, [fetchVibe]);
+  }, [fetchVibe, applyPinnedTrip, beginSearchSession]);
+
+  // Parse the query, move the map if it names a place, then search
+  const runSearch = useCallback(async (text: string) => {
+    console.log('🔍 Search query:', text);
+    const { session, signal } = beginSearchSession();
+    setLoading(true);
+    const intent = parseQueryIntent(text);
+    console.log('📝 Parsed intent:', intent);
+
+    // Offline - a place name can't be looked up, so the query waits for the connection as typed
+    if ((intent.location || intent.looksLikeLocation) && !(await isOnline())) {
+      await queueSearch({ query: text });
+      if (isStaleSession(session)) return;
+      setHasQueuedSearch(true);
+      setLoading(false);
+      return;
+    }
+
+    let target: SearchTarget | null;
+    try {
+      target = await resolveSearchTarget(intent, userGpsCoords || undefined, coords || undefined, signal);
+    } catch (err) {
+      return; // Only cancellation gets here - geocoding failures resolve to null
+    }
+    if (isStaleSession(session)) return;
+
+    if (!target) {
+      setError('Could not find that location');
+      setLoading(false);
+      return;
+    }
+
+    if (!target.coords) {
+      setError('Please enable location first');
+      setLoading(false);
+      return;
+    }
+
+    if (target.source === 'location') {
+      console.log('✅ Setting coords to:', target.coords);
+      setCoords(target.coords);
+      setCity(target.address || city);
+    } else if (target.source === 'gps') {
+      // "Near me" searches reset to the GPS location
+      console.log('📍 "Near me" query detected - resetting to GPS location:', target.coords);
+      setCoords(target.coords);
+      if (userGpsCity) {
+        setCity(userGpsCity);
+      }
+    }
+
+    fetchVibe(target.coords.latitude, target.coords.longitude, target.query);
+  }, [beginSearchSession, userGpsCoords, coords, city, userGpsCity, fetchVibe]);
+
+  // Latest search callbacks - the effect below only re-runs on connectivity changes,
+  // but the replay must use the current location, filters and session
+  const fetchVibeRef = useRef(fetchVibe);
+  const runSearchRef = useRef(runSearch);
+  fetchVibeRef.current = fetchVibe;
+  runSearchRef.current = runSearch;
+
+  // Back online - run the search queued while offline
+  useEffect(() => {
+    if (isOffline) {
+      wasOfflineRef.current = true;
+      return;
+    }
+    if (!wasOfflineRef.current) return;
+    wasOfflineRef.current = false;
+    let active = true;
+    takeQueuedSearch().then(queued => {
+      if (!active) return;
+      setHasQueuedSearch(false);
+      if (!queued) return;
+      console.log(`📤 Running queued search: "${queued.query || 'default'}"`);
+      if (queued.coords) {
+        setCoords(queued.coords);
+        fetchVibeRef.current(queued.coords.latitude, queued.coords.longitude, queued.query);
+      } else if (queued.query) {
+        setSearchQuery(queued.query);
+        runSearchRef.current(queued.query);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [isOffline]);
 
   const handleLoadMore = useCallback(() => {
     if (loadingMore || !canLoadMore || !coords) return;
@@ -460,6 +649,14 @@ export function DiscoverScreen() {
     fetchVibe(coords.latitude, coords.longitude, searchQuery || undefined, true, shownPlaces);
   }, [loadingMore, canLoadMore, coords, searchQuery, fetchVibe, shownPlaces]);
 
+  // Cancel from the loading screen - aborts the requests in flight
+  const handleCancelLoading = useCallback(() => {
+    console.log('🛑 Search cancelled');
+    cancelSearchSession();
+    setLoading(false);
+    setLoadingMore(false);
+  }, [cancelSearchSession]);
+
   const toggleCategoryFilter = useCallback((category: string) => {
     setCategoryFilters(prev => {
       // If clicking the same active filter, clear all filters
@@ -503,6 +700,27 @@ export function DiscoverScreen() {
     }
   }, [hotAndNewFilter]);
 
+  // Trigger new search when the budget changes - providers that support it filter server-side
+  useEffect(() => {
+    // Skip on initial mount
+    if (budgetFilterInitialMount.current) {
+      budgetFilterInitialMount.current = false;
+      return;
+    }
+
+    if (coords && places.length > 0) {
+      console.log(`💵 Budget filter changed: ${budgetFilter ? `up to ${formatPriceLevel(budgetFilter)}` : 'any price'}`);
+      setShownPlaces([]);
+      setCanLoadMore(true);
+      fetchVibe(coords.latitude, coords.longitude, searchQuery || undefined, false);
+    }
+  }, [budgetFilter]);
+
+  // Budget chip cycles: any → $ → $$ → $$$ → $$$$ → any
+  const cycleBudgetFilter = useCallback(() => {
+    setBudgetFilter(prev => (prev === null ? 1 : prev === 4 ? null : ((prev + 1) as PriceLevel)));
+  }, []);
+
   // Load usage stats on mount
   useEffect(() => {
     const loadStats = async () => {
@@ -526,6 +744,11 @@ export function DiscoverScreen() {
     }
   }, []);
 
+  // A crawl belongs to the results it was built from
+  useEffect(() => {
+    setCrawl(null);
+  }, [coords]);
+
 
   if (!permissionGranted) {
     return (
@@ -572,7 +795,7 @@ export function DiscoverScreen() {
 
   if (loading) {
     console.log(`⏳ LOADING SCREEN SHOWN - blocking UI (loading=${loading})`);
-    return <LoadingScreen status="Scanning social signals..." />;
+    return <LoadingScreen status="Scanning social signals..." onCancel={handleCancelLoading} />;
   }
 
   // DEBUG DISABLED: console.log(`✅ UI RENDERING - loading=${loading}, places=${places.length}, filteredPlaces=${filteredPlaces.length}`);
@@ -594,131 +817,112 @@ export function DiscoverScreen() {
 
     setShowSuggestions(false);
     Keyboard.dismiss(); // Dismiss keyboard when searching
+    await runSearch(searchQuery);
+  };
 
-    console.log('🔍 Search query:', searchQuery);
-    setLoading(true);
-    const parsed = parseLocationFromQuery(searchQuery);
-    console.log('📝 Parsed:', parsed);
-    
-    if (parsed.location) {
-      // User specified a location with "in/near/around" - geocode it
-      console.log('🗺️ Geocoding location from "in/near/around":', parsed.location);
-      const geocoded = await geocodeLocation(parsed.location, userGpsCoords || undefined);
-      
-      if (geocoded) {
-        console.log('✅ Setting coords to:', geocoded.coords);
-        // Update center to the new location
-        setCoords(geocoded.coords);
-        setCity(geocoded.formattedAddress);
-        fetchVibe(geocoded.coords.latitude, geocoded.coords.longitude, parsed.query);
-      } else {
-        setError('Could not find that location');
-        setLoading(false);
-      }
-    } else {
-      // No "in/near/around" keyword
-      // Only treat as location if:
-      // 1. Contains comma (e.g., "Rome, Italy" or "New York, NY")
-      // 2. Starts with "things to do" or "places to visit"
-      const hasComma = parsed.query.includes(',');
-      const isExplicitLocationQuery = /^(things to do|places to visit|things to see)/i.test(parsed.query);
-      
-      if (hasComma || isExplicitLocationQuery) {
-        // Explicit location format - try geocoding
-        console.log('🗺️ Query has location format, trying geocoding:', parsed.query);
-        const geocoded = await geocodeLocation(parsed.query, userGpsCoords || undefined);
-
-        if (geocoded) {
-          console.log('✅ Successfully geocoded, setting coords to:', geocoded.coords);
-          setCoords(geocoded.coords);
-          setCity(geocoded.formattedAddress);
-          // For location-only searches, show iconic tourist destinations
-          // Use "iconic places" to avoid triggering DO category filter
-          fetchVibe(geocoded.coords.latitude, geocoded.coords.longitude, 'iconic places');
-          return;
-        }
-      }
+  // Take places off the list now, with an undo that puts them back (unless a newer search replaced the list)
+  const removeWithUndo = (shouldRemove: (place: Place) => boolean, message: string, revert: () => Promise<void>) => {
+    const session = searchSessionRef.current;
+    const removed = places.map((place, index) => ({ place, index })).filter(({ place }) => shouldRemove(place));
+    setPlaces(prev => prev.filter(place => !shouldRemove(place)));
+    setUndoToast({
+      message,
+      undo: async () => {
+        await revert();
+        if (isStaleSession(session)) return;
+        setPlaces(prev => {
+          const restored = [...prev];
+          removed.forEach(({ place, index }) => {
+            if (!restored.some(p => p.id === place.id)) restored.splice(index, 0, place);
+          });
+          return restored;
+        });
+      },
+    });
+  };
 
-      // Filter out cuisine types and common search terms that aren't locations
-      const nonLocationKeywords = [
-        // Cuisines
-        'indian', 'chinese', 'japanese', 'thai', 'mexican', 'italian', 'french', 'korean',
-        'vietnamese', 'greek', 'spanish', 'mediterranean', 'american', 'brazilian',
-        // Food types
-        'pizza', 'ramen', 'sushi', 'burger', 'tacos', 'pasta', 'noodles', 'bbq',
-        'seafood', 'steak', 'chicken', 'breakfast', 'brunch', 'lunch', 'dinner',
-        // Drinks
-        'coffee', 'cafe', 'tea', 'bar', 'brewery', 'cocktail', 'beer', 'wine',
-        // Categories
-        'restaurant', 'food', 'eat', 'drink', 'pub', 'nightclub', 'lounge',
-        // Activities
-        'museum', 'park', 'gym', 'spa', 'shopping', 'mall'
-      ];
-
-      const queryLower = parsed.query.toLowerCase();
-      const isNonLocationQuery = nonLocationKeywords.some(keyword =>
-        queryLower === keyword || queryLower.includes(` ${keyword}`) || queryLower.includes(`${keyword} `)
-      );
-
-      // Try geocoding as potential location (e.g., "trinidad port of spain", "paris", "tokyo")
-      // This catches place names without explicit "in/near" keywords
-      // Skip geocoding for cuisine/food/activity searches
-      if (!isNonLocationQuery) {
-        console.log('🗺️ Attempting to geocode query as potential location:', parsed.query);
-        const geocoded = await geocodeLocation(parsed.query, userGpsCoords || undefined);
-
-        if (geocoded) {
-          // Successfully geocoded - this looks like a location!
-          console.log('✅ Query appears to be a location, setting coords to:', geocoded.coords);
-          setCoords(geocoded.coords);
-          setCity(geocoded.formattedAddress);
-          // For location-only searches, show iconic tourist destinations
-          // Use "iconic places" to avoid triggering DO category filter
-          fetchVibe(geocoded.coords.latitude, geocoded.coords.longitude, 'iconic places');
-          return;
+  const handleHidePlace = (place: Place, hidden: HiddenPlace) => {
+    removeWithUndo(p => p.id === place.id, `${place.name} hidden`, () => unhidePlace(hidden));
+  };
+
+  // Undo puts the preferences back as they were - a rule the user already had stays
+  const handleHideRule = ({ rule, previous }: VenueRuleChange) => {
+    removeWithUndo(place => placeMatchesRule(place, rule), rule.reason, () => saveVenueRulePreferences(previous));
+  };
+
+  const handleUndo = async () => {
+    const toast = undoToast;
+    setUndoToast(null);
+    try {
+      await toast?.undo();
+    } catch (error) {
+      console.error('Error undoing hide:', error);
+    }
+  };
+
+  // Build a themed crawl from the results, searching nearby for slots they can't fill
+  const handleBuildCrawl = async (themeId: CrawlThemeId) => {
+    if (!coords) return;
+    crawlAbortRef.current?.abort();
+    const controller = new AbortController();
+    crawlAbortRef.current = controller;
+    setCrawlLoadingTheme(themeId);
+    setCrawlError(null);
+
+    try {
+      const hiddenPlaces = await getHiddenPlaces();
+      let candidates = places;
+      // Like Discover's searches: grid cache first, and each provider search counts toward the free tier
+      for (const search of getCandidateSearches(themeId, places)) {
+        const categoryKey = search.categories.length === 1 ? search.categories[0] : undefined;
+        let nearby = await getGridCachedResults(coords.latitude, coords.longitude, categoryKey, search.query);
+        if (!nearby || nearby.length === 0) {
+          if (await hasExceededFreeTier()) {
+            setShowUpgradePrompt(true);
+            break;
+          }
+          nearby = (await getRecommendations(coords, search.query, 1.5, false, [], search.categories, null, controller.signal)).places;
+          setUsageStats(await trackSearch());
+          await saveGridCachedResults(coords.latitude, coords.longitude, nearby, categoryKey, search.query);
         }
+        candidates = dedupePlaces([...candidates, ...nearby.filter(place => !isPlaceHidden(place, hiddenPlaces))]);
       }
 
-      // If we reach here, either:
-      // 1. Query is a cuisine/food/activity search (isNonLocationQuery = true)
-      // 2. Geocoding failed
-      // In both cases, treat as local search query
-      console.log('🔍 Not a location, treating as local search query:', parsed.query);
-
-      // Check if this is a "near me" type query - should search from GPS location
-      const lowerQuery = parsed.query.toLowerCase();
-
-      // More precise "near me" detection to avoid false positives
-      const isNearMeQuery = lowerQuery.includes('near me') ||
-                            lowerQuery.includes('nearby') ||
-                            lowerQuery.includes('around here') ||
-                            lowerQuery.includes('close by') ||
-                            // Only treat "local" as reset if it's standalone or with generic terms
-                            (lowerQuery.includes('local') &&
-                             (lowerQuery === 'local' ||
-                              lowerQuery.match(/\blocal\s+(favorites|things|places|spots|recommendations)\b/)));
-
-      if (isNearMeQuery && userGpsCoords) {
-        // Reset to GPS location for "near me" searches
-        console.log('📍 "Near me" query detected - resetting to GPS location:', userGpsCoords);
-        setCoords(userGpsCoords);
-        if (userGpsCity) {
-          setCity(userGpsCity);
-        }
-        fetchVibe(userGpsCoords.latitude, userGpsCoords.longitude, parsed.query);
-      } else if (coords) {
-        // Use current map center for other searches
-        fetchVibe(coords.latitude, coords.longitude, parsed.query);
-      } else {
-        setError('Please enable location first');
-        setLoading(false);
+      const result = buildCrawl(themeId, candidates, coords);
+      if (!result) {
+        setCrawlError(`Couldn't find enough open spots within walking distance for a ${getCrawlTheme(themeId).label.toLowerCase()}.`);
+        return;
+      }
+      setCrawl(result);
+      setShowCrawlPicker(false);
+      setShowFullMap(true);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error building crawl:', error);
+      setCrawlError('Something went wrong building the crawl. Try again.');
+    } finally {
+      if (crawlAbortRef.current === controller) {
+        crawlAbortRef.current = null;
+        setCrawlLoadingTheme(null);
       }
     }
   };
 
-  const handleHidePlace = (placeName: string) => {
-    // Remove the hidden place from the current list immediately
-    setPlaces(prev => prev.filter(p => p.name !== placeName));
+  const handleCloseCrawlPicker = () => {
+    crawlAbortRef.current?.abort();
+    setShowCrawlPicker(false);
+    setCrawlError(null);
+  };
+
+  const handleSaveCrawl = async () => {
+    if (!crawl) return;
+    try {
+      const collection = await saveCrawlAsCollection(crawl);
+      Alert.alert('Crawl Saved', `"${collection.name}" is in your collections with its day plan.`, [{ text: 'OK' }]);
+    } catch (error) {
+      console.error('Error saving crawl:', error);
+      Alert.alert('Error', 'Could not save the crawl. Please try again.');
+    }
   };
 
   const handleSuggestionClick = async (suggestion: string) => {
@@ -727,70 +931,7 @@ export function DiscoverScreen() {
     Keyboard.dismiss(); // Dismiss keyboard to close suggestions
 
     // Trigger search immediately for suggestions
-    console.log('🔍 Search query:', suggestion);
-    setLoading(true);
-    const parsed = parseLocationFromQuery(suggestion);
-    console.log('📝 Parsed:', parsed);
-
-    if (parsed.location) {
-      // User specified a location with "in/near/around" - geocode it
-      console.log('🗺️ Geocoding location from "in/near/around":', parsed.location);
-      const geocoded = await geocodeLocation(parsed.location, userGpsCoords || undefined);
-
-      if (geocoded) {
-        console.log('✅ Setting coords to:', geocoded.coords);
-        setCoords(geocoded.coords);
-        setCity(geocoded.formattedAddress);
-        fetchVibe(geocoded.coords.latitude, geocoded.coords.longitude, parsed.query);
-      } else {
-        setError('Could not find that location');
-        setLoading(false);
-      }
-    } else {
-      // Try geocoding as potential location first
-      console.log('🗺️ Attempting to geocode suggestion as potential location:', parsed.query);
-      const geocoded = await geocodeLocation(parsed.query, userGpsCoords || undefined);
-
-      if (geocoded) {
-        // Successfully geocoded - this looks like a location!
-        console.log('✅ Suggestion appears to be a location, setting coords to:', geocoded.coords);
-        setCoords(geocoded.coords);
-        setCity(geocoded.formattedAddress);
-        // For location-only searches, show iconic tourist destinations
-        // Use "iconic places" to avoid triggering DO category filter
-        fetchVibe(geocoded.coords.latitude, geocoded.coords.longitude, 'iconic places');
-        return;
-      }
-
-      // Check if this is a "near me" type query
-      const lowerQuery = parsed.query.toLowerCase();
-
-      // More precise "near me" detection to avoid false positives
-      const isNearMeQuery = lowerQuery.includes('near me') ||
-                            lowerQuery.includes('nearby') ||
-                            lowerQuery.includes('around here') ||
-                            lowerQuery.includes('close by') ||
-                            // Only treat "local" as reset if it's standalone or with generic terms
-                            (lowerQuery.includes('local') &&
-                             (lowerQuery === 'local' ||
-                              lowerQuery.match(/\blocal\s+(favorites|things|places|spots|recommendations)\b/)));
-
-      if (isNearMeQuery && userGpsCoords) {
-        // Reset to GPS location for "near me" searches
-        console.log('📍 "Near me" query detected - resetting to GPS location:', userGpsCoords);
-        setCoords(userGpsCoords);
-        if (userGpsCity) {
-          setCity(userGpsCity);
-        }
-        fetchVibe(userGpsCoords.latitude, userGpsCoords.longitude, parsed.query);
-      } else if (coords) {
-        // Use current map center for other searches
-        fetchVibe(coords.latitude, coords.longitude, parsed.query);
-      } else {
-        setError('Please enable location first');
-        setLoading(false);
-      }
-    }
+    await runSearch(suggestion);
   };
 
   const handleCancelSearch = () => {
@@ -819,6 +960,22 @@ export function DiscoverScreen() {
       {/* Usage Indicator - Shows when ≤3 searches remaining */}
       <UsageIndicator stats={usageStats} onUpgradePress={() => setShowUpgradePrompt(true)} />
 
+      {/* Offline Banner - what the results come from, and whether a search is waiting */}
+      {isOffline && (
+        <View style={styles.offlineBanner}>
+          <Text style={styles.offlineBannerTitle}>📵 You're offline</Text>
+          <Text style={styles.offlineBannerText}>
+            {offlineSource === 'pack' && offlineCityPack ? `Showing your ${offlineCityPack.name} city pack.`
+              : offlineSource === 'grid' && lastUpdated ? `Showing results saved ${Math.floor((Date.now() - lastUpdated) / (1000 * 60 * 60))}h ago.`
+              : offlineSource === 'last' ? 'Showing your last results.'
+              : offlineSource === 'favorites' ? 'Showing your favorites nearby.'
+              : hasQueuedSearch ? 'Nothing is saved for this area yet.'
+              : 'Saved places and downloaded cities still work.'}
+            {hasQueuedSearch ? " Your search will run when you're back online." : ''}
+          </Text>
+        </View>
+      )}
+
       {/* Location Context Chip - Shows when searching different location */}
       {userGpsCoords && coords &&
        (Math.abs(userGpsCoords.latitude - coords.latitude) > 0.01 ||
@@ -829,9 +986,13 @@ export function DiscoverScreen() {
               <Path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z" />
               <Circle cx={12} cy={10} r={3} />
             </Svg>
-            <Text style={styles.locationContextText}>Searching in {city}</Text>
+            <Text style={styles.locationContextText}>
+              {pinnedTrip && isAtTripCenter ? `✈️ ${pinnedTrip.destination} trip` : `Searching in ${city}`}
+            </Text>
             <TouchableOpacity
               onPress={() => {
+                // Leaving the trip's destination unpins it
+                if (pinnedTrip && isAtTripCenter) handleUnpinTrip();
                 setCoords(userGpsCoords);
                 setSearchQuery('');
                 if (userGpsCity) setCity(userGpsCity);
@@ -927,7 +1088,7 @@ export function DiscoverScreen() {
             <View style={[styles.row, { gap }]}>
               {filteredPlaces.slice(0, 2).map((place, i) => (
                 <View key={place.id} style={{ width: cardWidth, height: cardHeight }}>
-                  <PlaceCard place={place} delay={i * 100} onSelect={setSelectedPlace} onHidePlace={handleHidePlace} coords={coords || undefined} index={i} />
+                  <PlaceCard place={place} delay={i * 100} onSelect={setSelectedPlace} onHidePlace={handleHidePlace} onHideRule={handleHideRule} city={city} coords={coords || undefined} index={i} />
                 </View>
               ))}
             </View>
@@ -958,6 +1119,8 @@ export function DiscoverScreen() {
                       delay={0}
                       onSelect={setSelectedPlace}
                       onHidePlace={handleHidePlace}
+                      onHideRule={handleHideRule}
+                      city={city}
                       coords={coords || undefined}
                       index={2 + rowIndex * 2 + i}
                     />
@@ -1033,6 +1196,8 @@ export function DiscoverScreen() {
                         delay={placeIndex * 100}
                         onSelect={setSelectedPlace}
                         onHidePlace={handleHidePlace}
+                      onHideRule={handleHideRule}
+                      city={city}
                         coords={coords || undefined}
                         index={placeIndex}
                       />
@@ -1045,6 +1210,16 @@ export function DiscoverScreen() {
         )}
         </ScrollView>
 
+        {/* Undo hide */}
+        {undoToast && (
+          <View style={styles.undoToast}>
+            <Text style={styles.undoToastText} numberOfLines={2}>{undoToast.message}</Text>
+            <TouchableOpacity onPress={handleUndo} activeOpacity={0.7}>
+              <Text style={styles.undoToastButton}>Undo</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Search Bar */}
         <View style={styles.searchContainer}>
           <View style={styles.searchBarRow}>
@@ -1106,21 +1281,46 @@ export function DiscoverScreen() {
                 );
               })}
 
-              {/* Open Now Filter Toggle */}
+              {/* Open At Filter - now or any time in the coming week */}
               <TouchableOpacity
-                style={[styles.filterChip, openNowFilter && styles.filterChipActive]}
-                onPress={() => setOpenNowFilter(!openNowFilter)}
+                style={[styles.filterChip, openAtFilter !== null && styles.filterChipActive]}
+                onPress={() => setShowOpenAtPicker(true)}
                 activeOpacity={0.7}
               >
-                <Svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke={openNowFilter ? "#10b981" : "#64748b"} strokeWidth={2} style={{ marginRight: 6 }}>
+                <Svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke={openAtFilter !== null ? "#10b981" : "#64748b"} strokeWidth={2} style={{ marginRight: 6 }}>
                   <Circle cx={12} cy={12} r={10} />
                   <Path d="M12 6v6l4 2" />
                 </Svg>
-                <Text style={[styles.filterChipText, openNowFilter && styles.filterChipTextActive]}>
-                  Open Now
+                <Text style={[styles.filterChipText, openAtFilter !== null && styles.filterChipTextActive]}>
+                  {formatOpenAtFilter(openAtFilter)}
+                </Text>
+              </TouchableOpacity>
+
+              {/* Budget Filter - tap to cycle the max price tier */}
+              <TouchableOpacity
+                style={[styles.filterChip, budgetFilter !== null && styles.filterChipActive]}
+                onPress={cycleBudgetFilter}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.filterChipText, budgetFilter !== null && styles.filterChipTextActive]}>
+                  {budgetFilter ? `Up to ${formatPriceLevel(budgetFilter)}` : '$-$$$$'}
                 </Text>
               </TouchableOpacity>
 
+              {/* Crawl - a walkable themed route from these results */}
+              {places.length > 0 && (
+                <TouchableOpacity
+                  style={[styles.filterChip, crawl !== null && styles.filterChipActive]}
+                  onPress={() => (crawl ? setShowFullMap(true) : setShowCrawlPicker(true))}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.flameIcon}>🚶</Text>
+                  <Text style={[styles.filterChipText, crawl !== null && styles.filterChipTextActive]}>
+                    {crawl ? 'View crawl' : 'Make it a crawl'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {/* Hot & New Filter Toggle */}
               <TouchableOpacity
                 style={[styles.filterChip, hotAndNewFilter && styles.filterChipActive, hotAndNewFilter && styles.hotAndNewChipActive]}
@@ -1181,6 +1381,10 @@ export function DiscoverScreen() {
             }}
             userGpsCoords={userGpsCoords}
             city={city}
+            crawl={crawl}
+            offlineTilePathTemplate={offlineCityPack ? getPackTilePathTemplate(offlineCityPack) : undefined}
+            onSaveCrawl={handleSaveCrawl}
+            onClearCrawl={() => setCrawl(null)}
           />
         )}
 
@@ -1192,6 +1396,26 @@ export function DiscoverScreen() {
           />
         )}
 
+        {/* Open At Picker Modal */}
+        <OpenAtPicker
+          visible={showOpenAtPicker}
+          value={openAtFilter}
+          onSelect={value => {
+            setOpenAtFilter(value);
+            setShowOpenAtPicker(false);
+          }}
+          onClose={() => setShowOpenAtPicker(false)}
+        />
+
+        {/* Crawl Theme Picker */}
+        <CrawlPicker
+          visible={showCrawlPicker}
+          loadingTheme={crawlLoadingTheme}
+          error={crawlError}
+          onSelect={handleBuildCrawl}
+          onClose={handleCloseCrawlPicker}
+        />
+
         {/* Upgrade Prompt Modal */}
         <UpgradePrompt
           visible={showUpgradePrompt}
@@ -1204,6 +1428,17 @@ export function DiscoverScreen() {
           }}
         />
 
+        {/* Venue Filters Modal */}
+        <VenueFiltersModal
+          visible={showVenueFilters}
+          onClose={() => setShowVenueFilters(false)}
+          onChange={async () => {
+            // Cached results were filtered with the old rules
+            await clearCachedResults();
+            await clearGridCache();
+          }}
+        />
+
         {/* Hamburger Menu Modal */}
         <Modal
           visible={showMenu}
@@ -1282,6 +1517,25 @@ export function DiscoverScreen() {
                       </View>
                     </TouchableOpacity>
 
+                    <TouchableOpacity
+                      style={styles.menuButton}
+                      onPress={() => {
+                        setShowMenu(false);
+                        setShowVenueFilters(true);
+                      }}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.menuButtonContent}>
+                        <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#10b981" strokeWidth={2}>
+                          <Path d="M22 3H2l8 9.46V19l4 2v-8.54L22 3z"/>
+                        </Svg>
+                        <View style={styles.menuButtonText}>
+                          <Text style={styles.menuButtonTitle}>Venue Filters</Text>
+                          <Text style={styles.menuButtonSubtitle}>Choose which chains and venue types to hide</Text>
+                        </View>
+                      </View>
+                    </TouchableOpacity>
+
                     <TouchableOpacity
                       style={styles.menuButton}
                       onPress={async () => {
@@ -1481,6 +1735,46 @@ const styles = StyleSheet.create({
     padding: 4,
     borderRadius: 8,
   },
+  undoToast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#1e293b',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  undoToastText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#e2e8f0',
+  },
+  undoToastButton: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#6366f1',
+  },
+  offlineBanner: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: 'rgba(100, 116, 139, 0.15)',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(100, 116, 139, 0.3)',
+  },
+  offlineBannerTitle: {
+    fontSize: 13,
+    color: '#e2e8f0',
+    fontWeight: '600',
+  },
+  offlineBannerText: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
   locationContextContainer: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -1928,6 +2222,17 @@ export default function App() {
             ),
           }}
         />
+        <Tab.Screen
+          name="Downloads"
+          component={DownloadsScreen}
+          options={{
+            tabBarIcon: ({ color, size }) => (
+              <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={2}>
+                <Path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3" />
+              </Svg>
+            ),
+          }}
+        />
       </Tab.Navigator>
     </NavigationContainer>
   );
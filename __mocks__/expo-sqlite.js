@@ -0,0 +1,81 @@
+// expo-sqlite for Jest - a real SQLite engine (sql.js) in memory, with the async API the app uses
+// Closing keeps a database's contents until deleteDatabaseAsync, as on a device
+const initSqlJs = require('sql.js/dist/sql-asm.js');
+
+const closedDatabases = new Map(); // name → exported bytes
+let sqlJs = null;
+
+// Variadic, array or named params → what sql.js binds (undefined → NULL, booleans → 0/1 like expo-sqlite)
+const toBindParams = params => {
+  const values = params.length === 1 && typeof params[0] === 'object' && params[0] !== null ? params[0] : params;
+  const convert = value => (value === undefined ? null : typeof value === 'boolean' ? Number(value) : value);
+  return Array.isArray(values)
+    ? values.map(convert)
+    : Object.fromEntries(Object.entries(values).map(([key, value]) => [key, convert(value)]));
+};
+
+class SQLiteDatabase {
+  constructor(databaseName, db) {
+    this.databaseName = databaseName;
+    this.db = db;
+  }
+
+  async execAsync(source) {
+    this.db.exec(source);
+  }
+
+  async runAsync(source, ...params) {
+    this.db.run(source, toBindParams(params));
+    const changes = this.db.getRowsModified();
+    const [[lastInsertRowId]] = this.db.exec('SELECT last_insert_rowid()')[0].values;
+    return { changes, lastInsertRowId };
+  }
+
+  async getAllAsync(source, ...params) {
+    const statement = this.db.prepare(source);
+    try {
+      statement.bind(toBindParams(params));
+      const rows = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async getFirstAsync(source, ...params) {
+    const [first] = await this.getAllAsync(source, ...params);
+    return first ?? null;
+  }
+
+  async withTransactionAsync(task) {
+    this.db.exec('BEGIN');
+    try {
+      await task();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async withExclusiveTransactionAsync(task) {
+    await this.withTransactionAsync(() => task(this));
+  }
+
+  async closeAsync() {
+    closedDatabases.set(this.databaseName, this.db.export());
+    this.db.close();
+  }
+}
+
+const openDatabaseAsync = async databaseName => {
+  sqlJs = sqlJs || (await initSqlJs());
+  return new SQLiteDatabase(databaseName, new sqlJs.Database(closedDatabases.get(databaseName)));
+};
+
+const deleteDatabaseAsync = async databaseName => {
+  closedDatabases.delete(databaseName);
+};
+
+module.exports = { openDatabaseAsync, deleteDatabaseAsync, SQLiteDatabase };
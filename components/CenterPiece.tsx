@@ -28,19 +28,6 @@ const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c;
 };
 
-// Extract coordinates from mapLink (format: https://www.google.com/maps/search/?api=1&query=LAT,LNG...)
-const extractCoordsFromMapLink = (mapLink?: string): Coordinates | null => {
-  if (!mapLink) return null;
-  const match = mapLink.match(/query=([-\d.]+),([-\d.]+)/);
-  if (match) {
-    return {
-      latitude: parseFloat(match[1]),
-      longitude: parseFloat(match[2]),
-    };
-  }
-  return null;
-};
-
 // Get marker color based on place category
 const getCategoryColor = (category: PlaceCategory): string => {
   switch (category) {
@@ -65,12 +52,7 @@ export const CenterPiece: React.FC<CenterPieceProps> = ({
 }) => {
   const mapRef = useRef<MapView>(null);
 
-  // Extract place coordinates from mapLinks
-  const placeCoords = useMemo(() => {
-    return places
-      .map(place => extractCoordsFromMapLink(place.mapLink))
-      .filter((c): c is Coordinates => c !== null);
-  }, [places]);
+  const placeCoords = useMemo(() => places.map(place => place.location), [places]);
 
   // Determine if places are within 10 miles of user's GPS location
   const placesWithinRange = useMemo(() => {
@@ -194,14 +176,12 @@ export const CenterPiece: React.FC<CenterPieceProps> = ({
 
           {/* Show place markers with numbered pins */}
           {places
-            .filter(place => extractCoordsFromMapLink(place.mapLink))
             .map((place, index) => {
-              const coord = extractCoordsFromMapLink(place.mapLink)!;
               const categoryColor = getCategoryColor(place.category);
               return (
                 <Marker
                   key={`place-${place.id}`}
-                  coordinate={coord}
+                  coordinate={place.location}
                   anchor={{ x: 0.5, y: 1 }}
                   centerOffset={{ x: 0, y: -15 }}
                 >
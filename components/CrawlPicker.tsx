@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import { CRAWL_THEMES, CrawlThemeId } from '../services/crawl';
+import { formatTimeOfDay } from '../services/openingHours';
+
+interface CrawlPickerProps {
+  visible: boolean;
+  loadingTheme: CrawlThemeId | null; // Theme being built
+  error: string | null;
+  onSelect: (theme: CrawlThemeId) => void;
+  onClose: () => void;
+}
+
+const formatStartHour = (hour: number): string => {
+  const time = new Date();
+  time.setHours(hour, 0, 0, 0);
+  return formatTimeOfDay(time);
+};
+
+export const CrawlPicker: React.FC<CrawlPickerProps> = ({ visible, loadingTheme, error, onSelect, onClose }) => (
+  <Modal
+    visible={visible}
+    transparent
+    animationType="fade"
+    onRequestClose={onClose}
+  >
+    <View style={styles.overlay}>
+      <View style={styles.modal}>
+        <Text style={styles.title}>Make it a crawl</Text>
+        <Text style={styles.subtitle}>A walkable route from these results and spots nearby</Text>
+
+        {CRAWL_THEMES.map(theme => (
+          <TouchableOpacity
+            key={theme.id}
+            style={[styles.option, loadingTheme === theme.id && styles.optionActive]}
+            onPress={() => onSelect(theme.id)}
+            disabled={loadingTheme !== null}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.optionEmoji}>{theme.emoji}</Text>
+            <View style={styles.optionInfo}>
+              <Text style={styles.optionText}>{theme.label}</Text>
+              <Text style={styles.optionMeta}>
+                {theme.minStops}-{theme.slots.length} stops · from {formatStartHour(theme.startHour)}
+              </Text>
+            </View>
+            {loadingTheme === theme.id && <ActivityIndicator color="#f59e0b" />}
+          </TouchableOpacity>
+        ))}
+
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.8}>
+          <Text style={styles.closeButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    backgroundColor: '#1e293b',
+    borderRadius: 24,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#94a3b8',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#334155',
+    marginBottom: 8,
+  },
+  optionActive: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderColor: '#f59e0b',
+  },
+  optionEmoji: {
+    fontSize: 24,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  optionMeta: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  error: {
+    fontSize: 13,
+    color: '#fbbf24',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  closeButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  closeButtonText: {
+    color: '#94a3b8',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
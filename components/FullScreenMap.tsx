@@ -1,12 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Modal, TouchableOpacity, StyleSheet, Dimensions, Text, TextInput, Keyboard, ScrollView } from 'react-native';
-import MapView, { Marker, PROVIDER_GOOGLE, Region } from 'react-native-maps';
+import MapView, { LocalTile, Marker, Polyline, PROVIDER_GOOGLE, Region } from 'react-native-maps';
 import { Place, Coordinates, PlaceCategory } from '../types';
 import { Svg, Path, Circle } from 'react-native-svg';
-import { getPlaceLocation } from '../services/places';
 import { PlacePopup } from './PlacePopup';
-import { parseLocationFromQuery, geocodeLocation } from '../services/geocoding';
+import { resolveSearchTarget } from '../services/geocoding';
+import { parseQueryIntent } from '../services/queryIntent';
+import { Crawl } from '../services/crawl';
+import { formatTimeOfDay } from '../services/openingHours';
 
 interface FullScreenMapProps {
   visible: boolean;
@@ -16,6 +18,10 @@ interface FullScreenMapProps {
   onSearch: (coords: Coordinates, query?: string) => void;
   userGpsCoords: Coordinates | null;
   city: string;
+  crawl?: Crawl | null; // Shown as a numbered route instead of the results
+  offlineTilePathTemplate?: string; // City pack tiles, drawn while offline
+  onSaveCrawl?: () => void;
+  onClearCrawl?: () => void;
 }
 
 const { width, height } = Dimensions.get('window');
@@ -65,9 +71,12 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
   onClose,
   onSearch,
   userGpsCoords,
-  city
+  city,
+  crawl,
+  offlineTilePathTemplate,
+  onSaveCrawl,
+  onClearCrawl
 }) => {
-  const [placeLocations, setPlaceLocations] = useState<Record<string, { lat: number; lng: number }>>({});
   const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
@@ -75,6 +84,18 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
   const [showRedoSearch, setShowRedoSearch] = useState<boolean>(false);
   const mapRef = useRef<MapView>(null);
 
+  // Frame the whole route when a crawl is shown
+  useEffect(() => {
+    if (!visible || !crawl) return;
+    const timer = setTimeout(() => {
+      mapRef.current?.fitToCoordinates(crawl.stops.map(stop => stop.place.location), {
+        edgePadding: { top: 160, right: 60, bottom: 280, left: 60 },
+        animated: true,
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [visible, crawl]);
+
   // Search suggestion templates
   const getMajorCity = () => {
     const lowerCity = city.toLowerCase();
@@ -94,25 +115,29 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
     `iconic places in ${majorCity}`,
   ];
 
-  // Fetch real locations for all places
-  useEffect(() => {
-    if (!visible) return;
-
-    const fetchLocations = async () => {
-      const locations: Record<string, { lat: number; lng: number }> = {};
+  // Search where the query points (a named place, GPS for "near me") or the visible map center
+  const runSearch = async (text: string) => {
+    const intent = parseQueryIntent(text);
+    const center = currentRegion
+      ? { latitude: currentRegion.latitude, longitude: currentRegion.longitude }
+      : coords;
 
-      for (const place of places) {
-        const location = await getPlaceLocation(place.name, coords.latitude, coords.longitude);
-        if (location) {
-          locations[place.id] = location;
-        }
-      }
+    const target = await resolveSearchTarget(intent, userGpsCoords || undefined, center);
+    const targetCoords = target?.coords || center;
 
-      setPlaceLocations(locations);
-    };
+    if (target && target.source !== 'center') {
+      mapRef.current?.animateToRegion({
+        latitude: targetCoords.latitude,
+        longitude: targetCoords.longitude,
+        latitudeDelta: 0.05,
+        longitudeDelta: 0.05,
+      }, 1000);
+    }
 
-    fetchLocations();
-  }, [visible, places, coords]);
+    // Location not found - search the map center for what was asked
+    onSearch(targetCoords, target ? target.query : intent.query);
+    setShowRedoSearch(false);
+  };
 
   // Handle search submission
   const handleSearch = async () => {
@@ -120,54 +145,7 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
 
     Keyboard.dismiss();
     setShowSuggestions(false);
-
-    const parsed = parseLocationFromQuery(searchQuery);
-
-    if (parsed.location) {
-      // User specified a location with "in/near/around" - geocode it
-      const geocoded = await geocodeLocation(parsed.location, userGpsCoords || undefined);
-      if (geocoded) {
-        // Animate map to new location
-        mapRef.current?.animateToRegion({
-          latitude: geocoded.coords.latitude,
-          longitude: geocoded.coords.longitude,
-          latitudeDelta: 0.05,
-          longitudeDelta: 0.05,
-        }, 1000);
-
-        // Trigger search
-        onSearch(geocoded.coords, parsed.query);
-        setShowRedoSearch(false);
-        return;
-      }
-    }
-
-    // Try geocoding as potential location
-    const geocoded = await geocodeLocation(parsed.query, userGpsCoords || undefined);
-    if (geocoded) {
-      // Animate map to location
-      mapRef.current?.animateToRegion({
-        latitude: geocoded.coords.latitude,
-        longitude: geocoded.coords.longitude,
-        latitudeDelta: 0.05,
-        longitudeDelta: 0.05,
-      }, 1000);
-
-      onSearch(geocoded.coords, 'iconic places');
-      setShowRedoSearch(false);
-      return;
-    }
-
-    // Not a location - search current map center
-    if (currentRegion) {
-      onSearch({
-        latitude: currentRegion.latitude,
-        longitude: currentRegion.longitude,
-      }, parsed.query);
-    } else {
-      onSearch(coords, parsed.query);
-    }
-    setShowRedoSearch(false);
+    await runSearch(searchQuery);
   };
 
   // Handle suggestion click
@@ -175,67 +153,7 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
     setSearchQuery(suggestion);
     setShowSuggestions(false);
     Keyboard.dismiss();
-
-    const parsed = parseLocationFromQuery(suggestion);
-
-    if (parsed.location) {
-      const geocoded = await geocodeLocation(parsed.location, userGpsCoords || undefined);
-      if (geocoded) {
-        mapRef.current?.animateToRegion({
-          latitude: geocoded.coords.latitude,
-          longitude: geocoded.coords.longitude,
-          latitudeDelta: 0.05,
-          longitudeDelta: 0.05,
-        }, 1000);
-
-        onSearch(geocoded.coords, parsed.query);
-        setShowRedoSearch(false);
-        return;
-      }
-    }
-
-    // Try geocoding as potential location
-    const geocoded = await geocodeLocation(parsed.query, userGpsCoords || undefined);
-    if (geocoded) {
-      mapRef.current?.animateToRegion({
-        latitude: geocoded.coords.latitude,
-        longitude: geocoded.coords.longitude,
-        latitudeDelta: 0.05,
-        longitudeDelta: 0.05,
-      }, 1000);
-
-      onSearch(geocoded.coords, 'iconic places');
-      setShowRedoSearch(false);
-      return;
-    }
-
-    // Check if "near me" - use GPS location
-    const isNearMeQuery = suggestion.toLowerCase().includes('near me') ||
-                          suggestion.toLowerCase().includes('nearby');
-
-    if (isNearMeQuery && userGpsCoords) {
-      mapRef.current?.animateToRegion({
-        latitude: userGpsCoords.latitude,
-        longitude: userGpsCoords.longitude,
-        latitudeDelta: 0.05,
-        longitudeDelta: 0.05,
-      }, 1000);
-
-      onSearch(userGpsCoords, parsed.query);
-      setShowRedoSearch(false);
-      return;
-    }
-
-    // Not a location - search current map center
-    if (currentRegion) {
-      onSearch({
-        latitude: currentRegion.latitude,
-        longitude: currentRegion.longitude,
-      }, parsed.query);
-    } else {
-      onSearch(coords, parsed.query);
-    }
-    setShowRedoSearch(false);
+    await runSearch(suggestion);
   };
 
   // Handle map region change (pan/zoom)
@@ -285,6 +203,11 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
           showsMyLocationButton={true}
           onRegionChangeComplete={handleRegionChangeComplete}
         >
+          {/* Downloaded tiles - the base map can't load offline */}
+          {offlineTilePathTemplate && (
+            <LocalTile pathTemplate={offlineTilePathTemplate} tileSize={256} zIndex={-1} />
+          )}
+
           {/* User location marker */}
           <Marker
             coordinate={{
@@ -295,20 +218,40 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
             pinColor="#6366f1"
           />
           
+          {/* Crawl route */}
+          {crawl && (
+            <Polyline
+              coordinates={crawl.stops.map(stop => stop.place.location)}
+              strokeColor="#f59e0b"
+              strokeWidth={4}
+              lineDashPattern={[8, 6]}
+            />
+          )}
+          {crawl?.stops.map((stop, index) => (
+            <Marker
+              key={`crawl-${stop.place.id}`}
+              coordinate={stop.place.location}
+              onPress={() => setSelectedPlace(stop.place)}
+            >
+              <View style={styles.customMarkerContainer}>
+                <View style={styles.markerContent}>
+                  <View style={[styles.markerIcon, styles.crawlMarker]}>
+                    <Text style={styles.crawlMarkerNumber}>{index + 1}</Text>
+                  </View>
+                  <View style={styles.markerLabel}>
+                    <Text style={[styles.markerText, { color: '#f59e0b' }]}>{stop.place.name}</Text>
+                  </View>
+                </View>
+              </View>
+            </Marker>
+          ))}
+
           {/* Place markers */}
-          {places.map((place) => {
-            const location = placeLocations[place.id];
-            
-            // Skip if location hasn't loaded yet
-            if (!location) return null;
-            
+          {!crawl && places.map((place) => {
             return (
               <Marker
                 key={place.id}
-                coordinate={{
-                  latitude: location.lat,
-                  longitude: location.lng,
-                }}
+                coordinate={place.location}
                 onPress={() => {
                   setSelectedPlace(place);
                 }}
@@ -406,8 +349,37 @@ export const FullScreenMap: React.FC<FullScreenMapProps> = ({
           </View>
         </View>
 
+        {/* Crawl Summary */}
+        {crawl && (
+          <View style={styles.crawlCard}>
+            <Text style={styles.crawlTitle}>{crawl.title}</Text>
+            <Text style={styles.crawlMeta}>
+              {crawl.stops.length} stops · {crawl.totalWalkKm.toFixed(1)} km walk · {formatTimeOfDay(crawl.start)} – {formatTimeOfDay(crawl.end)}
+            </Text>
+            <ScrollView style={styles.crawlStops} showsVerticalScrollIndicator={false}>
+              {crawl.stops.map((stop, index) => (
+                <TouchableOpacity key={stop.place.id} onPress={() => setSelectedPlace(stop.place)} activeOpacity={0.7}>
+                  <Text style={styles.crawlStop} numberOfLines={1}>
+                    <Text style={styles.crawlStopTime}>{index + 1}. {formatTimeOfDay(stop.arrival)}</Text>
+                    {'  '}{stop.place.name} · {stop.label}
+                    {index > 0 ? `  (${stop.walkMinutes} min walk)` : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <View style={styles.crawlActions}>
+              <TouchableOpacity style={styles.crawlSaveButton} onPress={onSaveCrawl} activeOpacity={0.8}>
+                <Text style={styles.crawlSaveText}>Save as collection</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.crawlClearButton} onPress={onClearCrawl} activeOpacity={0.8}>
+                <Text style={styles.crawlClearText}>Show all results</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Redo Search Button */}
-        {showRedoSearch && (
+        {showRedoSearch && !crawl && (
           <TouchableOpacity
             onPress={handleRedoSearch}
             style={styles.redoSearchButton}
@@ -577,6 +549,78 @@ const styles = StyleSheet.create({
     color: '#cbd5e1',
     fontWeight: '500',
   },
+  crawlMarker: {
+    backgroundColor: '#f59e0b',
+  },
+  crawlMarkerNumber: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  crawlCard: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 32,
+    backgroundColor: 'rgba(15, 23, 42, 0.95)',
+    borderRadius: 20,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.4)',
+  },
+  crawlTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  crawlMeta: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  crawlStops: {
+    maxHeight: 130,
+  },
+  crawlStop: {
+    fontSize: 13,
+    color: '#e2e8f0',
+    paddingVertical: 3,
+  },
+  crawlStopTime: {
+    color: '#f59e0b',
+    fontWeight: '600',
+  },
+  crawlActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  crawlSaveButton: {
+    flex: 1,
+    backgroundColor: '#f59e0b',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  crawlSaveText: {
+    color: '#0f172a',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  crawlClearButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#334155',
+    alignItems: 'center',
+  },
+  crawlClearText: {
+    color: '#94a3b8',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   redoSearchButton: {
     position: 'absolute',
     top: 140,
@@ -0,0 +1,574 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Location from 'expo-location';
+import { PlacePopup } from './PlacePopup';
+import { Collection, Coordinates, Itinerary, Place, TravelMode } from '../types';
+import {
+  ItineraryConflict,
+  ScheduledStop,
+  formatDuration,
+  getPlanTime,
+  moveStop,
+  planItinerary,
+  removeStop,
+  scheduleItinerary,
+  setStopDwell,
+} from '../services/itinerary';
+import { formatDayLabel, formatTimeOfDay, toDateKey } from '../services/openingHours';
+
+interface ItineraryPlannerProps {
+  visible: boolean;
+  collection: Collection;
+  places: Place[];
+  onSave: (itinerary: Itinerary | null) => void;
+  onClose: () => void;
+}
+
+const DAYS_AHEAD = 7;
+const START_HOURS = Array.from({ length: 14 }, (_, i) => i + 7); // 7am - 8pm
+const DWELL_STEP_MINUTES = 15;
+
+const CONFLICT_LABELS: Record<ItineraryConflict, string> = {
+  'closed': 'Closed then',
+  'closes-during-visit': 'Closes during visit',
+  'past-midnight': 'Runs past midnight',
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const startOfDay = (offset: number): Date => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offset);
+  return date;
+};
+
+/**
+ * Last known (or current) position, null without permission
+ */
+const getStartLocation = async (): Promise<Coordinates | null> => {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+    const position = await Location.getLastKnownPositionAsync() || await Location.getCurrentPositionAsync({});
+    return position ? { latitude: position.coords.latitude, longitude: position.coords.longitude } : null;
+  } catch (error) {
+    console.error('Error getting start location:', error);
+    return null;
+  }
+};
+
+const formatTravel = (stop: ScheduledStop, mode: TravelMode): string => {
+  const verb = mode === 'walk' ? 'walk' : 'drive';
+  const distance = stop.distanceKm < 1 ? `${Math.round(stop.distanceKm * 1000)} m` : `${stop.distanceKm.toFixed(1)} km`;
+  return `${formatDuration(stop.travelMinutes)} ${verb} · ${distance}`;
+};
+
+export const ItineraryPlanner: React.FC<ItineraryPlannerProps> = ({
+  visible,
+  collection,
+  places,
+  onSave,
+  onClose,
+}) => {
+  const [itinerary, setItinerary] = useState<Itinerary | null>(collection.itinerary || null);
+  const [editingSetup, setEditingSetup] = useState<boolean>(!collection.itinerary);
+  const [dayOffset, setDayOffset] = useState(0);
+  const [startHour, setStartHour] = useState(10);
+  const [travelMode, setTravelMode] = useState<TravelMode>('walk');
+  const [fromMyLocation, setFromMyLocation] = useState(true);
+  const [planning, setPlanning] = useState(false);
+  const [locationNote, setLocationNote] = useState<string | null>(null);
+  const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
+
+  // Start from the saved plan each time the planner opens
+  useEffect(() => {
+    if (!visible) return;
+    const saved = collection.itinerary || null;
+    setItinerary(saved);
+    setEditingSetup(!saved);
+    setLocationNote(null);
+    if (saved) {
+      const offset = Math.round((getPlanTime(saved.date, 0).getTime() - startOfDay(0).getTime()) / (24 * 60 * 60 * 1000));
+      setDayOffset(Math.max(0, Math.min(DAYS_AHEAD - 1, offset)));
+      setStartHour(Math.floor(saved.startMinutes / 60));
+      setTravelMode(saved.travelMode);
+      setFromMyLocation(!!saved.start);
+    }
+  }, [visible, collection.id]);
+
+  const days = useMemo(() => Array.from({ length: DAYS_AHEAD }, (_, i) => startOfDay(i)), [visible]);
+
+  const schedule = useMemo(
+    () => (itinerary ? scheduleItinerary(itinerary, places) : null),
+    [itinerary, places]
+  );
+
+  const updateItinerary = (next: Itinerary | null) => {
+    setItinerary(next);
+    onSave(next);
+  };
+
+  const handlePlan = async () => {
+    if (places.length === 0) return;
+    setPlanning(true);
+    let start: Coordinates | undefined;
+    if (fromMyLocation) {
+      start = (await getStartLocation()) || undefined;
+      setLocationNote(start ? null : 'Location unavailable - starting at the first stop');
+    }
+    const plan = planItinerary(places, {
+      date: toDateKey(startOfDay(dayOffset)),
+      startMinutes: startHour * 60,
+      start,
+      travelMode,
+    });
+    setPlanning(false);
+    setEditingSetup(false);
+    updateItinerary(plan);
+  };
+
+  const renderSetup = () => (
+    <View>
+      <Text style={styles.sectionLabel}>Day</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.optionRow}>
+        {days.map((day, i) => (
+          <TouchableOpacity
+            key={i}
+            style={[styles.option, dayOffset === i && styles.optionActive]}
+            onPress={() => setDayOffset(i)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.optionText, dayOffset === i && styles.optionTextActive]}>
+              {capitalize(formatDayLabel(day))}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Text style={styles.sectionLabel}>Start time</Text>
+      <View style={styles.timeGrid}>
+        {START_HOURS.map(h => {
+          const time = new Date();
+          time.setHours(h, 0, 0, 0);
+          return (
+            <TouchableOpacity
+              key={h}
+              style={[styles.option, styles.timeOption, startHour === h && styles.optionActive]}
+              onPress={() => setStartHour(h)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.optionText, startHour === h && styles.optionTextActive]}>
+                {formatTimeOfDay(time)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.sectionLabel}>Start from</Text>
+      <View style={styles.optionRow}>
+        {[true, false].map(value => (
+          <TouchableOpacity
+            key={String(value)}
+            style={[styles.option, fromMyLocation === value && styles.optionActive]}
+            onPress={() => setFromMyLocation(value)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.optionText, fromMyLocation === value && styles.optionTextActive]}>
+              {value ? '📍 My location' : '🏁 First stop'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionLabel}>Getting around</Text>
+      <View style={styles.optionRow}>
+        {(['walk', 'drive'] as TravelMode[]).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.option, travelMode === mode && styles.optionActive]}
+            onPress={() => setTravelMode(mode)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.optionText, travelMode === mode && styles.optionTextActive]}>
+              {mode === 'walk' ? '🚶 Walk' : '🚗 Drive'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, places.length === 0 && styles.buttonDisabled]}
+        onPress={handlePlan}
+        disabled={planning || places.length === 0}
+        activeOpacity={0.8}
+      >
+        {planning ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Plan {places.length} stops</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderPlan = () => {
+    if (!itinerary || !schedule) return null;
+    const planDate = getPlanTime(itinerary.date, 0);
+
+    return (
+      <View>
+        <View style={styles.summary}>
+          <Text style={styles.summaryTitle}>
+            {capitalize(formatDayLabel(planDate))} · {formatTimeOfDay(schedule.start)} – {formatTimeOfDay(schedule.end)}
+          </Text>
+          <Text style={styles.summaryMeta}>
+            {schedule.stops.length} stops · {schedule.totalDistanceKm.toFixed(1)} km {itinerary.travelMode === 'walk' ? 'walking' : 'driving'}
+          </Text>
+          {schedule.conflictCount > 0 && (
+            <Text style={styles.summaryConflicts}>
+              ⚠️ {schedule.conflictCount} {schedule.conflictCount === 1 ? 'stop conflicts' : 'stops conflict'} with opening hours
+            </Text>
+          )}
+          {locationNote && <Text style={styles.summaryMeta}>{locationNote}</Text>}
+        </View>
+
+        {schedule.stops.map((stop, index) => (
+          <View key={stop.place.id}>
+            {(index > 0 || itinerary.start) && stop.travelMinutes > 0 && (
+              <Text style={styles.travel}>↓ {formatTravel(stop, itinerary.travelMode)}</Text>
+            )}
+            {stop.waitMinutes > 0 && (
+              <Text style={styles.travel}>⏳ Wait {formatDuration(stop.waitMinutes)} for it to open</Text>
+            )}
+            <View style={[styles.stopCard, stop.conflicts.length > 0 && styles.stopCardConflict]}>
+              <TouchableOpacity style={styles.stopInfo} onPress={() => setSelectedPlace(stop.place)} activeOpacity={0.7}>
+                <Text style={styles.stopTime}>
+                  {formatTimeOfDay(stop.arrival)} – {formatTimeOfDay(stop.departure)}
+                </Text>
+                <Text style={styles.stopName} numberOfLines={1}>{stop.place.name}</Text>
+                {stop.conflicts.map(conflict => (
+                  <Text key={conflict} style={styles.conflict}>⚠️ {CONFLICT_LABELS[conflict]}</Text>
+                ))}
+                {!stop.hoursKnown && stop.conflicts.length === 0 && (
+                  <Text style={styles.hoursUnknown}>Hours unknown - check before you go</Text>
+                )}
+              </TouchableOpacity>
+
+              <View style={styles.stopControls}>
+                <View style={styles.controlRow}>
+                  <TouchableOpacity
+                    style={styles.controlButton}
+                    onPress={() => updateItinerary(moveStop(itinerary, index, -1))}
+                    disabled={index === 0}
+                  >
+                    <Text style={[styles.controlText, index === 0 && styles.controlTextDisabled]}>▲</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.controlButton}
+                    onPress={() => updateItinerary(moveStop(itinerary, index, 1))}
+                    disabled={index === schedule.stops.length - 1}
+                  >
+                    <Text style={[styles.controlText, index === schedule.stops.length - 1 && styles.controlTextDisabled]}>▼</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.controlButton}
+                    onPress={() => updateItinerary(removeStop(itinerary, stop.place.id))}
+                  >
+                    <Text style={styles.controlText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.controlRow}>
+                  <TouchableOpacity
+                    style={styles.controlButton}
+                    onPress={() => updateItinerary(setStopDwell(itinerary, stop.place.id, stop.dwellMinutes - DWELL_STEP_MINUTES))}
+                  >
+                    <Text style={styles.controlText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.dwell}>{formatDuration(stop.dwellMinutes)}</Text>
+                  <TouchableOpacity
+                    style={styles.controlButton}
+                    onPress={() => updateItinerary(setStopDwell(itinerary, stop.place.id, stop.dwellMinutes + DWELL_STEP_MINUTES))}
+                  >
+                    <Text style={styles.controlText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          </View>
+        ))}
+
+        {schedule.unplanned.length > 0 && (
+          <View style={styles.unplanned}>
+            <Text style={styles.sectionLabel}>Not in the plan</Text>
+            {schedule.unplanned.map(place => (
+              <Text key={place.id} style={styles.unplannedName}>{place.name}</Text>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handlePlan} disabled={planning} activeOpacity={0.8}>
+          {planning ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {schedule.unplanned.length > 0 ? 'Re-plan with all places' : 'Re-optimize order'}
+            </Text>
+          )}
+        </TouchableOpacity>
+        <View style={styles.secondaryRow}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditingSetup(true)} activeOpacity={0.7}>
+            <Text style={styles.secondaryButtonText}>Change day or start</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => {
+              updateItinerary(null);
+              setEditingSetup(true);
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.secondaryButtonText, styles.deleteText]}>Delete plan</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title} numberOfLines={1}>
+            {collection.icon} {collection.name}
+          </Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {editingSetup || !itinerary ? renderSetup() : renderPlan()}
+        </ScrollView>
+      </SafeAreaView>
+
+      {selectedPlace && (
+        <PlacePopup
+          place={selectedPlace}
+          onClose={() => setSelectedPlace(null)}
+        />
+      )}
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#020617',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(51, 65, 85, 0.3)',
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#e2e8f0',
+  },
+  closeButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  closeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#94a3b8',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingBottom: 16,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  optionActive: {
+    backgroundColor: 'rgba(99, 102, 241, 0.15)',
+    borderColor: '#6366f1',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#cbd5e1',
+    fontWeight: '500',
+  },
+  optionTextActive: {
+    color: '#818cf8',
+  },
+  timeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  timeOption: {
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+    paddingVertical: 14,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#94a3b8',
+  },
+  deleteText: {
+    color: '#f87171',
+  },
+  summary: {
+    marginBottom: 16,
+  },
+  summaryTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#e2e8f0',
+    marginBottom: 4,
+  },
+  summaryMeta: {
+    fontSize: 13,
+    color: '#94a3b8',
+    marginBottom: 2,
+  },
+  summaryConflicts: {
+    fontSize: 13,
+    color: '#fbbf24',
+    marginTop: 4,
+  },
+  travel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginVertical: 6,
+    marginLeft: 12,
+  },
+  stopCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  stopCardConflict: {
+    borderColor: 'rgba(251, 191, 36, 0.6)',
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopTime: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#818cf8',
+    marginBottom: 2,
+  },
+  stopName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e2e8f0',
+  },
+  conflict: {
+    fontSize: 12,
+    color: '#fbbf24',
+    marginTop: 4,
+  },
+  hoursUnknown: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  stopControls: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  controlRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  controlButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+  },
+  controlText: {
+    fontSize: 13,
+    color: '#cbd5e1',
+  },
+  controlTextDisabled: {
+    color: '#334155',
+  },
+  dwell: {
+    minWidth: 52,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#cbd5e1',
+  },
+  unplanned: {
+    marginTop: 16,
+  },
+  unplannedName: {
+    fontSize: 14,
+    color: '#cbd5e1',
+    marginBottom: 4,
+  },
+});
@@ -1,13 +1,14 @@
 
 import React, { useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, Animated } from 'react-native';
+import { View, Text, StyleSheet, Animated, TouchableOpacity } from 'react-native';
 import { Svg, Path, Circle } from 'react-native-svg';
 
 interface LoadingScreenProps {
   status: string;
+  onCancel?: () => void; // Shows a Cancel button that stops the search in flight
 }
 
-export const LoadingScreen: React.FC<LoadingScreenProps> = ({ status }) => {
+export const LoadingScreen: React.FC<LoadingScreenProps> = ({ status, onCancel }) => {
   const spinAnim = useRef(new Animated.Value(0)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
@@ -60,6 +61,12 @@ export const LoadingScreen: React.FC<LoadingScreenProps> = ({ status }) => {
       <Animated.Text style={[styles.status, { opacity: pulseAnim }]}>
         {status}
       </Animated.Text>
+
+      {onCancel && (
+        <TouchableOpacity onPress={onCancel} style={styles.cancelButton} activeOpacity={0.8}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -118,4 +125,17 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     textAlign: 'center',
   },
+  cancelButton: {
+    marginTop: 32,
+    paddingVertical: 10,
+    paddingHorizontal: 28,
+    borderWidth: 1,
+    borderColor: '#334155',
+    borderRadius: 12,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#cbd5e1',
+  },
 });
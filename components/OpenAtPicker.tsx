@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { formatDayLabel, formatTimeOfDay } from '../services/openingHours';
+
+// 'now' follows the clock; a Date is a fixed time in the coming week; null = any time
+export type OpenAtFilter = 'now' | Date | null;
+
+interface OpenAtPickerProps {
+  visible: boolean;
+  value: OpenAtFilter;
+  onSelect: (value: OpenAtFilter) => void;
+  onClose: () => void;
+}
+
+const DAYS_AHEAD = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOURS = Array.from({ length: 19 }, (_, i) => i + 6); // 6am - midnight
+
+const startOfDay = (offset: number): Date => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offset);
+  return date;
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Chip label for the current selection
+ */
+export const formatOpenAtFilter = (value: OpenAtFilter): string => {
+  if (value === null) return 'Open at…';
+  if (value === 'now') return 'Open Now';
+  return `Open ${formatDayLabel(value)} ${formatTimeOfDay(value)}`;
+};
+
+export const OpenAtPicker: React.FC<OpenAtPickerProps> = ({ visible, value, onSelect, onClose }) => {
+  const [dayOffset, setDayOffset] = useState(0);
+  const [hour, setHour] = useState(20);
+
+  // Start from the current selection each time the picker opens
+  useEffect(() => {
+    if (!visible || !(value instanceof Date)) return;
+    // Midnight is shown as the end of the previous day
+    const isMidnight = value.getHours() === 0;
+    const day = new Date(value);
+    day.setHours(0, 0, 0, 0);
+    const offset = Math.round((day.getTime() - startOfDay(0).getTime()) / DAY_MS) - (isMidnight ? 1 : 0);
+    setDayOffset(Math.max(0, Math.min(DAYS_AHEAD - 1, offset)));
+    setHour(isMidnight ? 24 : value.getHours());
+  }, [visible]);
+
+  const days = useMemo(() => Array.from({ length: DAYS_AHEAD }, (_, i) => startOfDay(i)), [visible]);
+
+  const handleApply = () => {
+    const date = startOfDay(dayOffset);
+    date.setHours(hour); // 24 rolls over to midnight of the next day
+    onSelect(date);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>Open at…</Text>
+
+          <TouchableOpacity
+            style={[styles.nowButton, value === 'now' && styles.optionActive]}
+            onPress={() => onSelect('now')}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.nowButtonText}>Open Now</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionLabel}>Day</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.optionRow}>
+            {days.map((day, i) => (
+              <TouchableOpacity
+                key={i}
+                style={[styles.option, dayOffset === i && styles.optionActive]}
+                onPress={() => setDayOffset(i)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.optionText, dayOffset === i && styles.optionTextActive]}>
+                  {capitalize(formatDayLabel(day))}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.sectionLabel}>Time</Text>
+          <View style={styles.timeGrid}>
+            {HOURS.map(h => {
+              const time = new Date();
+              time.setHours(h % 24, 0, 0, 0);
+              return (
+                <TouchableOpacity
+                  key={h}
+                  style={[styles.option, styles.timeOption, hour === h && styles.optionActive]}
+                  onPress={() => setHour(h)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.optionText, hour === h && styles.optionTextActive]}>
+                    {formatTimeOfDay(time)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity style={styles.applyButton} onPress={handleApply} activeOpacity={0.8}>
+            <Text style={styles.applyButtonText}>Show places open then</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.closeButton} onPress={() => onSelect(null)} activeOpacity={0.8}>
+            <Text style={styles.closeButtonText}>Any time</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    backgroundColor: '#1e293b',
+    borderRadius: 24,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  nowButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#334155',
+    marginBottom: 16,
+  },
+  nowButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#94a3b8',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  optionRow: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  optionActive: {
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+    borderColor: '#10b981',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#cbd5e1',
+    fontWeight: '500',
+  },
+  optionTextActive: {
+    color: '#10b981',
+  },
+  timeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  timeOption: {
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  applyButton: {
+    backgroundColor: '#10b981',
+    paddingVertical: 14,
+    borderRadius: 16,
+    marginBottom: 4,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  closeButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    color: '#94a3b8',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
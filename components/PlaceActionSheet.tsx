@@ -8,6 +8,10 @@ interface PlaceActionSheetProps {
   isSaved?: boolean;
   onSave: () => void;
   onRemove: () => void;
+  chainName?: string; // Offers "hide this chain everywhere" when known
+  onHideChain?: () => void;
+  categoryName?: string; // Foursquare category - offers hiding all of them
+  onHideCategory?: () => void;
   onShare: () => void;
   onClose: () => void;
 }
@@ -18,6 +22,10 @@ export const PlaceActionSheet: React.FC<PlaceActionSheetProps> = ({
   isSaved = false,
   onSave,
   onRemove,
+  chainName,
+  onHideChain,
+  categoryName,
+  onHideCategory,
   onShare,
   onClose,
 }) => {
@@ -62,6 +70,34 @@ export const PlaceActionSheet: React.FC<PlaceActionSheetProps> = ({
             </Svg>
             <Text style={styles.actionText}>Hide (Don't Show Again)</Text>
           </TouchableOpacity>
+
+          {chainName && onHideChain && (
+            <TouchableOpacity
+              style={styles.action}
+              onPress={() => { onHideChain(); onClose(); }}
+              activeOpacity={0.7}
+            >
+              <Svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="#f97316" strokeWidth={2}>
+                <Path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+                <Path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+              </Svg>
+              <Text style={styles.actionText} numberOfLines={1}>Hide every {chainName}</Text>
+            </TouchableOpacity>
+          )}
+
+          {categoryName && onHideCategory && (
+            <TouchableOpacity
+              style={styles.action}
+              onPress={() => { onHideCategory(); onClose(); }}
+              activeOpacity={0.7}
+            >
+              <Svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="#f97316" strokeWidth={2}>
+                <Path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z" />
+                <Path d="M7 7h.01" />
+              </Svg>
+              <Text style={styles.actionText} numberOfLines={1}>Hide all "{categoryName}" places</Text>
+            </TouchableOpacity>
+          )}
           
           <TouchableOpacity 
             style={styles.action}
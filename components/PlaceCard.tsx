@@ -3,8 +3,11 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, Image, TouchableOpacity, StyleSheet, Animated, Share, Alert } from 'react-native';
 import { Place, PlaceCategory } from '../types';
 import { getPlacePhotos } from '../services/places';
-import { hidePlace } from '../services/storage';
-import { getFavorites, savePlaceToFavorites, removePlaceFromFavorites } from '../services/collections';
+import { hidePlace, HiddenPlace } from '../services/storage';
+import { hideChain, hideFoursquareCategory, VenueRuleChange } from '../services/venueRules';
+import { formatPriceLevel } from '../services/price';
+import { getOpenBadge } from '../services/openingHours';
+import { isPlaceFavorited, savePlaceToFavorites, removePlaceFromFavorites } from '../services/collections';
 import { PlaceActionSheet } from './PlaceActionSheet';
 import { LinearGradient } from 'expo-linear-gradient';
 
@@ -12,7 +15,9 @@ interface PlaceCardProps {
   place: Place;
   delay: number;
   onSelect: (place: Place) => void;
-  onHidePlace?: (placeName: string) => void;
+  onHidePlace?: (place: Place, hidden: HiddenPlace) => void; // Parent removes it and offers undo
+  onHideRule?: (change: VenueRuleChange) => void; // "Hide this chain / category" - parent drops every match
+  city?: string; // Stored with a hidden place
   coords?: { latitude: number; longitude: number };
   index?: number; // Map marker number
 }
@@ -26,10 +31,11 @@ const getCategoryColor = (cat: PlaceCategory) => {
   }
 };
 
-export const PlaceCard: React.FC<PlaceCardProps> = ({ place, delay, onSelect, onHidePlace, coords, index }) => {
+export const PlaceCard: React.FC<PlaceCardProps> = ({ place, delay, onSelect, onHidePlace, onHideRule, city, coords, index }) => {
   const [imgError, setImgError] = useState(false);
   const [placeImages, setPlaceImages] = useState<string[]>(place.images || []);
   const [showActionSheet, setShowActionSheet] = useState(false);
+  const openBadge = getOpenBadge(place); // "Closing soon" / "Opens at 5pm"
   const [isSaved, setIsSaved] = useState(false);
   const [isClosed, setIsClosed] = useState(false); // Track if business is closed
   const [fadeAnim] = useState(new Animated.Value(0));
@@ -41,8 +47,7 @@ export const PlaceCard: React.FC<PlaceCardProps> = ({ place, delay, onSelect, on
   // Check if place is already favorited
   useEffect(() => {
     const checkSaved = async () => {
-      const favorites = await getFavorites();
-      setIsSaved(favorites.some(p => p.id === place.id));
+      setIsSaved(await isPlaceFavorited(place.id));
     };
     checkSaved();
   }, [place.id]);
@@ -95,14 +100,31 @@ export const PlaceCard: React.FC<PlaceCardProps> = ({ place, delay, onSelect, on
 
   const handleHide = async () => {
     try {
-      await hidePlace(place.name);
-      Alert.alert('Hidden', `${place.name} won't appear in future recommendations.`, [{ text: 'OK' }]);
-      onHidePlace?.(place.name);
+      const hidden = await hidePlace(place, city);
+      onHidePlace?.(place, hidden);
     } catch (error) {
       Alert.alert('Error', 'Failed to hide place');
     }
   };
 
+  const handleHideChain = async () => {
+    if (!place.chain) return;
+    try {
+      onHideRule?.(await hideChain(place.chain));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to hide chain');
+    }
+  };
+
+  const handleHideCategory = async () => {
+    if (!place.foursquareCategory) return;
+    try {
+      onHideRule?.(await hideFoursquareCategory(place.foursquareCategory));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to hide category');
+    }
+  };
+
   const handleShare = async () => {
     try {
       const message = `Check out ${place.name}!\n\n${place.description}\n\n${place.reason}${
@@ -179,6 +201,12 @@ export const PlaceCard: React.FC<PlaceCardProps> = ({ place, delay, onSelect, on
                 {place.rating ? place.rating.split(' ')[0] : 'N/A'}
               </Text>
             </View>
+            {place.priceLevel && (
+              <Text style={styles.priceText}>{formatPriceLevel(place.priceLevel)}</Text>
+            )}
+            {openBadge && (
+              <Text style={styles.openBadgeText}>{openBadge}</Text>
+            )}
           </View>
         </View>
 
@@ -201,6 +229,10 @@ export const PlaceCard: React.FC<PlaceCardProps> = ({ place, delay, onSelect, on
         isSaved={isSaved}
         onSave={handleSave}
         onRemove={handleHide}
+        chainName={place.chain}
+        onHideChain={handleHideChain}
+        categoryName={place.foursquareCategory?.name}
+        onHideCategory={handleHideCategory}
         onShare={handleShare}
         onClose={() => setShowActionSheet(false)}
       />
@@ -283,6 +315,16 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#fbbf24',
   },
+  priceText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#34d399',
+  },
+  openBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#fb923c',
+  },
   numberBadge: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -13,11 +13,15 @@ import {
   PanResponder,
   Linking
 } from 'react-native';
-import { Place, PlaceCategory } from '../types';
-import { fetchWikiImage } from '../services/wikipedia';
+import { Place, PlaceCategory, RankingSignal } from '../types';
+import { fetchWikiEnrichment, formatFoundedYear, WikiEnrichment } from '../services/wikipedia';
+import { formatPriceLevel } from '../services/price';
+import { getOpenBadge } from '../services/openingHours';
 // Google Places API removed - too expensive ($300/day in testing)
 import { generateTipsForPlace } from '../services/gemini';
 import { trackPlaceView } from '../services/usage';
+import { isOnline } from '../services/connectivity';
+import { getPackPlace } from '../services/offlinePacks';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Svg, Path, Circle, Line, Polyline } from 'react-native-svg';
 
@@ -36,6 +40,18 @@ const getCategoryColor = (cat: PlaceCategory) => {
   }
 };
 
+// "https://www.example.com/" → "example.com"
+const formatWebsite = (url: string): string =>
+  url.replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/$/, '');
+
+const SIGNAL_LABELS: Record<RankingSignal, string> = {
+  popularity: 'Popularity',
+  distance: 'Distance',
+  openNow: 'Open now',
+  novelty: 'Something new',
+  affinity: 'Your taste',
+};
+
 const { width, height } = Dimensions.get('window');
 const SHEET_HEIGHT_INITIAL = height * 0.75; // Initial height
 const SHEET_HEIGHT_EXPANDED = height * 0.90; // Expanded height
@@ -45,6 +61,8 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
   const [fetchedImages, setFetchedImages] = useState<string[]>([]);
   const [loadingImages, setLoadingImages] = useState(true);
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+  const [wiki, setWiki] = useState<WikiEnrichment | null>(null); // "About" section
+  const openBadge = getOpenBadge(place); // "Closing soon" / "Opens at 5pm"
 
   const translateY = useRef(new Animated.Value(0)).current;
   const currentPosition = useRef(SHEET_HEIGHT_EXPANDED - SHEET_HEIGHT_INITIAL);
@@ -204,6 +222,8 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
 
   // Fetch real photos when popup opens
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchPhotos = async () => {
         setLoadingImages(true);
 
@@ -212,22 +232,35 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
         // DISABLED: Google Places API calls are too expensive ($300/day in testing)
         // Photos now come only from Foursquare/OSM via place.images
 
-        // Try Wikipedia ONLY for landmarks/sights (restaurants rarely have wiki pages and names can be ambiguous)
-        if (place.category === PlaceCategory.EXPLORE) {
-          const wikiImage = await fetchWikiImage(place.name);
-          if (wikiImage && !photos.includes(wikiImage)) {
-             photos.unshift(wikiImage);
+        // Offline - photos and the About section come from a downloaded city pack
+        if (!(await isOnline())) {
+          const packed = await getPackPlace(place.id);
+          if (controller.signal.aborted) return;
+          if (packed) {
+            setWiki(packed.wiki);
+            setFetchedImages(packed.photos);
+            setLoadingImages(false);
+            return;
           }
         }
 
-        // Use images passed from card (Foursquare/OSM photos)
-        if (place.images && place.images.length > 0) {
-           const existing = new Set(photos);
-           place.images.forEach(img => {
-             if (!existing.has(img)) photos.push(img);
-           });
+        // Wikipedia/Commons photos - only when an article matches this place by location
+        let wikiPhotos: string[] = [];
+        try {
+          const enrichment = await fetchWikiEnrichment(place, controller.signal);
+          setWiki(enrichment);
+          wikiPhotos = enrichment?.images.map(image => image.url) || [];
+        } catch {
+          return; // Popup closed
         }
 
+        // Use images passed from card (Foursquare/OSM photos)
+        // Commons photos lead for sights, venue photos lead for restaurants and bars
+        const sourcePhotos = place.category === PlaceCategory.EXPLORE
+          ? [...wikiPhotos, ...(place.images || [])]
+          : [...(place.images || []), ...wikiPhotos];
+        photos = Array.from(new Set(sourcePhotos));
+
         // Limit to max 8 images total
         photos = photos.slice(0, 8);
 
@@ -235,6 +268,8 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
         setLoadingImages(false);
     };
     fetchPhotos();
+
+    return () => controller.abort();
   }, [place.name, place.images, userCoords]);
 
   // Lazy-load tips when component mounts (if not already present)
@@ -400,6 +435,9 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
                     <Text style={styles.starIcon}>★</Text>
                     <Text style={styles.ratingText}>{place.rating}</Text>
                   </View>
+                  {place.priceLevel && (
+                    <Text style={styles.priceText}>{formatPriceLevel(place.priceLevel)}</Text>
+                  )}
                 </View>
                 <Text style={styles.name}>{place.name}</Text>
                 {place.address && (
@@ -408,6 +446,17 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
                 {place.phone && (
                   <Text style={styles.phone}>{place.phone}</Text>
                 )}
+                {place.website && (
+                  <TouchableOpacity onPress={() => Linking.openURL(place.website!)} activeOpacity={0.7}>
+                    <Text style={styles.website} numberOfLines={1}>{formatWebsite(place.website)}</Text>
+                  </TouchableOpacity>
+                )}
+                {openBadge && (
+                  <Text style={styles.openBadge}>{openBadge}</Text>
+                )}
+                {place.hours && (
+                  <Text style={styles.hours}>{place.hours}</Text>
+                )}
               </View>
             </View>
 
@@ -427,6 +476,69 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
               )}
             </View>
 
+            {/* Why This Is Here - ranking breakdown */}
+            {place.score && (
+              <View style={styles.vibeSection}>
+                <Text style={styles.sectionTitle}>WHY THIS IS HERE</Text>
+                {place.score.components.map(component => (
+                  <View key={component.signal} style={styles.scoreRow}>
+                    <View style={styles.scoreLabelRow}>
+                      <Text style={styles.scoreLabel}>{SIGNAL_LABELS[component.signal]}</Text>
+                      <Text style={styles.scoreValue}>+{(component.contribution * 100).toFixed(0)}</Text>
+                    </View>
+                    <View style={styles.scoreTrack}>
+                      <View style={[styles.scoreFill, { width: `${Math.round(component.value * 100)}%` }]} />
+                    </View>
+                    <Text style={styles.scoreDetail}>{component.detail}</Text>
+                  </View>
+                ))}
+                <Text style={styles.scoreTotal}>Score {(place.score.total * 100).toFixed(0)} / 100</Text>
+              </View>
+            )}
+
+            {/* About - Wikipedia/Wikidata */}
+            {wiki && (
+              <View style={styles.vibeSection}>
+                <Text style={styles.sectionTitle}>ABOUT</Text>
+                {wiki.extract && (
+                  <Text style={styles.aboutText} numberOfLines={8}>{wiki.extract}</Text>
+                )}
+                {wiki.foundedYear !== undefined && (
+                  <View style={styles.aboutFact}>
+                    <Text style={styles.aboutLabel}>Founded</Text>
+                    <Text style={styles.aboutValue}>{formatFoundedYear(wiki.foundedYear)}</Text>
+                  </View>
+                )}
+                {wiki.heritage.length > 0 && (
+                  <View style={styles.aboutFact}>
+                    <Text style={styles.aboutLabel}>Heritage</Text>
+                    <Text style={styles.aboutValue}>{wiki.heritage.join(', ')}</Text>
+                  </View>
+                )}
+                {wiki.website && !place.website && (
+                  <TouchableOpacity style={styles.aboutFact} onPress={() => Linking.openURL(wiki.website!)} activeOpacity={0.7}>
+                    <Text style={styles.aboutLabel}>Website</Text>
+                    <Text style={[styles.aboutValue, styles.website]} numberOfLines={1}>{formatWebsite(wiki.website)}</Text>
+                  </TouchableOpacity>
+                )}
+                {wiki.images.length > 0 && (
+                  <View style={styles.aboutCredits}>
+                    <Text style={styles.aboutLabel}>Photos from Wikimedia Commons</Text>
+                    {wiki.images.map(image => (
+                      <TouchableOpacity key={image.title} onPress={() => Linking.openURL(image.descriptionUrl)} activeOpacity={0.7}>
+                        <Text style={styles.aboutCredit} numberOfLines={1}>
+                          {[image.artist || 'Unknown author', image.license].filter(Boolean).join(' · ')}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+                <TouchableOpacity onPress={() => Linking.openURL(wiki.articleUrl)} activeOpacity={0.7}>
+                  <Text style={styles.aboutLink}>Read more on Wikipedia →</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             {/* Know Before You Go Tips */}
             {loadingTips && (
               <View style={styles.tipsSection}>
@@ -513,6 +625,9 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
                       <Text style={styles.starIcon}>★</Text>
                       <Text style={styles.ratingText}>{place.rating}</Text>
                     </View>
+                    {place.priceLevel && (
+                      <Text style={styles.priceText}>{formatPriceLevel(place.priceLevel)}</Text>
+                    )}
                   </View>
                   <Text style={styles.name}>{place.name}</Text>
                   {place.address && (
@@ -521,6 +636,17 @@ export const PlacePopup: React.FC<PlacePopupProps> = ({ place, onClose, userCoor
                   {place.phone && (
                     <Text style={styles.phone}>{place.phone}</Text>
                   )}
+                  {place.website && (
+                    <TouchableOpacity onPress={() => Linking.openURL(place.website!)} activeOpacity={0.7}>
+                      <Text style={styles.website} numberOfLines={1}>{formatWebsite(place.website)}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {openBadge && (
+                    <Text style={styles.openBadge}>{openBadge}</Text>
+                  )}
+                  {place.hours && (
+                    <Text style={styles.hours}>{place.hours}</Text>
+                  )}
                 </View>
               </View>
 
@@ -786,6 +912,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fbbf24',
   },
+  priceText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#34d399',
+  },
   name: {
     fontSize: 26,
     fontWeight: 'bold',
@@ -803,6 +934,23 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     lineHeight: 20,
   },
+  website: {
+    fontSize: 14,
+    color: '#38bdf8',
+    lineHeight: 20,
+  },
+  hours: {
+    fontSize: 13,
+    color: '#64748b',
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  openBadge: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fb923c',
+    marginTop: 4,
+  },
   vibeSection: {
     backgroundColor: 'rgba(30, 41, 59, 0.5)',
     padding: 16,
@@ -838,6 +986,81 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     fontWeight: '600',
   },
+  scoreRow: {
+    marginTop: 10,
+  },
+  scoreLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  scoreLabel: {
+    fontSize: 13,
+    color: '#e2e8f0',
+    fontWeight: '600',
+  },
+  scoreValue: {
+    fontSize: 13,
+    color: '#818cf8',
+    fontWeight: '600',
+  },
+  scoreTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(51, 65, 85, 0.8)',
+    overflow: 'hidden',
+  },
+  scoreFill: {
+    height: 4,
+    backgroundColor: '#818cf8',
+  },
+  scoreDetail: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+  scoreTotal: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 12,
+    textAlign: 'right',
+  },
+  aboutText: {
+    fontSize: 15,
+    color: '#e2e8f0',
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  aboutFact: {
+    flexDirection: 'row',
+    marginTop: 6,
+    gap: 12,
+  },
+  aboutLabel: {
+    fontSize: 13,
+    color: '#94a3b8',
+    fontWeight: '600',
+    minWidth: 70,
+  },
+  aboutValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#e2e8f0',
+  },
+  aboutCredits: {
+    marginTop: 12,
+    gap: 2,
+  },
+  aboutCredit: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  aboutLink: {
+    fontSize: 13,
+    color: '#818cf8',
+    fontWeight: '600',
+    marginTop: 12,
+  },
   tipsSection: {
     paddingHorizontal: 20,
     paddingVertical: 16,
@@ -42,7 +42,7 @@ export const UpgradePrompt: React.FC<UpgradePromptProps> = ({ visible, stats, on
             </View>
             <View style={styles.feature}>
               <Text style={styles.checkmark}>✓</Text>
-              <Text style={styles.featureText}>Offline saved places</Text>
+              <Text style={styles.featureText}>Offline city packs</Text>
             </View>
             <View style={styles.feature}>
               <Text style={styles.checkmark}>✓</Text>
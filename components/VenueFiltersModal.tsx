@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Switch, TextInput } from 'react-native';
+import {
+  VENUE_RULE_SETS,
+  VenueRulePreferences,
+  getVenueRulePreferences,
+  getVenueRuleSet,
+  getDeviceRuleSetId,
+  setVenueRuleRegion,
+  setVenueRuleEnabled,
+  addAllowedVenueName,
+  removeAllowedVenueName,
+} from '../services/venueRules';
+
+interface VenueFiltersModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onChange: () => void; // Rules changed - cached results are stale
+}
+
+export const VenueFiltersModal: React.FC<VenueFiltersModalProps> = ({ visible, onClose, onChange }) => {
+  const [prefs, setPrefs] = useState<VenueRulePreferences | null>(null);
+  const [allowInput, setAllowInput] = useState<string>('');
+
+  const loadPrefs = async () => {
+    setPrefs(await getVenueRulePreferences());
+  };
+
+  useEffect(() => {
+    if (visible) loadPrefs();
+  }, [visible]);
+
+  const update = async (action: () => Promise<void>) => {
+    await action();
+    await loadPrefs();
+    onChange();
+  };
+
+  const handleAllow = () => {
+    const name = allowInput.trim();
+    if (!name) return;
+    setAllowInput('');
+    update(() => addAllowedVenueName(name));
+  };
+
+  const regionId = prefs?.region || getDeviceRuleSetId();
+  const ruleSet = getVenueRuleSet(regionId);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>Venue Filters</Text>
+          <Text style={styles.description}>
+            Places matching these rules are left out of your results.
+          </Text>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionTitle}>REGION</Text>
+            <View style={styles.chips}>
+              {VENUE_RULE_SETS.map(set => (
+                <TouchableOpacity
+                  key={set.id}
+                  style={[styles.chip, set.id === ruleSet.id && styles.chipActive]}
+                  onPress={() => update(() => setVenueRuleRegion(set.id))}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, set.id === ruleSet.id && styles.chipTextActive]}>{set.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>ALWAYS ALLOW</Text>
+            <View style={styles.allowRow}>
+              <TextInput
+                style={styles.allowInput}
+                value={allowInput}
+                onChangeText={setAllowInput}
+                onSubmitEditing={handleAllow}
+                placeholder="e.g. Starbucks"
+                placeholderTextColor="#64748b"
+                returnKeyType="done"
+              />
+              <TouchableOpacity style={styles.allowButton} onPress={handleAllow} activeOpacity={0.8}>
+                <Text style={styles.allowButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.chips}>
+              {prefs?.allowedNames.map(name => (
+                <TouchableOpacity
+                  key={name}
+                  style={styles.chip}
+                  onPress={() => update(() => removeAllowedVenueName(name))}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.chipText}>{name}  ✕</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>RULES</Text>
+            {[...ruleSet.rules, ...(prefs?.customRules || [])].map(rule => (
+              <View key={rule.id} style={styles.ruleRow}>
+                <Text style={styles.ruleText}>{rule.reason}</Text>
+                <Switch
+                  value={!prefs?.disabledRuleIds.includes(rule.id)}
+                  onValueChange={enabled => update(() => setVenueRuleEnabled(rule.id, enabled))}
+                  trackColor={{ false: '#334155', true: '#3b82f6' }}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.8}>
+            <Text style={styles.closeButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modal: {
+    backgroundColor: '#1e293b',
+    borderRadius: 24,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: '#94a3b8',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  content: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#64748b',
+    letterSpacing: 1,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(51, 65, 85, 0.6)',
+  },
+  chipActive: {
+    backgroundColor: '#3b82f6',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#cbd5e1',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  allowRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  allowInput: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.8)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: '#fff',
+    fontSize: 14,
+  },
+  allowButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  allowButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(71, 85, 105, 0.3)',
+  },
+  ruleText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#e2e8f0',
+    marginRight: 12,
+  },
+  closeButton: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 14,
+    borderRadius: 16,
+    marginTop: 16,
+  },
+  closeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,7 @@
+// In-memory AsyncStorage - each test file starts empty, call AsyncStorage.clear() between tests
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Services log every cache hit and save - keep test output readable
+jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -0,0 +1,437 @@
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Keyboard
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Coordinates, Trip } from '../types';
+import {
+  getCityPacks,
+  downloadCityPack,
+  deleteCityPack,
+  CityPack,
+  PackDownloadProgress,
+  PACK_STORAGE_BUDGET_BYTES
+} from '../services/offlinePacks';
+import { geocodeLocation } from '../services/geocoding';
+import { getTrips } from '../services/trips';
+import { isAbortError } from '../services/transport';
+import { Svg, Path } from 'react-native-svg';
+
+const STAGE_LABELS: Record<PackDownloadProgress['stage'], string> = {
+  results: 'Finding places',
+  details: 'Saving details',
+  photos: 'Saving photos',
+  tiles: 'Saving the map',
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const DownloadsScreen: React.FC = () => {
+  const [packs, setPacks] = useState<CityPack[]>([]);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [cityName, setCityName] = useState<string>('');
+  const [downloading, setDownloading] = useState<string | null>(null); // Name of the pack being downloaded
+  const [progress, setProgress] = useState<PackDownloadProgress | null>(null);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+
+  const loadData = useCallback(async () => {
+    const [packList, tripList] = await Promise.all([getCityPacks(), getTrips()]);
+    setPacks(packList);
+    setTrips(tripList);
+  }, []);
+
+  // Trips and evictions can change while another tab is open
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const usedBytes = packs.reduce((sum, pack) => sum + pack.sizeBytes, 0);
+
+  // Trip destinations that don't have a pack yet
+  const suggestedTrips = trips.filter(
+    trip => !packs.some(pack => pack.name.toLowerCase() === trip.destination.toLowerCase())
+  );
+
+  const handleDownload = async (name: string, knownCenter?: Coordinates) => {
+    const trimmed = name.trim();
+    if (!trimmed || downloading) return;
+    Keyboard.dismiss();
+
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    setDownloading(trimmed);
+    setProgress(null);
+
+    try {
+      const center = knownCenter || (await geocodeLocation(trimmed, undefined, controller.signal))?.coords;
+      if (!center) {
+        Alert.alert('City not found', `Could not find ${trimmed}`);
+        return;
+      }
+      const pack = await downloadCityPack(trimmed, center, { onProgress: setProgress, signal: controller.signal });
+      setCityName('');
+      Alert.alert('Ready offline', `${pack.name} is saved with ${pack.placeCount} places (${formatSize(pack.sizeBytes)}).`);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        Alert.alert('Download failed', error instanceof Error ? error.message : 'Please try again');
+      }
+    } finally {
+      downloadAbortRef.current = null;
+      setDownloading(null);
+      setProgress(null);
+      loadData();
+    }
+  };
+
+  const handleCancelDownload = () => {
+    downloadAbortRef.current?.abort();
+  };
+
+  const handleDeletePack = (pack: CityPack) => {
+    Alert.alert(
+      'Delete Download',
+      `Remove ${pack.name} from this device?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteCityPack(pack.id);
+            loadData();
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Downloads</Text>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer} showsVerticalScrollIndicator={false}>
+        {/* Storage */}
+        <View style={styles.storageCard}>
+          <View style={styles.storageRow}>
+            <Text style={styles.storageLabel}>Storage used</Text>
+            <Text style={styles.storageValue}>
+              {formatSize(usedBytes)} of {formatSize(PACK_STORAGE_BUDGET_BYTES)}
+            </Text>
+          </View>
+          <View style={styles.storageBar}>
+            <View style={[styles.storageBarFill, { width: `${Math.min(100, (usedBytes / PACK_STORAGE_BUDGET_BYTES) * 100)}%` }]} />
+          </View>
+          <Text style={styles.storageHint}>Older downloads are removed when space runs out</Text>
+        </View>
+
+        {/* Download a city */}
+        <Text style={styles.label}>Download a city</Text>
+        <Text style={styles.hint}>Places, photos and the map for the area - used automatically when you're offline</Text>
+        <View style={styles.downloadRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Lisbon"
+            placeholderTextColor="#64748b"
+            value={cityName}
+            onChangeText={setCityName}
+            onSubmitEditing={() => handleDownload(cityName)}
+            editable={!downloading}
+            returnKeyType="go"
+          />
+          <TouchableOpacity
+            style={[styles.downloadButton, (!cityName.trim() || !!downloading) && styles.downloadButtonDisabled]}
+            onPress={() => handleDownload(cityName)}
+            disabled={!cityName.trim() || !!downloading}
+            activeOpacity={0.7}
+          >
+            <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#fff" strokeWidth={2}>
+              <Path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3" />
+            </Svg>
+          </TouchableOpacity>
+        </View>
+
+        {suggestedTrips.length > 0 && !downloading && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.suggestions}>
+            {suggestedTrips.map(trip => (
+              <TouchableOpacity
+                key={trip.id}
+                style={styles.suggestionChip}
+                onPress={() => handleDownload(trip.destination, trip.destinationCoords)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.suggestionChipText}>✈️ {trip.destination}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {/* Download in progress */}
+        {downloading && (
+          <View style={styles.progressCard}>
+            <ActivityIndicator color="#6366f1" />
+            <View style={styles.progressInfo}>
+              <Text style={styles.progressTitle}>Downloading {downloading}</Text>
+              <Text style={styles.progressText}>
+                {progress ? `${STAGE_LABELS[progress.stage]} · ${progress.done}/${progress.total}` : 'Finding the city…'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={handleCancelDownload} activeOpacity={0.7}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Downloaded packs */}
+        {packs.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>📦</Text>
+            <Text style={styles.emptyTitle}>No downloads yet</Text>
+            <Text style={styles.emptyText}>Download a city before you travel to browse it without a connection</Text>
+          </View>
+        ) : (
+          packs.map(pack => (
+            <TouchableOpacity
+              key={pack.id}
+              style={styles.packCard}
+              onLongPress={() => handleDeletePack(pack)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.packIcon}>📦</Text>
+              <View style={styles.packInfo}>
+                <Text style={styles.packName}>{pack.name}</Text>
+                <Text style={styles.packMeta}>
+                  {pack.placeCount} places · {pack.photoCount} photos · {formatSize(pack.sizeBytes)}
+                </Text>
+                <Text style={styles.packDate}>Downloaded {new Date(pack.createdAt).toLocaleDateString()}</Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDeletePack(pack)} style={styles.deleteButton}>
+                <Svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="#64748b" strokeWidth={2}>
+                  <Path d="M3 6h18M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                </Svg>
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#020617',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 4,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(51, 65, 85, 0.3)',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#e2e8f0',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  storageCard: {
+    padding: 16,
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    marginBottom: 24,
+  },
+  storageRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  storageLabel: {
+    fontSize: 14,
+    color: '#94a3b8',
+  },
+  storageValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e2e8f0',
+  },
+  storageBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(15, 23, 42, 0.8)',
+    overflow: 'hidden',
+  },
+  storageBarFill: {
+    height: 6,
+    backgroundColor: '#6366f1',
+  },
+  storageHint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#94a3b8',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  downloadRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#e2e8f0',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  downloadButton: {
+    width: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    backgroundColor: '#6366f1',
+  },
+  downloadButtonDisabled: {
+    opacity: 0.4,
+  },
+  suggestions: {
+    marginBottom: 16,
+  },
+  suggestionChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(99, 102, 241, 0.3)',
+    marginRight: 8,
+  },
+  suggestionChipText: {
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  progressCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    backgroundColor: 'rgba(99, 102, 241, 0.1)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(99, 102, 241, 0.3)',
+    marginBottom: 16,
+  },
+  progressInfo: {
+    flex: 1,
+  },
+  progressTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#e2e8f0',
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#e2e8f0',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingHorizontal: 32,
+  },
+  packCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    marginBottom: 12,
+  },
+  packIcon: {
+    fontSize: 32,
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e2e8f0',
+    marginBottom: 4,
+  },
+  packMeta: {
+    fontSize: 13,
+    color: '#94a3b8',
+  },
+  packDate: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+});
@@ -8,12 +8,14 @@ import {
   TextInput,
   Modal,
   Dimensions,
-  Alert
+  Alert,
+  ActivityIndicator
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Place, Collection, HistoryEntry, Coordinates } from '../types';
+import { Place, Collection, HistoryEntry, Coordinates, Itinerary, Trip } from '../types';
 import { PlaceCard } from '../components/PlaceCard';
 import { PlacePopup } from '../components/PlacePopup';
+import { ItineraryPlanner } from '../components/ItineraryPlanner';
 import {
   getFavorites,
   getCollections,
@@ -21,35 +23,80 @@ import {
   createCollection,
   deleteCollection,
   getPlacesInCollection,
-  removePlaceFromFavorites
+  removePlaceFromFavorites,
+  saveItinerary
 } from '../services/collections';
+import {
+  getTrips,
+  createTrip,
+  updateTrip,
+  deleteTrip,
+  linkCollectionToTrip,
+  unlinkCollectionFromTrip,
+  startTrip,
+  getPinnedTrip,
+  unpinTrip,
+  getTripHistory,
+  groupHistoryByDay,
+  formatTripDates,
+  formatTripDay,
+  getTripEndDate
+} from '../services/trips';
+import { toDateKey } from '../services/openingHours';
+import { getHiddenPlaces, unhidePlace, HiddenPlace } from '../services/storage';
+import { getVenueRulePreferences, removeCustomVenueRule, VenueRule } from '../services/venueRules';
 import { Svg, Path, Circle } from 'react-native-svg';
 
 const { width } = Dimensions.get('window');
 
-type TabType = 'favorites' | 'collections' | 'history';
+type TabType = 'favorites' | 'collections' | 'trips' | 'history' | 'hidden';
 
 export const SavedPlacesScreen: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('favorites');
   const [favorites, setFavorites] = useState<Place[]>([]);
   const [collections, setCollections] = useState<Collection[]>([]);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [hiddenPlaces, setHiddenPlaces] = useState<HiddenPlace[]>([]);
+  const [hideRules, setHideRules] = useState<VenueRule[]>([]); // "Hide this chain / category"
   const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
   const [selectedCollection, setSelectedCollection] = useState<Collection | null>(null);
   const [collectionPlaces, setCollectionPlaces] = useState<Place[]>([]);
   const [showCreateCollection, setShowCreateCollection] = useState<boolean>(false);
   const [newCollectionName, setNewCollectionName] = useState<string>('');
   const [newCollectionIcon, setNewCollectionIcon] = useState<string>('⭐');
+  const [showPlanner, setShowPlanner] = useState<boolean>(false);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
+  const [pinnedTripId, setPinnedTripId] = useState<string | null>(null);
+  const [startingTripId, setStartingTripId] = useState<string | null>(null); // Pre-caching in progress
+  const [tripNotes, setTripNotes] = useState<string>('');
+  const [showCreateTrip, setShowCreateTrip] = useState<boolean>(false);
+  const [creatingTrip, setCreatingTrip] = useState<boolean>(false);
+  const [newTripDestination, setNewTripDestination] = useState<string>('');
+  const [newTripStartDate, setNewTripStartDate] = useState<string>(() => toDateKey(new Date()));
+  const [newTripDays, setNewTripDays] = useState<number>(3);
+  const [newTripHomeBase, setNewTripHomeBase] = useState<string>('');
+  const [newTripNotes, setNewTripNotes] = useState<string>('');
 
   const loadData = useCallback(async () => {
-    const [favs, colls, hist] = await Promise.all([
+    const [favs, colls, hist, tripList, pinned, hidden, venueRulePrefs] = await Promise.all([
       getFavorites(),
       getCollections(),
-      getHistory()
+      getHistory(),
+      getTrips(),
+      getPinnedTrip(),
+      getHiddenPlaces(),
+      getVenueRulePreferences()
     ]);
     setFavorites(favs);
     setCollections(colls);
     setHistory(hist);
+    setHiddenPlaces(hidden);
+    setHideRules(venueRulePrefs.customRules);
+    setTrips(tripList);
+    setPinnedTripId(pinned?.id || null);
+    // Keep an open trip in sync with what was just loaded
+    setSelectedTrip(prev => (prev ? tripList.find(t => t.id === prev.id) || null : null));
   }, []);
 
   useEffect(() => {
@@ -92,11 +139,125 @@ export const SavedPlacesScreen: React.FC = () => {
     setCollectionPlaces(places);
   };
 
+  const handleSaveItinerary = async (itinerary: Itinerary | null) => {
+    if (!selectedCollection) return;
+    await saveItinerary(selectedCollection.id, itinerary);
+    setSelectedCollection({ ...selectedCollection, itinerary: itinerary || undefined });
+    loadData();
+  };
+
+  const resetNewTrip = () => {
+    setNewTripDestination('');
+    setNewTripStartDate(toDateKey(new Date()));
+    setNewTripDays(3);
+    setNewTripHomeBase('');
+    setNewTripNotes('');
+  };
+
+  const handleCreateTrip = async () => {
+    if (!newTripDestination.trim() || creatingTrip) return;
+    setCreatingTrip(true);
+    try {
+      await createTrip({
+        destination: newTripDestination,
+        startDate: newTripStartDate.trim(),
+        endDate: getTripEndDate(newTripStartDate.trim(), newTripDays),
+        homeBase: newTripHomeBase,
+        notes: newTripNotes,
+      });
+      resetNewTrip();
+      setShowCreateTrip(false);
+      loadData();
+    } catch (error) {
+      Alert.alert('Could not create trip', error instanceof Error ? error.message : 'Please try again');
+    } finally {
+      setCreatingTrip(false);
+    }
+  };
+
+  const handleViewTrip = (trip: Trip) => {
+    setSelectedTrip(trip);
+    setTripNotes(trip.notes);
+  };
+
+  const handleDeleteTrip = (tripId: string) => {
+    Alert.alert(
+      'Delete Trip',
+      'Its collections and history stay saved.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteTrip(tripId);
+            if (selectedTrip?.id === tripId) {
+              setSelectedTrip(null);
+            }
+            loadData();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleStartTrip = async (trip: Trip) => {
+    setStartingTripId(trip.id);
+    try {
+      await startTrip(trip.id);
+      Alert.alert('Trip started', `Discover now searches around ${trip.destination}.`);
+    } catch (error) {
+      console.error('Error starting trip:', error);
+      Alert.alert('Could not start trip', 'Check your connection and try again');
+    } finally {
+      setStartingTripId(null);
+      loadData();
+    }
+  };
+
+  const handleUnpinTrip = async () => {
+    await unpinTrip();
+    setPinnedTripId(null);
+  };
+
+  const handleSaveTripNotes = async () => {
+    if (!selectedTrip || tripNotes === selectedTrip.notes) return;
+    await updateTrip(selectedTrip.id, { notes: tripNotes });
+    loadData();
+  };
+
+  const handleToggleTripCollection = async (collectionId: string) => {
+    if (!selectedTrip) return;
+    if (selectedTrip.collectionIds.includes(collectionId)) {
+      await unlinkCollectionFromTrip(selectedTrip.id, collectionId);
+    } else {
+      await linkCollectionToTrip(selectedTrip.id, collectionId);
+    }
+    loadData();
+  };
+
+  const handleOpenTripCollection = (collection: Collection) => {
+    setActiveTab('collections');
+    handleViewCollection(collection);
+  };
+
   const handleRemoveFavorite = async (placeId: string) => {
     await removePlaceFromFavorites(placeId);
     loadData();
   };
 
+  const handleUnhidePlace = async (entry: HiddenPlace) => {
+    await unhidePlace(entry);
+    loadData();
+  };
+
+  const handleRemoveHideRule = async (ruleId: string) => {
+    await removeCustomVenueRule(ruleId);
+    loadData();
+  };
+
+  const tripHistory = selectedTrip ? getTripHistory(selectedTrip, history) : [];
+
   const cardWidth = (width - 48) / 2; // 16px padding on each side + 16px gap
 
   const iconOptions = ['⭐', '🍕', '☕', '🍹', '🎭', '🏛️', '🌃', '💎', '🔥', '📍'];
@@ -132,6 +293,17 @@ export const SavedPlacesScreen: React.FC = () => {
           <View style={[styles.tabIndicator, activeTab === 'collections' && styles.tabIndicatorActive]} />
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'trips' && styles.tabActive]}
+          onPress={() => setActiveTab('trips')}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.tabText, activeTab === 'trips' && styles.tabTextActive]}>
+            Trips
+          </Text>
+          <View style={[styles.tabIndicator, activeTab === 'trips' && styles.tabIndicatorActive]} />
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.tab, activeTab === 'history' && styles.tabActive]}
           onPress={() => setActiveTab('history')}
@@ -142,6 +314,17 @@ export const SavedPlacesScreen: React.FC = () => {
           </Text>
           <View style={[styles.tabIndicator, activeTab === 'history' && styles.tabIndicatorActive]} />
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'hidden' && styles.tabActive]}
+          onPress={() => setActiveTab('hidden')}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.tabText, activeTab === 'hidden' && styles.tabTextActive]}>
+            Hidden
+          </Text>
+          <View style={[styles.tabIndicator, activeTab === 'hidden' && styles.tabIndicatorActive]} />
+        </TouchableOpacity>
       </View>
 
       {/* Content */}
@@ -162,7 +345,7 @@ export const SavedPlacesScreen: React.FC = () => {
                     place={place}
                     delay={index * 100}
                     onSelect={setSelectedPlace}
-                    onHidePlace={handleRemoveFavorite}
+                    onHidePlace={place => handleRemoveFavorite(place.id)}
                     coords={undefined}
                   />
                 </View>
@@ -188,6 +371,20 @@ export const SavedPlacesScreen: React.FC = () => {
                   </Text>
                   <Text style={styles.collectionCount}>{collectionPlaces.length} places</Text>
                 </View>
+                {collectionPlaces.length > 0 && (
+                  <TouchableOpacity
+                    style={styles.createCollectionButton}
+                    onPress={() => setShowPlanner(true)}
+                    activeOpacity={0.7}
+                  >
+                    <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#6366f1" strokeWidth={2}>
+                      <Path d="M8 2v4M16 2v4M3 10h18M5 4h14a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2z" />
+                    </Svg>
+                    <Text style={styles.createCollectionButtonText}>
+                      {selectedCollection.itinerary ? 'View day plan' : 'Plan a day'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
                 <View style={styles.gridContainer}>
                   {collectionPlaces.map((place, index) => (
                     <View key={place.id} style={{ width: cardWidth, marginBottom: 16 }}>
@@ -195,7 +392,7 @@ export const SavedPlacesScreen: React.FC = () => {
                         place={place}
                         delay={index * 100}
                         onSelect={setSelectedPlace}
-                        onHidePlace={handleRemoveFavorite}
+                        onHidePlace={place => handleRemoveFavorite(place.id)}
                         coords={undefined}
                       />
                     </View>
@@ -231,12 +428,198 @@ export const SavedPlacesScreen: React.FC = () => {
                       onPress={() => handleViewCollection(collection)}
                       onLongPress={() => handleDeleteCollection(collection.id)}
                       activeOpacity={0.7}
+                    >
+                      <Text style={styles.collectionCardIcon}>{collection.icon || '📁'}</Text>
+                      <View style={styles.collectionCardInfo}>
+                        <Text style={styles.collectionCardName}>{collection.name}</Text>
+                        <Text style={styles.collectionCardCount}>
+                          {collection.placeIds.length} places{collection.itinerary ? ' · Day planned' : ''}
+                        </Text>
+                      </View>
+                      <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#64748b" strokeWidth={2}>
+                        <Path d="M9 18l6-6-6-6" />
+                      </Svg>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </View>
+            )}
+          </>
+        )}
+
+        {/* Trips Tab */}
+        {activeTab === 'trips' && (
+          <>
+            {selectedTrip ? (
+              // Show trip details
+              <View>
+                <View style={styles.collectionHeader}>
+                  <TouchableOpacity onPress={() => setSelectedTrip(null)} style={styles.backButton}>
+                    <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#94a3b8" strokeWidth={2}>
+                      <Path d="M19 12H5M12 19l-7-7 7-7" />
+                    </Svg>
+                  </TouchableOpacity>
+                  <Text style={styles.collectionTitle}>✈️ {selectedTrip.destination}</Text>
+                  <Text style={styles.collectionCount}>{formatTripDates(selectedTrip)}</Text>
+                </View>
+
+                {selectedTrip.homeBase && (
+                  <Text style={styles.tripMeta}>🏨 Staying at {selectedTrip.homeBase.label}</Text>
+                )}
+
+                {pinnedTripId === selectedTrip.id ? (
+                  <TouchableOpacity
+                    style={styles.createCollectionButton}
+                    onPress={handleUnpinTrip}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.createCollectionButtonText}>📌 Search center in Discover · Unpin</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.createCollectionButton}
+                    onPress={() => handleStartTrip(selectedTrip)}
+                    disabled={startingTripId !== null}
+                    activeOpacity={0.7}
+                  >
+                    {startingTripId === selectedTrip.id ? (
+                      <ActivityIndicator color="#6366f1" />
+                    ) : (
+                      <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#6366f1" strokeWidth={2}>
+                        <Path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z" />
+                        <Circle cx={12} cy={10} r={3} />
+                      </Svg>
+                    )}
+                    <Text style={styles.createCollectionButtonText}>
+                      {startingTripId === selectedTrip.id ? `Getting ${selectedTrip.destination} ready…` : 'Start trip'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                {/* Notes */}
+                <Text style={styles.label}>Notes</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="Flights, bookings, ideas…"
+                  placeholderTextColor="#64748b"
+                  value={tripNotes}
+                  onChangeText={setTripNotes}
+                  onEndEditing={handleSaveTripNotes}
+                  multiline
+                />
+
+                {/* Linked Collections */}
+                <Text style={styles.label}>Collections</Text>
+                {collections
+                  .filter(collection => selectedTrip.collectionIds.includes(collection.id))
+                  .map(collection => (
+                    <TouchableOpacity
+                      key={collection.id}
+                      style={styles.collectionCard}
+                      onPress={() => handleOpenTripCollection(collection)}
+                      activeOpacity={0.7}
                     >
                       <Text style={styles.collectionCardIcon}>{collection.icon || '📁'}</Text>
                       <View style={styles.collectionCardInfo}>
                         <Text style={styles.collectionCardName}>{collection.name}</Text>
                         <Text style={styles.collectionCardCount}>{collection.placeIds.length} places</Text>
                       </View>
+                      <TouchableOpacity onPress={() => handleToggleTripCollection(collection.id)} style={styles.unlinkButton}>
+                        <Text style={styles.unlinkButtonText}>✕</Text>
+                      </TouchableOpacity>
+                    </TouchableOpacity>
+                  ))}
+                {collections.some(collection => !selectedTrip.collectionIds.includes(collection.id)) ? (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.linkPicker}>
+                    {collections
+                      .filter(collection => !selectedTrip.collectionIds.includes(collection.id))
+                      .map(collection => (
+                        <TouchableOpacity
+                          key={collection.id}
+                          style={styles.linkChip}
+                          onPress={() => handleToggleTripCollection(collection.id)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={styles.linkChipText}>+ {collection.icon || '📁'} {collection.name}</Text>
+                        </TouchableOpacity>
+                      ))}
+                  </ScrollView>
+                ) : (
+                  collections.length === 0 && (
+                    <Text style={styles.tripMeta}>Create a collection to link it to this trip</Text>
+                  )
+                )}
+
+                {/* History by day */}
+                <Text style={styles.label}>Discovered on this trip</Text>
+                {groupHistoryByDay(tripHistory).map(day => (
+                  <View key={day.date}>
+                    <Text style={styles.tripDayHeader}>{formatTripDay(day.date)}</Text>
+                    {day.entries.map(entry => (
+                      <TouchableOpacity
+                        key={`${entry.place.id}-${entry.viewedAt}`}
+                        style={styles.historyCard}
+                        onPress={() => setSelectedPlace(entry.place)}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.historyCardLeft}>
+                          <Text style={styles.historyPlaceName}>{entry.place.name}</Text>
+                          <Text style={styles.historyMeta}>
+                            {entry.location} • {new Date(entry.viewedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                          </Text>
+                          {entry.searchQuery && (
+                            <Text style={styles.historyQuery}>Searched: "{entry.searchQuery}"</Text>
+                          )}
+                        </View>
+                        <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#64748b" strokeWidth={2}>
+                          <Path d="M9 18l6-6-6-6" />
+                        </Svg>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                ))}
+                {tripHistory.length === 0 && (
+                  <Text style={styles.tripMeta}>Places you discover during the trip will appear here</Text>
+                )}
+              </View>
+            ) : (
+              // Show trips list
+              <View>
+                <TouchableOpacity
+                  style={styles.createCollectionButton}
+                  onPress={() => setShowCreateTrip(true)}
+                  activeOpacity={0.7}
+                >
+                  <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#6366f1" strokeWidth={2}>
+                    <Circle cx={12} cy={12} r={10} />
+                    <Path d="M12 8v8M8 12h8" />
+                  </Svg>
+                  <Text style={styles.createCollectionButtonText}>New Trip</Text>
+                </TouchableOpacity>
+
+                {trips.length === 0 ? (
+                  <View style={styles.emptyState}>
+                    <Text style={styles.emptyIcon}>✈️</Text>
+                    <Text style={styles.emptyTitle}>No trips yet</Text>
+                    <Text style={styles.emptyText}>Keep a trip's places, collections and notes together</Text>
+                  </View>
+                ) : (
+                  trips.map(trip => (
+                    <TouchableOpacity
+                      key={trip.id}
+                      style={styles.collectionCard}
+                      onPress={() => handleViewTrip(trip)}
+                      onLongPress={() => handleDeleteTrip(trip.id)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={styles.collectionCardIcon}>✈️</Text>
+                      <View style={styles.collectionCardInfo}>
+                        <Text style={styles.collectionCardName}>{trip.destination}</Text>
+                        <Text style={styles.collectionCardCount}>
+                          {formatTripDates(trip)} · {getTripHistory(trip, history).length} places
+                          {pinnedTripId === trip.id ? ' · Pinned' : ''}
+                        </Text>
+                      </View>
                       <Svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#64748b" strokeWidth={2}>
                         <Path d="M9 18l6-6-6-6" />
                       </Svg>
@@ -282,6 +665,50 @@ export const SavedPlacesScreen: React.FC = () => {
             )}
           </View>
         )}
+
+        {/* Hidden Tab */}
+        {activeTab === 'hidden' && (
+          <View>
+            {hiddenPlaces.length === 0 && hideRules.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyIcon}>🙈</Text>
+                <Text style={styles.emptyTitle}>Nothing hidden</Text>
+                <Text style={styles.emptyText}>Places, chains and categories you hide from Discover show up here</Text>
+              </View>
+            ) : (
+              <>
+                {hideRules.length > 0 && <Text style={styles.label}>Chains & categories</Text>}
+                {hideRules.map(rule => (
+                  <View key={rule.id} style={styles.historyCard}>
+                    <View style={styles.historyCardLeft}>
+                      <Text style={styles.historyPlaceName}>{rule.reason}</Text>
+                    </View>
+                    <TouchableOpacity onPress={() => handleRemoveHideRule(rule.id)} style={styles.unhideButton}>
+                      <Text style={styles.unhideButtonText}>Unhide</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
+                {hiddenPlaces.length > 0 && <Text style={styles.label}>Places</Text>}
+                {hiddenPlaces.map(entry => (
+                  <View key={entry.placeId || `name-${entry.name}`} style={styles.historyCard}>
+                    <View style={styles.historyCardLeft}>
+                      <Text style={styles.historyPlaceName}>{entry.name}</Text>
+                      <Text style={styles.historyMeta}>
+                        {entry.placeId
+                          ? [entry.city, new Date(entry.hiddenAt).toLocaleDateString()].filter(Boolean).join(' • ')
+                          : 'Every place with this name'}
+                      </Text>
+                    </View>
+                    <TouchableOpacity onPress={() => handleUnhidePlace(entry)} style={styles.unhideButton}>
+                      <Text style={styles.unhideButtonText}>Unhide</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </>
+            )}
+          </View>
+        )}
       </ScrollView>
 
       {/* Create Collection Modal */}
@@ -343,6 +770,111 @@ export const SavedPlacesScreen: React.FC = () => {
         </View>
       </Modal>
 
+      {/* Create Trip Modal */}
+      <Modal
+        visible={showCreateTrip}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowCreateTrip(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>New Trip</Text>
+
+            <Text style={styles.label}>Destination</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., Lisbon"
+              placeholderTextColor="#64748b"
+              value={newTripDestination}
+              onChangeText={setNewTripDestination}
+              autoFocus
+            />
+
+            {/* Dates */}
+            <View style={styles.tripDatesRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>Starts</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#64748b"
+                  value={newTripStartDate}
+                  onChangeText={setNewTripStartDate}
+                  autoCapitalize="none"
+                />
+              </View>
+              <View>
+                <Text style={styles.label}>Days</Text>
+                <View style={styles.dayStepper}>
+                  <TouchableOpacity onPress={() => setNewTripDays(days => Math.max(1, days - 1))} style={styles.stepperButton}>
+                    <Text style={styles.stepperButtonText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>{newTripDays}</Text>
+                  <TouchableOpacity onPress={() => setNewTripDays(days => Math.min(60, days + 1))} style={styles.stepperButton}>
+                    <Text style={styles.stepperButtonText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+
+            <Text style={styles.label}>Home base (optional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Hotel or address"
+              placeholderTextColor="#64748b"
+              value={newTripHomeBase}
+              onChangeText={setNewTripHomeBase}
+            />
+
+            <Text style={styles.label}>Notes (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="Flights, bookings, ideas…"
+              placeholderTextColor="#64748b"
+              value={newTripNotes}
+              onChangeText={setNewTripNotes}
+              multiline
+            />
+
+            {/* Buttons */}
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalButtonCancel]}
+                onPress={() => {
+                  setShowCreateTrip(false);
+                  resetNewTrip();
+                }}
+              >
+                <Text style={styles.modalButtonTextCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalButtonCreate]}
+                onPress={handleCreateTrip}
+                disabled={creatingTrip}
+              >
+                {creatingTrip ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.modalButtonTextCreate}>Create</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Day Planner */}
+      {selectedCollection && (
+        <ItineraryPlanner
+          visible={showPlanner}
+          collection={selectedCollection}
+          places={collectionPlaces}
+          onSave={handleSaveItinerary}
+          onClose={() => setShowPlanner(false)}
+        />
+      )}
+
       {/* Place Popup */}
       {selectedPlace && (
         <PlacePopup
@@ -623,4 +1155,84 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#fff',
   },
+  tripMeta: {
+    fontSize: 13,
+    color: '#94a3b8',
+    marginBottom: 16,
+  },
+  tripDayHeader: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#e2e8f0',
+    marginBottom: 8,
+  },
+  notesInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  unhideButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(99, 102, 241, 0.1)',
+  },
+  unhideButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  unlinkButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  unlinkButtonText: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  linkPicker: {
+    marginBottom: 20,
+  },
+  linkChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(99, 102, 241, 0.3)',
+    marginRight: 8,
+  },
+  linkChipText: {
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  tripDatesRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dayStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    height: 48,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#e2e8f0',
+  },
+  stepperValue: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 16,
+    color: '#e2e8f0',
+  },
 });
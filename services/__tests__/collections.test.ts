@@ -0,0 +1,212 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Place, PlaceCategory } from '../../types';
+import {
+  getFavorites,
+  savePlaceToFavorites,
+  removePlaceFromFavorites,
+  isPlaceFavorited,
+  getCollections,
+  createCollection,
+  deleteCollection,
+  addPlaceToCollection,
+  removePlaceFromCollection,
+  getPlacesInCollection,
+  saveItinerary,
+  getHistory,
+  addToHistory,
+  addPlacesToHistory,
+  clearHistory,
+} from '../collections';
+import { resetDatabase } from '../database';
+
+const makePlace = (id: string, overrides: Partial<Place> = {}): Place => ({
+  id,
+  name: `Place ${id}`,
+  description: '',
+  category: PlaceCategory.EAT,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 40.7128, longitude: -74.006 },
+  ...overrides,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetDatabase();
+});
+
+describe('favorites', () => {
+  it('saves a place once', async () => {
+    await savePlaceToFavorites(makePlace('a'));
+    await savePlaceToFavorites(makePlace('a'));
+
+    expect(await getFavorites()).toHaveLength(1);
+    expect(await isPlaceFavorited('a')).toBe(true);
+  });
+
+  it('removes a place by id', async () => {
+    await savePlaceToFavorites(makePlace('a'));
+    await savePlaceToFavorites(makePlace('b'));
+    await removePlaceFromFavorites('a');
+
+    expect((await getFavorites()).map(p => p.id)).toEqual(['b']);
+    expect(await isPlaceFavorited('a')).toBe(false);
+  });
+});
+
+describe('collections', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('creates an empty collection', async () => {
+    const collection = await createCollection('Date night', '🌙');
+
+    expect(collection.placeIds).toEqual([]);
+    expect(collection.icon).toBe('🌙');
+    expect(await getCollections()).toEqual([collection]);
+  });
+
+  it('adds a place once and bumps updatedAt', async () => {
+    const collection = await createCollection('Date night');
+    jest.advanceTimersByTime(1000);
+
+    await addPlaceToCollection(collection.id, 'a');
+    await addPlaceToCollection(collection.id, 'a');
+
+    const [updated] = await getCollections();
+    expect(updated.placeIds).toEqual(['a']);
+    expect(updated.updatedAt).toBeGreaterThan(collection.updatedAt);
+  });
+
+  it('removes a place from a collection', async () => {
+    const collection = await createCollection('Date night');
+    await addPlaceToCollection(collection.id, 'a');
+    await addPlaceToCollection(collection.id, 'b');
+    await removePlaceFromCollection(collection.id, 'a');
+
+    expect((await getCollections())[0].placeIds).toEqual(['b']);
+  });
+
+  it('ignores unknown collections', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await addPlaceToCollection('collection-missing', 'a');
+
+    expect(await getCollections()).toEqual([]);
+  });
+
+  it('deletes a collection', async () => {
+    const collection = await createCollection('Date night');
+    await deleteCollection(collection.id);
+
+    expect(await getCollections()).toEqual([]);
+  });
+
+  it('saves and clears a day plan', async () => {
+    const collection = await createCollection('Saturday');
+    await addPlaceToCollection(collection.id, 'a');
+    await addPlaceToCollection(collection.id, 'b');
+    const itinerary = {
+      date: '2025-06-07',
+      startMinutes: 600,
+      travelMode: 'walk' as const,
+      stops: [{ placeId: 'b', dwellMinutes: 60 }, { placeId: 'a', dwellMinutes: 90 }],
+      updatedAt: Date.now(),
+    };
+
+    await saveItinerary(collection.id, itinerary);
+    expect((await getCollections())[0].itinerary).toEqual(itinerary);
+
+    // Removing a place drops its stop
+    await removePlaceFromCollection(collection.id, 'b');
+    expect((await getCollections())[0].itinerary?.stops).toEqual([{ placeId: 'a', dwellMinutes: 90 }]);
+
+    await saveItinerary(collection.id, null);
+    expect((await getCollections())[0].itinerary).toBeUndefined();
+  });
+
+  it('resolves places from favorites and history in collection order', async () => {
+    const collection = await createCollection('Date night');
+    await savePlaceToFavorites(makePlace('fav'));
+    await addToHistory(makePlace('seen'));
+    await addPlaceToCollection(collection.id, 'seen');
+    await addPlaceToCollection(collection.id, 'gone');
+    await addPlaceToCollection(collection.id, 'fav');
+
+    const places = await getPlacesInCollection(collection.id);
+    expect(places.map(p => p.id)).toEqual(['seen', 'fav']);
+  });
+});
+
+describe('history', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('adds new places to the front', async () => {
+    await addToHistory(makePlace('a'));
+    await addToHistory(makePlace('b'));
+
+    expect((await getHistory()).map(h => h.place.id)).toEqual(['b', 'a']);
+  });
+
+  it('moves a revisited place to the front without duplicating it', async () => {
+    await addToHistory(makePlace('a'));
+    await addToHistory(makePlace('b'));
+    jest.advanceTimersByTime(1000);
+    await addToHistory(makePlace('a'));
+
+    const history = await getHistory();
+    expect(history.map(h => h.place.id)).toEqual(['a', 'b']);
+    expect(history[0].viewedAt).toBe(Date.now());
+  });
+
+  it('derives the location from the last two address parts', async () => {
+    await addToHistory(makePlace('a', { address: '1 Main St, Brooklyn, NY 11201' }));
+    await addToHistory(makePlace('b'));
+    await addToHistory(makePlace('c'), 'pizza', 'Queens, NY');
+
+    const history = await getHistory();
+    expect(history.map(h => h.location)).toEqual(['Queens, NY', 'Unknown', 'Brooklyn, NY 11201']);
+    expect(history[0].searchQuery).toBe('pizza');
+  });
+
+  it('keeps only the last 100 entries', async () => {
+    for (let i = 0; i < 105; i++) {
+      await addToHistory(makePlace(`p${i}`));
+    }
+
+    const history = await getHistory();
+    expect(history).toHaveLength(100);
+    expect(history[0].place.id).toBe('p104');
+    expect(history[99].place.id).toBe('p5');
+  });
+
+  it('adds a search\'s results at once, keeping the data of places already saved', async () => {
+    await savePlaceToFavorites(makePlace('a', { name: 'Saved name' }));
+
+    await addPlacesToHistory([makePlace('a'), makePlace('b')], 'pizza', 'Queens, NY');
+
+    const history = await getHistory();
+    expect(history.map(h => h.place.id).sort()).toEqual(['a', 'b']);
+    expect(history.every(h => h.searchQuery === 'pizza')).toBe(true);
+    expect((await getFavorites())[0].name).toBe('Saved name');
+  });
+
+  it('clears history', async () => {
+    await addToHistory(makePlace('a'));
+    await clearHistory();
+
+    expect(await getHistory()).toEqual([]);
+  });
+});
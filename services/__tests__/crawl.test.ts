@@ -0,0 +1,130 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Place, PlaceCategory } from '../../types';
+import { buildCrawl, getCandidateSearches, getCrawlStart, saveCrawlAsCollection } from '../crawl';
+import { getCollections, getPlacesInCollection } from '../collections';
+import { parseOsmOpeningHours } from '../openingHours';
+import { resetDatabase } from '../database';
+
+const CENTER = { latitude: 40.7128, longitude: -74.006 };
+const TUESDAY_8PM = new Date(2024, 4, 28, 20, 0);
+
+// ~110 m east of the center per step
+const east = (steps: number) => ({ latitude: CENTER.latitude, longitude: CENTER.longitude + steps * 0.0013 });
+
+const makePlace = (id: string, overrides: Partial<Place> = {}): Place => ({
+  id,
+  name: `Place ${id}`,
+  description: '',
+  category: PlaceCategory.DRINK,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: CENTER,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetDatabase();
+});
+
+describe('buildCrawl', () => {
+  it('chains the closest bars from the search center', () => {
+    const bars = [3, 1, 4, 2].map(step => makePlace(`bar${step}`, { description: 'Cocktail Bar', location: east(step) }));
+
+    const crawl = buildCrawl('bar-crawl', bars, CENTER, TUESDAY_8PM)!;
+
+    expect(crawl.stops.map(stop => stop.place.id)).toEqual(['bar1', 'bar2', 'bar3', 'bar4']);
+    expect(crawl.stops[1].arrival.getHours()).toBe(20);
+    expect(crawl.stops[1].arrival.getMinutes()).toBe(50); // 45 min + 5 min walk
+    expect(crawl.title).toBe('🍻 Bar crawl');
+  });
+
+  it('stays within the walking budget', () => {
+    const bars = [1, 2, 3, 30].map(step => makePlace(`bar${step}`, { location: east(step) }));
+
+    const crawl = buildCrawl('bar-crawl', bars, CENTER, TUESDAY_8PM)!;
+
+    expect(crawl.stops.map(stop => stop.place.id)).toEqual(['bar1', 'bar2', 'bar3']);
+  });
+
+  it('skips places that are closed when we would arrive', () => {
+    const bars = [
+      makePlace('early', { location: east(1), openingHours: parseOsmOpeningHours('Mo-Su 12:00-20:30')! }),
+      makePlace('a', { location: east(2) }),
+      makePlace('b', { location: east(3) }),
+      makePlace('c', { location: east(4) }),
+    ];
+
+    const crawl = buildCrawl('bar-crawl', bars, CENTER, TUESDAY_8PM)!;
+
+    expect(crawl.stops.map(stop => stop.place.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('visits dinner, drinks and dessert in order', () => {
+    const places = [
+      makePlace('gelato', { category: PlaceCategory.EAT, name: 'Gelato Bar', location: east(1) }),
+      makePlace('bar', { description: 'Wine Bar', location: east(2) }),
+      makePlace('trattoria', { category: PlaceCategory.EAT, description: 'Italian Restaurant', location: east(3) }),
+    ];
+
+    const crawl = buildCrawl('dinner-drinks-dessert', places, CENTER, new Date(2024, 4, 28, 19, 0))!;
+
+    expect(crawl.stops.map(stop => [stop.label, stop.place.id])).toEqual([
+      ['Dinner', 'trattoria'],
+      ['Drinks', 'bar'],
+      ['Dessert', 'gelato'],
+    ]);
+  });
+
+  it('returns null without enough stops', () => {
+    const places = [makePlace('a', { description: 'Coffee Shop' }), makePlace('b', { description: 'Espresso Bar' })];
+
+    expect(buildCrawl('coffee-tour', places, CENTER, new Date(2024, 4, 28, 9, 0))).toBeNull();
+  });
+});
+
+describe('getCandidateSearches', () => {
+  it('only searches for slots the results cannot fill', () => {
+    const places = [1, 2, 3].map(step => makePlace(`bar${step}`, { location: east(step) }));
+
+    expect(getCandidateSearches('bar-crawl', places)).toEqual([]);
+    expect(getCandidateSearches('dinner-drinks-dessert', places).map(search => search.query)).toEqual([
+      'restaurants',
+      'dessert',
+    ]);
+  });
+});
+
+describe('getCrawlStart', () => {
+  it('starts at the theme hour, or soon when that has passed', () => {
+    expect(getCrawlStart('bar-crawl', new Date(2024, 4, 28, 15, 10)).getHours()).toBe(20);
+
+    const late = getCrawlStart('bar-crawl', new Date(2024, 4, 28, 21, 10));
+    expect([late.getHours(), late.getMinutes()]).toEqual([21, 15]);
+  });
+});
+
+describe('saveCrawlAsCollection', () => {
+  it('saves the stops with a day plan', async () => {
+    const bars = [1, 2, 3].map(step => makePlace(`bar${step}`, { location: east(step) }));
+    const crawl = buildCrawl('bar-crawl', bars, CENTER, TUESDAY_8PM)!;
+
+    const collection = await saveCrawlAsCollection(crawl);
+
+    const [saved] = await getCollections();
+    expect(saved.name).toBe('Bar crawl');
+    expect(saved.itinerary).toMatchObject({
+      date: '2024-05-28',
+      startMinutes: 20 * 60,
+      travelMode: 'walk',
+      stops: [
+        { placeId: 'bar1', dwellMinutes: 45 },
+        { placeId: 'bar2', dwellMinutes: 45 },
+        { placeId: 'bar3', dwellMinutes: 45 },
+      ],
+    });
+    expect((await getPlacesInCollection(collection.id)).map(place => place.id)).toEqual(['bar1', 'bar2', 'bar3']);
+  });
+});
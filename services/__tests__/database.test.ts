@@ -0,0 +1,251 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Place, PlaceCategory } from '../../types';
+import { closeDatabase, DATABASE_VERSION, getDatabase, resetDatabase } from '../database';
+import { getCollections, getFavorites, getHistory, getPlacesInCollection, removePlaceFromFavorites } from '../collections';
+import { getCachedPlaceDetails, getGridCachedResults, getGridKey } from '../storage';
+import { getTrips } from '../trips';
+
+const makePlace = (id: string, name = `Place ${id}`): Place => ({
+  id,
+  name,
+  description: '',
+  category: PlaceCategory.EAT,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 38.7223, longitude: -9.1393 },
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetDatabase();
+});
+
+describe('AsyncStorage import', () => {
+  it('imports the old stores on first open and removes them', async () => {
+    const now = Date.now();
+    await AsyncStorage.multiSet([
+      ['@vibecheck_favorites', JSON.stringify([makePlace('a'), makePlace('b')])],
+      ['@vibecheck_history', JSON.stringify([
+        { place: makePlace('c'), viewedAt: 2000, searchQuery: 'tapas', location: 'Lisbon' },
+        { place: makePlace('a', 'Old name'), viewedAt: 1000, location: 'Lisbon' },
+      ])],
+      ['@vibecheck_collections', JSON.stringify([
+        { id: 'collection-1', name: 'Dinner', icon: '🍝', placeIds: ['b', 'a'], createdAt: 1, updatedAt: 2 },
+      ])],
+      ['@vibecheck:grid_cache_v2', JSON.stringify({
+        [getGridKey(38.7223, -9.1393)]: {
+          gridKey: getGridKey(38.7223, -9.1393),
+          places: [makePlace('grid')],
+          timestamp: now,
+          searchCount: 3,
+        },
+      })],
+      ['@vibecheck:cached_place_details', JSON.stringify({
+        a: { placeId: 'a', details: { phone: '+351 123', geometry: { location: { lat: 38.7, lng: -9.1 } } }, timestamp: now },
+      })],
+    ]);
+
+    expect((await getFavorites()).map(place => place.id)).toEqual(['a', 'b']);
+    // Saved places keep their own data over what history had
+    expect((await getFavorites())[0].name).toBe('Place a');
+    expect(await getHistory()).toEqual([
+      { place: makePlace('c'), viewedAt: 2000, searchQuery: 'tapas', location: 'Lisbon' },
+      { place: makePlace('a'), viewedAt: 1000, location: 'Lisbon' },
+    ]);
+    expect(await getCollections()).toEqual([
+      { id: 'collection-1', name: 'Dinner', icon: '🍝', placeIds: ['b', 'a'], createdAt: 1, updatedAt: 2 },
+    ]);
+    expect((await getPlacesInCollection('collection-1')).map(place => place.id)).toEqual(['b', 'a']);
+    expect(await getGridCachedResults(38.7223, -9.1393)).toEqual([makePlace('grid')]);
+    expect(await getCachedPlaceDetails('a')).toEqual({ phone: '+351 123', geometry: { location: { lat: 38.7, lng: -9.1 } } });
+
+    expect(await AsyncStorage.getItem('@vibecheck_favorites')).toBeNull();
+    expect(await AsyncStorage.getItem('@vibecheck:grid_cache_v2')).toBeNull();
+  });
+
+  it('imports only once', async () => {
+    await AsyncStorage.setItem('@vibecheck_favorites', JSON.stringify([makePlace('a')]));
+    await getFavorites();
+    // Written by an old build after the import - never read
+    await AsyncStorage.setItem('@vibecheck_favorites', JSON.stringify([makePlace('b')]));
+
+    expect((await getFavorites()).map(place => place.id)).toEqual(['a']);
+  });
+});
+
+describe('migrations', () => {
+  const v1Place = (id: string, category: string) => ({
+    ...makePlace(id),
+    category,
+    aggregatedRatings: { googleRating: 4.6, totalSources: 1 },
+    compositeScore: 0.9,
+  });
+
+  it('upgrades places imported from AsyncStorage', async () => {
+    await AsyncStorage.multiSet([
+      ['@vibecheck_favorites', JSON.stringify([v1Place('a', 'SIGHT')])],
+      ['@vibecheck_history', JSON.stringify([{ place: v1Place('b', 'DO'), viewedAt: 1000, location: 'Lisbon' }])],
+      ['@vibecheck_collections', JSON.stringify([
+        { id: 'collection-1', name: 'Sights', placeIds: ['a'], createdAt: 1, updatedAt: 1 },
+      ])],
+      ['@vibecheck:grid_cache_v2', JSON.stringify({
+        [getGridKey(38.7223, -9.1393)]: {
+          gridKey: getGridKey(38.7223, -9.1393),
+          places: [v1Place('c', 'DO')],
+          timestamp: Date.now(),
+        },
+      })],
+    ]);
+
+    const explore = (id: string) => ({ ...makePlace(id), category: PlaceCategory.EXPLORE });
+    expect(await getFavorites()).toEqual([explore('a')]);
+    expect((await getHistory())[0].place).toEqual(explore('b'));
+    expect(await getPlacesInCollection('collection-1')).toEqual([explore('a')]);
+    expect(await getGridCachedResults(38.7223, -9.1393)).toEqual([explore('c')]);
+  });
+
+  it('runs only the steps an existing database is missing', async () => {
+    const db = await getDatabase();
+    await db.runAsync('INSERT INTO places (id, data, updated_at) VALUES (?, ?, ?)', 'a', JSON.stringify(v1Place('a', 'DO')), 1);
+    await db.runAsync('INSERT INTO favorites (place_id, added_at) VALUES (?, ?)', 'a', 1);
+    await db.execAsync('PRAGMA user_version = 1');
+    // Left over from before v1 - the import doesn't run again
+    await AsyncStorage.setItem('@vibecheck_favorites', JSON.stringify([makePlace('b')]));
+    await closeDatabase();
+
+    expect(await getFavorites()).toEqual([{ ...makePlace('a'), category: PlaceCategory.EXPLORE }]);
+    const reopened = await getDatabase();
+    expect(await reopened.getFirstAsync('PRAGMA user_version')).toEqual({ user_version: DATABASE_VERSION });
+  });
+
+  it('fills in locations from map links and drops places that can\'t be mapped', async () => {
+    const { location, ...unmapped } = makePlace('a');
+    await AsyncStorage.multiSet([
+      ['@vibecheck_favorites', JSON.stringify([
+        { ...unmapped, mapLink: 'https://www.google.com/maps/search/?api=1&query=38.7223,-9.1393&query_place_id=a' },
+        { ...unmapped, id: 'b', mapLink: 'https://www.google.com/maps/search/?api=1&query=Place%20b' },
+      ])],
+      ['@vibecheck_collections', JSON.stringify([
+        { id: 'collection-1', name: 'Dinner', placeIds: ['b', 'a'], createdAt: 1, updatedAt: 1 },
+      ])],
+      ['@vibecheck:grid_cache_v2', JSON.stringify({
+        [getGridKey(38.7223, -9.1393)]: {
+          gridKey: getGridKey(38.7223, -9.1393),
+          places: [makePlace('grid'), { ...unmapped, id: 'c' }],
+          timestamp: Date.now(),
+        },
+      })],
+    ]);
+
+    expect((await getFavorites()).map(place => [place.id, place.location])).toEqual([['a', location]]);
+    expect((await getPlacesInCollection('collection-1')).map(place => place.id)).toEqual(['a']);
+    expect(await getGridCachedResults(38.7223, -9.1393)).toEqual([makePlace('grid')]);
+    const db = await getDatabase();
+    expect(await db.getFirstAsync('SELECT id FROM places WHERE id = ?', 'b')).toBeNull();
+  });
+});
+
+describe('caches from before locations', () => {
+  it('drops place details without a location and the v1 search caches', async () => {
+    const now = Date.now();
+    await AsyncStorage.multiSet([
+      ['@vibecheck:cached_place_details', JSON.stringify({
+        a: { placeId: 'a', details: { phone: '+351 123' }, timestamp: now },
+        b: { placeId: 'b', details: { geometry: { location: { lat: 38.7, lng: -9.1 } } }, timestamp: now },
+      })],
+      ['@vibecheck:cached_results', JSON.stringify({ places: [], city: 'Lisbon', timestamp: now })],
+      ['@vibecheck:grid_cache', JSON.stringify({})],
+    ]);
+
+    expect(await getCachedPlaceDetails('a')).toBeNull();
+    expect(await getCachedPlaceDetails('b')).not.toBeNull();
+    expect(await AsyncStorage.getItem('@vibecheck:cached_results')).toBeNull();
+    expect(await AsyncStorage.getItem('@vibecheck:grid_cache')).toBeNull();
+  });
+});
+
+describe('trips import', () => {
+  it('moves trips and their history into the database', async () => {
+    const trip = {
+      id: 'trip-1',
+      destination: 'Lisbon',
+      destinationCoords: { latitude: 38.7223, longitude: -9.1393 },
+      startDate: '2025-05-28',
+      endDate: '2025-06-03',
+      homeBase: { label: 'Hotel Avenida' },
+      collectionIds: ['collection-2', 'collection-1'],
+      notes: 'Pastéis',
+      history: [
+        { place: { ...makePlace('b'), category: 'SIGHT' }, viewedAt: 2000, location: 'Lisbon' },
+        { place: makePlace('a', 'Old name'), viewedAt: 1000, searchQuery: 'tapas', location: 'Lisbon' },
+      ],
+      startedAt: 500,
+      createdAt: 1,
+      updatedAt: 2,
+    };
+    await AsyncStorage.multiSet([
+      ['@vibecheck_favorites', JSON.stringify([makePlace('a')])],
+      ['@vibecheck_trips', JSON.stringify([trip])],
+    ]);
+
+    expect(await getTrips()).toEqual([{
+      ...trip,
+      history: [
+        { place: { ...makePlace('b'), category: PlaceCategory.EXPLORE }, viewedAt: 2000, location: 'Lisbon' },
+        // Already stored - keeps the favorite's data
+        { place: makePlace('a'), viewedAt: 1000, searchQuery: 'tapas', location: 'Lisbon' },
+      ],
+    }]);
+    expect(await AsyncStorage.getItem('@vibecheck_trips')).toBeNull();
+  });
+});
+
+describe('saved places merge', () => {
+  it('adds saved places missing from favorites, matched by ID or by name and location', async () => {
+    await AsyncStorage.multiSet([
+      ['@vibecheck_favorites', JSON.stringify([makePlace('a', 'Tasca'), makePlace('b', 'Café')])],
+      ['@vibecheck:saved_places', JSON.stringify([
+        { ...makePlace('c', 'Miradouro'), category: 'SIGHT', savedAt: 500 },
+        { ...makePlace('b', 'Café'), savedAt: 400 },
+        // Same venue under another provider's ID
+        { ...makePlace('fsq-a', 'Tasca'), savedAt: 300 },
+      ])],
+    ]);
+
+    const favorites = await getFavorites();
+
+    expect(favorites.map(place => place.id)).toEqual(['c', 'a', 'b']);
+    expect(favorites[0]).toEqual({ ...makePlace('c', 'Miradouro'), category: PlaceCategory.EXPLORE });
+    expect(await AsyncStorage.getItem('@vibecheck:saved_places')).toBeNull();
+  });
+
+  it('keeps another branch with the same name', async () => {
+    const uptown = { ...makePlace('uptown', 'Tasca'), location: { latitude: 38.75, longitude: -9.15 } };
+    await AsyncStorage.multiSet([
+      ['@vibecheck_favorites', JSON.stringify([makePlace('a', 'Tasca')])],
+      ['@vibecheck:saved_places', JSON.stringify([{ ...uptown, savedAt: 300 }])],
+    ]);
+
+    expect((await getFavorites()).map(place => place.id)).toEqual(['uptown', 'a']);
+  });
+});
+
+describe('places', () => {
+  it('drops a place once nothing refers to it', async () => {
+    await AsyncStorage.setItem('@vibecheck_favorites', JSON.stringify([makePlace('a')]));
+    await AsyncStorage.setItem('@vibecheck_collections', JSON.stringify([
+      { id: 'collection-1', name: 'Dinner', placeIds: ['a'], createdAt: 1, updatedAt: 1 },
+    ]));
+
+    await removePlaceFromFavorites('a');
+    // Still in a collection
+    expect(await getPlacesInCollection('collection-1')).toEqual([makePlace('a')]);
+
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM collection_places');
+    await removePlaceFromFavorites('a');
+    expect(await db.getFirstAsync('SELECT id FROM places WHERE id = ?', 'a')).toBeNull();
+  });
+});
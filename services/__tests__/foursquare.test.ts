@@ -0,0 +1,82 @@
+import { PlaceCategory } from '../../types';
+import { mapFoursquareCategory, formatFoursquareRating, FoursquarePlace } from '../foursquare';
+
+const category = (name: string, id = ''): FoursquarePlace['categories'][number] => ({
+  fsq_category_id: id,
+  name,
+  icon: { prefix: '', suffix: '' },
+});
+
+describe('mapFoursquareCategory', () => {
+  it('returns UNKNOWN without categories', () => {
+    expect(mapFoursquareCategory([])).toBe(PlaceCategory.UNKNOWN);
+  });
+
+  it.each([
+    ['Restaurant', '4bf58dd8d48988d1c4941735', PlaceCategory.EAT],
+    ['Coffee Shop', '4bf58dd8d48988d1e0931735', PlaceCategory.DRINK],
+    ['Cocktail Bar', '4bf58dd8d48988d11e941735', PlaceCategory.DRINK],
+    ['Museum', '4bf58dd8d48988d181941735', PlaceCategory.EXPLORE],
+    ['Escape Room', '56aa371be4b08b9a8d573541', PlaceCategory.EXPLORE],
+  ])('maps %s by category ID', (name, id, expected) => {
+    expect(mapFoursquareCategory([category(name, id)])).toBe(expected);
+  });
+
+  it('prefers the category ID over the name', () => {
+    expect(mapFoursquareCategory([category('Gift Shop', '4bf58dd8d48988d1c4941735')])).toBe(PlaceCategory.EAT);
+  });
+
+  it('only looks at the primary category', () => {
+    expect(mapFoursquareCategory([category('Bookstore'), category('Cafe')])).toBe(PlaceCategory.UNKNOWN);
+  });
+
+  it.each([
+    ['Sports Bar', PlaceCategory.DRINK],
+    ['Irish Pub', PlaceCategory.DRINK],
+    ['Cafe', PlaceCategory.DRINK],
+    ['Café', PlaceCategory.DRINK],
+    ['Sculpture Garden', PlaceCategory.EXPLORE],
+    ['Axe Throwing', PlaceCategory.EXPLORE],
+    ['Ramen Restaurant', PlaceCategory.EAT],
+    ['Food Truck', PlaceCategory.EAT],
+    ['Farmers Market', PlaceCategory.EAT],
+    ['Food Court Kitchen', PlaceCategory.EAT],
+  ])('maps %s by name', (name, expected) => {
+    expect(mapFoursquareCategory([category(name)])).toBe(expected);
+  });
+
+  it.each([
+    'Clothing Store',
+    'Grocery Store',
+    'Pharmacy',
+    'Bank',
+    'Gas Station',
+    'Medical Center',
+    'Hardware Store',
+  ])('filters out non-hospitality venue %s', name => {
+    expect(mapFoursquareCategory([category(name)])).toBe(PlaceCategory.UNKNOWN);
+  });
+
+  it('keeps food-related markets', () => {
+    expect(mapFoursquareCategory([category('Food Store')])).toBe(PlaceCategory.EAT);
+  });
+
+  it('returns UNKNOWN for unrecognised categories', () => {
+    expect(mapFoursquareCategory([category('Office')])).toBe(PlaceCategory.UNKNOWN);
+  });
+});
+
+describe('formatFoursquareRating', () => {
+  it('converts the 0-10 scale to stars', () => {
+    expect(formatFoursquareRating(8.6, 245)).toBe('4.3 stars (245 reviews)');
+  });
+
+  it('defaults the review count to zero', () => {
+    expect(formatFoursquareRating(9)).toBe('4.5 stars (0 reviews)');
+  });
+
+  it('labels unrated places as new', () => {
+    expect(formatFoursquareRating(undefined, 12)).toBe('New');
+    expect(formatFoursquareRating(0, 12)).toBe('New');
+  });
+});
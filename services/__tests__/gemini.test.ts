@@ -0,0 +1,98 @@
+import { PlaceCategory } from '../../types';
+import { recordCall } from '../transport';
+import { discoverPlaceNames, generateTipsForPlace } from '../gemini';
+import { parseQueryIntent } from '../queryIntent';
+
+jest.mock('../transport', () => ({ ...jest.requireActual('../transport'), recordCall: jest.fn() }));
+
+const mockRecordCall = recordCall as jest.MockedFunction<typeof recordCall>;
+
+// Queue raw model responses and capture the prompts sent
+const respondWith = (...texts: string[]) => {
+  texts.forEach(text => mockRecordCall.mockResolvedValueOnce({ text }));
+};
+const sentRequest = (call: number): any => mockRecordCall.mock.calls[call][1];
+
+const place = { name: 'Franklin Barbecue', category: PlaceCategory.EAT };
+
+beforeEach(() => {
+  mockRecordCall.mockReset();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('generateTipsForPlace', () => {
+  it('requests a JSON response schema', async () => {
+    respondWith('{"tips": ["Arrive before 10am", "Cash is fine"]}');
+
+    expect(await generateTipsForPlace(place)).toEqual(['Arrive before 10am', 'Cash is fine']);
+    expect(sentRequest(0).config.responseMimeType).toBe('application/json');
+    expect(sentRequest(0).config.responseSchema).toBeDefined();
+  });
+
+  it('retries once with the validation errors', async () => {
+    respondWith('- Arrive before 10am', '{"tips": ["Arrive before 10am"]}');
+
+    expect(await generateTipsForPlace(place)).toEqual(['Arrive before 10am']);
+    expect(mockRecordCall).toHaveBeenCalledTimes(2);
+    expect(sentRequest(1).contents).toMatch(/previous response was rejected/);
+    expect(sentRequest(1).contents).toMatch(/- Arrive before 10am/);
+  });
+
+  it('gives up after the retry', async () => {
+    respondWith('nope', 'still nope');
+
+    expect(await generateTipsForPlace(place)).toEqual([]);
+    expect(mockRecordCall).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('discoverPlaceNames', () => {
+  const coords = { latitude: 30.27, longitude: -97.74 };
+
+  it('maps discoveries to app categories', async () => {
+    respondWith(JSON.stringify({
+      city: 'Austin, TX',
+      places: [
+        { name: 'Franklin Barbecue', category: 'EAT', vibe: 'Legendary brisket' },
+        { name: 'Barton Springs Pool', category: 'DO', vibe: 'Spring-fed swimming' },
+        { name: 'Texas Capitol', category: 'SIGHT', vibe: 'Pink granite dome' },
+        { name: 'Deep Eddy Cabaret', category: 'DRINK', vibe: 'Classic dive bar' },
+      ],
+    }));
+
+    const { city, discoveries } = await discoverPlaceNames(coords, parseQueryIntent());
+
+    expect(city).toBe('Austin, TX');
+    expect(discoveries.map(d => d.category)).toEqual([
+      PlaceCategory.EAT,
+      PlaceCategory.EXPLORE,
+      PlaceCategory.EXPLORE,
+      PlaceCategory.DRINK,
+    ]);
+  });
+
+  it('puts the schema in the prompt when grounded with Maps', async () => {
+    respondWith('{"city": "Austin, TX", "places": [{"name": "Franklin Barbecue", "category": "EAT", "vibe": "Brisket"}]}');
+
+    await discoverPlaceNames(coords, parseQueryIntent());
+
+    expect(sentRequest(0).config.tools).toEqual([{ googleMaps: {} }]);
+    expect(sentRequest(0).config.responseSchema).toBeUndefined();
+    expect(sentRequest(0).contents).toMatch(/Respond with ONLY a JSON object/);
+  });
+
+  it('builds category guidance from the query intent', async () => {
+    respondWith('{"city": "Austin, TX", "places": [{"name": "Epoch Coffee", "category": "DRINK", "vibe": "24-hour study spot"}]}');
+
+    await discoverPlaceNames(coords, parseQueryIntent('espresso near the capitol'));
+
+    expect(sentRequest(0).contents).toMatch(/ONLY places known for coffee\/tea/);
+  });
+
+  it('throws when the response stays invalid', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    respondWith('City: Austin\nFranklin Barbecue | EAT | Brisket', '{"city": "Austin"}');
+
+    await expect(discoverPlaceNames(coords, parseQueryIntent())).rejects.toThrow(/invalid JSON/);
+  });
+});
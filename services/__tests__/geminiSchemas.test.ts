@@ -0,0 +1,93 @@
+import {
+  DISCOVERY_SCHEMA,
+  TIPS_SCHEMA,
+  REVIEW_SUMMARY_SCHEMA,
+  DiscoveryResponse,
+  TipsResponse,
+  ReviewSummaryResponse,
+  parseJsonResponse,
+} from '../geminiSchemas';
+
+const discovery = (places: unknown[], city: unknown = 'Austin, TX') => JSON.stringify({ city, places });
+
+describe('parseJsonResponse', () => {
+  it('accepts a valid discovery response', () => {
+    const result = parseJsonResponse<DiscoveryResponse>(
+      discovery([{ name: 'Franklin Barbecue', category: 'EAT', vibe: 'Legendary brisket worth the line' }]),
+      DISCOVERY_SCHEMA
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.repaired).toBe(false);
+    expect(result.value?.places[0].name).toBe('Franklin Barbecue');
+  });
+
+  it('strips markdown fences and surrounding chatter', () => {
+    const text = 'Here you go:\n```json\n{"tips": ["Reserve ahead on weekends"]}\n```\nEnjoy!';
+    expect(parseJsonResponse<TipsResponse>(text, TIPS_SCHEMA).value).toEqual({ tips: ['Reserve ahead on weekends'] });
+  });
+
+  it('rejects responses that are not JSON', () => {
+    const result = parseJsonResponse<TipsResponse>('Reserve ahead\nFree parking after 6pm', TIPS_SCHEMA);
+
+    expect(result.value).toBeNull();
+    expect(result.errors[0]).toMatch(/not valid JSON/);
+  });
+
+  it('reports missing required fields', () => {
+    const result = parseJsonResponse<DiscoveryResponse>(JSON.stringify({ places: [] }), DISCOVERY_SCHEMA);
+
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual(['$.city is missing', '$.places needs at least 1 valid item']);
+  });
+
+  it('repairs enum casing and whitespace', () => {
+    const result = parseJsonResponse<DiscoveryResponse>(
+      discovery([{ name: '  Barton Springs ', category: 'sight', vibe: 'Spring-fed pool' }]),
+      DISCOVERY_SCHEMA
+    );
+
+    expect(result.repaired).toBe(true);
+    expect(result.value?.places[0]).toEqual({ name: 'Barton Springs', category: 'SIGHT', vibe: 'Spring-fed pool' });
+  });
+
+  it('drops invalid items but keeps the valid ones', () => {
+    const result = parseJsonResponse<DiscoveryResponse>(
+      discovery([
+        { name: 'Franklin Barbecue', category: 'EAT', vibe: 'Legendary brisket' },
+        { name: 'Mystery Spot', category: 'SHOP', vibe: 'Souvenirs' },
+        { name: '', category: 'DRINK', vibe: 'Dive bar' },
+      ]),
+      DISCOVERY_SCHEMA
+    );
+
+    expect(result.repaired).toBe(true);
+    expect(result.value?.places.map(p => p.name)).toEqual(['Franklin Barbecue']);
+  });
+
+  it('fails when no item survives', () => {
+    const result = parseJsonResponse<DiscoveryResponse>(
+      discovery([{ name: 'Mystery Spot', category: 'SHOP', vibe: 'Souvenirs' }]),
+      DISCOVERY_SCHEMA
+    );
+    expect(result.value).toBeNull();
+  });
+
+  it('truncates arrays past maxItems', () => {
+    const tips = ['One', 'Two', 'Three', 'Four', 'Five', 'Six'];
+    const result = parseJsonResponse<TipsResponse>(JSON.stringify({ tips }), TIPS_SCHEMA);
+
+    expect(result.value?.tips).toEqual(tips.slice(0, 5));
+    expect(result.repaired).toBe(true);
+  });
+
+  it('rejects wrong types', () => {
+    const result = parseJsonResponse<ReviewSummaryResponse>(JSON.stringify({ summaries: 'great food' }), REVIEW_SUMMARY_SCHEMA);
+    expect(result.errors).toEqual(['$.summaries should be an array']);
+  });
+
+  it('ignores properties outside the schema', () => {
+    const result = parseJsonResponse<TipsResponse>(JSON.stringify({ tips: ['Go early'], note: 'extra' }), TIPS_SCHEMA);
+    expect(result.value).toEqual({ tips: ['Go early'] });
+  });
+});
@@ -0,0 +1,196 @@
+import { Itinerary, Place, PlaceCategory } from '../../types';
+import {
+  estimateTravel,
+  formatDuration,
+  getDwellMinutes,
+  moveStop,
+  planItinerary,
+  removeStop,
+  scheduleItinerary,
+  setStopDwell,
+} from '../itinerary';
+import { parseOsmOpeningHours } from '../openingHours';
+
+const TUESDAY = '2024-05-28';
+const START = { latitude: 52.52, longitude: 13.4 };
+
+// ~1.1 km north of the start per step
+const north = (steps: number) => ({ latitude: 52.52 + steps * 0.01, longitude: 13.4 });
+
+const makePlace = (id: string, overrides: Partial<Place> = {}): Place => ({
+  id,
+  name: `Place ${id}`,
+  description: '',
+  category: PlaceCategory.EXPLORE,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: START,
+  ...overrides,
+});
+
+const makeItinerary = (stops: Array<[string, number]>, overrides: Partial<Itinerary> = {}): Itinerary => ({
+  date: TUESDAY,
+  startMinutes: 10 * 60,
+  start: START,
+  travelMode: 'walk',
+  stops: stops.map(([placeId, dwellMinutes]) => ({ placeId, dwellMinutes })),
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('getDwellMinutes', () => {
+  it.each([
+    ['a meal', { category: PlaceCategory.EAT, description: 'Italian Restaurant' }, 90],
+    ['a bar', { category: PlaceCategory.DRINK, description: 'Cocktail Bar' }, 60],
+    ['a cafe', { category: PlaceCategory.DRINK, description: 'Coffee Shop' }, 45],
+    ['a museum', { description: 'Art Museum' }, 120],
+    ['a viewpoint', { tags: ['viewpoint'] }, 45],
+    ['other sights', { description: 'Park' }, 60],
+  ])('allows the typical time for %s', (_label, overrides, minutes) => {
+    expect(getDwellMinutes(makePlace('a', overrides as Partial<Place>))).toBe(minutes);
+  });
+});
+
+describe('estimateTravel', () => {
+  it('walks street distance, rounded up to 5 minutes', () => {
+    const { distanceKm, minutes } = estimateTravel(START, north(1), 'walk');
+
+    expect(distanceKm).toBeCloseTo(1.45, 1); // 1.11 km straight line × detour
+    expect(minutes).toBe(20);
+  });
+
+  it('adds parking to drives', () => {
+    expect(estimateTravel(START, north(1), 'drive').minutes).toBe(10);
+  });
+});
+
+describe('planItinerary', () => {
+  it('orders stops to cut travel from the start', () => {
+    const places = ['c', 'a', 'd', 'b'].map(id =>
+      makePlace(id, { location: north({ a: 1, b: 2, c: 3, d: 4 }[id] as number) })
+    );
+
+    const plan = planItinerary(places, { date: TUESDAY, startMinutes: 600, start: START, travelMode: 'walk' });
+
+    expect(plan.stops.map(stop => stop.placeId)).toEqual(['a', 'b', 'c', 'd']);
+    expect(plan.stops[0].dwellMinutes).toBe(60);
+  });
+
+  it('starts at an end of the route without a start point', () => {
+    const places = ['b', 'c', 'a'].map(id => makePlace(id, { location: north({ a: 1, b: 2, c: 3 }[id] as number) }));
+
+    const plan = planItinerary(places, { date: TUESDAY, startMinutes: 600, travelMode: 'walk' });
+
+    const order = plan.stops.map(stop => stop.placeId).join('');
+    expect(['abc', 'cba']).toContain(order);
+  });
+
+  it('works around opening hours when the shortest route conflicts', () => {
+    const bar = makePlace('bar', {
+      category: PlaceCategory.DRINK,
+      location: north(0.1),
+      openingHours: parseOsmOpeningHours('Mo-Su 17:00-23:00')!,
+    });
+    const museum = makePlace('museum', {
+      description: 'Museum',
+      location: north(0.5),
+      openingHours: parseOsmOpeningHours('Mo-Su 10:00-18:00')!,
+    });
+
+    const plan = planItinerary([bar, museum], { date: TUESDAY, startMinutes: 14 * 60, start: START, travelMode: 'walk' });
+    const schedule = scheduleItinerary(plan, [bar, museum]);
+
+    expect(plan.stops.map(stop => stop.placeId)).toEqual(['museum', 'bar']);
+    expect(schedule.conflictCount).toBe(0);
+    expect(schedule.stops[1].arrival.getHours()).toBe(17);
+    expect(schedule.stops[1].waitMinutes).toBeGreaterThan(0);
+  });
+
+  it('leaves out places without a location', () => {
+    const unmapped = { ...makePlace('unmapped'), location: undefined } as unknown as Place;
+
+    const plan = planItinerary([makePlace('a', { location: north(1) }), unmapped], {
+      date: TUESDAY, startMinutes: 600, start: START, travelMode: 'walk',
+    });
+
+    expect(plan.stops.map(stop => stop.placeId)).toEqual(['a']);
+  });
+});
+
+describe('scheduleItinerary', () => {
+  it('times each stop from the start with travel and dwell', () => {
+    const places = [makePlace('a', { location: north(1) }), makePlace('b', { location: north(1) })];
+
+    const schedule = scheduleItinerary(makeItinerary([['a', 60], ['b', 30]]), places);
+
+    expect(schedule.stops.map(stop => [stop.arrival.getHours(), stop.arrival.getMinutes()])).toEqual([[10, 20], [11, 20]]);
+    expect(schedule.end.getHours()).toBe(11);
+    expect(schedule.end.getMinutes()).toBe(50);
+    expect(schedule.stops[1].travelMinutes).toBe(0);
+  });
+
+  it('flags stops that are closed or close during the visit', () => {
+    const places = [
+      makePlace('early', { openingHours: parseOsmOpeningHours('Mo-Su 09:00-10:30')! }),
+      makePlace('shut', { openingHours: parseOsmOpeningHours('Tu off; Mo,We-Su 09:00-17:00')! }),
+      makePlace('unknown'),
+    ];
+
+    const schedule = scheduleItinerary(makeItinerary([['early', 60], ['shut', 60], ['unknown', 60]]), places);
+
+    expect(schedule.stops.map(stop => stop.conflicts)).toEqual([['closes-during-visit'], ['closed'], []]);
+    expect(schedule.stops[2].hoursKnown).toBe(false);
+    expect(schedule.conflictCount).toBe(2);
+  });
+
+  it('flags a day that runs past midnight', () => {
+    const schedule = scheduleItinerary(
+      makeItinerary([['a', 90]], { startMinutes: 23 * 60 }),
+      [makePlace('a')]
+    );
+
+    expect(schedule.stops[0].conflicts).toEqual(['past-midnight']);
+  });
+
+  it('skips removed places and lists ones added after planning', () => {
+    const schedule = scheduleItinerary(makeItinerary([['gone', 60], ['a', 60]]), [makePlace('a'), makePlace('new')]);
+
+    expect(schedule.stops.map(stop => stop.place.id)).toEqual(['a']);
+    expect(schedule.unplanned.map(place => place.id)).toEqual(['new']);
+  });
+
+  it('lists stops without a location as unplanned', () => {
+    const unmapped = { ...makePlace('unmapped'), location: undefined } as unknown as Place;
+
+    const schedule = scheduleItinerary(makeItinerary([['unmapped', 60], ['a', 60]]), [unmapped, makePlace('a')]);
+
+    expect(schedule.stops.map(stop => stop.place.id)).toEqual(['a']);
+    expect(schedule.unplanned.map(place => place.id)).toEqual(['unmapped']);
+  });
+});
+
+describe('editing', () => {
+  const itinerary = makeItinerary([['a', 60], ['b', 60], ['c', 60]]);
+
+  it('moves a stop within bounds', () => {
+    expect(moveStop(itinerary, 2, -1).stops.map(stop => stop.placeId)).toEqual(['a', 'c', 'b']);
+    expect(moveStop(itinerary, 0, -1)).toBe(itinerary);
+  });
+
+  it('changes dwell time with a 15 minute minimum', () => {
+    expect(setStopDwell(itinerary, 'b', 90).stops[1].dwellMinutes).toBe(90);
+    expect(setStopDwell(itinerary, 'b', 0).stops[1].dwellMinutes).toBe(15);
+  });
+
+  it('removes a stop', () => {
+    expect(removeStop(itinerary, 'a').stops.map(stop => stop.placeId)).toEqual(['b', 'c']);
+  });
+});
+
+describe('formatDuration', () => {
+  it.each([[45, '45 min'], [120, '2h'], [90, '1h 30m']])('formats %i minutes', (minutes, expected) => {
+    expect(formatDuration(minutes)).toBe(expected);
+  });
+});
@@ -0,0 +1,125 @@
+import { Place, PlaceCategory } from '../../types';
+import { dedupePlaces, isSameVenue, mergeVenues, nameSimilarity, normalizeName } from '../providers/merge';
+
+const makePlace = (name: string, extra: Partial<Place> = {}): Place => ({
+  id: `${extra.source || 'foursquare'}-${name}`,
+  name,
+  description: '',
+  category: PlaceCategory.EAT,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 40.7306, longitude: -73.9866 },
+  source: 'foursquare',
+  ...extra,
+});
+
+// ~0.00001° latitude per 1.1 m
+const metersNorth = (meters: number) => ({ latitude: 40.7306 + meters / 111_000, longitude: -73.9866 });
+
+describe('normalizeName', () => {
+  it('drops case, accents, punctuation and stopwords', () => {
+    expect(normalizeName('The Joe’s Pizza & Pasta')).toBe('joes pizza pasta');
+    expect(normalizeName('Café de Flore')).toBe('cafe de flore');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('scores a name contained in the other as a match', () => {
+    expect(nameSimilarity("Joe's Pizza", 'Joes Pizza & Pasta')).toBe(1);
+  });
+
+  it('tolerates typos', () => {
+    expect(nameSimilarity('Katz Delicatessen', 'Katzs Delicatesen')).toBeGreaterThan(0.8);
+  });
+
+  it('keeps different venues apart', () => {
+    expect(nameSimilarity('Joe’s Pizza', 'Prince Street Pizza')).toBeLessThan(0.6);
+    expect(nameSimilarity('', 'Joe’s Pizza')).toBe(0);
+  });
+
+  it('needs two shared words for one name inside the other', () => {
+    expect(nameSimilarity('The Bar', 'Bar Roma')).toBeLessThan(0.6);
+    expect(nameSimilarity('Central Park', 'Central Park Zoo')).toBe(1);
+    // Without containment - as for venues farther apart - the extra word counts against it
+    expect(nameSimilarity('Central Park', 'Central Park Zoo', false)).toBeLessThan(0.9);
+  });
+});
+
+describe('isSameVenue', () => {
+  it('needs less name similarity the closer two places are', () => {
+    const joes = makePlace("Joe's Pizza");
+
+    expect(isSameVenue(joes, makePlace('Joes Pizza Broadway', { location: metersNorth(50) }))).toBe(true);
+    expect(isSameVenue(joes, makePlace('Joes Pizza', { location: metersNorth(200) }))).toBe(true);
+    expect(isSameVenue(joes, makePlace('Ben’s Deli', { location: metersNorth(50) }))).toBe(false);
+    expect(isSameVenue(joes, makePlace("Joe's Pizza", { location: metersNorth(400) }))).toBe(false);
+  });
+
+  it('keeps a venue apart from a bigger one named after it', () => {
+    expect(isSameVenue(makePlace('Central Park'), makePlace('Central Park Zoo', { location: metersNorth(200) }))).toBe(false);
+    expect(isSameVenue(makePlace('The Bar'), makePlace('Bar Roma', { location: metersNorth(50) }))).toBe(false);
+    expect(isSameVenue(makePlace('The Bar'), makePlace('Bar Roma', { location: metersNorth(200) }))).toBe(false);
+  });
+});
+
+describe('mergeVenues', () => {
+  const foursquare = makePlace("Joe's Pizza", {
+    rating: 'Not rated',
+    reviewCount: 3,
+    images: ['fsq.jpg'],
+    tags: ['pizza'],
+    reviews: [{ author: 'Ana', text: 'Great slice', type: 'user' }],
+  });
+  const google = makePlace('Joes Pizza', {
+    source: 'google',
+    rating: '4.6',
+    reviewCount: 1200,
+    phone: '+1 212 555 0100',
+    images: ['google.jpg'],
+    tags: ['pizza', 'takeout'],
+    reviews: [
+      { author: 'Ana', text: 'Great slice', type: 'user' },
+      { author: 'Ben', text: 'Open late', type: 'user' },
+    ],
+    chain: "Joe's",
+  });
+
+  it('keeps the primary identity and fills gaps from the secondary', () => {
+    const merged = mergeVenues(foursquare, google);
+
+    expect(merged).toMatchObject({
+      id: foursquare.id,
+      name: "Joe's Pizza",
+      source: 'foursquare',
+      rating: '4.6',
+      reviewCount: 1200,
+      phone: '+1 212 555 0100',
+      chain: "Joe's",
+      tags: ['pizza', 'takeout'],
+      sources: ['foursquare', 'google'],
+    });
+    expect(merged.reviews.map(review => review.text)).toEqual(['Great slice', 'Open late']);
+  });
+
+  it('picks each field from the provider trusted first for it', () => {
+    // Foursquare photos win even when Google is the primary
+    expect(mergeVenues(google, foursquare).images).toEqual(['fsq.jpg']);
+  });
+});
+
+describe('dedupePlaces', () => {
+  it('merges duplicates into the first-seen place, keeping order', () => {
+    const places = [
+      makePlace("Joe's Pizza"),
+      makePlace('Katz’s Delicatessen', { location: metersNorth(1000) }),
+      makePlace('Joes Pizza', { source: 'google', location: metersNorth(20) }),
+    ];
+
+    const deduped = dedupePlaces(places);
+
+    expect(deduped.map(place => place.name)).toEqual(["Joe's Pizza", 'Katz’s Delicatessen']);
+    expect(deduped[0].sources).toEqual(['foursquare', 'google']);
+  });
+});
@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlaceCategory } from '../../types';
+import { migratePlace, parseMapLinkCoordinates, PLACE_VERSION, readStore, VersionedStore, writeStore } from '../migrations';
+
+const basePlace = {
+  id: 'p1',
+  name: 'Castelo de São Jorge',
+  description: '',
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 38.7139, longitude: -9.1334 },
+};
+
+describe('migratePlace', () => {
+  it.each(['DO', 'SIGHT'])('moves v1 %s places to EXPLORE', category => {
+    expect(migratePlace({ ...basePlace, category })!.category).toBe(PlaceCategory.EXPLORE);
+  });
+
+  it('drops the v1 aggregate ratings', () => {
+    const migrated = migratePlace({
+      ...basePlace,
+      category: 'EAT',
+      rating: '4.5 stars',
+      aggregatedRatings: { googleRating: 4.5, yelpRating: 4, totalSources: 2 },
+      compositeScore: 0.87,
+    });
+
+    expect(migrated).toEqual({ ...basePlace, category: PlaceCategory.EAT, rating: '4.5 stars' });
+  });
+
+  it('leaves current places as they are', () => {
+    const place = { ...basePlace, category: PlaceCategory.EXPLORE };
+
+    expect(migratePlace(place)).toEqual(place);
+    expect(migratePlace(place, PLACE_VERSION)).toBe(place);
+  });
+
+  it('reads a missing location from the map link', () => {
+    const { location, ...stored } = basePlace;
+    const migrated = migratePlace({
+      ...stored,
+      category: 'SIGHT',
+      mapLink: 'https://www.google.com/maps/search/?api=1&query=38.7139,-9.1334&query_place_id=Castelo',
+    });
+
+    expect(migrated).toMatchObject({ category: PlaceCategory.EXPLORE, location });
+  });
+
+  it('drops a place with no location and no coordinates in its map link', () => {
+    const { location, ...stored } = basePlace;
+
+    expect(migratePlace({ ...stored, category: 'EAT' })).toBeNull();
+    expect(migratePlace({ ...stored, category: 'EAT', mapLink: 'https://www.google.com/maps/search/?api=1&query=Castelo' })).toBeNull();
+    // Only up to a version before locations were required
+    expect(migratePlace({ ...stored, category: 'EAT' }, 1, 2)).toEqual({ ...stored, category: PlaceCategory.EAT });
+  });
+});
+
+describe('parseMapLinkCoordinates', () => {
+  it('reads coordinates from a Google Maps search link', () => {
+    expect(parseMapLinkCoordinates('https://www.google.com/maps/search/?api=1&query=-33.86,151.2'))
+      .toEqual({ latitude: -33.86, longitude: 151.2 });
+    expect(parseMapLinkCoordinates('https://www.google.com/maps/search/?api=1&query=Pin%20%26%20Pint')).toBeNull();
+    expect(parseMapLinkCoordinates('https://www.google.com/maps/search/?api=1&query=123,456')).toBeNull();
+    expect(parseMapLinkCoordinates(undefined)).toBeNull();
+  });
+});
+
+describe('versioned stores', () => {
+  const store: VersionedStore<{ names: string[] }> = {
+    key: '@test:store',
+    version: 2,
+    migrate: (data, fromVersion) => (fromVersion === 0 ? { names: data } : { names: data.list }),
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('writes the data with its version', async () => {
+    await writeStore(store, { names: ['a'] });
+
+    expect(JSON.parse((await AsyncStorage.getItem('@test:store'))!)).toEqual({ version: 2, data: { names: ['a'] } });
+    expect(await readStore(store)).toEqual({ names: ['a'] });
+  });
+
+  it('upgrades data from before stores had a version and saves it', async () => {
+    await AsyncStorage.setItem('@test:store', JSON.stringify(['a', 'b']));
+
+    expect(await readStore(store)).toEqual({ names: ['a', 'b'] });
+    expect(JSON.parse((await AsyncStorage.getItem('@test:store'))!)).toEqual({ version: 2, data: { names: ['a', 'b'] } });
+  });
+
+  it('upgrades from the version it was written at', async () => {
+    await AsyncStorage.setItem('@test:store', JSON.stringify({ version: 1, data: { list: ['a'] } }));
+
+    expect(await readStore(store)).toEqual({ names: ['a'] });
+  });
+
+  it('ignores data from a newer version, and missing data', async () => {
+    expect(await readStore(store)).toBeNull();
+
+    await AsyncStorage.setItem('@test:store', JSON.stringify({ version: 3, data: { people: [] } }));
+    expect(await readStore(store)).toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { Place, PlaceCategory } from '../../types';
+import {
+  downloadCityPack,
+  findCityPack,
+  getCityPacks,
+  getPackPlace,
+  getPackResults,
+  getPackTilePathTemplate,
+  getTilesForArea,
+  PACK_STORAGE_BUDGET_BYTES,
+} from '../offlinePacks';
+import { PLACE_VERSION } from '../migrations';
+import { hidePlace } from '../storage';
+import { getPlaceDetailsFromProvider, getRecommendations } from '../providers';
+import { fetchWikiEnrichment } from '../wikipedia';
+
+// In-memory documents directory: file URI → contents
+jest.mock('expo-file-system', () => {
+  const mockFiles = new Map<string, string>();
+  const join = (parts: any[]) => parts.map(part => (typeof part === 'string' ? part : part.uri)).join('/');
+  const under = (uri: string) => Array.from(mockFiles.keys()).filter(key => key.startsWith(`${uri}/`));
+
+  class MockDirectory {
+    uri: string;
+    constructor(...parts: any[]) {
+      this.uri = join(parts);
+    }
+    get exists() {
+      return under(this.uri).length > 0;
+    }
+    get size() {
+      return under(this.uri).reduce((sum, key) => sum + mockFiles.get(key)!.length, 0);
+    }
+    create() {}
+    delete() {
+      under(this.uri).forEach(key => mockFiles.delete(key));
+    }
+  }
+
+  class MockFile {
+    uri: string;
+    constructor(...parts: any[]) {
+      this.uri = join(parts);
+    }
+    get size() {
+      return mockFiles.get(this.uri)?.length ?? 0;
+    }
+    create() {
+      mockFiles.set(this.uri, '');
+    }
+    write(content: string) {
+      mockFiles.set(this.uri, content);
+    }
+    async text() {
+      if (!mockFiles.has(this.uri)) throw new Error(`Missing file ${this.uri}`);
+      return mockFiles.get(this.uri)!;
+    }
+    static async downloadFileAsync(url: string, file: MockFile) {
+      if (url.includes('broken')) throw new Error('404');
+      mockFiles.set(file.uri, `bytes of ${url}`);
+      return file;
+    }
+  }
+
+  return { Directory: MockDirectory, File: MockFile, Paths: { document: new MockDirectory('file:///documents') } };
+});
+jest.mock('../providers', () => ({ getRecommendations: jest.fn(), getPlaceDetailsFromProvider: jest.fn() }));
+jest.mock('../wikipedia', () => ({ fetchWikiEnrichment: jest.fn() }));
+
+const mockGetRecommendations = getRecommendations as jest.MockedFunction<typeof getRecommendations>;
+const mockGetDetails = getPlaceDetailsFromProvider as jest.MockedFunction<typeof getPlaceDetailsFromProvider>;
+const mockFetchWiki = fetchWikiEnrichment as jest.MockedFunction<typeof fetchWikiEnrichment>;
+
+const LISBON = { latitude: 38.7223, longitude: -9.1393 };
+const PORTO = { latitude: 41.1579, longitude: -8.6291 };
+
+const makePlace = (id: string, category: PlaceCategory, images: string[] = []): Place => ({
+  id,
+  name: `Place ${id}`,
+  description: '',
+  category,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images,
+  location: LISBON,
+});
+
+const RESULTS: Record<string, Place[]> = {
+  ALL: [
+    makePlace('cafe', PlaceCategory.EAT, ['https://img.example/cafe.jpg', 'https://img.example/broken.jpg']),
+    makePlace('bar', PlaceCategory.DRINK),
+  ],
+  EAT: [makePlace('cafe', PlaceCategory.EAT), makePlace('tasca', PlaceCategory.EAT)],
+  DRINK: [makePlace('bar', PlaceCategory.DRINK)],
+  EXPLORE: [makePlace('castle', PlaceCategory.EXPLORE)],
+};
+
+// Resolves on the next tick so pack IDs (Date.now) differ between downloads
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  mockGetRecommendations.mockReset();
+  mockGetRecommendations.mockImplementation(async (_coords, _query, _radius, _hot, _exclude, categories = []) => ({
+    city: 'Lisbon',
+    places: RESULTS[categories[0] || 'ALL'],
+  }));
+  mockGetDetails.mockReset();
+  mockGetDetails.mockImplementation(async place => ({ ...place, name: 'Renamed', phone: '+351 21 000 0000' }));
+  mockFetchWiki.mockReset();
+  mockFetchWiki.mockResolvedValue(null);
+});
+
+describe('getTilesForArea', () => {
+  it('covers the center at every zoom and stays under the cap', () => {
+    const tiles = getTilesForArea(LISBON, 3.2);
+
+    expect(new Set(tiles.map(tile => tile.z))).toEqual(new Set([12, 13, 14, 15, 16]));
+    expect(tiles.length).toBeLessThanOrEqual(400);
+    // Lisbon's center tile at zoom 12
+    expect(tiles).toContainEqual({ z: 12, x: 1943, y: 1569 });
+  });
+
+  it('stops at the cap for large areas, closest zooms first', () => {
+    const tiles = getTilesForArea(LISBON, 20);
+
+    expect(tiles).toHaveLength(400);
+    expect(tiles[0].z).toBe(12);
+  });
+});
+
+describe('downloadCityPack', () => {
+  it('stores results per category with details, wiki and photos', async () => {
+    mockFetchWiki.mockImplementation(async place =>
+      place.id === 'castle'
+        ? { title: 'São Jorge Castle', extract: 'A castle.', url: 'https://en.wikipedia.org/wiki/S', images: [{ url: 'https://img.example/castle.png' }] } as any
+        : null
+    );
+    const progress: string[] = [];
+
+    const pack = await downloadCityPack('Lisbon', LISBON, { onProgress: ({ stage }) => progress.push(stage) });
+
+    expect(pack).toMatchObject({ name: 'Lisbon', center: LISBON, radiusKm: 3.2, placeCount: 4, photoCount: 2 });
+    expect(pack.tileCount).toBeGreaterThan(0);
+    expect(pack.sizeBytes).toBeGreaterThan(0);
+    expect(new Set(progress)).toEqual(new Set(['results', 'details', 'photos', 'tiles']));
+    expect(await getCityPacks()).toEqual([pack]);
+
+    expect((await getPackResults(pack, [])).map(p => p.id)).toEqual(['cafe', 'bar']);
+    expect((await getPackResults(pack, ['EAT'])).map(p => p.id)).toEqual(['cafe', 'tasca']);
+    expect((await getPackResults(pack, ['EAT', 'DRINK'])).map(p => p.id)).toEqual(['cafe', 'bar']);
+
+    const cafe = await getPackPlace('cafe');
+    // Details only fill gaps - the search result's fields are kept
+    expect(cafe?.place).toMatchObject({ name: 'Place cafe', phone: '+351 21 000 0000' });
+    expect(cafe?.photos).toEqual([expect.stringMatching(/photos\/cafe-0\.jpg$/)]);
+
+    const castle = await getPackPlace('castle');
+    expect(castle?.wiki?.title).toBe('São Jorge Castle');
+    expect(castle?.photos).toEqual([expect.stringMatching(/photos\/castle-0\.png$/)]);
+    expect(await getPackPlace('unknown')).toBeNull();
+
+    expect(getPackTilePathTemplate(pack)).toBe(`/documents/city_packs/${pack.id}/tiles/{z}/{x}/{y}.png`);
+  });
+
+  it('leaves hidden places out', async () => {
+    await hidePlace(makePlace('bar', PlaceCategory.DRINK));
+
+    const pack = await downloadCityPack('Lisbon', LISBON);
+
+    expect((await getPackResults(pack, [])).map(p => p.id)).toEqual(['cafe']);
+    expect(await getPackPlace('bar')).toBeNull();
+  });
+
+  it('fails without saving a pack when nothing is found', async () => {
+    mockGetRecommendations.mockResolvedValue({ city: 'Nowhere', places: [] });
+
+    await expect(downloadCityPack('Nowhere', LISBON)).rejects.toThrow('No places found around Nowhere');
+    expect(await getCityPacks()).toEqual([]);
+  });
+
+  it('replaces an earlier pack with the same name', async () => {
+    const first = await downloadCityPack('Lisbon', LISBON);
+    await nextTick();
+    const second = await downloadCityPack('lisbon', LISBON);
+
+    expect(await getCityPacks()).toEqual([second]);
+    expect(await getPackResults(first, [])).toEqual([]);
+  });
+
+  it('evicts the least recently used packs past the storage budget', async () => {
+    const stale = { id: 'pack-old', name: 'Porto', center: PORTO, radiusKm: 3.2, placeCount: 1, photoCount: 0, tileCount: 0 };
+    await AsyncStorage.setItem(
+      '@vibecheck_city_packs',
+      JSON.stringify([
+        { ...stale, sizeBytes: PACK_STORAGE_BUDGET_BYTES, createdAt: 1, lastUsedAt: 1 },
+        { ...stale, id: 'pack-small', name: 'Braga', sizeBytes: 1, createdAt: 2, lastUsedAt: 2 },
+      ])
+    );
+
+    const pack = await downloadCityPack('Lisbon', LISBON);
+
+    expect((await getCityPacks()).map(p => p.id)).toEqual(['pack-small', pack.id]);
+  });
+});
+
+describe('packs from before place versions', () => {
+  it('upgrades the places on first read and drops those without a location', async () => {
+    const { location, ...unmapped } = makePlace('kiosk', PlaceCategory.EAT);
+    const pack = { ...(await downloadCityPack('Lisbon', LISBON)), id: 'pack-old', placeVersion: undefined };
+    const contents = {
+      results: { ALL: ['castle', 'kiosk'], EXPLORE: ['castle'] },
+      places: {
+        castle: { place: { ...makePlace('castle', PlaceCategory.EXPLORE), category: 'SIGHT', compositeScore: 0.9 }, wiki: null, photos: [] },
+        kiosk: { place: unmapped, wiki: null, photos: [] },
+      },
+    };
+    new File(new Directory(Paths.document, 'city_packs', 'pack-old'), 'pack.json').write(JSON.stringify(contents));
+    await AsyncStorage.setItem('@vibecheck_city_packs', JSON.stringify([pack]));
+
+    expect(await getPackResults(pack)).toEqual([makePlace('castle', PlaceCategory.EXPLORE)]);
+    expect((await getCityPacks())[0].placeVersion).toBe(PLACE_VERSION);
+  });
+});
+
+describe('findCityPack', () => {
+  it('returns the pack covering the coordinates', async () => {
+    const pack = await downloadCityPack('Lisbon', LISBON);
+
+    expect(await findCityPack({ latitude: 38.73, longitude: -9.14 })).toEqual(pack);
+    expect(await findCityPack(PORTO)).toBeNull();
+  });
+});
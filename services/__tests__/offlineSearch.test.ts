@@ -0,0 +1,102 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Place, PlaceCategory } from '../../types';
+import { getOfflineResults, getQueuedSearch, queueSearch, takeQueuedSearch } from '../offlineSearch';
+import { findCityPack, getPackResults } from '../offlinePacks';
+import { saveCachedResults, saveGridCachedResults } from '../storage';
+import { savePlaceToFavorites } from '../collections';
+import { resetDatabase } from '../database';
+
+jest.mock('../offlinePacks', () => ({ findCityPack: jest.fn(), getPackResults: jest.fn() }));
+
+const mockFindCityPack = findCityPack as jest.MockedFunction<typeof findCityPack>;
+const mockGetPackResults = getPackResults as jest.MockedFunction<typeof getPackResults>;
+
+const LISBON = { latitude: 38.7223, longitude: -9.1393 };
+const PORTO = { latitude: 41.1579, longitude: -8.6291 };
+
+const makePlace = (id: string, category = PlaceCategory.EAT, location = LISBON): Place => ({
+  id,
+  name: `Place ${id}`,
+  description: '',
+  category,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetDatabase();
+  mockFindCityPack.mockReset();
+  mockFindCityPack.mockResolvedValue(null);
+  mockGetPackResults.mockReset();
+});
+
+describe('getOfflineResults', () => {
+  it('prefers a city pack covering the area', async () => {
+    const pack = { id: 'pack-1', name: 'Lisbon', createdAt: 1000 } as any;
+    mockFindCityPack.mockResolvedValue(pack);
+    mockGetPackResults.mockResolvedValue([makePlace('packed')]);
+    await saveGridCachedResults(LISBON.latitude, LISBON.longitude, [makePlace('grid')]);
+
+    const results = await getOfflineResults(LISBON, { categories: ['EAT'] });
+
+    expect(results).toEqual({ source: 'pack', places: [makePlace('packed')], city: 'Lisbon', updatedAt: 1000 });
+    expect(mockGetPackResults).toHaveBeenCalledWith(pack, ['EAT']);
+  });
+
+  it('uses the grid cell however old it is', async () => {
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now - 3 * 24 * 60 * 60 * 1000);
+    await saveGridCachedResults(LISBON.latitude, LISBON.longitude, [makePlace('grid')], 'EAT');
+    dateSpy.mockRestore();
+
+    expect(await getOfflineResults(LISBON, { categories: ['EAT'] })).toMatchObject({ source: 'grid', places: [makePlace('grid')] });
+    // Other categories have their own cells
+    expect(await getOfflineResults(LISBON, { categories: ['DRINK'] })).toBeNull();
+  });
+
+  it('falls back to nearby last results, filtered by category', async () => {
+    await saveCachedResults([makePlace('a'), makePlace('b', PlaceCategory.DRINK)], 'Lisbon', LISBON.latitude, LISBON.longitude);
+
+    expect(await getOfflineResults(LISBON, { categories: ['DRINK'] })).toMatchObject({
+      source: 'last',
+      places: [makePlace('b', PlaceCategory.DRINK)],
+      city: 'Lisbon',
+    });
+    expect(await getOfflineResults(PORTO)).toBeNull();
+  });
+
+  it('falls back to favorites within the radius, closest first', async () => {
+    const nearby = { latitude: 38.73, longitude: -9.14 };
+    await savePlaceToFavorites(makePlace('far', PlaceCategory.EAT, nearby));
+    await savePlaceToFavorites(makePlace('near', PlaceCategory.EAT, LISBON));
+    await savePlaceToFavorites(makePlace('porto', PlaceCategory.EAT, PORTO));
+
+    const results = await getOfflineResults(LISBON, { radiusKm: 2 });
+
+    expect(results?.source).toBe('favorites');
+    expect(results?.places.map(place => place.id)).toEqual(['near', 'far']);
+  });
+});
+
+describe('search queue', () => {
+  it('keeps only the latest search and empties on take', async () => {
+    await queueSearch({ coords: LISBON });
+    await queueSearch({ query: 'pizza in porto' });
+
+    expect(await getQueuedSearch()).toMatchObject({ query: 'pizza in porto' });
+    expect(await takeQueuedSearch()).toMatchObject({ query: 'pizza in porto' });
+    expect(await takeQueuedSearch()).toBeNull();
+  });
+
+  it('drops searches queued too long ago', async () => {
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() - 7 * 60 * 60 * 1000);
+    await queueSearch({ coords: LISBON, query: 'coffee' });
+    dateSpy.mockRestore();
+
+    expect(await getQueuedSearch()).toBeNull();
+  });
+});
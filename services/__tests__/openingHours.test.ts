@@ -0,0 +1,149 @@
+import {
+  getOpenBadge,
+  getOpenStatus,
+  isOpenAt,
+  parseFoursquareHours,
+  parseGoogleWeekdayDescriptions,
+  parseOsmOpeningHours,
+  toDateKey,
+} from '../openingHours';
+
+// Local times in the week of Tue 28 May - Sun 2 June 2024
+const tuesday = (hour: number, minute = 0) => new Date(2024, 4, 28, hour, minute);
+const saturday = (hour: number, minute = 0) => new Date(2024, 5, 1, hour, minute);
+const sunday = (hour: number, minute = 0) => new Date(2024, 5, 2, hour, minute);
+
+describe('parseOsmOpeningHours', () => {
+  it('parses weekday ranges and closed days', () => {
+    const hours = parseOsmOpeningHours('Mo-Fr 09:00-17:00; Sa 10:00-14:00; Su off');
+
+    expect(hours?.periods).toHaveLength(6);
+    expect(isOpenAt({ openingHours: hours! }, tuesday(10))).toBe(true);
+    expect(isOpenAt({ openingHours: hours! }, tuesday(18))).toBe(false);
+    expect(isOpenAt({ openingHours: hours! }, saturday(13, 59))).toBe(true);
+    expect(isOpenAt({ openingHours: hours! }, sunday(12))).toBe(false);
+  });
+
+  it('handles split shifts and hours past midnight', () => {
+    const hours = parseOsmOpeningHours('Tu-Sa 11:30-14:30,17:00-02:00')!;
+
+    expect(isOpenAt({ openingHours: hours }, tuesday(15))).toBe(false);
+    expect(isOpenAt({ openingHours: hours }, saturday(23))).toBe(true);
+    // Saturday night runs into Sunday morning
+    expect(isOpenAt({ openingHours: hours }, sunday(1, 30))).toBe(true);
+    expect(isOpenAt({ openingHours: hours }, sunday(2))).toBe(false);
+  });
+
+  it('lets later rules override earlier ones', () => {
+    const hours = parseOsmOpeningHours('Mo-Su 10:00-22:00; Tu off')!;
+    expect(isOpenAt({ openingHours: hours }, tuesday(12))).toBe(false);
+    expect(isOpenAt({ openingHours: hours }, saturday(12))).toBe(true);
+  });
+
+  it('supports 24/7 and wrapping day ranges', () => {
+    expect(isOpenAt({ openingHours: parseOsmOpeningHours('24/7')! }, sunday(4))).toBe(true);
+    expect(isOpenAt({ openingHours: parseOsmOpeningHours('Fr-Mo 18:00-23:00')! }, sunday(19))).toBe(true);
+  });
+
+  it('skips unsupported rules and returns null when nothing parses', () => {
+    expect(parseOsmOpeningHours('sunrise-sunset')).toBeNull();
+    expect(parseOsmOpeningHours('PH off')).toBeNull();
+    expect(parseOsmOpeningHours('Mo-Fr 08:00-18:00; Jan-Mar Sa 10:00-12:00')?.periods).toHaveLength(5);
+  });
+});
+
+describe('parseGoogleWeekdayDescriptions', () => {
+  const week = [
+    'Monday: Closed',
+    'Tuesday: 11:30 AM – 2:30 PM, 5:00 – 10:00 PM',
+    'Wednesday: 11:30 AM – 10:00 PM',
+    'Thursday: 11:30 AM – 10:00 PM',
+    'Friday: 11:30 AM – 1:00 AM',
+    'Saturday: Open 24 hours',
+    'Sunday: 10:00\u202fAM\u2009–\u20099:00\u202fPM', // Narrow spaces as sent by the API
+  ];
+
+  it('parses split shifts with a shared AM/PM', () => {
+    const hours = parseGoogleWeekdayDescriptions(week)!;
+    expect(isOpenAt({ openingHours: hours }, tuesday(12))).toBe(true);
+    expect(isOpenAt({ openingHours: hours }, tuesday(16))).toBe(false);
+    expect(isOpenAt({ openingHours: hours }, tuesday(21))).toBe(true);
+  });
+
+  it('parses closed days and 24-hour days', () => {
+    const hours = parseGoogleWeekdayDescriptions(week)!;
+    expect(hours.periods.some(period => period.day === 1)).toBe(false);
+    expect(isOpenAt({ openingHours: hours }, saturday(4))).toBe(true);
+    expect(isOpenAt({ openingHours: hours }, sunday(20, 30))).toBe(true);
+  });
+
+  it('returns null without descriptions', () => {
+    expect(parseGoogleWeekdayDescriptions(undefined)).toBeNull();
+    expect(parseGoogleWeekdayDescriptions([])).toBeNull();
+  });
+});
+
+describe('parseFoursquareHours', () => {
+  it('maps Foursquare days (1 = Monday, 7 = Sunday) and next-day closes', () => {
+    const hours = parseFoursquareHours({
+      regular: [
+        { day: 6, open: '1800', close: '+0200' },
+        { day: 7, open: '1000', close: '1500' },
+      ],
+    })!;
+
+    expect(hours.periods).toEqual([
+      { day: 0, open: 600, close: 900 },
+      { day: 6, open: 1080, close: 1560 },
+    ]);
+    expect(isOpenAt({ openingHours: hours }, sunday(1))).toBe(true);
+  });
+
+  it('flags local holidays on the day they were fetched', () => {
+    const hours = parseFoursquareHours(
+      { regular: [{ day: 2, open: '0900', close: '1700' }], is_local_holiday: true },
+      tuesday(8)
+    )!;
+    expect(hours.holiday).toBe(toDateKey(tuesday(8)));
+  });
+});
+
+describe('getOpenStatus', () => {
+  const openingHours = parseOsmOpeningHours('Mo-Sa 09:00-17:00')!;
+
+  it('returns when an open place closes', () => {
+    expect(getOpenStatus({ openingHours }, tuesday(16, 15)).closesAt).toEqual(tuesday(17));
+  });
+
+  it('returns the next opening when closed', () => {
+    expect(getOpenStatus({ openingHours }, tuesday(7)).opensAt).toEqual(tuesday(9));
+    expect(getOpenStatus({ openingHours }, saturday(18)).opensAt).toEqual(new Date(2024, 5, 3, 9));
+  });
+
+  it('falls back to the live flag only for the present', () => {
+    const now = tuesday(12).getTime();
+    expect(getOpenStatus({ isOpen: true }, tuesday(12), now).isOpen).toBe(true);
+    expect(getOpenStatus({ isOpen: true }, saturday(12), now).isOpen).toBeUndefined();
+  });
+
+  it('does not trust regular hours on a holiday', () => {
+    const holiday = { ...openingHours, holiday: toDateKey(tuesday(0)) };
+    expect(getOpenStatus({ openingHours: holiday }, tuesday(12), saturday(0).getTime()).isOpen).toBeUndefined();
+    expect(getOpenStatus({ openingHours: holiday }, saturday(12), saturday(0).getTime()).isOpen).toBe(true);
+  });
+});
+
+describe('getOpenBadge', () => {
+  const openingHours = parseOsmOpeningHours('Mo-Fr 17:00-23:00; Sa 10:00-23:00')!;
+
+  it('flags places closing within the hour', () => {
+    expect(getOpenBadge({ openingHours }, tuesday(22, 15))).toBe('Closing soon');
+    expect(getOpenBadge({ openingHours }, tuesday(19))).toBeNull();
+  });
+
+  it('shows when a closed place opens', () => {
+    expect(getOpenBadge({ openingHours }, tuesday(12))).toBe('Opens at 5pm');
+    expect(getOpenBadge({ openingHours }, new Date(2024, 4, 31, 23, 30))).toBe('Opens tomorrow 10am');
+    expect(getOpenBadge({ openingHours }, saturday(23, 30))).toBe('Opens Mon 5pm');
+  });
+});
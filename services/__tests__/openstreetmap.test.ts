@@ -0,0 +1,182 @@
+import { PlaceCategory } from '../../types';
+import {
+  OSMPlace,
+  formatOSMAddress,
+  buildMapsLinkFromOSM,
+  getOSMCategoryDescription,
+  getOSMCuisines,
+  getOSMPlaceCategory,
+  searchOSMPlaces,
+} from '../openstreetmap';
+import { runOverpassQuery } from '../overpass';
+
+jest.mock('../overpass', () => ({ runOverpassQuery: jest.fn() }));
+
+const mockRunQuery = runOverpassQuery as jest.MockedFunction<typeof runOverpassQuery>;
+
+const makeOSMPlace = (tags: OSMPlace['tags'], overrides: Partial<OSMPlace> = {}): OSMPlace => ({
+  type: 'node',
+  id: 1,
+  tags,
+  ...overrides,
+});
+
+describe('formatOSMAddress', () => {
+  it('joins house number, street, city and postcode', () => {
+    const place = makeOSMPlace({
+      'addr:housenumber': '12',
+      'addr:street': 'Main St',
+      'addr:city': 'Springfield',
+      'addr:postcode': '12345',
+    });
+    expect(formatOSMAddress(place)).toBe('12 Main St, Springfield, 12345');
+  });
+
+  it('uses the street alone without a house number', () => {
+    expect(formatOSMAddress(makeOSMPlace({ 'addr:street': 'Main St', 'addr:city': 'Springfield' })))
+      .toBe('Main St, Springfield');
+  });
+
+  it('drops a house number without a street', () => {
+    expect(formatOSMAddress(makeOSMPlace({ 'addr:housenumber': '12', 'addr:city': 'Springfield' })))
+      .toBe('Springfield');
+  });
+
+  it('falls back when no address tags are present', () => {
+    expect(formatOSMAddress(makeOSMPlace({ name: 'Lanes' }))).toBe('Address not available');
+  });
+});
+
+describe('buildMapsLinkFromOSM', () => {
+  it('uses node coordinates', () => {
+    const place = makeOSMPlace({ name: 'Pin & Pint' }, { lat: 40.5, lon: -73.9 });
+    expect(buildMapsLinkFromOSM(place)).toBe(
+      'https://www.google.com/maps/search/?api=1&query=40.5,-73.9&query_place_id=Pin%20%26%20Pint'
+    );
+  });
+
+  it('uses the center of ways', () => {
+    const place = makeOSMPlace({ name: 'Lanes' }, { type: 'way', center: { lat: 51.5, lon: -0.12 } });
+    expect(buildMapsLinkFromOSM(place)).toBe(
+      'https://www.google.com/maps/search/?api=1&query=51.5,-0.12&query_place_id=Lanes'
+    );
+  });
+
+  it('searches by name without coordinates', () => {
+    expect(buildMapsLinkFromOSM(makeOSMPlace({ name: 'Lanes' }))).toBe(
+      'https://www.google.com/maps/search/?api=1&query=Lanes'
+    );
+  });
+});
+
+describe('getOSMCategoryDescription', () => {
+  it.each([
+    [{ leisure: 'bowling_alley' }, 'Bowling Alley'],
+    [{ leisure: 'escape_game' }, 'Escape Room'],
+    [{ sport: 'table_tennis' }, 'Ping Pong / Table Tennis'],
+    [{ sport: '9pin' }, 'Bowling'],
+    [{ amenity: 'internet_cafe' }, 'Internet Cafe'],
+    [{ shop: 'games' }, 'Board Game Cafe'],
+    [{ amenity: 'restaurant' }, 'Restaurant'],
+    [{ amenity: 'restaurant', cuisine: 'middle_eastern;falafel' }, 'Middle Eastern Restaurant'],
+    [{ amenity: 'biergarten' }, 'Beer Garden'],
+    [{ tourism: 'viewpoint' }, 'Viewpoint'],
+    [{ historic: 'castle' }, 'Castle'],
+    [{ historic: 'yes' }, 'Historic Site'],
+  ])('describes %o as %s', (tags, expected) => {
+    expect(getOSMCategoryDescription(makeOSMPlace(tags))).toBe(expected);
+  });
+
+  it('checks leisure before sport', () => {
+    expect(getOSMCategoryDescription(makeOSMPlace({ leisure: 'climbing', sport: 'climbing' }))).toBe('Climbing Gym');
+  });
+
+  it('falls back to the raw tag value', () => {
+    expect(getOSMCategoryDescription(makeOSMPlace({ leisure: 'sauna' }))).toBe('sauna');
+    expect(getOSMCategoryDescription(makeOSMPlace({ amenity: 'theatre' }))).toBe('theatre');
+  });
+
+  it('falls back to a generic label without tags', () => {
+    expect(getOSMCategoryDescription(makeOSMPlace({ name: 'Somewhere' }))).toBe('Activity Venue');
+  });
+});
+
+describe('getOSMCuisines', () => {
+  it('splits and normalizes the cuisine tag', () => {
+    expect(getOSMCuisines(makeOSMPlace({ cuisine: 'Italian; pizza;' }))).toEqual(['italian', 'pizza']);
+  });
+
+  it('returns nothing without a cuisine tag', () => {
+    expect(getOSMCuisines(makeOSMPlace({ amenity: 'bar' }))).toEqual([]);
+  });
+});
+
+describe('getOSMPlaceCategory', () => {
+  it.each([
+    [{ amenity: 'restaurant' }, PlaceCategory.EAT],
+    [{ amenity: 'fast_food' }, PlaceCategory.EAT],
+    [{ amenity: 'pub' }, PlaceCategory.DRINK],
+    [{ amenity: 'biergarten' }, PlaceCategory.DRINK],
+    [{ tourism: 'museum' }, PlaceCategory.EXPLORE],
+    [{ historic: 'monument' }, PlaceCategory.EXPLORE],
+    [{ leisure: 'bowling_alley' }, PlaceCategory.EXPLORE],
+    [{ shop: 'bakery' }, PlaceCategory.UNKNOWN],
+  ])('maps %o to %s', (tags, expected) => {
+    expect(getOSMPlaceCategory(makeOSMPlace(tags))).toBe(expected);
+  });
+
+  it('treats cafes as DRINK unless only EAT was requested', () => {
+    const cafe = makeOSMPlace({ amenity: 'cafe' });
+    expect(getOSMPlaceCategory(cafe)).toBe(PlaceCategory.DRINK);
+    expect(getOSMPlaceCategory(cafe, [PlaceCategory.EAT, PlaceCategory.DRINK])).toBe(PlaceCategory.DRINK);
+    expect(getOSMPlaceCategory(cafe, [PlaceCategory.EAT])).toBe(PlaceCategory.EAT);
+  });
+});
+
+describe('searchOSMPlaces', () => {
+  const pub = makeOSMPlace({ name: 'The Crown', amenity: 'pub' }, { lat: 51.5, lon: -0.12 });
+
+  beforeEach(() => {
+    mockRunQuery.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('runs one around() query for a small radius', async () => {
+    mockRunQuery.mockResolvedValue([pub]);
+
+    await expect(searchOSMPlaces(51.5, -0.12, 2000, [PlaceCategory.DRINK])).resolves.toEqual([pub]);
+    expect(mockRunQuery).toHaveBeenCalledTimes(1);
+    expect(mockRunQuery.mock.calls[0][0]).toContain('(around:2800,51.5,-0.12)');
+  });
+
+  it('keys the cache by grid cell', async () => {
+    mockRunQuery.mockResolvedValue([]);
+
+    await searchOSMPlaces(51.5012, -0.1204, 2000, [PlaceCategory.DRINK]);
+    await searchOSMPlaces(51.4988, -0.1196, 2000, [PlaceCategory.DRINK]);
+    expect(mockRunQuery.mock.calls[0][1]?.cacheKey).toBe('51.5,-0.12:DRINK:2800m:a0:g0');
+    expect(mockRunQuery.mock.calls[1][1]?.cacheKey).toBe(mockRunQuery.mock.calls[0][1]?.cacheKey);
+  });
+
+  it('splits large radii and tag unions, merging duplicates', async () => {
+    mockRunQuery.mockResolvedValue([pub]);
+
+    await expect(searchOSMPlaces(51.5, -0.12, 10000)).resolves.toEqual([pub]);
+    // 2×2 bounding boxes × 2 tag groups
+    expect(mockRunQuery).toHaveBeenCalledTimes(8);
+    expect(mockRunQuery.mock.calls.every(([query]) => !query.includes('around:'))).toBe(true);
+  });
+
+  it('drops places outside the search radius', async () => {
+    const farPub = makeOSMPlace({ name: 'The Anchor', amenity: 'pub' }, { id: 2, lat: 51.52, lon: -0.12 });
+    mockRunQuery.mockResolvedValue([pub, farPub]);
+
+    await expect(searchOSMPlaces(51.5, -0.12, 1000, [PlaceCategory.DRINK])).resolves.toEqual([pub]);
+  });
+
+  it('returns partial results when some queries fail', async () => {
+    mockRunQuery.mockResolvedValueOnce(null).mockResolvedValue([pub]);
+
+    await expect(searchOSMPlaces(51.5, -0.12, 2000)).resolves.toEqual([pub]);
+  });
+});
@@ -0,0 +1,151 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { httpFetch } from '../transport';
+import {
+  OVERPASS_MIRRORS,
+  getMirrorOrder,
+  getOverpassMirrorHealth,
+  resetOverpassMirrorHealth,
+  runOverpassQuery,
+} from '../overpass';
+
+jest.mock('../transport', () => ({ ...jest.requireActual('../transport'), httpFetch: jest.fn() }));
+
+const mockFetch = httpFetch as jest.MockedFunction<typeof httpFetch>;
+
+const QUERY = '[out:json];node["amenity"="pub"](around:1000,51.5,-0.12);out;';
+const ELEMENTS = [{ type: 'node', id: 1, tags: { name: 'The Crown' } }];
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), { status, headers });
+
+beforeEach(async () => {
+  mockFetch.mockReset();
+  resetOverpassMirrorHealth();
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('runOverpassQuery', () => {
+  it('returns elements from the first healthy mirror', async () => {
+    mockFetch.mockResolvedValueOnce(json({ elements: ELEMENTS }));
+
+    await expect(runOverpassQuery(QUERY)).resolves.toEqual(ELEMENTS);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1]).toBe(OVERPASS_MIRRORS[0]);
+  });
+
+  it('fails over to the next mirror on a server error', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({}, 503))
+      .mockResolvedValueOnce(json({ elements: ELEMENTS }));
+
+    await expect(runOverpassQuery(QUERY)).resolves.toEqual(ELEMENTS);
+    expect(mockFetch.mock.calls[1][1]).toBe(OVERPASS_MIRRORS[1]);
+    expect(getOverpassMirrorHealth()[0].failures).toBe(1);
+    expect(getOverpassMirrorHealth()[1].failures).toBe(0);
+  });
+
+  it('backs off before the next mirror after a 429', async () => {
+    jest.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(json({}, 429, { 'Retry-After': '120' }))
+      .mockResolvedValueOnce(json({ elements: ELEMENTS }));
+
+    const result = runOverpassQuery(QUERY);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(500);
+    await expect(result).resolves.toEqual(ELEMENTS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // Retry-After sets the cooldown
+    const [health] = getOverpassMirrorHealth();
+    expect(health.cooldownUntil - Date.now()).toBeGreaterThan(115 * 1000);
+  });
+
+  it('treats a runtime error remark as a timeout', async () => {
+    jest.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(json({ elements: [], remark: 'runtime error: Query timed out in "query" at line 3' }))
+      .mockResolvedValueOnce(json({ elements: ELEMENTS }));
+
+    const result = runOverpassQuery(QUERY);
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toEqual(ELEMENTS);
+  });
+
+  it('does not retry a rejected query', async () => {
+    mockFetch.mockResolvedValueOnce(json({}, 400));
+
+    await expect(runOverpassQuery(QUERY)).resolves.toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null when every mirror fails', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Network request failed'));
+
+    await expect(runOverpassQuery(QUERY)).resolves.toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(OVERPASS_MIRRORS.length);
+  });
+
+  it('stops waiting when the search is cancelled', async () => {
+    jest.useFakeTimers();
+    const controller = new AbortController();
+    mockFetch.mockResolvedValueOnce(json({}, 504));
+
+    const result = runOverpassQuery(QUERY, { signal: controller.signal });
+    const assertion = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await jest.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await assertion;
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves repeat queries from the cache', async () => {
+    mockFetch.mockResolvedValueOnce(json({ elements: ELEMENTS }));
+
+    await runOverpassQuery(QUERY, { cacheKey: '51.5,-0.12:DRINK' });
+    await expect(runOverpassQuery(QUERY, { cacheKey: '51.5,-0.12:DRINK' })).resolves.toEqual(ELEMENTS);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failures', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({}, 400))
+      .mockResolvedValueOnce(json({ elements: ELEMENTS }));
+
+    await runOverpassQuery(QUERY, { cacheKey: 'cell' });
+    await expect(runOverpassQuery(QUERY, { cacheKey: 'cell' })).resolves.toEqual(ELEMENTS);
+  });
+});
+
+describe('getMirrorOrder', () => {
+  it('moves cooling-down mirrors to the end', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({}, 500))
+      .mockResolvedValueOnce(json({ elements: [] }));
+    await runOverpassQuery(QUERY);
+
+    expect(getMirrorOrder()).toEqual([OVERPASS_MIRRORS[1], OVERPASS_MIRRORS[2], OVERPASS_MIRRORS[0]]);
+  });
+
+  it('ranks a recovered mirror behind mirrors without failures', async () => {
+    mockFetch
+      .mockResolvedValueOnce(json({}, 500))
+      .mockResolvedValueOnce(json({ elements: [] }))
+      .mockResolvedValueOnce(json({}, 500))
+      .mockResolvedValueOnce(json({ elements: [] }));
+    await runOverpassQuery(QUERY); // Main instance fails once
+    await runOverpassQuery(QUERY); // Second mirror fails once
+
+    // After both cooldowns: fewer failures first, list order on ties
+    const later = Date.now() + 60 * 1000;
+    expect(getMirrorOrder(later)).toEqual([OVERPASS_MIRRORS[2], OVERPASS_MIRRORS[0], OVERPASS_MIRRORS[1]]);
+  });
+});
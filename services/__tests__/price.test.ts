@@ -0,0 +1,71 @@
+import { Place, PlaceCategory } from '../../types';
+import { formatPriceLevel, fromFoursquarePrice, fromGooglePriceLevel, matchesPriceRange } from '../price';
+
+const place = (priceLevel?: Place['priceLevel']): Place => ({
+  id: 'p1',
+  name: 'Tatte Bakery',
+  description: 'Bakery',
+  category: PlaceCategory.EAT,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 42.36, longitude: -71.06 },
+  priceLevel,
+});
+
+describe('fromFoursquarePrice', () => {
+  it('keeps the 1-4 scale', () => {
+    expect(fromFoursquarePrice(1)).toBe(1);
+    expect(fromFoursquarePrice(4)).toBe(4);
+  });
+
+  it('returns undefined without a price', () => {
+    expect(fromFoursquarePrice(undefined)).toBeUndefined();
+  });
+});
+
+describe('fromGooglePriceLevel', () => {
+  it.each([
+    ['PRICE_LEVEL_FREE', 1],
+    ['PRICE_LEVEL_INEXPENSIVE', 1],
+    ['PRICE_LEVEL_MODERATE', 2],
+    ['PRICE_LEVEL_EXPENSIVE', 3],
+    ['PRICE_LEVEL_VERY_EXPENSIVE', 4],
+  ])('maps %s to %i', (level, expected) => {
+    expect(fromGooglePriceLevel(level)).toBe(expected);
+  });
+
+  it('treats unspecified levels as unknown', () => {
+    expect(fromGooglePriceLevel('PRICE_LEVEL_UNSPECIFIED')).toBeUndefined();
+    expect(fromGooglePriceLevel(undefined)).toBeUndefined();
+  });
+
+  it('maps the legacy 0-4 scale (0 = free)', () => {
+    expect(fromGooglePriceLevel(0)).toBe(1);
+    expect(fromGooglePriceLevel(3)).toBe(3);
+  });
+});
+
+describe('formatPriceLevel', () => {
+  it('renders one $ per tier', () => {
+    expect(formatPriceLevel(1)).toBe('$');
+    expect(formatPriceLevel(4)).toBe('$$$$');
+  });
+});
+
+describe('matchesPriceRange', () => {
+  it('passes everything without a range', () => {
+    expect(matchesPriceRange(place(4), null)).toBe(true);
+  });
+
+  it('keeps places inside the range', () => {
+    expect(matchesPriceRange(place(2), { min: 1, max: 2 })).toBe(true);
+    expect(matchesPriceRange(place(3), { min: 1, max: 2 })).toBe(false);
+    expect(matchesPriceRange(place(1), { min: 3, max: 4 })).toBe(false);
+  });
+
+  it('keeps places with an unknown price', () => {
+    expect(matchesPriceRange(place(undefined), { min: 1, max: 1 })).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { PlaceCategory } from '../../types';
+import { QueryIntent, parseQueryIntent, getRadiusForIntent, getCityScale } from '../queryIntent';
+
+describe('parseQueryIntent', () => {
+  it.each<[string, Partial<QueryIntent>]>([
+    // Location clauses
+    ['pizza in Brooklyn', { query: 'pizza', location: 'Brooklyn', looksLikeLocation: false }],
+    ['ramen near Shibuya, Tokyo', { query: 'ramen', location: 'Shibuya, Tokyo' }],
+    ['coffee around Union Square', { query: 'coffee', location: 'Union Square' }],
+    ['Tacos IN Austin', { query: 'Tacos', location: 'Austin' }],
+    ['  bars in   Lisbon  ', { text: 'bars in Lisbon', query: 'bars', location: 'Lisbon' }],
+    ['things to do in Lisbon tonight', { query: 'things to do tonight', location: 'Lisbon', time: 'tonight' }],
+    ['rooftop bars in New York in summer', { query: 'rooftop bars in summer', location: 'New York' }],
+    ['bars near me in Brooklyn', { query: 'bars near me', location: 'Brooklyn', nearMe: true }],
+    // Clauses that are not places to geocode
+    ['drinks in the park', { query: 'drinks in the park', location: null }],
+    ['lunch in the sun', { location: null, time: 'lunch' }],
+    ['pizza in 10 minutes', { location: null }],
+    ['coffee near me', { query: 'coffee near me', location: null, nearMe: true }],
+    ['dinner near', { query: 'dinner near', location: null }],
+    // Bare places
+    ['Rome, Italy', { location: null, looksLikeLocation: true }],
+    ['tokyo', { location: null, looksLikeLocation: true }],
+    ['indian food', { looksLikeLocation: false }],
+    ['ice cream', { looksLikeLocation: false }],
+    ['karaoke', { looksLikeLocation: false }],
+    ['vegan', { looksLikeLocation: false }],
+    ['rooftop', { looksLikeLocation: false }],
+    ['something fun', { themes: [], looksLikeLocation: false }],
+    ['', { text: '', query: '', looksLikeLocation: false }],
+  ])('parses the location of "%s"', (input, expected) => {
+    expect(parseQueryIntent(input)).toMatchObject(expected);
+  });
+
+  it.each<[string, Partial<QueryIntent>]>([
+    ['sushi', { themes: ['food'], categories: [PlaceCategory.EAT], cuisine: 'sushi' }],
+    ['thai restaurants', { themes: ['food'], cuisine: 'thai' }],
+    ['dim sum brunch', { cuisine: 'dim sum', time: 'brunch' }],
+    ['espresso bars', { themes: ['coffee', 'alcohol'], categories: [PlaceCategory.DRINK] }],
+    ['cocktail lounges', { themes: ['alcohol'], cuisine: null }],
+    ['drinks in the park', { themes: ['drinks', 'activity'], categories: [PlaceCategory.DRINK, PlaceCategory.EXPLORE] }],
+    ['museums', { themes: ['sight'], categories: [PlaceCategory.EXPLORE] }],
+    ['bowling and tacos', { themes: ['food', 'activity'], categories: [PlaceCategory.EAT, PlaceCategory.EXPLORE] }],
+  ])('detects what "%s" is looking for', (input, expected) => {
+    expect(parseQueryIntent(input)).toMatchObject(expected);
+  });
+
+  it.each<[string, Partial<QueryIntent>]>([
+    ['cheap eats', { price: { min: 1, max: 1 } }],
+    ['affordable brunch', { price: { min: 1, max: 2 } }],
+    ['fancy dinner', { price: { min: 3, max: 4 } }],
+    ['$$ italian', { price: { min: 2, max: 2 } }],
+    ['$$$$ steak', { price: { min: 4, max: 4 } }],
+    ['pizza', { price: null }],
+    ['tacos open now', { time: 'now' }],
+    ['ramen open late', { time: 'lateNight' }],
+    ['late night food', { time: 'lateNight' }],
+    ['bars tonight', { time: 'tonight' }],
+    ['breakfast burritos', { time: 'breakfast' }],
+    ['markets this weekend', { time: 'weekend' }],
+  ])('detects price and time in "%s"', (input, expected) => {
+    expect(parseQueryIntent(input)).toMatchObject(expected);
+  });
+
+  it.each<[string, Partial<QueryIntent>]>([
+    ['coffee shops nearby', { nearMe: true, radiusHint: 'tight' }],
+    ['restaurants near me', { nearMe: true, radiusHint: 'local' }],
+    ['local', { nearMe: true, radiusHint: 'local' }],
+    ['local favorites', { nearMe: true }],
+    ['local sushi', { nearMe: false, radiusHint: 'local' }],
+    ['pizza in NYC', { nearMe: false, radiusHint: 'city' }],
+    ['iconic places', { mode: 'tourist', radiusHint: 'city' }],
+    ['famous landmarks', { mode: 'tourist' }],
+    ['hidden gems in Austin', { mode: 'local', location: 'Austin' }],
+    ['best pizza', { mode: null, radiusHint: null }],
+  ])('detects distance and mode in "%s"', (input, expected) => {
+    expect(parseQueryIntent(input)).toMatchObject(expected);
+  });
+
+  it.each([
+    ['cheap ramen open late near me', 'ramen'],
+    ['$$ italian', 'italian'],
+    ['coffee shops nearby', 'coffee shops'],
+    ['pizza in Brooklyn', 'pizza'],
+  ])('strips modifiers from the keywords of "%s"', (input, keywords) => {
+    expect(parseQueryIntent(input).keywords).toBe(keywords);
+  });
+});
+
+describe('getCityScale', () => {
+  it.each([
+    ['New York, NY', 'major'],
+    ['NYC', 'major'],
+    ['Boston, MA', 'medium'],
+    ['Atlanta, GA', 'medium'],
+    ['Dallas', 'medium'],
+    ['Burlington, VT', 'small'],
+  ])('classifies %s as %s', (city, scale) => {
+    expect(getCityScale(city)).toBe(scale);
+  });
+});
+
+describe('getRadiusForIntent', () => {
+  it.each([
+    ['', 'Boston, MA', 3.2],
+    ['coffee shops nearby', 'New York, NY', 3.2],
+    ['restaurants near me', 'New York, NY', 4.8],
+    ['pizza in NYC', 'Burlington, VT', 20],
+    ['pizza in Boston', 'New York, NY', 14],
+    ['pizza in Burlington', 'New York, NY', 8],
+    ['iconic places', 'Boston, MA', 14],
+    ['pizza', 'New York, NY', 4.8],
+  ])('uses %p in %s -> %d km', (query, city, radius) => {
+    expect(getRadiusForIntent(parseQueryIntent(query), city)).toBe(radius);
+  });
+});
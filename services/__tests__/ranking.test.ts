@@ -0,0 +1,139 @@
+import { Place, PlaceCategory } from '../../types';
+import {
+  getPopularityScore,
+  getRankingWeights,
+  rankPlaces,
+  RankingContext,
+  resetRankingWeights,
+  scorePlace,
+  setRankingWeights,
+} from '../ranking';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-15T12:00:00Z').getTime();
+const CENTER = { latitude: 42.36, longitude: -71.06 };
+
+const makePlace = (name: string, extra: Partial<Place> = {}): Place => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  description: '',
+  category: PlaceCategory.EAT,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: CENTER,
+  ...extra,
+});
+
+const makeContext = (extra: Partial<RankingContext> = {}): RankingContext => ({
+  center: CENTER,
+  radiusKm: 2,
+  shownPlaceNames: [],
+  history: [],
+  favorites: [],
+  hiddenPlaceNames: [],
+  now: NOW,
+  ...extra,
+});
+
+const signal = (place: Place, context: RankingContext, name: string) =>
+  scorePlace(place, context).components.find(component => component.signal === name)!;
+
+afterEach(() => {
+  resetRankingWeights();
+});
+
+describe('getPopularityScore', () => {
+  it('grows with rating and, on a log scale, with reviews', () => {
+    expect(getPopularityScore(4, 0)).toBeCloseTo(4);
+    expect(getPopularityScore(4, 90)).toBeCloseTo(8);
+    expect(getPopularityScore(4, 990)).toBeCloseTo(12);
+  });
+
+  it('treats a missing rating as zero', () => {
+    expect(getPopularityScore(undefined, 500)).toBe(0);
+  });
+});
+
+describe('scorePlace', () => {
+  it('weights each signal and adds them up', () => {
+    const score = scorePlace(makePlace('Tatte', { rating: '4.5', reviewCount: 800 }), makeContext());
+
+    expect(score.components.map(component => component.signal)).toEqual(
+      ['popularity', 'distance', 'openNow', 'novelty', 'affinity']
+    );
+    score.components.forEach(component => {
+      expect(component.contribution).toBeCloseTo(component.value * component.weight);
+    });
+    expect(score.total).toBeCloseTo(score.components.reduce((sum, component) => sum + component.contribution, 0));
+  });
+
+  it('scores distance down to zero at the edge of the radius', () => {
+    const context = makeContext();
+    const far = makePlace('Far', { location: { latitude: 42.4, longitude: -71.06 } });
+
+    expect(signal(makePlace('Here'), context, 'distance').value).toBe(1);
+    expect(signal(far, context, 'distance').value).toBe(0);
+  });
+
+  it('uses the live open flag when there are no hours', () => {
+    const context = makeContext();
+    expect(signal(makePlace('Open', { isOpen: true }), context, 'openNow').value).toBe(1);
+    expect(signal(makePlace('Closed', { isOpen: false }), context, 'openNow').value).toBe(0);
+    expect(signal(makePlace('Unknown'), context, 'openNow').detail).toBe('Hours unknown');
+  });
+
+  it('lowers novelty for places already shown or seen recently', () => {
+    const place = makePlace('Tatte');
+
+    expect(signal(place, makeContext(), 'novelty').value).toBe(1);
+    expect(signal(place, makeContext({ shownPlaceNames: ['tatte'] }), 'novelty').value).toBe(0);
+
+    const seen = (days: number) => makeContext({
+      history: [{ place, viewedAt: NOW - days * DAY_MS, location: 'Boston' }],
+    });
+    expect(signal(place, seen(0), 'novelty')).toMatchObject({ value: 0.3, detail: 'You saw this today' });
+    expect(signal(place, seen(15), 'novelty').value).toBeCloseTo(0.65);
+    expect(signal(place, seen(45), 'novelty').value).toBe(1);
+  });
+
+  it('scores affinity from favorites and hidden places', () => {
+    const favorite = makePlace('Neptune Oyster', { tags: ['seafood', 'point_of_interest'] });
+    const context = makeContext({ favorites: [favorite], hiddenPlaceNames: ['Dunkin'] });
+
+    expect(signal(favorite, context, 'affinity').value).toBe(1);
+    expect(signal(makePlace('Dunkin’'), context, 'affinity').value).toBe(0);
+    expect(signal(makePlace('Row 34', { tags: ['seafood'] }), context, 'affinity')).toMatchObject({
+      value: 1,
+      detail: 'Like your favorites: seafood',
+    });
+    expect(signal(makePlace('Bar', { category: PlaceCategory.DRINK }), context, 'affinity').value).toBe(0);
+    expect(signal(favorite, makeContext(), 'affinity').value).toBe(0.5);
+  });
+});
+
+describe('rankPlaces', () => {
+  it('sorts best first and attaches the score', () => {
+    const ranked = rankPlaces(
+      [makePlace('Unrated'), makePlace('Tatte', { rating: '4.8', reviewCount: 2000 })],
+      makeContext()
+    );
+
+    expect(ranked.map(place => place.name)).toEqual(['Tatte', 'Unrated']);
+    expect(ranked[0].score!.total).toBeGreaterThan(ranked[1].score!.total);
+  });
+
+  it('follows the configured weights', () => {
+    const places = [
+      makePlace('Popular', { rating: '4.9', reviewCount: 5000, location: { latitude: 42.37, longitude: -71.06 } }),
+      makePlace('Nearby'),
+    ];
+
+    expect(rankPlaces(places, makeContext())[0].name).toBe('Popular');
+
+    setRankingWeights({ popularity: 0, distance: 1 });
+    expect(getRankingWeights()).toMatchObject({ popularity: 0, distance: 1, openNow: 0.1 });
+    expect(rankPlaces(places, makeContext())[0].name).toBe('Nearby');
+  });
+});
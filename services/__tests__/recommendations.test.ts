@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { resetDatabase } from '../database';
+import { Fixture, setFixtureStore, setTransportMode } from '../transport';
+import { createFileFixtureStore } from '../fixtureFileStore';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'http');
+// Dummy keys - providers only check that one is configured, replayed requests never send them
+const GOOGLE_KEY = 'fixture-google-key';
+const FOURSQUARE_KEY = 'fixture-foursquare-key';
+
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: { GEMINI_API_KEY: 'fixture-google-key' } } },
+}));
+
+// Read when foursquare.ts loads, so the registry is imported after it's set
+process.env.EXPO_PUBLIC_FOURSQUARE_API_KEY = FOURSQUARE_KEY;
+const { getRecommendations, setProviderOrder } = require('../providers') as typeof import('../providers');
+
+const NORTH_END = { latitude: 42.3636, longitude: -71.0544 };
+
+const readFixtures = (): Fixture[] =>
+  fs.readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8')));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetDatabase();
+  setFixtureStore(createFileFixtureStore(FIXTURE_DIR));
+  setTransportMode('replay');
+  // Wikipedia sights are left out - they have no fixtures
+  setProviderOrder(['foursquare', 'overpass', 'google']);
+});
+
+afterAll(() => {
+  setTransportMode('live');
+});
+
+describe('getRecommendations (replayed)', () => {
+  it('falls back from Foursquare to OpenStreetMap to Google and merges the results', async () => {
+    const { city, places } = await getRecommendations(NORTH_END);
+
+    expect(city).toBe('Boston, MA');
+    expect(places.map(place => place.name).sort()).toEqual([
+      'Bell in Hand Tavern',
+      'Bricco',
+      'Caffe Vittoria',
+      'Mike\'s Pastry',
+      'Neptune Oyster',
+      'Paul Revere House',
+      'Regina Pizzeria',
+      'The Green Dragon',
+    ]);
+
+    // Found by Foursquare and Google - one place, Foursquare's identity
+    const neptune = places.find(place => place.name === 'Neptune Oyster')!;
+    expect(neptune.source).toBe('foursquare');
+    expect(neptune.sources).toEqual(['foursquare', 'google']);
+
+    expect(places.filter(place => place.source === 'overpass').map(place => place.name).sort())
+      .toEqual(['Regina Pizzeria', 'The Green Dragon']);
+    // Each place comes back ranked
+    expect(places.every(place => place.score !== undefined)).toBe(true);
+  });
+
+  it('never goes to the network', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+
+    await getRecommendations(NORTH_END);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+});
+
+describe('recorded fixtures', () => {
+  it('contain no API keys', () => {
+    const fixtures = readFixtures();
+    expect(fixtures.length).toBeGreaterThan(0);
+
+    fixtures.forEach(fixture => {
+      expect(fixture.request.url).not.toMatch(/[?&](key|api_key|apikey|access_token)=/i);
+      const stored = JSON.stringify(fixture);
+      expect(stored).not.toContain(GOOGLE_KEY);
+      expect(stored).not.toContain(FOURSQUARE_KEY);
+    });
+  });
+});
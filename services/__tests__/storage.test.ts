@@ -0,0 +1,265 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Place, PlaceCategory } from '../../types';
+import {
+  getGridKey,
+  getGridCachedResults,
+  saveGridCachedResults,
+  getGridCacheStats,
+  getCachedResults,
+  saveCachedResults,
+  getHiddenPlaces,
+  hidePlace,
+  unhidePlace,
+  isPlaceHidden,
+} from '../storage';
+import { resetDatabase } from '../database';
+import { PLACE_VERSION } from '../migrations';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const makePlace = (name: string): Place => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  description: '',
+  category: PlaceCategory.EAT,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 40.7128, longitude: -74.006 },
+});
+
+describe('getGridKey', () => {
+  it('rounds coordinates to ~1.1km cells', () => {
+    expect(getGridKey(40.71284, -74.00601)).toBe('40.71,-74.01:ALL');
+    expect(getGridKey(40.7149, -74.0049)).toBe('40.71,-74:ALL');
+  });
+
+  it('puts nearby coordinates in the same cell', () => {
+    expect(getGridKey(40.7101, -74.0001)).toBe(getGridKey(40.7149, -74.0049));
+  });
+
+  it('includes the category in the key', () => {
+    expect(getGridKey(40.7128, -74.006, 2, 'EAT')).toBe('40.71,-74.01:EAT');
+  });
+
+  it('supports other precisions', () => {
+    expect(getGridKey(40.7128, -74.006, 1)).toBe('40.7,-74:ALL');
+  });
+});
+
+describe('grid cache', () => {
+  const lat = 40.7128;
+  const lng = -74.006;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await resetDatabase();
+    jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns cached places for the same cell', async () => {
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')]);
+
+    const places = await getGridCachedResults(lat + 0.001, lng);
+    expect(places?.map(p => p.name)).toEqual(['Joe Pizza']);
+  });
+
+  it('misses for an empty cache', async () => {
+    expect(await getGridCachedResults(lat, lng)).toBeNull();
+  });
+
+  it('expires entries older than 6 hours and removes them', async () => {
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')]);
+
+    jest.advanceTimersByTime(6 * HOUR_MS + 1000);
+    expect(await getGridCachedResults(lat, lng)).toBeNull();
+    expect((await getGridCacheStats()).totalCells).toBe(0);
+  });
+
+  it('keeps entries up to 6 hours old', async () => {
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')]);
+
+    jest.advanceTimersByTime(6 * HOUR_MS - 1000);
+    expect(await getGridCachedResults(lat, lng)).not.toBeNull();
+  });
+
+  it('refreshes the timestamp and search count on a hit', async () => {
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')]);
+
+    jest.advanceTimersByTime(5 * HOUR_MS);
+    await getGridCachedResults(lat, lng);
+    jest.advanceTimersByTime(5 * HOUR_MS);
+
+    expect(await getGridCachedResults(lat, lng)).not.toBeNull();
+    expect((await getGridCacheStats()).totalSearches).toBe(3);
+  });
+
+  it('keeps categories in separate cells', async () => {
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')], 'EAT');
+    await saveGridCachedResults(lat, lng, [makePlace('Dead Rabbit')], 'DRINK');
+
+    expect((await getGridCachedResults(lat, lng, 'EAT'))?.[0].name).toBe('Joe Pizza');
+    expect((await getGridCachedResults(lat, lng, 'DRINK'))?.[0].name).toBe('Dead Rabbit');
+    expect(await getGridCachedResults(lat, lng)).toBeNull();
+  });
+
+  it('misses when a category is requested but the cell has none', async () => {
+    // Hand-written entry (imported from the AsyncStorage grid cache): the category key exists but the entry has no category filter
+    const gridKey = getGridKey(lat, lng, 2, 'EAT');
+    await AsyncStorage.setItem('@vibecheck:grid_cache_v2', JSON.stringify({
+      [gridKey]: { gridKey, places: [makePlace('Joe Pizza')], timestamp: Date.now(), searchCount: 1 },
+    }));
+
+    expect(await getGridCachedResults(lat, lng, 'EAT')).toBeNull();
+  });
+
+  it('misses when the cached category differs from the requested one', async () => {
+    const gridKey = getGridKey(lat, lng, 2, 'EAT');
+    await AsyncStorage.setItem('@vibecheck:grid_cache_v2', JSON.stringify({
+      [gridKey]: { gridKey, places: [makePlace('Joe Pizza')], timestamp: Date.now(), searchCount: 1, category: 'DRINK' },
+    }));
+
+    expect(await getGridCachedResults(lat, lng, 'EAT')).toBeNull();
+  });
+
+  it('misses when both sides have different queries', async () => {
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')], undefined, 'pizza');
+
+    expect(await getGridCachedResults(lat, lng, undefined, 'ramen')).toBeNull();
+    expect(await getGridCachedResults(lat, lng, undefined, 'pizza')).not.toBeNull();
+  });
+
+  it('hits when only one side has a query', async () => {
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')]);
+    expect(await getGridCachedResults(lat, lng, undefined, 'pizza')).not.toBeNull();
+
+    await saveGridCachedResults(lat, lng, [makePlace('Joe Pizza')], undefined, 'pizza');
+    expect(await getGridCachedResults(lat, lng)).not.toBeNull();
+  });
+
+  it('evicts the least searched cells beyond 100 entries', async () => {
+    // Search the first cell twice so it survives eviction
+    await saveGridCachedResults(0, 0, [makePlace('Popular')]);
+    await saveGridCachedResults(0, 0, [makePlace('Popular')]);
+
+    for (let i = 1; i <= 100; i++) {
+      await saveGridCachedResults(i / 10, 0, [makePlace(`Place ${i}`)]);
+    }
+
+    const stats = await getGridCacheStats();
+    expect(stats.totalCells).toBe(100);
+    expect(await getGridCachedResults(0, 0)).not.toBeNull();
+    expect(await getGridCachedResults(10, 0)).not.toBeNull();
+  });
+
+  it('never evicts the cell that was just saved', async () => {
+    for (let i = 0; i < 100; i++) {
+      await saveGridCachedResults(i / 10, 0, [makePlace(`Place ${i}`)]);
+      await saveGridCachedResults(i / 10, 0, [makePlace(`Place ${i}`)]);
+    }
+
+    await saveGridCachedResults(20, 0, [makePlace('Newcomer')]);
+
+    expect((await getGridCacheStats()).totalCells).toBe(100);
+    expect((await getGridCachedResults(20, 0))?.[0].name).toBe('Newcomer');
+  });
+});
+
+describe('cached search results', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns results saved less than 24 hours ago', async () => {
+    await saveCachedResults([makePlace('Joe Pizza')], 'New York, NY', 40.7128, -74.006, 'pizza');
+
+    jest.advanceTimersByTime(23 * HOUR_MS);
+    const cached = await getCachedResults();
+    expect(cached?.city).toBe('New York, NY');
+    expect(cached?.query).toBe('pizza');
+  });
+
+  it('clears results older than 24 hours', async () => {
+    await saveCachedResults([makePlace('Joe Pizza')], 'New York, NY', 40.7128, -74.006);
+
+    jest.advanceTimersByTime(25 * HOUR_MS);
+    expect(await getCachedResults()).toBeNull();
+    expect(await AsyncStorage.getItem('@vibecheck:cached_results_v2')).toBeNull();
+  });
+
+  it('upgrades places in results saved before the store had a version', async () => {
+    const { location, ...unmapped } = makePlace('Castelo');
+    await AsyncStorage.setItem('@vibecheck:cached_results_v2', JSON.stringify({
+      places: [
+        { ...unmapped, category: 'SIGHT', mapLink: 'https://www.google.com/maps/search/?api=1&query=38.7139,-9.1334' },
+        { ...unmapped, id: 'no-coordinates' },
+      ],
+      city: 'Lisbon',
+      latitude: 38.7223,
+      longitude: -9.1393,
+      timestamp: Date.now(),
+    }));
+
+    const cached = await getCachedResults();
+
+    expect(cached?.places).toEqual([{
+      ...unmapped,
+      category: PlaceCategory.EXPLORE,
+      mapLink: 'https://www.google.com/maps/search/?api=1&query=38.7139,-9.1334',
+      location: { latitude: 38.7139, longitude: -9.1334 },
+    }]);
+    expect(JSON.parse((await AsyncStorage.getItem('@vibecheck:cached_results_v2'))!).version).toBe(PLACE_VERSION);
+  });
+});
+
+describe('hidden places', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('hides one place by ID, keeping its name and city', async () => {
+    const joes = makePlace("Joe's");
+    const entry = await hidePlace(joes, 'New York, NY');
+
+    expect(entry).toEqual({ placeId: "joe's", name: "Joe's", city: 'New York, NY', hiddenAt: Date.now() });
+    const hidden = await getHiddenPlaces();
+    expect(isPlaceHidden(joes, hidden)).toBe(true);
+    // Another Joe's somewhere else still shows
+    expect(isPlaceHidden({ ...joes, id: 'joes-boston' }, hidden)).toBe(false);
+  });
+
+  it('unhides and ignores repeat hides', async () => {
+    const entry = await hidePlace(makePlace('Joe Pizza'));
+    await hidePlace(makePlace('Joe Pizza'));
+    expect(await getHiddenPlaces()).toHaveLength(1);
+
+    await unhidePlace(entry);
+    expect(await getHiddenPlaces()).toEqual([]);
+  });
+
+  it('still reads names hidden before IDs were stored', async () => {
+    await AsyncStorage.setItem('@vibecheck:hidden_places', JSON.stringify(["Joe's"]));
+
+    const hidden = await getHiddenPlaces();
+    expect(hidden).toEqual([{ name: "Joe's", hiddenAt: 0 }]);
+    expect(isPlaceHidden({ ...makePlace("Joe's"), id: 'anywhere' }, hidden)).toBe(true);
+
+    await unhidePlace(hidden[0]);
+    expect(await getHiddenPlaces()).toEqual([]);
+  });
+});
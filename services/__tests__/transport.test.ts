@@ -0,0 +1,87 @@
+import {
+  createMemoryFixtureStore,
+  getFixtureKey,
+  httpFetch,
+  isAbortError,
+  recordCall,
+  setFixtureStore,
+  setTransportMode,
+  throwIfAborted,
+} from '../transport';
+
+const URL = 'https://api.example.com/places?ll=42.36,-71.06&key=secret';
+
+const abortedSignal = (): AbortSignal => {
+  const controller = new AbortController();
+  controller.abort();
+  return controller.signal;
+};
+
+beforeEach(() => {
+  setTransportMode('replay');
+  setFixtureStore(createMemoryFixtureStore([{
+    key: getFixtureKey('foursquare', 'GET', URL),
+    service: 'foursquare',
+    request: { method: 'GET', url: URL },
+    response: { status: 200, headers: {}, body: '{"results":[]}' },
+    recordedAt: 0,
+  }]));
+});
+
+afterAll(() => {
+  setTransportMode('live');
+});
+
+describe('throwIfAborted', () => {
+  it('throws an AbortError only once the signal is aborted', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+
+    controller.abort();
+    let thrown: unknown;
+    try {
+      throwIfAborted(controller.signal);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(isAbortError(thrown)).toBe(true);
+  });
+
+  it('does not treat other errors as aborts', () => {
+    expect(isAbortError(new Error('Network request failed'))).toBe(false);
+    expect(isAbortError('AbortError')).toBe(false);
+  });
+});
+
+describe('httpFetch', () => {
+  it('replays a recorded fixture', async () => {
+    const response = await httpFetch('foursquare', URL);
+    expect(await response.json()).toEqual({ results: [] });
+  });
+
+  it('rejects an already-aborted request without reading fixtures', async () => {
+    await expect(httpFetch('foursquare', URL, { signal: abortedSignal() })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('recordCall', () => {
+  it('never starts a call whose signal is aborted', async () => {
+    setTransportMode('live');
+    const call = jest.fn().mockResolvedValue({ text: 'late' });
+
+    await expect(recordCall('gemini', { prompt: 'x' }, call, abortedSignal())).rejects.toMatchObject({ name: 'AbortError' });
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('drops the result when the signal aborts while the call runs', async () => {
+    setTransportMode('live');
+    const controller = new AbortController();
+    const call = jest.fn(async () => {
+      controller.abort(); // SDK ignored the signal and resolved anyway
+      return { text: 'late' };
+    });
+
+    await expect(recordCall('gemini', { prompt: 'x' }, call, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,187 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HistoryEntry, Place, PlaceCategory } from '../../types';
+import {
+  createTrip,
+  deleteTrip,
+  getPinnedTrip,
+  getTripEndDate,
+  getTripHistory,
+  getTrips,
+  groupHistoryByDay,
+  linkCollectionToTrip,
+  recordTripHistory,
+  startTrip,
+  unlinkCollectionFromTrip,
+} from '../trips';
+import { addToHistory, clearHistory } from '../collections';
+import { getGridCachedResults, saveGridCachedResults } from '../storage';
+import { toDateKey } from '../openingHours';
+import { geocodeLocation } from '../geocoding';
+import { getRecommendations } from '../providers';
+import { resetDatabase } from '../database';
+
+jest.mock('../geocoding', () => ({ geocodeLocation: jest.fn() }));
+jest.mock('../providers', () => ({ getRecommendations: jest.fn() }));
+
+const mockGeocode = geocodeLocation as jest.MockedFunction<typeof geocodeLocation>;
+const mockGetRecommendations = getRecommendations as jest.MockedFunction<typeof getRecommendations>;
+
+const LISBON = { latitude: 38.7223, longitude: -9.1393 };
+const TODAY = toDateKey(new Date());
+
+const makePlace = (id: string): Place => ({
+  id,
+  name: `Place ${id}`,
+  description: '',
+  category: PlaceCategory.EAT,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: LISBON,
+});
+
+const makeEntry = (id: string, viewedAt: number): HistoryEntry => ({
+  place: makePlace(id),
+  viewedAt,
+  location: 'Lisbon',
+});
+
+const createLisbonTrip = (startDate = TODAY, days = 7) =>
+  createTrip({ destination: 'Lisbon', startDate, endDate: getTripEndDate(startDate, days) });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetDatabase();
+  mockGeocode.mockReset();
+  mockGeocode.mockResolvedValue({ coords: LISBON, formattedAddress: 'Lisbon, Portugal' });
+  mockGetRecommendations.mockReset();
+  mockGetRecommendations.mockResolvedValue({ city: 'Lisbon', places: [makePlace('a'), makePlace('b')] });
+});
+
+describe('createTrip', () => {
+  it('geocodes the destination and home base', async () => {
+    const trip = await createTrip({
+      destination: ' Lisbon ',
+      startDate: '2025-05-28',
+      endDate: '2025-06-03',
+      homeBase: 'Hotel Avenida',
+    });
+
+    expect(trip).toMatchObject({ destination: 'Lisbon', destinationCoords: LISBON, homeBase: { label: 'Hotel Avenida', coords: LISBON } });
+    expect(mockGeocode).toHaveBeenLastCalledWith('Hotel Avenida', LISBON, undefined);
+    expect(await getTrips()).toHaveLength(1);
+  });
+
+  it('rejects unknown destinations and backwards dates', async () => {
+    await expect(createTrip({ destination: 'Lisbon', startDate: '2025-06-03', endDate: '2025-05-28' })).rejects.toThrow();
+    await expect(createTrip({ destination: 'Lisbon', startDate: '2025-02-30', endDate: '2025-03-02' })).rejects.toThrow();
+
+    mockGeocode.mockResolvedValue(null);
+    await expect(createTrip({ destination: 'Atlantis', startDate: '2025-05-28', endDate: '2025-05-28' })).rejects.toThrow(
+      'Could not find Atlantis'
+    );
+    expect(await getTrips()).toEqual([]);
+  });
+});
+
+describe('startTrip', () => {
+  it('pre-caches the destination and pins it as the search center', async () => {
+    const trip = await createLisbonTrip();
+
+    await startTrip(trip.id);
+
+    expect(mockGetRecommendations).toHaveBeenCalledTimes(4);
+    expect(mockGetRecommendations.mock.calls.every(call => call[8] === true)).toBe(true);
+    expect(await getGridCachedResults(LISBON.latitude, LISBON.longitude)).toHaveLength(2);
+    expect(await getGridCachedResults(LISBON.latitude, LISBON.longitude, PlaceCategory.EXPLORE)).toHaveLength(2);
+    expect((await getPinnedTrip())?.id).toBe(trip.id);
+  });
+
+  it('skips cells that are already cached', async () => {
+    const trip = await createLisbonTrip();
+    await saveGridCachedResults(LISBON.latitude, LISBON.longitude, [makePlace('cached')]);
+
+    await startTrip(trip.id);
+
+    expect(mockGetRecommendations).toHaveBeenCalledTimes(3);
+    expect(mockGetRecommendations.mock.calls.map(call => call[5])).toEqual([['EAT'], ['DRINK'], ['EXPLORE']]);
+  });
+
+  it('archives history already seen on the trip dates', async () => {
+    const trip = await createLisbonTrip();
+    await addToHistory(makePlace('seen'));
+
+    const started = await startTrip(trip.id);
+
+    expect(started.history.map(entry => entry.place.id)).toEqual(['seen']);
+  });
+});
+
+describe('trip history', () => {
+  it('keeps discoveries after general history is cleared', async () => {
+    const trip = await createLisbonTrip();
+
+    await recordTripHistory([makePlace('a'), makePlace('b')], 'pastel de nata', 'Lisbon');
+    await clearHistory();
+
+    const [saved] = await getTrips();
+    expect(saved.id).toBe(trip.id);
+    expect(getTripHistory(saved, []).map(entry => entry.place.id).sort()).toEqual(['a', 'b']);
+    expect(saved.history[0]).toMatchObject({ searchQuery: 'pastel de nata', location: 'Lisbon' });
+  });
+
+  it('only records on trips covering today', async () => {
+    await createLisbonTrip('2020-01-01');
+
+    await recordTripHistory([makePlace('a')]);
+
+    const [saved] = await getTrips();
+    expect(saved.history).toEqual([]);
+  });
+
+  it('merges the archive with history from the trip dates, newest first', async () => {
+    const trip = { ...(await createLisbonTrip('2025-05-28', 2)), history: [makeEntry('a', new Date(2025, 4, 28, 12).getTime())] };
+    const history = [
+      makeEntry('a', new Date(2025, 4, 29, 9).getTime()),
+      makeEntry('b', new Date(2025, 4, 28, 20).getTime()),
+      makeEntry('before', new Date(2025, 4, 27, 20).getTime()),
+    ];
+
+    const entries = getTripHistory(trip, history);
+
+    expect(entries.map(entry => entry.place.id)).toEqual(['a', 'b']);
+    expect(groupHistoryByDay(entries).map(day => [day.date, day.entries.length])).toEqual([
+      ['2025-05-29', 1],
+      ['2025-05-28', 1],
+    ]);
+  });
+});
+
+describe('trips', () => {
+  it('links and unlinks collections', async () => {
+    const trip = await createLisbonTrip();
+
+    await linkCollectionToTrip(trip.id, 'collection-1');
+    await linkCollectionToTrip(trip.id, 'collection-1');
+    expect((await getTrips())[0].collectionIds).toEqual(['collection-1']);
+
+    await unlinkCollectionFromTrip(trip.id, 'collection-1');
+    expect((await getTrips())[0].collectionIds).toEqual([]);
+  });
+
+  it('unpins a deleted trip', async () => {
+    const trip = await createLisbonTrip();
+    await startTrip(trip.id);
+
+    await deleteTrip(trip.id);
+
+    expect(await getPinnedTrip()).toBeNull();
+    expect(await getTrips()).toEqual([]);
+  });
+
+  it('counts trip days inclusively', () => {
+    expect(getTripEndDate('2025-05-28', 7)).toBe('2025-06-03');
+    expect(getTripEndDate('2025-05-28', 1)).toBe('2025-05-28');
+  });
+});
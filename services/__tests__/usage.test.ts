@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  FREE_TIER_LIMITS,
+  getUsageStats,
+  trackSearch,
+  trackPlaceView,
+  getDailyUsage,
+  getWeeklySummary,
+  hasExceededFreeTier,
+  getRemainingSearches,
+  resetUsageStats,
+} from '../usage';
+import { removePlaceFromFavorites, savePlaceToFavorites } from '../collections';
+import { resetDatabase } from '../database';
+import { Place, PlaceCategory } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await resetDatabase();
+  jest.useFakeTimers({ now: new Date('2025-06-15T12:00:00Z') });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('monthly usage', () => {
+  it('counts searches this month and all time', async () => {
+    await trackSearch();
+    const stats = await trackSearch();
+
+    expect(stats.currentMonth).toBe('2025-06');
+    expect(stats.searchCount).toBe(2);
+    expect(stats.totalSearchesAllTime).toBe(2);
+  });
+
+  it('resets monthly counts on a new month but keeps the all-time total', async () => {
+    await trackSearch();
+    await trackSearch();
+    await trackPlaceView();
+
+    jest.setSystemTime(new Date('2025-07-02T12:00:00Z'));
+    const stats = await getUsageStats();
+
+    expect(stats.currentMonth).toBe('2025-07');
+    expect(stats.searchCount).toBe(0);
+    expect(stats.placeViewCount).toBe(0);
+    expect(stats.totalSearchesAllTime).toBe(2);
+
+    expect((await trackSearch()).totalSearchesAllTime).toBe(3);
+  });
+
+  it('keeps the same anonymous user across months', async () => {
+    const { userId } = await trackSearch();
+
+    jest.setSystemTime(new Date('2025-07-02T12:00:00Z'));
+    expect((await getUsageStats()).userId).toBe(userId);
+  });
+
+  it('enforces the free tier search limit', async () => {
+    for (let i = 0; i < FREE_TIER_LIMITS.searchesPerMonth - 1; i++) {
+      await trackSearch();
+    }
+    expect(await hasExceededFreeTier()).toBe(false);
+    expect(await getRemainingSearches()).toBe(1);
+
+    await trackSearch();
+    expect(await hasExceededFreeTier()).toBe(true);
+
+    await trackSearch();
+    expect(await getRemainingSearches()).toBe(0);
+  });
+});
+
+describe('favorite count', () => {
+  const makePlace = (id: string): Place => ({
+    id,
+    name: `Place ${id}`,
+    description: '',
+    category: PlaceCategory.EAT,
+    tags: [],
+    reason: '',
+    reviews: [],
+    images: [],
+    location: { latitude: 0, longitude: 0 },
+  });
+
+  it('counts the saved places, across a reset', async () => {
+    await savePlaceToFavorites(makePlace('a'));
+    await savePlaceToFavorites(makePlace('b'));
+    await removePlaceFromFavorites('a');
+    expect((await trackSearch()).favoriteCount).toBe(1);
+
+    await resetUsageStats();
+    expect((await getUsageStats()).favoriteCount).toBe(1);
+  });
+});
+
+describe('daily usage', () => {
+  it('groups events by day, newest first', async () => {
+    await trackSearch();
+    await trackPlaceView();
+    jest.advanceTimersByTime(DAY_MS);
+    await trackSearch();
+
+    expect(await getDailyUsage()).toEqual([
+      { date: '2025-06-16', searches: 1, placeViews: 0 },
+      { date: '2025-06-15', searches: 1, placeViews: 1 },
+    ]);
+  });
+
+  it('keeps only the last 30 days', async () => {
+    for (let day = 0; day < 35; day++) {
+      await trackSearch();
+      jest.advanceTimersByTime(DAY_MS);
+    }
+
+    const daily = await getDailyUsage();
+    expect(daily).toHaveLength(30);
+    expect(daily[0].date).toBe('2025-07-19');
+    expect(daily[29].date).toBe('2025-06-20');
+  });
+
+  it('sums the last 7 days into a weekly summary', async () => {
+    for (let day = 0; day < 10; day++) {
+      await trackSearch();
+      await trackPlaceView();
+      await trackPlaceView();
+      jest.advanceTimersByTime(DAY_MS);
+    }
+
+    expect(await getWeeklySummary()).toEqual({ searches: 7, placeViews: 14 });
+  });
+});
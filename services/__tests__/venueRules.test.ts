@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Place, PlaceCategory } from '../../types';
+import {
+  addAllowedVenueName,
+  getVenueRulePreferences,
+  hideChain,
+  hideFoursquareCategory,
+  isPlaceAllowed,
+  isVenueAllowed,
+  loadActiveVenueRules,
+  placeMatchesRule,
+  removeCustomVenueRule,
+  saveVenueRulePreferences,
+} from '../venueRules';
+
+const makePlace = (name: string, extra: Partial<Place> = {}): Place => ({
+  id: name.toLowerCase(),
+  name,
+  description: '',
+  category: PlaceCategory.DRINK,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 0, longitude: 0 },
+  source: 'foursquare',
+  ...extra,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('hide rules', () => {
+  it('hides a chain by venue name or chain membership, replacing an allow', async () => {
+    await addAllowedVenueName('Blue Bottle');
+    const { rule } = await hideChain('Blue Bottle');
+
+    expect(placeMatchesRule(makePlace('Blue Bottle Coffee'), rule)).toBe(true);
+    expect(placeMatchesRule(makePlace('Hayes Valley Kiosk', { chain: 'Blue Bottle' }), rule)).toBe(true);
+    expect(placeMatchesRule(makePlace('Ritual Coffee'), rule)).toBe(false);
+
+    const active = await loadActiveVenueRules();
+    expect(active.allowedNames).toEqual([]);
+    expect(isPlaceAllowed(makePlace('Blue Bottle Coffee'), active)).toBe(false);
+  });
+
+  it('hides a Foursquare category', async () => {
+    const { rule } = await hideFoursquareCategory({ id: '4bf58dd8d48988d1e0931735', name: 'Coffee Shop' });
+    const coffeeShop = makePlace('Ritual Coffee', { foursquareCategory: { id: '4bf58dd8d48988d1e0931735', name: 'Coffee Shop' } });
+
+    expect(placeMatchesRule(coffeeShop, rule)).toBe(true);
+    expect(placeMatchesRule(makePlace('Zeitgeist'), rule)).toBe(false);
+  });
+
+  it('hides a Foursquare category from fresh results by primary category only', async () => {
+    await hideFoursquareCategory({ id: '4bf58dd8d48988d1e0931735', name: 'Coffee Shop' });
+    const active = await loadActiveVenueRules();
+    const coffeeShop = '4bf58dd8d48988d1e0931735';
+    const cafe = '4bf58dd8d48988d16d941735';
+
+    expect(isVenueAllowed({
+      name: 'Ritual Coffee',
+      source: 'foursquare',
+      foursquareCategoryIds: [coffeeShop, cafe],
+      foursquarePrimaryCategoryId: coffeeShop,
+    }, active)).toBe(false);
+    // Coffee Shop as a secondary category doesn't count
+    expect(isVenueAllowed({
+      name: 'Zeitgeist',
+      source: 'foursquare',
+      foursquareCategoryIds: [cafe, coffeeShop],
+      foursquarePrimaryCategoryId: cafe,
+    }, active)).toBe(true);
+  });
+
+  it('removes a rule for good', async () => {
+    const { rule } = await hideChain('Blue Bottle');
+    await hideChain('Blue Bottle');
+    expect((await getVenueRulePreferences()).customRules).toHaveLength(1);
+
+    await removeCustomVenueRule(rule.id);
+    expect((await getVenueRulePreferences()).customRules).toEqual([]);
+    expect(isPlaceAllowed(makePlace('Blue Bottle Coffee'), await loadActiveVenueRules())).toBe(true);
+  });
+
+  it('undoes a hide by restoring the preferences from before', async () => {
+    await addAllowedVenueName('Blue Bottle');
+    const { previous } = await hideChain('Blue Bottle');
+
+    await saveVenueRulePreferences(previous);
+    expect(await getVenueRulePreferences()).toMatchObject({ allowedNames: ['Blue Bottle'], customRules: [] });
+
+    // A rule the user already had survives undoing a repeat hide
+    await hideChain('Blue Bottle');
+    const repeat = await hideChain('Blue Bottle');
+    await saveVenueRulePreferences(repeat.previous);
+    expect((await getVenueRulePreferences()).customRules).toHaveLength(1);
+  });
+});
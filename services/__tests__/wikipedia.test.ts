@@ -0,0 +1,333 @@
+import { Place, PlaceCategory } from '../../types';
+import { httpFetch } from '../transport';
+import { fetchWikiEnrichment, formatFoundedYear, parseWikidataYear, searchNearbyArticles } from '../wikipedia';
+import { isSightArticle, mapWikipediaArticle, summarizeExtract } from '../providers/wikipedia';
+
+jest.mock('../transport', () => ({ ...jest.requireActual('../transport'), httpFetch: jest.fn() }));
+
+const mockFetch = httpFetch as jest.MockedFunction<typeof httpFetch>;
+
+const makePlace = (overrides: Partial<Place> = {}): Place => ({
+  id: `place-${Math.random()}`, // Enrichments are cached by place ID
+  name: 'Eiffel Tower',
+  description: '',
+  category: PlaceCategory.EXPLORE,
+  tags: [],
+  reason: '',
+  reviews: [],
+  images: [],
+  location: { latitude: 48.8584, longitude: 2.2945 },
+  ...overrides,
+});
+
+const claim = (value: unknown, rank = 'normal') => ({ rank, mainsnak: { datavalue: { value } } });
+
+const ARTICLE = {
+  query: {
+    pages: {
+      '9232': {
+        pageid: 9232,
+        title: 'Eiffel Tower',
+        fullurl: 'https://en.wikipedia.org/wiki/Eiffel_Tower',
+        extract: 'The Eiffel Tower is a wrought-iron lattice tower on the Champ de Mars in Paris. ',
+        pageprops: { wikibase_item: 'Q243' },
+        images: [
+          { title: 'File:Tour Eiffel Wikimedia Commons.jpg' },
+          { title: 'File:Paris location map.png' },
+          { title: 'File:Eiffel diagram.svg' },
+          { title: 'File:Fair use poster.jpg' },
+        ],
+      },
+    },
+  },
+};
+
+const ENTITY = {
+  entities: {
+    Q243: {
+      claims: {
+        P571: [claim({ time: '+1887-01-28T00:00:00Z' })],
+        P856: [claim('https://www.toureiffel.paris/en')],
+        P1435: [claim({ id: 'Q916475' }), claim({ id: 'Q9259' }, 'deprecated')],
+        P18: [claim('Tour Eiffel Wikimedia Commons.jpg')],
+      },
+    },
+  },
+};
+
+const LABELS = { entities: { Q916475: { labels: { en: { value: 'monument historique classé' } } } } };
+
+const COMMONS = {
+  query: {
+    pages: {
+      '1': {
+        title: 'File:Tour Eiffel Wikimedia Commons.jpg',
+        imageinfo: [{
+          url: 'https://upload.wikimedia.org/tour.jpg',
+          thumburl: 'https://upload.wikimedia.org/thumb/tour.jpg/800px-tour.jpg',
+          descriptionurl: 'https://commons.wikimedia.org/wiki/File:Tour_Eiffel_Wikimedia_Commons.jpg',
+          extmetadata: {
+            LicenseShortName: { value: 'CC BY-SA 3.0' },
+            Artist: { value: '<a href="//commons.wikimedia.org/wiki/User:Benh">Benh</a>' },
+          },
+        }],
+      },
+      '-1': { title: 'File:Fair use poster.jpg', missing: '' },
+    },
+  },
+};
+
+/**
+ * Route Wikimedia API calls by host and action
+ */
+const routeRequests = (routes: {
+  geosearch?: unknown;
+  search?: unknown;
+  sitelinks?: unknown;
+}) => {
+  mockFetch.mockImplementation(async (_service, url) => {
+    const params = new URLSearchParams(url.split('?')[1]);
+    const respond = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+    if (url.startsWith('https://commons.wikimedia.org')) return respond(COMMONS);
+    if (url.startsWith('https://www.wikidata.org')) {
+      if (params.get('props') === 'sitelinks') return respond(routes.sitelinks || {});
+      if (params.get('props') === 'labels') return respond(LABELS);
+      return respond(ENTITY);
+    }
+    if (params.get('list') === 'geosearch') return respond(routes.geosearch || { query: { geosearch: [] } });
+    if (params.get('generator') === 'search') return respond(routes.search || { query: {} });
+    if (params.get('titles')) return respond(ARTICLE);
+    throw new Error(`Unexpected request ${url}`);
+  });
+};
+
+beforeEach(() => {
+  mockFetch.mockReset();
+});
+
+describe('parseWikidataYear', () => {
+  it.each([
+    ['+1887-01-28T00:00:00Z', 1887],
+    ['+1500-00-00T00:00:00Z', 1500],
+    ['-0300-00-00T00:00:00Z', -300],
+    [undefined, undefined],
+    ['not a date', undefined],
+  ])('parses %s', (time, expected) => {
+    expect(parseWikidataYear(time)).toBe(expected);
+  });
+
+  it('formats BC years', () => {
+    expect(formatFoundedYear(-300)).toBe('300 BC');
+    expect(formatFoundedYear(1887)).toBe('1887');
+  });
+});
+
+describe('fetchWikiEnrichment', () => {
+  it('matches an article geotagged near the place', async () => {
+    routeRequests({
+      geosearch: { query: { geosearch: [{ title: 'Champ de Mars' }, { title: 'Eiffel Tower' }] } },
+    });
+
+    const enrichment = await fetchWikiEnrichment(makePlace());
+
+    expect(enrichment).toEqual({
+      title: 'Eiffel Tower',
+      articleUrl: 'https://en.wikipedia.org/wiki/Eiffel_Tower',
+      wikidataId: 'Q243',
+      extract: 'The Eiffel Tower is a wrought-iron lattice tower on the Champ de Mars in Paris.',
+      foundedYear: 1887,
+      website: 'https://www.toureiffel.paris/en',
+      heritage: ['monument historique classé'],
+      images: [{
+        url: 'https://upload.wikimedia.org/thumb/tour.jpg/800px-tour.jpg',
+        title: 'File:Tour Eiffel Wikimedia Commons.jpg',
+        license: 'CC BY-SA 3.0',
+        artist: 'Benh',
+        descriptionUrl: 'https://commons.wikimedia.org/wiki/File:Tour_Eiffel_Wikimedia_Commons.jpg',
+      }],
+    });
+  });
+
+  it('skips maps, diagrams and the deprecated heritage claim', async () => {
+    routeRequests({ geosearch: { query: { geosearch: [{ title: 'Eiffel Tower' }] } } });
+
+    await fetchWikiEnrichment(makePlace());
+
+    const commonsCall = mockFetch.mock.calls.find(([, url]) => url.startsWith('https://commons'));
+    const titles = new URLSearchParams(commonsCall![1].split('?')[1]).get('titles');
+    expect(titles).toBe('File:Tour Eiffel Wikimedia Commons.jpg|File:Fair use poster.jpg');
+
+    const labelsCall = mockFetch.mock.calls.find(([, url]) => url.includes('props=labels'));
+    expect(new URLSearchParams(labelsCall![1].split('?')[1]).get('ids')).toBe('Q916475');
+  });
+
+  it('uses the wikidata ID from OSM before searching', async () => {
+    routeRequests({ sitelinks: { entities: { Q243: { sitelinks: { enwiki: { title: 'Eiffel Tower' } } } } } });
+
+    const enrichment = await fetchWikiEnrichment(makePlace({ name: 'Tour Eiffel', wikidataId: 'Q243' }));
+
+    expect(enrichment?.title).toBe('Eiffel Tower');
+    expect(mockFetch.mock.calls.some(([, url]) => url.includes('geosearch'))).toBe(false);
+  });
+
+  it('does not match a restaurant to the person it is named after', async () => {
+    routeRequests({
+      geosearch: { query: { geosearch: [{ title: 'Union Square, Manhattan' }] } },
+      // The person's article has no coordinates
+      search: { query: { pages: { '736': { title: 'Albert Einstein', index: 1 } } } },
+    });
+
+    const place = makePlace({
+      name: 'Einstein',
+      category: PlaceCategory.EAT,
+      location: { latitude: 40.7359, longitude: -73.9911 },
+    });
+    await expect(fetchWikiEnrichment(place)).resolves.toBeNull();
+  });
+
+  it('accepts a name match only when it is geotagged nearby', async () => {
+    const farAway = { title: 'Eiffel Tower', index: 1, coordinates: [{ lat: 36.1125, lon: -115.1707 }] };
+    routeRequests({ search: { query: { pages: { '1': farAway } } } });
+
+    await expect(fetchWikiEnrichment(makePlace())).resolves.toBeNull();
+
+    const nearby = { ...farAway, coordinates: [{ lat: 48.8583, lon: 2.2944 }] };
+    routeRequests({ search: { query: { pages: { '1': nearby } } } });
+
+    await expect(fetchWikiEnrichment(makePlace())).resolves.toMatchObject({ title: 'Eiffel Tower' });
+  });
+
+  it('caches by place ID', async () => {
+    routeRequests({});
+    const place = makePlace();
+
+    await fetchWikiEnrichment(place);
+    const calls = mockFetch.mock.calls.length;
+    await fetchWikiEnrichment(place);
+
+    expect(mockFetch).toHaveBeenCalledTimes(calls);
+  });
+});
+
+describe('searchNearbyArticles', () => {
+  const center = { latitude: 48.8584, longitude: 2.2945 };
+
+  const routeGeosearch = () => {
+    mockFetch.mockImplementation(async (_service, url) => {
+      const params = new URLSearchParams(url.split('?')[1]);
+      const respond = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+      if (url.startsWith('https://www.wikidata.org')) {
+        return respond({
+          entities: {
+            Q243: { claims: { P625: [claim({ latitude: 48.85826, longitude: 2.2945 })], P1435: [claim({ id: 'Q916475' })] } },
+            Q1: { claims: { P31: [claim({ id: 'Q27686' })] } },
+          },
+        });
+      }
+      if (params.get('list') === 'geosearch') {
+        return respond({
+          query: {
+            geosearch: [
+              { pageid: 1, lat: 48.857, lon: 2.295, type: null },
+              { pageid: 9232, lat: 48.858, lon: 2.294, type: 'landmark' },
+              { pageid: 22989, lat: 48.856, lon: 2.352, type: 'city' },
+            ],
+          },
+        });
+      }
+      if (params.get('prop') === 'info') {
+        return respond({ query: { pages: { '1': { pageid: 1, length: 900 }, '9232': { pageid: 9232, length: 120000 } } } });
+      }
+      return respond({
+        query: {
+          pages: {
+            '1': { pageid: 1, title: 'Hotel Eiffel (Paris)', fullurl: 'https://en.wikipedia.org/wiki/Hotel_Eiffel', pageprops: { wikibase_item: 'Q1' } },
+            '9232': {
+              pageid: 9232,
+              title: 'Eiffel Tower',
+              fullurl: 'https://en.wikipedia.org/wiki/Eiffel_Tower',
+              extract: 'The Eiffel Tower is a lattice tower.',
+              thumbnail: { source: 'https://upload.wikimedia.org/thumb/tour.jpg' },
+              pageprops: { wikibase_item: 'Q243' },
+            },
+          },
+        },
+      });
+    });
+  };
+
+  it('orders sights by article size and skips areas', async () => {
+    routeGeosearch();
+
+    const articles = await searchNearbyArticles(center, 2000);
+
+    expect(articles.map(article => article.title)).toEqual(['Eiffel Tower', 'Hotel Eiffel (Paris)']);
+    const infoParams = mockFetch.mock.calls
+      .map(([, url]) => new URLSearchParams(url.split('?')[1]))
+      .find(params => params.get('prop') === 'info');
+    expect(infoParams?.get('pageids')).toBe('1|9232');
+  });
+
+  it('uses Wikidata coordinates and heritage status', async () => {
+    routeGeosearch();
+
+    const [tower, hotel] = await searchNearbyArticles(center, 2000);
+
+    expect(tower).toMatchObject({
+      location: { latitude: 48.85826, longitude: 2.2945 },
+      isHeritage: true,
+      wikidataId: 'Q243',
+      thumbnail: 'https://upload.wikimedia.org/thumb/tour.jpg',
+    });
+    expect(hotel.location).toEqual({ latitude: 48.857, longitude: 2.295 });
+    expect(isSightArticle(tower)).toBe(true);
+    expect(isSightArticle(hotel)).toBe(false);
+  });
+
+  it('caps the radius at the API limit', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ query: { geosearch: [] } }), { status: 200 }));
+
+    await expect(searchNearbyArticles(center, 20000)).resolves.toEqual([]);
+    expect(mockFetch.mock.calls[0][1]).toContain('gsradius=10000');
+  });
+
+  it('maps articles to places', async () => {
+    routeGeosearch();
+
+    const [tower, hotel] = (await searchNearbyArticles(center, 2000)).map(mapWikipediaArticle);
+
+    expect(tower).toMatchObject({
+      id: 'wiki-9232',
+      name: 'Eiffel Tower',
+      category: PlaceCategory.EXPLORE,
+      description: 'The Eiffel Tower is a lattice tower.',
+      images: ['https://upload.wikimedia.org/thumb/tour.jpg'],
+      tags: ['landmark', 'heritage'],
+      source: 'wikipedia',
+    });
+    expect(hotel.name).toBe('Hotel Eiffel');
+  });
+});
+
+describe('summarizeExtract', () => {
+  it('keeps whole sentences up to the limit', () => {
+    const extract = `First sentence. Second sentence! ${'Long '.repeat(40)}third.`;
+    expect(summarizeExtract(extract)).toBe('First sentence. Second sentence!');
+  });
+
+  it('uses only the first paragraph', () => {
+    expect(summarizeExtract('Intro.\nHistory.')).toBe('Intro.');
+  });
+
+  it('truncates a single long sentence', () => {
+    const summary = summarizeExtract(`${'word '.repeat(60)}end.`);
+    expect(summary).toHaveLength(200);
+    expect(summary.endsWith('…')).toBe(true);
+  });
+
+  it('falls back without an extract', () => {
+    expect(summarizeExtract(undefined)).toBe('Notable landmark');
+  });
+});
@@ -1,18 +1,37 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Place, Collection, HistoryEntry } from '../types';
+import { Place, Collection, HistoryEntry, Itinerary } from '../types';
+import { deleteOrphanPlaces, getDatabase, insertPlaceIfMissing, upsertPlace } from './database';
 
-const FAVORITES_KEY = '@vibecheck_favorites';
-const COLLECTIONS_KEY = '@vibecheck_collections';
-const HISTORY_KEY = '@vibecheck_history';
+const MAX_HISTORY = 100;
+
+interface CollectionRow {
+  id: string;
+  name: string;
+  icon: string | null;
+  itinerary: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface HistoryRow {
+  data: string;
+  viewed_at: number;
+  search_query: string | null;
+  location: string;
+}
 
 /**
- * FAVORITES
+ * FAVORITES - the app's one saved places list, by place ID
  */
 
 export const getFavorites = async (): Promise<Place[]> => {
   try {
-    const stored = await AsyncStorage.getItem(FAVORITES_KEY);
-    return stored ? JSON.parse(stored) : [];
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>(
+      `SELECT places.data FROM favorites
+       JOIN places ON places.id = favorites.place_id
+       ORDER BY favorites.added_at, favorites.rowid`
+    );
+    return rows.map(row => JSON.parse(row.data));
   } catch (error) {
     console.error('Error loading favorites:', error);
     return [];
@@ -21,14 +40,14 @@ export const getFavorites = async (): Promise<Place[]> => {
 
 export const savePlaceToFavorites = async (place: Place): Promise<void> => {
   try {
-    const favorites = await getFavorites();
     // Check if already favorited (by ID)
-    if (favorites.some(p => p.id === place.id)) {
+    if (await isPlaceFavorited(place.id)) {
       console.log(`Place ${place.name} is already in favorites`);
       return;
     }
-    favorites.push(place);
-    await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+    const db = await getDatabase();
+    await upsertPlace(db, place);
+    await db.runAsync('INSERT OR IGNORE INTO favorites (place_id, added_at) VALUES (?, ?)', place.id, Date.now());
     console.log(`Saved ${place.name} to favorites`);
   } catch (error) {
     console.error('Error saving favorite:', error);
@@ -37,9 +56,9 @@ export const savePlaceToFavorites = async (place: Place): Promise<void> => {
 
 export const removePlaceFromFavorites = async (placeId: string): Promise<void> => {
   try {
-    const favorites = await getFavorites();
-    const updated = favorites.filter(p => p.id !== placeId);
-    await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(updated));
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM favorites WHERE place_id = ?', placeId);
+    await deleteOrphanPlaces(db);
     console.log(`Removed place ${placeId} from favorites`);
   } catch (error) {
     console.error('Error removing favorite:', error);
@@ -48,22 +67,60 @@ export const removePlaceFromFavorites = async (placeId: string): Promise<void> =
 
 export const isPlaceFavorited = async (placeId: string): Promise<boolean> => {
   try {
-    const favorites = await getFavorites();
-    return favorites.some(p => p.id === placeId);
+    const db = await getDatabase();
+    return !!(await db.getFirstAsync('SELECT 1 FROM favorites WHERE place_id = ?', placeId));
   } catch (error) {
     console.error('Error checking favorite status:', error);
     return false;
   }
 };
 
+export const getFavoriteCount = async (): Promise<number> => {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM favorites');
+    return row?.count ?? 0;
+  } catch (error) {
+    console.error('Error counting favorites:', error);
+    return 0;
+  }
+};
+
 /**
  * COLLECTIONS
  */
 
+const toCollection = (row: CollectionRow, placeIds: string[]): Collection => ({
+  id: row.id,
+  name: row.name,
+  ...(row.icon !== null && { icon: row.icon }),
+  placeIds,
+  ...(row.itinerary !== null && { itinerary: JSON.parse(row.itinerary) }),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const getCollection = async (collectionId: string): Promise<Collection | null> => {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<CollectionRow>('SELECT * FROM collections WHERE id = ?', collectionId);
+  if (!row) return null;
+  const members = await db.getAllAsync<{ place_id: string }>(
+    'SELECT place_id FROM collection_places WHERE collection_id = ? ORDER BY position',
+    collectionId
+  );
+  return toCollection(row, members.map(member => member.place_id));
+};
+
 export const getCollections = async (): Promise<Collection[]> => {
   try {
-    const stored = await AsyncStorage.getItem(COLLECTIONS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<CollectionRow>('SELECT * FROM collections ORDER BY created_at, rowid');
+    const members = await db.getAllAsync<{ collection_id: string; place_id: string }>(
+      'SELECT collection_id, place_id FROM collection_places ORDER BY position'
+    );
+    return rows.map(row =>
+      toCollection(row, members.filter(member => member.collection_id === row.id).map(member => member.place_id))
+    );
   } catch (error) {
     console.error('Error loading collections:', error);
     return [];
@@ -72,7 +129,6 @@ export const getCollections = async (): Promise<Collection[]> => {
 
 export const createCollection = async (name: string, icon?: string): Promise<Collection> => {
   try {
-    const collections = await getCollections();
     const newCollection: Collection = {
       id: `collection-${Date.now()}`,
       name,
@@ -81,8 +137,15 @@ export const createCollection = async (name: string, icon?: string): Promise<Col
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
-    collections.push(newCollection);
-    await AsyncStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+    const db = await getDatabase();
+    await db.runAsync(
+      'INSERT INTO collections (id, name, icon, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      newCollection.id,
+      name,
+      icon ?? null,
+      newCollection.createdAt,
+      newCollection.updatedAt
+    );
     console.log(`Created collection: ${name}`);
     return newCollection;
   } catch (error) {
@@ -93,9 +156,12 @@ export const createCollection = async (name: string, icon?: string): Promise<Col
 
 export const deleteCollection = async (collectionId: string): Promise<void> => {
   try {
-    const collections = await getCollections();
-    const updated = collections.filter(c => c.id !== collectionId);
-    await AsyncStorage.setItem(COLLECTIONS_KEY, JSON.stringify(updated));
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM collection_places WHERE collection_id = ?', collectionId);
+      await db.runAsync('DELETE FROM collections WHERE id = ?', collectionId);
+    });
+    await deleteOrphanPlaces(db);
     console.log(`Deleted collection ${collectionId}`);
   } catch (error) {
     console.error('Error deleting collection:', error);
@@ -104,8 +170,7 @@ export const deleteCollection = async (collectionId: string): Promise<void> => {
 
 export const addPlaceToCollection = async (collectionId: string, placeId: string): Promise<void> => {
   try {
-    const collections = await getCollections();
-    const collection = collections.find(c => c.id === collectionId);
+    const collection = await getCollection(collectionId);
     if (!collection) {
       console.error(`Collection ${collectionId} not found`);
       return;
@@ -115,9 +180,14 @@ export const addPlaceToCollection = async (collectionId: string, placeId: string
       console.log(`Place ${placeId} is already in collection ${collection.name}`);
       return;
     }
-    collection.placeIds.push(placeId);
-    collection.updatedAt = Date.now();
-    await AsyncStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+    const db = await getDatabase();
+    await db.runAsync(
+      'INSERT INTO collection_places (collection_id, place_id, position) VALUES (?, ?, ?)',
+      collectionId,
+      placeId,
+      collection.placeIds.length
+    );
+    await db.runAsync('UPDATE collections SET updated_at = ? WHERE id = ?', Date.now(), collectionId);
     console.log(`Added place ${placeId} to collection ${collection.name}`);
   } catch (error) {
     console.error('Error adding place to collection:', error);
@@ -126,40 +196,67 @@ export const addPlaceToCollection = async (collectionId: string, placeId: string
 
 export const removePlaceFromCollection = async (collectionId: string, placeId: string): Promise<void> => {
   try {
-    const collections = await getCollections();
-    const collection = collections.find(c => c.id === collectionId);
+    const collection = await getCollection(collectionId);
     if (!collection) {
       console.error(`Collection ${collectionId} not found`);
       return;
     }
-    collection.placeIds = collection.placeIds.filter(id => id !== placeId);
-    collection.updatedAt = Date.now();
-    await AsyncStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+    const itinerary = collection.itinerary && {
+      ...collection.itinerary,
+      stops: collection.itinerary.stops.filter(stop => stop.placeId !== placeId),
+    };
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM collection_places WHERE collection_id = ? AND place_id = ?', collectionId, placeId);
+    await db.runAsync(
+      'UPDATE collections SET itinerary = ?, updated_at = ? WHERE id = ?',
+      itinerary ? JSON.stringify(itinerary) : null,
+      Date.now(),
+      collectionId
+    );
+    await deleteOrphanPlaces(db);
     console.log(`Removed place ${placeId} from collection ${collection.name}`);
   } catch (error) {
     console.error('Error removing place from collection:', error);
   }
 };
 
+/**
+ * Save (or clear, with null) a collection's day plan
+ */
+export const saveItinerary = async (collectionId: string, itinerary: Itinerary | null): Promise<void> => {
+  try {
+    const db = await getDatabase();
+    const { changes } = await db.runAsync(
+      'UPDATE collections SET itinerary = ?, updated_at = ? WHERE id = ?',
+      itinerary ? JSON.stringify(itinerary) : null,
+      Date.now(),
+      collectionId
+    );
+    if (changes === 0) {
+      console.error(`Collection ${collectionId} not found`);
+      return;
+    }
+    console.log(`${itinerary ? 'Saved' : 'Cleared'} itinerary for collection ${collectionId}`);
+  } catch (error) {
+    console.error('Error saving itinerary:', error);
+  }
+};
+
+/**
+ * A collection's places in collection order
+ * Places are known once favorited or seen in results - IDs with no stored place are skipped
+ */
 export const getPlacesInCollection = async (collectionId: string): Promise<Place[]> => {
   try {
-    const collections = await getCollections();
-    const collection = collections.find(c => c.id === collectionId);
-    if (!collection) return [];
-
-    // Get all favorites to find the actual Place objects
-    const favorites = await getFavorites();
-    const history = await getHistory();
-
-    // Combine favorites and history to get all known places
-    const allPlaces = new Map<string, Place>();
-    favorites.forEach(p => allPlaces.set(p.id, p));
-    history.forEach(h => allPlaces.set(h.place.id, h.place));
-
-    // Filter to only places in this collection
-    return collection.placeIds
-      .map(id => allPlaces.get(id))
-      .filter((p): p is Place => p !== undefined);
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>(
+      `SELECT places.data FROM collection_places
+       JOIN places ON places.id = collection_places.place_id
+       WHERE collection_places.collection_id = ?
+       ORDER BY collection_places.position`,
+      collectionId
+    );
+    return rows.map(row => JSON.parse(row.data));
   } catch (error) {
     console.error('Error getting places in collection:', error);
     return [];
@@ -172,40 +269,61 @@ export const getPlacesInCollection = async (collectionId: string): Promise<Place
 
 export const getHistory = async (): Promise<HistoryEntry[]> => {
   try {
-    const stored = await AsyncStorage.getItem(HISTORY_KEY);
-    return stored ? JSON.parse(stored) : [];
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<HistoryRow>(
+      `SELECT places.data, history.viewed_at, history.search_query, history.location FROM history
+       JOIN places ON places.id = history.place_id
+       ORDER BY history.viewed_at DESC, history.id DESC`
+    );
+    return rows.map(row => ({
+      place: JSON.parse(row.data),
+      viewedAt: row.viewed_at,
+      ...(row.search_query !== null && { searchQuery: row.search_query }),
+      location: row.location,
+    }));
   } catch (error) {
     console.error('Error loading history:', error);
     return [];
   }
 };
 
-export const addToHistory = async (place: Place, searchQuery?: string, location?: string): Promise<void> => {
+export const addToHistory = async (place: Place, searchQuery?: string, location?: string): Promise<void> =>
+  addPlacesToHistory([place], searchQuery, location);
+
+/**
+ * Add a search's results to history in one transaction
+ * Places already stored (e.g. favorites) keep their data
+ */
+export const addPlacesToHistory = async (places: Place[], searchQuery?: string, location?: string): Promise<void> => {
   try {
-    let history = await getHistory();
-
-    // Check if this place is already in history (avoid duplicates)
-    const existingIndex = history.findIndex(h => h.place.id === place.id);
-    if (existingIndex !== -1) {
-      // Update the viewed timestamp and move to front
-      history[existingIndex].viewedAt = Date.now();
-      const [entry] = history.splice(existingIndex, 1);
-      history.unshift(entry);
-    } else {
-      // Add new entry to front of history
-      const entry: HistoryEntry = {
-        place,
-        viewedAt: Date.now(),
-        searchQuery,
-        location: location || place.address?.split(',').slice(-2).join(',').trim() || 'Unknown',
-      };
-      history.unshift(entry);
-    }
+    if (places.length === 0) return;
+    const db = await getDatabase();
+    let changes = 0;
+    await db.withTransactionAsync(async () => {
+      for (const place of places) {
+        await insertPlaceIfMissing(db, place);
 
-    // Keep only last 100 entries to avoid unbounded growth
-    history = history.slice(0, 100);
+        // A revisited place moves to the front, keeping where it was first found
+        const existing = await db.getFirstAsync<{ search_query: string | null; location: string }>(
+          'SELECT search_query, location FROM history WHERE place_id = ?',
+          place.id
+        );
+        await db.runAsync(
+          'INSERT OR REPLACE INTO history (place_id, viewed_at, search_query, location) VALUES (?, ?, ?, ?)',
+          place.id,
+          Date.now(),
+          existing ? existing.search_query : searchQuery ?? null,
+          existing ? existing.location : location || place.address?.split(',').slice(-2).join(',').trim() || 'Unknown'
+        );
+      }
 
-    await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+      // Keep only the last 100 entries to avoid unbounded growth
+      ({ changes } = await db.runAsync(
+        'DELETE FROM history WHERE id NOT IN (SELECT id FROM history ORDER BY viewed_at DESC, id DESC LIMIT ?)',
+        MAX_HISTORY
+      ));
+    });
+    if (changes > 0) await deleteOrphanPlaces(db);
   } catch (error) {
     console.error('Error adding to history:', error);
   }
@@ -213,7 +331,9 @@ export const addToHistory = async (place: Place, searchQuery?: string, location?
 
 export const clearHistory = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(HISTORY_KEY);
+    const db = await getDatabase();
+    await db.runAsync('DELETE FROM history');
+    await deleteOrphanPlaces(db);
     console.log('History cleared');
   } catch (error) {
     console.error('Error clearing history:', error);
@@ -0,0 +1,39 @@
+/**
+ * Connectivity
+ *
+ * Whether the device can reach the internet - offline, discovery and place
+ * details are served from downloaded city packs (see offlinePacks.ts).
+ */
+
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+const toOnline = (state: NetInfoState): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+/**
+ * True unless the device is known to be offline
+ * (isInternetReachable is null until NetInfo has checked - trust isConnected then)
+ */
+export const isOnline = async (): Promise<boolean> => {
+  try {
+    return toOnline(await NetInfo.fetch());
+  } catch (error) {
+    console.error('Error checking connectivity:', error);
+    return true;
+  }
+};
+
+/**
+ * Call `listener` whenever the device goes offline or comes back online
+ * Returns the unsubscribe function
+ */
+export const subscribeToConnectivity = (listener: (online: boolean) => void): (() => void) => {
+  let last: boolean | null = null;
+  return NetInfo.addEventListener(state => {
+    const online = toOnline(state);
+    if (online === last) return; // NetInfo also reports type and detail changes
+    last = online;
+    console.log(online ? '📶 Back online' : '📵 Offline');
+    listener(online);
+  });
+};
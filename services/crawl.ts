@@ -0,0 +1,292 @@
+/**
+ * Themed Crawls
+ *
+ * Builds a short walking route (3-6 stops) around a theme from the current
+ * results plus nearby candidates: a bar crawl, a coffee tour, dinner → drinks →
+ * dessert, or a museum afternoon. Each theme is a sequence of slots; stops are
+ * picked in slot order, open when we'd arrive, and within a walking budget
+ * (per leg and in total). Saved crawls become a collection with a day plan.
+ */
+
+import { Collection, Coordinates, Place, PlaceCategory } from '../types';
+import { addPlaceToCollection, addToHistory, createCollection, saveItinerary } from './collections';
+import { getDistanceKm } from './geo';
+import { estimateTravel } from './itinerary';
+import { getOpenStatus, toDateKey } from './openingHours';
+
+export type CrawlThemeId = 'bar-crawl' | 'coffee-tour' | 'dinner-drinks-dessert' | 'museum-afternoon';
+
+export interface CandidateSearch {
+  query: string;
+  categories: PlaceCategory[];
+}
+
+interface CrawlSlot {
+  label: string;
+  matches: (place: Place) => boolean;
+  dwellMinutes: number;
+  search: CandidateSearch; // Finds nearby candidates for the slot
+}
+
+export interface CrawlTheme {
+  id: CrawlThemeId;
+  label: string;
+  emoji: string;
+  startHour: number; // Default start, today
+  minStops: number;
+  slots: CrawlSlot[]; // In visiting order - slots after minStops are optional
+}
+
+export interface CrawlStop {
+  place: Place;
+  label: string; // Slot, e.g. "Dessert"
+  arrival: Date;
+  departure: Date;
+  walkKm: number; // From the previous stop
+  walkMinutes: number;
+}
+
+export interface Crawl {
+  theme: CrawlThemeId;
+  title: string;
+  stops: CrawlStop[];
+  totalWalkKm: number;
+  start: Date;
+  end: Date;
+}
+
+const MAX_LEG_KM = 1.2; // Walking distance between two stops
+const MAX_TOTAL_WALK_KM = 4;
+const MAX_START_KM = 2; // First stop from the search center
+const MAX_FIRST_STOP_OPTIONS = 8;
+const MIN_SLOT_CANDIDATES = 3; // Search nearby when the results have fewer
+
+const placeText = (place: Place): string =>
+  [place.name, place.description, place.signature || '', ...place.tags].join(' ');
+
+const COFFEE_PATTERN = /coffee|caf[eé]|espresso|roaster|tea ?(house|room)/i;
+const DESSERT_PATTERN = /dessert|ice cream|gelato|bakery|pastry|patisserie|chocolate|cake|donut|doughnut|frozen yogurt|cr[eê]pe/i;
+const MUSEUM_PATTERN = /museum|gallery|exhibit/i;
+
+const isCoffee = (place: Place): boolean => COFFEE_PATTERN.test(placeText(place));
+const isDessert = (place: Place): boolean => DESSERT_PATTERN.test(placeText(place));
+const isBar = (place: Place): boolean => place.category === PlaceCategory.DRINK && !isCoffee(place);
+const isDinner = (place: Place): boolean => place.category === PlaceCategory.EAT && !isDessert(place) && !isCoffee(place);
+const isMuseum = (place: Place): boolean => place.category === PlaceCategory.EXPLORE && MUSEUM_PATTERN.test(placeText(place));
+
+const bar: CrawlSlot = {
+  label: 'Bar',
+  matches: isBar,
+  dwellMinutes: 45,
+  search: { query: 'bars', categories: [PlaceCategory.DRINK] },
+};
+const coffee: CrawlSlot = {
+  label: 'Coffee',
+  matches: isCoffee,
+  dwellMinutes: 30,
+  search: { query: 'coffee', categories: [PlaceCategory.DRINK] },
+};
+const museum: CrawlSlot = {
+  label: 'Museum',
+  matches: isMuseum,
+  dwellMinutes: 90,
+  search: { query: 'museums', categories: [PlaceCategory.EXPLORE] },
+};
+
+export const CRAWL_THEMES: CrawlTheme[] = [
+  {
+    id: 'bar-crawl',
+    label: 'Bar crawl',
+    emoji: '🍻',
+    startHour: 20,
+    minStops: 3,
+    slots: [bar, bar, bar, bar, bar, bar],
+  },
+  {
+    id: 'coffee-tour',
+    label: 'Coffee tour',
+    emoji: '☕',
+    startHour: 9,
+    minStops: 3,
+    slots: [coffee, coffee, coffee, coffee],
+  },
+  {
+    id: 'dinner-drinks-dessert',
+    label: 'Dinner → drinks → dessert',
+    emoji: '🍝',
+    startHour: 19,
+    minStops: 3,
+    slots: [
+      { label: 'Dinner', matches: isDinner, dwellMinutes: 90, search: { query: 'restaurants', categories: [PlaceCategory.EAT] } },
+      { ...bar, label: 'Drinks', dwellMinutes: 60, search: { query: 'cocktail bars', categories: [PlaceCategory.DRINK] } },
+      { label: 'Dessert', matches: isDessert, dwellMinutes: 30, search: { query: 'dessert', categories: [PlaceCategory.EAT] } },
+    ],
+  },
+  {
+    id: 'museum-afternoon',
+    label: 'Museum afternoon',
+    emoji: '🏛️',
+    startHour: 13,
+    minStops: 3,
+    slots: [museum, { ...coffee, label: 'Coffee break' }, museum, museum],
+  },
+];
+
+export const getCrawlTheme = (id: CrawlThemeId): CrawlTheme =>
+  CRAWL_THEMES.find(theme => theme.id === id) as CrawlTheme;
+
+/**
+ * Nearby searches worth running - only for slots the current results can't fill
+ */
+export const getCandidateSearches = (themeId: CrawlThemeId, places: Place[]): CandidateSearch[] => {
+  const searches = new Map<string, CandidateSearch>();
+  getCrawlTheme(themeId).slots.forEach(slot => {
+    if (places.filter(slot.matches).length < MIN_SLOT_CANDIDATES) searches.set(slot.search.query, slot.search);
+  });
+  return Array.from(searches.values());
+};
+
+/**
+ * Today at the theme's start hour, or the next quarter hour if that's already passed
+ */
+export const getCrawlStart = (themeId: CrawlThemeId, now: Date = new Date()): Date => {
+  const start = new Date(now);
+  start.setHours(getCrawlTheme(themeId).startHour, 0, 0, 0);
+  if (start >= now) return start;
+
+  const next = new Date(now);
+  next.setSeconds(0, 0);
+  next.setMinutes(Math.ceil(now.getMinutes() / 15) * 15);
+  return next;
+};
+
+const addMinutes = (date: Date, minutes: number): Date => new Date(date.getTime() + minutes * 60 * 1000);
+
+// Unknown hours are given the benefit of the doubt
+const isOpenFor = (place: Place, arrival: Date, dwellMinutes: number): boolean => {
+  const status = getOpenStatus(place, arrival);
+  if (status.isOpen === false) return false;
+  return !status.closesAt || status.closesAt >= addMinutes(arrival, dwellMinutes);
+};
+
+const qualityOf = (place: Place): number => place.score?.total ?? 0;
+
+/**
+ * Extend a route from its first stop: each slot takes the closest open match
+ * within the walking budget; optional slots end the crawl when nothing fits
+ */
+const extendRoute = (theme: CrawlTheme, first: Place, start: Date, pool: Place[]): CrawlStop[] => {
+  const stops: CrawlStop[] = [{
+    place: first,
+    label: theme.slots[0].label,
+    arrival: start,
+    departure: addMinutes(start, theme.slots[0].dwellMinutes),
+    walkKm: 0,
+    walkMinutes: 0,
+  }];
+  let totalWalkKm = 0;
+
+  for (const slot of theme.slots.slice(1)) {
+    const previous = stops[stops.length - 1];
+    const options = pool
+      .filter(place => slot.matches(place) && !stops.some(stop => stop.place.id === place.id))
+      .map(place => ({ place, travel: estimateTravel(previous.place.location, place.location, 'walk') }))
+      .filter(({ place, travel }) =>
+        travel.distanceKm <= MAX_LEG_KM &&
+        totalWalkKm + travel.distanceKm <= MAX_TOTAL_WALK_KM &&
+        isOpenFor(place, addMinutes(previous.departure, travel.minutes), slot.dwellMinutes)
+      )
+      // Closest first, with up to 200 m of slack for better-ranked places
+      .sort((a, b) => (a.travel.distanceKm - qualityOf(a.place) * 0.2) - (b.travel.distanceKm - qualityOf(b.place) * 0.2));
+
+    const next = options[0];
+    if (!next) break;
+
+    const arrival = addMinutes(previous.departure, next.travel.minutes);
+    stops.push({
+      place: next.place,
+      label: slot.label,
+      arrival,
+      departure: addMinutes(arrival, slot.dwellMinutes),
+      walkKm: next.travel.distanceKm,
+      walkMinutes: next.travel.minutes,
+    });
+    totalWalkKm += next.travel.distanceKm;
+  }
+
+  return stops;
+};
+
+/**
+ * Build the best crawl for a theme: tries the closest first stops and keeps
+ * the route with the most stops, then the least walking
+ * Returns null when no route reaches the theme's minimum stops
+ */
+export const buildCrawl = (
+  themeId: CrawlThemeId,
+  candidates: Place[],
+  center: Coordinates,
+  start: Date = getCrawlStart(themeId)
+): Crawl | null => {
+  const theme = getCrawlTheme(themeId);
+  const pool = candidates.filter((place, i) => candidates.findIndex(p => p.id === place.id) === i);
+  const [firstSlot] = theme.slots;
+
+  const firstOptions = pool
+    .filter(place => firstSlot.matches(place) && isOpenFor(place, start, firstSlot.dwellMinutes))
+    .filter(place => getDistanceKm(center, place.location) <= MAX_START_KM)
+    .sort((a, b) => getDistanceKm(center, a.location) - getDistanceKm(center, b.location))
+    .slice(0, MAX_FIRST_STOP_OPTIONS);
+
+  const walkOf = (stops: CrawlStop[]) => stops.reduce((sum, stop) => sum + stop.walkKm, 0);
+  const best = firstOptions
+    .map(first => extendRoute(theme, first, start, pool))
+    .reduce<CrawlStop[] | null>((a, b) => {
+      if (!a) return b;
+      if (a.length !== b.length) return b.length > a.length ? b : a;
+      return walkOf(b) < walkOf(a) ? b : a;
+    }, null);
+
+  if (!best || best.length < theme.minStops) {
+    console.log(`🚶 No ${theme.label.toLowerCase()} found (${firstOptions.length} starting points)`);
+    return null;
+  }
+
+  console.log(`🚶 ${theme.label}: ${best.length} stops, ${walkOf(best).toFixed(1)} km walk`);
+  return {
+    theme: theme.id,
+    title: `${theme.emoji} ${theme.label}`,
+    stops: best,
+    totalWalkKm: walkOf(best),
+    start,
+    end: best[best.length - 1].departure,
+  };
+};
+
+/**
+ * Save a crawl as a collection, with its order and timings as the day plan
+ */
+export const saveCrawlAsCollection = async (crawl: Crawl): Promise<Collection> => {
+  const theme = getCrawlTheme(crawl.theme);
+  const collection = await createCollection(theme.label, theme.emoji);
+
+  for (const stop of crawl.stops) {
+    // Collections resolve places from favorites and history
+    await addToHistory(stop.place);
+    await addPlaceToCollection(collection.id, stop.place.id);
+  }
+
+  const itinerary = {
+    date: toDateKey(crawl.start),
+    startMinutes: crawl.start.getHours() * 60 + crawl.start.getMinutes(),
+    travelMode: 'walk' as const,
+    stops: crawl.stops.map(stop => ({
+      placeId: stop.place.id,
+      dwellMinutes: Math.round((stop.departure.getTime() - stop.arrival.getTime()) / 60000),
+    })),
+    updatedAt: Date.now(),
+  };
+  await saveItinerary(collection.id, itinerary);
+
+  return { ...collection, placeIds: crawl.stops.map(stop => stop.place.id), itinerary };
+};
@@ -0,0 +1,511 @@
+/**
+ * Local Database
+ *
+ * SQLite tables behind favorites, collections, history, trips and the search caches.
+ * Each change reads and writes only its own rows - the AsyncStorage stores
+ * were single JSON blobs, parsed and rewritten whole on every save.
+ *
+ *   places             one row per place, shared by the tables below
+ *   favorites          saved places by place ID, in saved order
+ *   collections        + collection_places (membership, in order)
+ *   history            one row per viewed place, newest first
+ *   trips              + trip_collections (linked, in order) and trip_history
+ *                      (places seen during the trip, one row per place)
+ *   cache_entries      grid cache cells and place details, by kind + key
+ *
+ * The database's version (PRAGMA user_version) covers every table in it.
+ * Opening it runs each migration above that version, in order, each in its
+ * own transaction - so a failed step is retried on the next launch.
+ *
+ *   v1  tables, plus a one-time import of the old AsyncStorage blobs
+ *   v2  stored places upgraded to the current shape (see migrations.ts)
+ *   v3  the name-keyed saved places list merged into favorites
+ *   v4  cached place details without a location dropped, along with the
+ *       search caches left in AsyncStorage from before places had one
+ *   v5  trips and their history moved from AsyncStorage
+ *   v6  stored places without a location get one from their map link, or are dropped
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import { Collection, HistoryEntry, Place, Trip } from '../types';
+import { getDistanceMeters } from './geo';
+import { migratePlace } from './migrations';
+import type { GridCache, PlaceDetailsCache } from './storage';
+
+const DATABASE_NAME = 'vibecheck.db';
+const SAME_PLACE_METERS = 75;
+
+// AsyncStorage blobs from before the database
+const LEGACY_KEYS = {
+  favorites: '@vibecheck_favorites',
+  collections: '@vibecheck_collections',
+  history: '@vibecheck_history',
+  gridCache: '@vibecheck:grid_cache_v2',
+  placeDetails: '@vibecheck:cached_place_details',
+  savedPlaces: '@vibecheck:saved_places', // A second saved list, keyed by name
+  // From before places carried `location` - superseded by the _v2 keys, never read
+  cachedResultsV1: '@vibecheck:cached_results',
+  gridCacheV1: '@vibecheck:grid_cache',
+  trips: '@vibecheck_trips',
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS places (
+    id TEXT PRIMARY KEY NOT NULL,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS favorites (
+    place_id TEXT PRIMARY KEY NOT NULL,
+    added_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS favorites_added_at ON favorites (added_at);
+
+  CREATE TABLE IF NOT EXISTS collections (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    icon TEXT,
+    itinerary TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS collection_places (
+    collection_id TEXT NOT NULL,
+    place_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (collection_id, place_id)
+  );
+  CREATE INDEX IF NOT EXISTS collection_places_place_id ON collection_places (place_id);
+
+  CREATE TABLE IF NOT EXISTS history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    place_id TEXT NOT NULL UNIQUE,
+    viewed_at INTEGER NOT NULL,
+    search_query TEXT,
+    location TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS history_viewed_at ON history (viewed_at);
+
+  CREATE TABLE IF NOT EXISTS cache_entries (
+    kind TEXT NOT NULL,
+    key TEXT NOT NULL,
+    data TEXT NOT NULL,
+    cached_at INTEGER NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (kind, key)
+  );
+  CREATE INDEX IF NOT EXISTS cache_entries_cached_at ON cache_entries (kind, cached_at);
+`;
+
+const TRIPS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS trips (
+    id TEXT PRIMARY KEY NOT NULL,
+    destination TEXT NOT NULL,
+    destination_latitude REAL NOT NULL,
+    destination_longitude REAL NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    home_base TEXT,
+    notes TEXT NOT NULL,
+    started_at INTEGER,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS trips_dates ON trips (start_date, end_date);
+
+  CREATE TABLE IF NOT EXISTS trip_collections (
+    trip_id TEXT NOT NULL,
+    collection_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (trip_id, collection_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS trip_history (
+    trip_id TEXT NOT NULL,
+    place_id TEXT NOT NULL,
+    viewed_at INTEGER NOT NULL,
+    search_query TEXT,
+    location TEXT NOT NULL,
+    PRIMARY KEY (trip_id, place_id)
+  );
+  CREATE INDEX IF NOT EXISTS trip_history_viewed_at ON trip_history (trip_id, viewed_at);
+  CREATE INDEX IF NOT EXISTS trip_history_place_id ON trip_history (place_id);
+`;
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const readLegacy = async <T>(key: string): Promise<T | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error(`Error reading ${key} for import:`, error);
+    return null;
+  }
+};
+
+/**
+ * Store a place (newer data replaces older)
+ */
+export const upsertPlace = async (db: SQLite.SQLiteDatabase, place: Place): Promise<void> => {
+  await db.runAsync(
+    `INSERT INTO places (id, data, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+    place.id,
+    JSON.stringify(place),
+    Date.now()
+  );
+};
+
+/**
+ * Store a place unless it's stored already - a search result doesn't replace a saved place's data
+ */
+export const insertPlaceIfMissing = async (db: SQLite.SQLiteDatabase, place: Place): Promise<void> => {
+  await db.runAsync(
+    'INSERT OR IGNORE INTO places (id, data, updated_at) VALUES (?, ?, ?)',
+    place.id,
+    JSON.stringify(place),
+    Date.now()
+  );
+};
+
+/**
+ * Drop places nothing refers to any more
+ */
+export const deleteOrphanPlaces = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await db.runAsync(
+    `DELETE FROM places
+     WHERE id NOT IN (SELECT place_id FROM favorites)
+       AND id NOT IN (SELECT place_id FROM history)
+       AND id NOT IN (SELECT place_id FROM collection_places)
+       AND id NOT IN (SELECT place_id FROM trip_history)`
+  );
+};
+
+// One-time copy of the AsyncStorage blobs - history before favorites, so saved places keep their own data
+const importLegacyStores = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const history = (await readLegacy<HistoryEntry[]>(LEGACY_KEYS.history)) || [];
+  for (const entry of [...history].reverse()) {
+    await upsertPlace(db, entry.place);
+    await db.runAsync(
+      'INSERT OR REPLACE INTO history (place_id, viewed_at, search_query, location) VALUES (?, ?, ?, ?)',
+      entry.place.id,
+      entry.viewedAt,
+      entry.searchQuery ?? null,
+      entry.location
+    );
+  }
+
+  const favorites = (await readLegacy<Place[]>(LEGACY_KEYS.favorites)) || [];
+  for (const place of favorites) {
+    await upsertPlace(db, place);
+    await db.runAsync('INSERT OR IGNORE INTO favorites (place_id, added_at) VALUES (?, ?)', place.id, Date.now());
+  }
+
+  const collections = (await readLegacy<Collection[]>(LEGACY_KEYS.collections)) || [];
+  for (const collection of collections) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO collections (id, name, icon, itinerary, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      collection.id,
+      collection.name,
+      collection.icon ?? null,
+      collection.itinerary ? JSON.stringify(collection.itinerary) : null,
+      collection.createdAt,
+      collection.updatedAt
+    );
+    for (const [position, placeId] of collection.placeIds.entries()) {
+      await db.runAsync(
+        'INSERT OR IGNORE INTO collection_places (collection_id, place_id, position) VALUES (?, ?, ?)',
+        collection.id,
+        placeId,
+        position
+      );
+    }
+  }
+
+  const gridCache = (await readLegacy<GridCache>(LEGACY_KEYS.gridCache)) || {};
+  for (const entry of Object.values(gridCache)) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO cache_entries (kind, key, data, cached_at, hits) VALUES (?, ?, ?, ?, ?)',
+      'grid',
+      entry.gridKey,
+      JSON.stringify({ places: entry.places, category: entry.category, query: entry.query }),
+      entry.timestamp,
+      entry.searchCount || 0
+    );
+  }
+
+  const placeDetails = (await readLegacy<PlaceDetailsCache>(LEGACY_KEYS.placeDetails)) || {};
+  for (const entry of Object.values(placeDetails)) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO cache_entries (kind, key, data, cached_at) VALUES (?, ?, ?, ?)',
+      'details',
+      entry.placeId,
+      JSON.stringify(entry.details),
+      entry.timestamp
+    );
+  }
+
+  console.log(
+    `🗄️ Imported ${favorites.length} favorites, ${collections.length} collections, ${history.length} history entries and ` +
+    `${Object.keys(gridCache).length + Object.keys(placeDetails).length} cache entries into the local database`
+  );
+};
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: SQLite.SQLiteDatabase) => Promise<void>;
+  replacesKeys?: string[]; // AsyncStorage keys removed once the migration is committed
+}
+
+// Tables with a place_id column - trip_history only exists from v5
+const PLACE_REFERENCES = ['favorites', 'history', 'collection_places', 'trip_history'];
+
+// Remove a place and every reference to it, in the tables this version of the database has
+const deletePlace = async (db: SQLite.SQLiteDatabase, placeId: string): Promise<void> => {
+  const tables = await db.getAllAsync<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table'");
+  const existing = new Set(tables.map(table => table.name));
+  for (const table of PLACE_REFERENCES.filter(name => existing.has(name))) {
+    await db.runAsync(`DELETE FROM ${table} WHERE place_id = ?`, placeId);
+  }
+  await db.runAsync('DELETE FROM places WHERE id = ?', placeId);
+};
+
+// Rewrite every stored place (and grid cache cell) between two place versions - see migrations.ts
+// Places that can't be upgraded are removed along with everything that refers to them
+const migrateStoredPlaces = (fromVersion: number, toVersion: number) => async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const places = await db.getAllAsync<{ id: string; data: string }>('SELECT id, data FROM places');
+  let dropped = 0;
+  for (const row of places) {
+    const place = migratePlace(JSON.parse(row.data), fromVersion, toVersion);
+    if (place) {
+      await db.runAsync('UPDATE places SET data = ? WHERE id = ?', JSON.stringify(place), row.id);
+    } else {
+      await deletePlace(db, row.id);
+      dropped++;
+    }
+  }
+
+  const cells = await db.getAllAsync<{ key: string; data: string }>("SELECT key, data FROM cache_entries WHERE kind = 'grid'");
+  for (const row of cells) {
+    const cell = JSON.parse(row.data);
+    const cellPlaces = cell.places
+      .map((place: Place) => migratePlace(place, fromVersion, toVersion))
+      .filter((place: Place | null) => place !== null);
+    await db.runAsync(
+      "UPDATE cache_entries SET data = ? WHERE kind = 'grid' AND key = ?",
+      JSON.stringify({ ...cell, places: cellPlaces }),
+      row.key
+    );
+  }
+  if (dropped > 0) console.log(`🗄️ Dropped ${dropped} of ${places.length} stored places that couldn't be upgraded`);
+};
+
+// Same name at (almost) the same spot - another provider's ID for the venue, not another branch
+const isSameSavedPlace = (a: Place, b: Place): boolean =>
+  a.name === b.name && !!a.location && !!b.location && getDistanceMeters(a.location, b.location) <= SAME_PLACE_METERS;
+
+// Saved places that aren't favorites yet (by ID, or by name and location) become favorites, from when they were saved
+const mergeSavedPlaces = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const saved = (await readLegacy<(Place & { savedAt?: number })[]>(LEGACY_KEYS.savedPlaces)) || [];
+  const rows = await db.getAllAsync<{ data: string }>(
+    'SELECT places.data FROM favorites JOIN places ON places.id = favorites.place_id'
+  );
+  const favorites = rows.map(row => JSON.parse(row.data) as Place);
+
+  let merged = 0;
+  for (const { savedAt, ...stored } of saved) {
+    // Place shape as of this migration - later steps run on what's stored
+    const place = migratePlace(stored, 1, 2);
+    if (!place || favorites.some(favorite => favorite.id === place.id || isSameSavedPlace(favorite, place))) continue;
+    await upsertPlace(db, place);
+    await db.runAsync('INSERT INTO favorites (place_id, added_at) VALUES (?, ?)', place.id, savedAt ?? Date.now());
+    favorites.push(place);
+    merged++;
+  }
+  console.log(`🗄️ Merged ${merged} of ${saved.length} saved places into favorites`);
+};
+
+// Place details cached by older builds may have no coordinates - they're refetched on the next lookup
+const dropPlaceDetailsWithoutLocation = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const rows = await db.getAllAsync<{ key: string; data: string }>("SELECT key, data FROM cache_entries WHERE kind = 'details'");
+  const unmapped = rows.filter(row => !JSON.parse(row.data)?.geometry?.location);
+  for (const row of unmapped) {
+    await db.runAsync("DELETE FROM cache_entries WHERE kind = 'details' AND key = ?", row.key);
+  }
+  console.log(`🗄️ Dropped ${unmapped.length} of ${rows.length} cached place details without a location`);
+};
+
+// Trips blob → rows - places already stored keep their (newer) data
+const importTrips = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await db.execAsync(TRIPS_SCHEMA);
+
+  const trips = (await readLegacy<Trip[]>(LEGACY_KEYS.trips)) || [];
+  let entries = 0;
+  for (const trip of trips) {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO trips (id, destination, destination_latitude, destination_longitude, start_date, end_date,
+         home_base, notes, started_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      trip.id,
+      trip.destination,
+      trip.destinationCoords.latitude,
+      trip.destinationCoords.longitude,
+      trip.startDate,
+      trip.endDate,
+      trip.homeBase ? JSON.stringify(trip.homeBase) : null,
+      trip.notes || '',
+      trip.startedAt ?? null,
+      trip.createdAt,
+      trip.updatedAt
+    );
+    for (const [position, collectionId] of (trip.collectionIds || []).entries()) {
+      await db.runAsync(
+        'INSERT OR IGNORE INTO trip_collections (trip_id, collection_id, position) VALUES (?, ?, ?)',
+        trip.id,
+        collectionId,
+        position
+      );
+    }
+    for (const entry of trip.history || []) {
+      const place = migratePlace(entry.place, 1, 2);
+      if (!place) continue;
+      await db.runAsync(
+        'INSERT OR IGNORE INTO places (id, data, updated_at) VALUES (?, ?, ?)',
+        place.id,
+        JSON.stringify(place),
+        Date.now()
+      );
+      await db.runAsync(
+        'INSERT OR IGNORE INTO trip_history (trip_id, place_id, viewed_at, search_query, location) VALUES (?, ?, ?, ?, ?)',
+        trip.id,
+        place.id,
+        entry.viewedAt,
+        entry.searchQuery ?? null,
+        entry.location
+      );
+      entries++;
+    }
+  }
+  console.log(`🗄️ Imported ${trips.length} trips with ${entries} history entries into the local database`);
+};
+
+// Append only - a shipped migration never changes
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'create tables and import AsyncStorage',
+    migrate: async db => {
+      await db.execAsync(SCHEMA);
+      await importLegacyStores(db);
+    },
+    replacesKeys: [
+      LEGACY_KEYS.favorites,
+      LEGACY_KEYS.collections,
+      LEGACY_KEYS.history,
+      LEGACY_KEYS.gridCache,
+      LEGACY_KEYS.placeDetails,
+    ],
+  },
+  {
+    version: 2,
+    description: 'merge DO/SIGHT into EXPLORE and drop aggregate ratings on stored places',
+    migrate: migrateStoredPlaces(1, 2),
+  },
+  {
+    version: 3,
+    description: 'merge saved places into favorites',
+    migrate: mergeSavedPlaces,
+    replacesKeys: [LEGACY_KEYS.savedPlaces],
+  },
+  {
+    version: 4,
+    description: 'drop place details and search caches from before places had a location',
+    migrate: dropPlaceDetailsWithoutLocation,
+    replacesKeys: [LEGACY_KEYS.cachedResultsV1, LEGACY_KEYS.gridCacheV1],
+  },
+  {
+    version: 5,
+    description: 'create trip tables and import trips from AsyncStorage',
+    migrate: importTrips,
+    replacesKeys: [LEGACY_KEYS.trips],
+  },
+  {
+    version: 6,
+    description: 'give stored places a location from their map link, or drop them',
+    migrate: migrateStoredPlaces(2, 3),
+  },
+];
+
+export const DATABASE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const getVersion = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+const runMigrations = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const startVersion = await getVersion(db);
+  const pending = MIGRATIONS.filter(migration => migration.version > startVersion);
+  for (const migration of pending) {
+    await db.withTransactionAsync(async () => {
+      await migration.migrate(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+    console.log(`🗄️ Local database v${migration.version}: ${migration.description}`);
+    // Only once the copy is committed
+    if (migration.replacesKeys) await AsyncStorage.multiRemove(migration.replacesKeys);
+  }
+};
+
+const openDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  await db.execAsync('PRAGMA journal_mode = WAL;');
+  try {
+    await runMigrations(db);
+  } catch (error) {
+    await db.closeAsync();
+    throw error;
+  }
+  return db;
+};
+
+/**
+ * The app's database, opened (and migrated) on first use - App starts it at launch
+ */
+export const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch(error => {
+      databasePromise = null; // Try again next time
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Close the database - the next getDatabase() opens it again
+ */
+export const closeDatabase = async (): Promise<void> => {
+  const opening = databasePromise;
+  databasePromise = null;
+  if (!opening) return;
+  try {
+    await (await opening).closeAsync();
+  } catch (error) {
+    console.error('Error closing database:', error);
+  }
+};
+
+/**
+ * Delete the database - everything in it is gone
+ * The next getDatabase() starts empty (and imports any AsyncStorage blobs again)
+ */
+export const resetDatabase = async (): Promise<void> => {
+  await closeDatabase();
+  await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+  console.log('🗑️ Deleted local database');
+};
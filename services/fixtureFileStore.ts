@@ -0,0 +1,27 @@
+/**
+ * File-backed fixture store (Node only - tests, CI and scripts, never imported by the app)
+ *
+ * One JSON file per fixture, so recordings can be reviewed and committed:
+ *   setFixtureStore(createFileFixtureStore('services/__tests__/fixtures/http'));
+ *   setTransportMode('replay');
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Fixture, FixtureStore } from './transport';
+
+export const createFileFixtureStore = (directory: string): FixtureStore => {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    get: async (key) => {
+      const file = fileFor(key);
+      if (!fs.existsSync(file)) return null;
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    },
+    put: async (fixture: Fixture) => {
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(fileFor(fixture.key), `${JSON.stringify(fixture, null, 2)}\n`);
+    },
+  };
+};
@@ -9,7 +9,9 @@
  * Google still used for: Photos (better quality)
  */
 
-import { PlaceCategory } from '../types';
+import { Coordinates, PlaceCategory } from '../types';
+import { httpFetch, isAbortError } from './transport';
+import { PriceRange } from './queryIntent';
 
 const FOURSQUARE_API_KEY = process.env.EXPO_PUBLIC_FOURSQUARE_API_KEY || '';
 // New Places API endpoint (not the deprecated v3)
@@ -99,6 +101,8 @@ export interface FoursquarePlace {
       longitude: number;
     };
   };
+  latitude?: number; // Some responses return coordinates at the top level instead of geocodes
+  longitude?: number;
   location: {
     address?: string;
     formatted_address?: string;
@@ -128,6 +132,11 @@ export interface FoursquarePlace {
     display?: string;
     is_local_holiday?: boolean;
     open_now?: boolean;
+    regular?: Array<{
+      day: number; // 1 = Monday ... 7 = Sunday
+      open: string; // "HHMM"
+      close: string; // "HHMM", "+HHMM" = next day
+    }>;
   };
   tel?: string;
   website?: string;
@@ -159,7 +168,9 @@ export async function searchFoursquarePlaces(
   radiusMeters: number = 3200,
   categories?: PlaceCategory[],
   query?: string,
-  limit: number = 20
+  limit: number = 20,
+  price?: PriceRange | null,
+  signal?: AbortSignal
 ): Promise<FoursquarePlace[]> {
   if (!FOURSQUARE_API_KEY) {
     console.log('⚠️ Foursquare API key not configured, falling back to Google');
@@ -200,15 +211,22 @@ export async function searchFoursquarePlaces(
       params.append('query', query);
     }
 
+    // Budget filter runs server-side (same 1-4 scale as our PriceLevel)
+    if (price) {
+      params.append('min_price', price.min.toString());
+      params.append('max_price', price.max.toString());
+    }
+
     const url = `${BASE_URL}/places/search?${params.toString()}`;
     console.log(`🔍 Foursquare search: ${latitude.toFixed(4)},${longitude.toFixed(4)} within ${validRadius}m (${(validRadius/1000).toFixed(1)}km)`);
 
-    const response = await fetch(url, {
+    const response = await httpFetch('foursquare', url, {
       headers: {
         'Authorization': `Bearer ${FOURSQUARE_API_KEY}`,
         'Accept': 'application/json',
         'X-Places-Api-Version': API_VERSION,
       },
+      signal,
     });
 
     if (!response.ok) {
@@ -240,6 +258,7 @@ export async function searchFoursquarePlaces(
 
     return places;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('❌ Foursquare search error:', error);
     return [];
   }
@@ -256,7 +275,7 @@ export async function getFoursquarePlaceDetails(fsqId: string): Promise<Foursqua
   try {
     const url = `${BASE_URL}/places/${fsqId}`;
 
-    const response = await fetch(url, {
+    const response = await httpFetch('foursquare', url, {
       headers: {
         'Authorization': `Bearer ${FOURSQUARE_API_KEY}`,
         'Accept': 'application/json',
@@ -286,7 +305,7 @@ export async function getFoursquarePhotos(fsqId: string, limit: number = 5): Pro
   try {
     const url = `${BASE_URL}/places/${fsqId}/photos?limit=${limit}`;
 
-    const response = await fetch(url, {
+    const response = await httpFetch('foursquare', url, {
       headers: {
         'Authorization': `Bearer ${FOURSQUARE_API_KEY}`,
         'Accept': 'application/json',
@@ -394,16 +413,25 @@ export function formatFoursquareRating(rating?: number, totalRatings?: number):
   return `${fiveStarRating} stars (${reviewCount} reviews)`;
 }
 
+/**
+ * Get venue coordinates (geocodes.main, falling back to top-level lat/lng)
+ */
+export function getFoursquareCoordinates(place: FoursquarePlace): Coordinates | null {
+  const lat = place.geocodes?.main?.latitude ?? place.latitude;
+  const lng = place.geocodes?.main?.longitude ?? place.longitude;
+
+  if (lat === undefined || lng === undefined) return null;
+  return { latitude: lat, longitude: lng };
+}
+
 /**
  * Build Google Maps link from Foursquare location
  */
 export function buildMapsLink(place: FoursquarePlace): string {
-  // New API has geocodes.main with lat/lng
-  const lat = place.geocodes?.main?.latitude;
-  const lng = place.geocodes?.main?.longitude;
+  const coords = getFoursquareCoordinates(place);
 
-  if (lat && lng) {
-    return `https://www.google.com/maps/search/?api=1&query=${lat},${lng}&query_place_id=${encodeURIComponent(place.name)}`;
+  if (coords) {
+    return `https://www.google.com/maps/search/?api=1&query=${coords.latitude},${coords.longitude}&query_place_id=${encodeURIComponent(place.name)}`;
   }
 
   return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(place.name + ' ' + (place.location?.formatted_address || ''))}`;
@@ -0,0 +1,210 @@
+/**
+ * Gemini Response Schemas
+ *
+ * Every Gemini call asks for JSON matching one of these schemas. The same
+ * schema object is sent to the API (responseSchema) and used to validate the
+ * response at runtime, so the two can't drift apart.
+ */
+
+import { Schema, Type } from '@google/genai';
+
+export type DiscoveryCategory = 'EAT' | 'DRINK' | 'DO' | 'SIGHT';
+
+export interface DiscoveryResponse {
+  city: string;
+  places: Array<{ name: string; category: DiscoveryCategory; vibe: string }>;
+}
+
+export interface ReviewSummaryResponse {
+  summaries: Array<{ id: string; summary: string }>;
+}
+
+export interface TipsResponse {
+  tips: string[];
+}
+
+export const DISCOVERY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    city: { type: Type.STRING, description: 'City the search location is in' },
+    places: {
+      type: Type.ARRAY,
+      minItems: '1',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: 'Exact business name' },
+          category: { type: Type.STRING, enum: ['EAT', 'DRINK', 'DO', 'SIGHT'] },
+          vibe: { type: Type.STRING, description: 'One-line vibe, 5-8 words' },
+        },
+        required: ['name', 'category', 'vibe'],
+        propertyOrdering: ['name', 'category', 'vibe'],
+      },
+    },
+  },
+  required: ['city', 'places'],
+  propertyOrdering: ['city', 'places'],
+};
+
+export const REVIEW_SUMMARY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summaries: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'Review ID exactly as given' },
+          summary: { type: Type.STRING, description: '3-4 short sentences' },
+        },
+        required: ['id', 'summary'],
+        propertyOrdering: ['id', 'summary'],
+      },
+    },
+  },
+  required: ['summaries'],
+};
+
+export const TIPS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    tips: {
+      type: Type.ARRAY,
+      minItems: '1',
+      maxItems: '5',
+      items: { type: Type.STRING, description: 'One short sentence, max 12 words' },
+    },
+  },
+  required: ['tips'],
+};
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+  repaired: boolean; // Value was usable only after local repairs
+}
+
+/**
+ * Validate a parsed value against a schema
+ * Repairs what it safely can: enum casing, surrounding whitespace, and array
+ * items that fail validation (dropped, as long as minItems still holds)
+ */
+const check = (value: unknown, schema: Schema, path: string, errors: string[], repairs: string[]): unknown => {
+  if (value === null || value === undefined) {
+    if (!schema.nullable) errors.push(`${path} is missing`);
+    return value;
+  }
+
+  switch (schema.type) {
+    case Type.STRING: {
+      if (typeof value !== 'string') {
+        errors.push(`${path} should be a string`);
+        return value;
+      }
+      const text = value.trim();
+      if (text.length === 0) {
+        errors.push(`${path} is empty`);
+        return text;
+      }
+      if (schema.enum) {
+        const match = schema.enum.find(option => option.toLowerCase() === text.toLowerCase());
+        if (!match) {
+          errors.push(`${path} should be one of ${schema.enum.join(', ')}`);
+          return text;
+        }
+        if (match !== text) repairs.push(`${path} casing`);
+        return match;
+      }
+      return text;
+    }
+
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== 'number' || (schema.type === Type.INTEGER && !Number.isInteger(value))) {
+        errors.push(`${path} should be ${schema.type === Type.INTEGER ? 'an integer' : 'a number'}`);
+      }
+      return value;
+
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') errors.push(`${path} should be a boolean`);
+      return value;
+
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        errors.push(`${path} should be an array`);
+        return value;
+      }
+      const items: unknown[] = [];
+      value.forEach((item, index) => {
+        const itemErrors: string[] = [];
+        const checked = schema.items ? check(item, schema.items, `${path}[${index}]`, itemErrors, repairs) : item;
+        if (itemErrors.length === 0) {
+          items.push(checked);
+        } else {
+          repairs.push(`dropped ${path}[${index}] (${itemErrors.join('; ')})`);
+        }
+      });
+
+      const minItems = schema.minItems ? parseInt(schema.minItems, 10) : 0;
+      const maxItems = schema.maxItems ? parseInt(schema.maxItems, 10) : Infinity;
+      if (items.length < minItems) {
+        errors.push(`${path} needs at least ${minItems} valid item${minItems === 1 ? '' : 's'}`);
+      }
+      if (items.length > maxItems) repairs.push(`truncated ${path} to ${maxItems} items`);
+      return items.slice(0, maxItems);
+    }
+
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} should be an object`);
+        return value;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (input[key] === undefined && !schema.required?.includes(key)) continue;
+        output[key] = check(input[key], propertySchema, `${path}.${key}`, errors, repairs);
+      }
+      return output;
+    }
+
+    default:
+      return value;
+  }
+};
+
+/**
+ * Pull the JSON document out of a model response
+ * Tolerates markdown fences and chatter before/after the object
+ */
+const extractJson = (text: string): unknown => {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new Error('no JSON object found');
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+};
+
+/**
+ * Parse and validate a Gemini response against its schema
+ */
+export const parseJsonResponse = <T,>(text: string, schema: Schema): ValidationResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch (error: any) {
+    return { value: null, errors: [`response is not valid JSON (${error.message})`], repaired: false };
+  }
+
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  const value = check(parsed, schema, '$', errors, repairs);
+
+  if (errors.length > 0) return { value: null, errors, repaired: false };
+  if (repairs.length > 0) console.log(`🩹 Repaired Gemini response: ${repairs.join(', ')}`);
+  return { value: value as T, errors: [], repaired: repairs.length > 0 };
+};
@@ -0,0 +1,27 @@
+/**
+ * Geo helpers shared by providers and venue matching
+ */
+
+import { Coordinates } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Distance between two coordinates in km (Haversine formula)
+ */
+export const getDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = (to.latitude - from.latitude) * Math.PI / 180;
+  const dLon = (to.longitude - from.longitude) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.latitude * Math.PI / 180) * Math.cos(to.latitude * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+};
+
+/**
+ * Distance between two coordinates in meters
+ */
+export const getDistanceMeters = (from: Coordinates, to: Coordinates): number =>
+  getDistanceKm(from, to) * 1000;
@@ -1,25 +1,110 @@
 import Constants from 'expo-constants';
 import { Coordinates } from '../types';
+import { httpFetch, isAbortError } from './transport';
+import { QueryIntent } from './queryIntent';
 
 const GEOCODING_API_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+// Keyless fallback (OpenStreetMap) - max 1 request/second, must identify the app
+const NOMINATIM_API_URL = 'https://nominatim.openstreetmap.org';
+const NOMINATIM_HEADERS = { 'User-Agent': 'VibeCheck/1.0 (travel recommendations app)' };
+const BIAS_DEGREES = 0.5; // ~50km box, like the Google bias radius
 
 interface GeocodeResult {
   coords: Coordinates;
   formattedAddress: string;
 }
 
+/**
+ * Geocode with Nominatim when there is no Google key
+ */
+const geocodeWithNominatim = async (
+  location: string,
+  biasLocation?: Coordinates,
+  signal?: AbortSignal
+): Promise<GeocodeResult | null> => {
+  try {
+    console.log('🌍 Geocoding location (OpenStreetMap):', location);
+    const params = new URLSearchParams({ q: location, format: 'jsonv2', limit: '1' });
+
+    // Prefer (but don't restrict to) results near the user
+    if (biasLocation) {
+      const { latitude, longitude } = biasLocation;
+      params.append('viewbox', [
+        longitude - BIAS_DEGREES, latitude + BIAS_DEGREES,
+        longitude + BIAS_DEGREES, latitude - BIAS_DEGREES,
+      ].join(','));
+    }
+
+    const response = await httpFetch('nominatim', `${NOMINATIM_API_URL}/search?${params.toString()}`, {
+      headers: NOMINATIM_HEADERS,
+      signal,
+    });
+    if (!response.ok) {
+      console.warn('❌ Nominatim geocoding failed:', response.status);
+      return null;
+    }
+
+    const results = await response.json();
+    if (!Array.isArray(results) || results.length === 0) return null;
+
+    const geocoded = {
+      coords: { latitude: parseFloat(results[0].lat), longitude: parseFloat(results[0].lon) },
+      formattedAddress: results[0].display_name,
+    };
+    console.log('✅ Geocoded to:', geocoded.formattedAddress, geocoded.coords);
+    return geocoded;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('❌ Nominatim geocoding error:', error);
+    return null;
+  }
+};
+
+/**
+ * Reverse geocode with Nominatim when there is no Google key
+ */
+const reverseGeocodeWithNominatim = async (coords: Coordinates, signal?: AbortSignal): Promise<string | null> => {
+  try {
+    const params = new URLSearchParams({
+      lat: `${coords.latitude}`,
+      lon: `${coords.longitude}`,
+      format: 'jsonv2',
+      zoom: '10', // City level
+    });
+
+    const response = await httpFetch('nominatim', `${NOMINATIM_API_URL}/reverse?${params.toString()}`, {
+      headers: NOMINATIM_HEADERS,
+      signal,
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const address = data.address || {};
+    const city = address.city || address.town || address.village || address.suburb;
+    if (!city) return data.display_name || null;
+
+    const cityName = address.state ? `${city}, ${address.state}` : city;
+    console.log('✅ Found city (OpenStreetMap):', cityName);
+    return cityName;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Nominatim reverse geocoding error:', error);
+    return null;
+  }
+};
+
 /**
  * Geocode a location string to coordinates
  * Biases results toward the user's current location for ambiguous queries
  */
 export const geocodeLocation = async (
   location: string,
-  biasLocation?: Coordinates
+  biasLocation?: Coordinates,
+  signal?: AbortSignal
 ): Promise<GeocodeResult | null> => {
   const apiKey = Constants.expoConfig?.extra?.GEMINI_API_KEY;
   if (!apiKey) {
-    console.error('API key not found');
-    return null;
+    return geocodeWithNominatim(location, biasLocation, signal);
   }
 
   try {
@@ -35,7 +120,7 @@ export const geocodeLocation = async (
       params.append('radius', '50000'); // 50km bias radius
     }
 
-    const response = await fetch(`${GEOCODING_API_URL}?${params.toString()}`);
+    const response = await httpFetch('google-geocoding', `${GEOCODING_API_URL}?${params.toString()}`, { signal });
     const data = await response.json();
 
     console.log('📍 Geocoding response:', data.status, data.results?.[0]?.formatted_address);
@@ -56,49 +141,62 @@ export const geocodeLocation = async (
     console.warn('❌ Geocoding failed:', data.status, data.error_message);
     return null;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('❌ Geocoding error:', error);
     return null;
   }
 };
 
+export interface SearchTarget {
+  coords: Coordinates | null; // null = no location known yet
+  address: string | null; // Set when the search moved to a geocoded place
+  query: string; // Query to run there
+  source: 'location' | 'gps' | 'center';
+}
+
 /**
- * Parse a search query for location keywords
- * Returns { query: "croissants", location: "italy" } or { query: "pizza", location: null }
+ * Decide where a search runs
+ * - "pizza in Brooklyn" → geocoded Brooklyn
+ * - "Rome, Italy" / "tokyo" → geocoded place, iconic spots
+ * - "coffee near me" → back to GPS
+ * - anything else → current map center
+ * Returns null when the query names a location that can't be geocoded
  */
-export const parseLocationFromQuery = (
-  searchQuery: string
-): { query: string; location: string | null } => {
-  const trimmed = searchQuery.trim();
-  
-  // Match patterns like "X in Y", "X near Y", "X around Y"
-  const patterns = [
-    /(.+?)\s+in\s+(.+)/i,
-    /(.+?)\s+near\s+(.+)/i,
-    /(.+?)\s+around\s+(.+)/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = trimmed.match(pattern);
-    if (match) {
-      return {
-        query: match[1].trim(),
-        location: match[2].trim(),
-      };
+export const resolveSearchTarget = async (
+  intent: QueryIntent,
+  gpsCoords?: Coordinates,
+  centerCoords?: Coordinates,
+  signal?: AbortSignal
+): Promise<SearchTarget | null> => {
+  if (intent.location) {
+    const geocoded = await geocodeLocation(intent.location, gpsCoords, signal);
+    if (!geocoded) return null;
+    return { coords: geocoded.coords, address: geocoded.formattedAddress, query: intent.text, source: 'location' };
+  }
+
+  if (intent.looksLikeLocation) {
+    // Try the whole query as a place name - falls through to a local search if it isn't one
+    const geocoded = await geocodeLocation(intent.query, gpsCoords, signal);
+    if (geocoded) {
+      // Location-only search → iconic tourist destinations
+      return { coords: geocoded.coords, address: geocoded.formattedAddress, query: 'iconic places', source: 'location' };
     }
   }
 
-  // No location found
-  return { query: trimmed, location: null };
+  if (intent.nearMe && gpsCoords) {
+    return { coords: gpsCoords, address: null, query: intent.text, source: 'gps' };
+  }
+
+  return { coords: centerCoords || null, address: null, query: intent.text, source: 'center' };
 };
 
 /**
  * Reverse geocode coordinates to get city/location name
  */
-export const reverseGeocode = async (coords: Coordinates): Promise<string | null> => {
+export const reverseGeocode = async (coords: Coordinates, signal?: AbortSignal): Promise<string | null> => {
   const apiKey = Constants.expoConfig?.extra?.GEMINI_API_KEY;
   if (!apiKey) {
-    console.error('API key not found');
-    return null;
+    return reverseGeocodeWithNominatim(coords, signal);
   }
 
   try {
@@ -108,7 +206,7 @@ export const reverseGeocode = async (coords: Coordinates): Promise<string | null
       result_type: 'locality|sublocality', // Prioritize city-level results
     });
 
-    const response = await fetch(`${GEOCODING_API_URL}?${params.toString()}`);
+    const response = await httpFetch('google-geocoding', `${GEOCODING_API_URL}?${params.toString()}`, { signal });
     const data = await response.json();
 
     console.log('🌍 Reverse geocoding:', coords, '→', data.results?.[0]?.formatted_address);
@@ -148,6 +246,7 @@ export const reverseGeocode = async (coords: Coordinates): Promise<string | null
 
     return null;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Reverse geocoding error:', error);
     return null;
   }
@@ -0,0 +1,346 @@
+/**
+ * Day Itinerary Planner
+ *
+ * Turns a collection into a timed plan for one day. Stops are ordered to cut
+ * travel (nearest neighbor + 2-opt), and an order that works around opening
+ * hours is preferred when the shortest route would arrive while places are closed.
+ * Each stop gets a typical dwell time for its category; waits for a place to
+ * open are added, and anything that can't fit its hours is flagged as a conflict.
+ *
+ * Travel times are straight-line estimates with a detour factor - no routing API.
+ * Plans only store the order and dwell times, so edits are rescheduled instantly.
+ */
+
+import { Coordinates, Itinerary, ItineraryStop, Place, PlaceCategory, TravelMode } from '../types';
+import { getDistanceKm } from './geo';
+import { getOpenStatus, toDateKey } from './openingHours';
+
+const TRAVEL_SPEED_KMH: Record<TravelMode, number> = { walk: 4.5, drive: 25 };
+const DETOUR_FACTOR: Record<TravelMode, number> = { walk: 1.3, drive: 1.4 }; // Streets aren't straight lines
+const PARKING_MINUTES = 5; // Added to every drive
+
+const MAX_WAIT_MINUTES = 60; // Wait this long for a place to open - otherwise it's a conflict
+const MAX_2OPT_PASSES = 10;
+
+// Typical visit length per category
+const DWELL_MINUTES: Record<PlaceCategory, number> = {
+  [PlaceCategory.EAT]: 90,
+  [PlaceCategory.DRINK]: 60,
+  [PlaceCategory.EXPLORE]: 60,
+  [PlaceCategory.UNKNOWN]: 60,
+};
+const LONG_VISIT_PATTERN = /museum|gallery|zoo|aquarium|botanical|theme park|castle|palace/i; // ≈ 2 h
+const SHORT_VISIT_PATTERN = /\b(cafe|café|coffee|bakery|ice cream|viewpoint|monument|statue|memorial)\b/i; // ≈ 45 min
+const LONG_VISIT_MINUTES = 120;
+const SHORT_VISIT_MINUTES = 45;
+
+export type ItineraryConflict = 'closed' | 'closes-during-visit' | 'past-midnight';
+
+export interface ScheduledStop {
+  place: Place;
+  dwellMinutes: number;
+  distanceKm: number; // From the previous stop (or the start)
+  travelMinutes: number;
+  waitMinutes: number; // Waiting for the place to open
+  arrival: Date;
+  departure: Date;
+  hoursKnown: boolean;
+  conflicts: ItineraryConflict[];
+}
+
+export interface ItinerarySchedule {
+  stops: ScheduledStop[];
+  start: Date;
+  end: Date;
+  totalDistanceKm: number;
+  conflictCount: number; // Stops with at least one conflict
+  unplanned: Place[]; // In the collection but not in the plan (added after planning, or with no location)
+}
+
+export interface PlanOptions {
+  date: string; // YYYY-MM-DD
+  startMinutes: number;
+  start?: Coordinates;
+  travelMode: TravelMode;
+}
+
+/**
+ * Typical time spent at a place: meal ≈ 90 min, bar ≈ 60 min, museum ≈ 2 h
+ */
+export const getDwellMinutes = (place: Place): number => {
+  const text = [place.name, place.description, ...place.tags].join(' ');
+  if (place.category === PlaceCategory.EXPLORE && LONG_VISIT_PATTERN.test(text)) return LONG_VISIT_MINUTES;
+  if (place.category !== PlaceCategory.EAT && SHORT_VISIT_PATTERN.test(text)) return SHORT_VISIT_MINUTES;
+  return DWELL_MINUTES[place.category] ?? DWELL_MINUTES[PlaceCategory.UNKNOWN];
+};
+
+/**
+ * Estimated distance (km) and travel time (minutes, rounded up to 5) between two points
+ */
+export const estimateTravel = (
+  from: Coordinates,
+  to: Coordinates,
+  mode: TravelMode
+): { distanceKm: number; minutes: number } => {
+  const distanceKm = getDistanceKm(from, to) * DETOUR_FACTOR[mode];
+  if (distanceKm < 0.05) return { distanceKm, minutes: 0 }; // Same building
+  const minutes = (distanceKm / TRAVEL_SPEED_KMH[mode]) * 60 + (mode === 'drive' ? PARKING_MINUTES : 0);
+  return { distanceKm, minutes: Math.ceil(minutes / 5) * 5 };
+};
+
+/**
+ * Local time on a plan date
+ */
+export const getPlanTime = (date: string, minutes: number): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, 0, minutes);
+};
+
+const addMinutes = (date: Date, minutes: number): Date => new Date(date.getTime() + minutes * 60 * 1000);
+
+const minutesBetween = (from: Date, to: Date): number => Math.round((to.getTime() - from.getTime()) / 60000);
+
+/**
+ * Path length through the places in order, from `start` when given
+ */
+const routeDistance = (route: Place[], start?: Coordinates): number => {
+  let total = 0;
+  let position = start || route[0]?.location;
+  route.forEach(place => {
+    total += getDistanceKm(position, place.location);
+    position = place.location;
+  });
+  return total;
+};
+
+/**
+ * Greedy route: always go to the closest remaining place
+ */
+const nearestNeighborRoute = (places: Place[], from: Coordinates): Place[] => {
+  const remaining = [...places];
+  const route: Place[] = [];
+  let position = from;
+  while (remaining.length > 0) {
+    let best = 0;
+    remaining.forEach((place, i) => {
+      if (getDistanceKm(position, place.location) < getDistanceKm(position, remaining[best].location)) best = i;
+    });
+    const [next] = remaining.splice(best, 1);
+    route.push(next);
+    position = next.location;
+  }
+  return route;
+};
+
+/**
+ * Untangle crossings by reversing segments while it shortens the path
+ */
+const improveRoute = (route: Place[], start?: Coordinates): Place[] => {
+  let best = route;
+  let bestDistance = routeDistance(best, start);
+  for (let pass = 0; pass < MAX_2OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const distance = routeDistance(candidate, start);
+        if (distance < bestDistance - 1e-9) {
+          best = candidate;
+          bestDistance = distance;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+};
+
+/**
+ * Shortest route we can find - without a start point every place is tried first
+ */
+const shortestRoute = (places: Place[], start?: Coordinates): Place[] => {
+  if (places.length <= 1) return places;
+  const candidates = start
+    ? [nearestNeighborRoute(places, start)]
+    : places.map(first => [first, ...nearestNeighborRoute(places.filter(p => p !== first), first.location)]);
+
+  return candidates
+    .map(route => improveRoute(route, start))
+    .reduce((best, route) => (routeDistance(route, start) < routeDistance(best, start) ? route : best));
+};
+
+/**
+ * Schedule one stop arriving at `arrival`: wait for it to open if that's soon,
+ * then check it stays open for the whole visit
+ */
+const scheduleVisit = (
+  place: Place,
+  arrival: Date,
+  dwellMinutes: number,
+  date: string
+): Pick<ScheduledStop, 'arrival' | 'departure' | 'waitMinutes' | 'hoursKnown' | 'conflicts'> => {
+  const conflicts: ItineraryConflict[] = [];
+  let visitStart = arrival;
+  let status = getOpenStatus(place, arrival);
+
+  if (status.isOpen === false) {
+    const wait = status.opensAt ? minutesBetween(arrival, status.opensAt) : Infinity;
+    if (wait <= MAX_WAIT_MINUTES) {
+      visitStart = status.opensAt as Date;
+      status = getOpenStatus(place, visitStart);
+    } else {
+      conflicts.push('closed');
+    }
+  }
+
+  const departure = addMinutes(visitStart, dwellMinutes);
+  if (status.isOpen && status.closesAt && status.closesAt < departure) conflicts.push('closes-during-visit');
+  if (toDateKey(departure) !== date && departure.getHours() * 60 + departure.getMinutes() > 0) {
+    conflicts.push('past-midnight');
+  }
+
+  return {
+    arrival: visitStart,
+    departure,
+    waitMinutes: minutesBetween(arrival, visitStart),
+    hoursKnown: status.isOpen !== undefined,
+    conflicts,
+  };
+};
+
+/**
+ * Timed schedule for a plan. Stops whose place is gone are skipped; places added
+ * to the collection after planning, or that can't be mapped, are returned as `unplanned`.
+ */
+export const scheduleItinerary = (itinerary: Itinerary, places: Place[]): ItinerarySchedule => {
+  const byId = new Map(places.map(place => [place.id, place]));
+  const start = getPlanTime(itinerary.date, itinerary.startMinutes);
+
+  const stops: ScheduledStop[] = [];
+  let time = start;
+  let position = itinerary.start;
+  let totalDistanceKm = 0;
+
+  itinerary.stops.forEach(stop => {
+    const place = byId.get(stop.placeId);
+    if (!place?.location) return;
+
+    const travel = position ? estimateTravel(position, place.location, itinerary.travelMode) : { distanceKm: 0, minutes: 0 };
+    const visit = scheduleVisit(place, addMinutes(time, travel.minutes), stop.dwellMinutes, itinerary.date);
+
+    stops.push({ place, dwellMinutes: stop.dwellMinutes, distanceKm: travel.distanceKm, travelMinutes: travel.minutes, ...visit });
+    totalDistanceKm += travel.distanceKm;
+    time = visit.departure;
+    position = place.location;
+  });
+
+  const planned = new Set(itinerary.stops.map(stop => stop.placeId));
+  return {
+    stops,
+    start,
+    end: time,
+    totalDistanceKm,
+    conflictCount: stops.filter(stop => stop.conflicts.length > 0).length,
+    unplanned: places.filter(place => !planned.has(place.id) || !place.location),
+  };
+};
+
+/**
+ * Route that follows the clock: from each stop go to the place that can be
+ * visited soonest without a conflict (travel + wait), falling back to the closest
+ */
+const timeAwareRoute = (places: Place[], options: PlanOptions, dwell: Map<string, number>): Place[] => {
+  const remaining = [...places];
+  const route: Place[] = [];
+  let time = getPlanTime(options.date, options.startMinutes);
+  let position = options.start;
+
+  while (remaining.length > 0) {
+    const scored = remaining.map(place => {
+      const travel = position ? estimateTravel(position, place.location, options.travelMode) : { distanceKm: 0, minutes: 0 };
+      const visit = scheduleVisit(place, addMinutes(time, travel.minutes), dwell.get(place.id) as number, options.date);
+      return { place, visit, cost: minutesBetween(time, visit.arrival), hasConflict: visit.conflicts.length > 0 };
+    });
+    const best = scored.reduce((a, b) => {
+      if (a.hasConflict !== b.hasConflict) return a.hasConflict ? b : a;
+      return b.cost < a.cost ? b : a;
+    });
+
+    route.push(best.place);
+    remaining.splice(remaining.indexOf(best.place), 1);
+    time = best.visit.departure;
+    position = best.place.location;
+  }
+  return route;
+};
+
+/**
+ * Plan a day: pick the stop order and dwell times for the places
+ * The shortest route wins unless following opening hours avoids conflicts or finishes earlier
+ * Places without a location can't be routed - they're left out of the plan
+ */
+export const planItinerary = (places: Place[], options: PlanOptions): Itinerary => {
+  const mappable = places.filter(place => place.location);
+  const dwell = new Map(mappable.map(place => [place.id, getDwellMinutes(place)]));
+  const toItinerary = (route: Place[]): Itinerary => ({
+    date: options.date,
+    startMinutes: options.startMinutes,
+    start: options.start,
+    travelMode: options.travelMode,
+    stops: route.map(place => ({ placeId: place.id, dwellMinutes: dwell.get(place.id) as number })),
+    updatedAt: Date.now(),
+  });
+
+  const candidates = [shortestRoute(mappable, options.start), timeAwareRoute(mappable, options, dwell)].map(route => {
+    const itinerary = toItinerary(route);
+    return { itinerary, schedule: scheduleItinerary(itinerary, mappable) };
+  });
+
+  const best = candidates.reduce((a, b) => {
+    if (a.schedule.conflictCount !== b.schedule.conflictCount) {
+      return b.schedule.conflictCount < a.schedule.conflictCount ? b : a;
+    }
+    return b.schedule.end < a.schedule.end ? b : a;
+  });
+
+  console.log(`🗓️ Planned ${mappable.length} of ${places.length} stops: ${best.schedule.totalDistanceKm.toFixed(1)} km, ${best.schedule.conflictCount} conflicts`);
+  return best.itinerary;
+};
+
+/**
+ * EDITING - each returns an updated copy of the plan
+ */
+
+export const moveStop = (itinerary: Itinerary, index: number, offset: number): Itinerary => {
+  const target = index + offset;
+  if (target < 0 || target >= itinerary.stops.length) return itinerary;
+  const stops = [...itinerary.stops];
+  const [stop] = stops.splice(index, 1);
+  stops.splice(target, 0, stop);
+  return { ...itinerary, stops, updatedAt: Date.now() };
+};
+
+export const setStopDwell = (itinerary: Itinerary, placeId: string, dwellMinutes: number): Itinerary => ({
+  ...itinerary,
+  stops: itinerary.stops.map((stop): ItineraryStop =>
+    stop.placeId === placeId ? { ...stop, dwellMinutes: Math.max(15, dwellMinutes) } : stop
+  ),
+  updatedAt: Date.now(),
+});
+
+export const removeStop = (itinerary: Itinerary, placeId: string): Itinerary => ({
+  ...itinerary,
+  stops: itinerary.stops.filter(stop => stop.placeId !== placeId),
+  updatedAt: Date.now(),
+});
+
+/**
+ * "45 min", "2h", "1h 30m"
+ */
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
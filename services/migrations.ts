@@ -0,0 +1,125 @@
+/**
+ * Stored Shapes
+ *
+ * Favorites, history, collections, trips and the caches keep places as JSON, so
+ * a change to the Place type needs a step here that upgrades stored records.
+ * Database tables are upgraded when it's opened (see database.ts); AsyncStorage
+ * stores and offline packs when they're read.
+ *
+ *   v1  DO and SIGHT categories, aggregatedRatings + compositeScore
+ *   v2  DO + SIGHT merged into EXPLORE, aggregate ratings dropped
+ *   v3  `location` required - read from the map link, or the place is dropped (current)
+ *
+ * Each AsyncStorage store is saved as { version, data }. Stores holding places
+ * are at PLACE_VERSION; blobs saved before stores had a version read as v0.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Coordinates, Place, PlaceCategory } from '../types';
+
+export const PLACE_VERSION = 3;
+
+type StoredPlace = Record<string, any>;
+
+// Categories from before EXPLORE
+const MERGED_CATEGORIES: Record<string, PlaceCategory> = {
+  DO: PlaceCategory.EXPLORE,
+  SIGHT: PlaceCategory.EXPLORE,
+};
+
+/**
+ * Coordinates from a Google Maps search link ("...&query=38.71,-9.13&...")
+ * Links built from a name and address have none
+ */
+export const parseMapLinkCoordinates = (mapLink?: string): Coordinates | null => {
+  const match = mapLink?.match(/query=(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:&|$)/);
+  if (!match) return null;
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : null;
+};
+
+// Step to each version, from the one before - null drops the place
+const PLACE_MIGRATIONS: Record<number, (place: StoredPlace) => StoredPlace | null> = {
+  2: ({ aggregatedRatings, compositeScore, ...place }) => ({
+    ...place,
+    category: MERGED_CATEGORIES[place.category] ?? place.category,
+  }),
+  3: place => {
+    if (place.location) return place;
+    const location = parseMapLinkCoordinates(place.mapLink);
+    return location ? { ...place, location } : null;
+  },
+};
+
+/**
+ * Upgrade a stored place to the current shape (or to `toVersion`)
+ * Returns null for a place that can't be upgraded (e.g. one with no coordinates anywhere)
+ * Steps are safe to re-run, so a record whose version isn't known can start from the oldest
+ */
+export const migratePlace = (
+  stored: StoredPlace,
+  fromVersion: number = 1,
+  toVersion: number = PLACE_VERSION
+): Place | null => {
+  let place: StoredPlace | null = stored;
+  for (let version = fromVersion + 1; version <= toVersion && place; version++) {
+    place = PLACE_MIGRATIONS[version] ? PLACE_MIGRATIONS[version](place) : place;
+  }
+  return place as Place | null;
+};
+
+/**
+ * Upgrade a list of stored places, dropping those that can't be upgraded
+ */
+export const migratePlaces = (stored: StoredPlace[], fromVersion: number): Place[] =>
+  stored
+    .map(place => migratePlace(place, fromVersion))
+    .filter((place): place is Place => place !== null);
+
+/**
+ * VERSIONED ASYNCSTORAGE STORES
+ */
+
+export interface VersionedStore<T> {
+  key: string;
+  version: number;
+  migrate?: (data: any, fromVersion: number) => T; // From any older version - 0 is from before stores had one
+}
+
+interface VersionedBlob {
+  version: number;
+  data: unknown;
+}
+
+const isVersionedBlob = (stored: unknown): stored is VersionedBlob =>
+  typeof stored === 'object' && stored !== null && !Array.isArray(stored)
+  && typeof (stored as VersionedBlob).version === 'number' && 'data' in stored;
+
+export const writeStore = async <T>(store: VersionedStore<T>, data: T): Promise<void> => {
+  const blob: VersionedBlob = { version: store.version, data };
+  await AsyncStorage.setItem(store.key, JSON.stringify(blob));
+};
+
+/**
+ * Read a store, upgrading (and saving) data written by an older build
+ * Null when nothing is stored, or it was written by a newer build
+ */
+export const readStore = async <T>(store: VersionedStore<T>): Promise<T | null> => {
+  const json = await AsyncStorage.getItem(store.key);
+  if (!json) return null;
+
+  const stored = JSON.parse(json);
+  const version = isVersionedBlob(stored) ? stored.version : 0;
+  const data = isVersionedBlob(stored) ? stored.data : stored;
+  if (version === store.version) return data as T;
+  if (version > store.version) {
+    console.log(`⚠️ ${store.key} is from a newer version (v${version}), ignoring it`);
+    return null;
+  }
+
+  const upgraded = store.migrate ? store.migrate(data, version) : (data as T);
+  await writeStore(store, upgraded);
+  console.log(`🗄️ Upgraded ${store.key} from v${version} to v${store.version}`);
+  return upgraded;
+};
@@ -0,0 +1,421 @@
+/**
+ * Offline City Packs
+ *
+ * A pack is everything Discover needs for an area without a connection:
+ * results for the default search and each category chip, provider details
+ * for every place, photos and Wikipedia "About" extracts stored on disk, and
+ * map tiles for the area. The index lives in AsyncStorage; contents live in
+ * the documents directory, one folder per pack:
+ *
+ *   city_packs/<id>/pack.json         results + places + wiki
+ *   city_packs/<id>/photos/…          place photos
+ *   city_packs/<id>/tiles/{z}/{x}/{y}.png
+ *
+ * Each pack records the place version its pack.json was written at, and is
+ * upgraded the first time it's read by a build with a newer one.
+ *
+ * Packs share a storage budget - the least recently used are evicted first.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { Coordinates, Place, PlaceCategory } from '../types';
+import { getDistanceKm } from './geo';
+import { migratePlace, PLACE_VERSION, readStore, VersionedStore, writeStore } from './migrations';
+import { getPlaceDetailsFromProvider, getRecommendations } from './providers';
+import { DISCOVERY_SEARCHES } from './queryIntent';
+import { getHiddenPlaces, isPlaceHidden } from './storage';
+import { isAbortError, throwIfAborted } from './transport';
+import { fetchWikiEnrichment, WikiEnrichment } from './wikipedia';
+
+const CITY_PACKS_KEY = '@vibecheck_city_packs';
+const PACKS_DIRECTORY = 'city_packs';
+
+export const PACK_STORAGE_BUDGET_BYTES = 200 * 1024 * 1024; // All packs together
+const MAX_PACK_BYTES = 50 * 1024 * 1024; // Photos and tiles stop downloading past this
+const MAX_PHOTOS_PER_PLACE = 3;
+const TILE_ZOOMS = [12, 13, 14, 15, 16];
+const MAX_TILES = 400;
+const TILE_URL = process.env.EXPO_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_HEADERS = { 'User-Agent': 'VibeCheck/1.0 (offline city packs)' };
+
+const ALL_KEY = 'ALL'; // Results without a category filter, as in the grid cache
+
+export interface CityPack {
+  id: string;
+  name: string; // Shown in Downloads and as the city while offline
+  center: Coordinates;
+  radiusKm: number; // Area the pack answers for
+  placeCount: number;
+  photoCount: number;
+  tileCount: number;
+  sizeBytes: number;
+  createdAt: number; // Timestamp
+  lastUsedAt: number; // Timestamp - least recently used packs are evicted first
+  placeVersion?: number; // Shape of the places in pack.json (see migrations.ts) - missing before packs had one
+}
+
+export interface PackPlace {
+  place: Place; // Search result with provider details filled in
+  wiki: WikiEnrichment | null;
+  photos: string[]; // Local file URIs
+}
+
+interface CityPackContents {
+  results: Record<string, string[]>; // 'ALL' / category → ranked place IDs
+  places: Record<string, PackPlace>;
+}
+
+export type PackDownloadStage = 'results' | 'details' | 'photos' | 'tiles';
+
+export interface PackDownloadProgress {
+  stage: PackDownloadStage;
+  done: number;
+  total: number;
+}
+
+export interface MapTile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+const CITY_PACKS_STORE: VersionedStore<CityPack[]> = { key: CITY_PACKS_KEY, version: 1 };
+
+const contentsCache = new Map<string, CityPackContents>();
+
+const packDirectory = (packId: string): Directory => new Directory(Paths.document, PACKS_DIRECTORY, packId);
+
+const toFileName = (value: string): string => value.replace(/[^a-z0-9_-]/gi, '_');
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Provider details fill in what the search result left out (phone, hours, reviews)
+ */
+const withDetails = (place: Place, details: Place | null): Place => {
+  if (!details) return place;
+  const missing = Object.entries(details).filter(
+    ([key, value]) => !isEmpty(value) && isEmpty(place[key as keyof Place])
+  );
+  return { ...place, ...Object.fromEntries(missing) };
+};
+
+/**
+ * Slippy-map tiles covering a circle, closest zooms first, capped at MAX_TILES
+ */
+export const getTilesForArea = (center: Coordinates, radiusKm: number): MapTile[] => {
+  const latDelta = radiusKm / 111.32;
+  const lngDelta = radiusKm / (111.32 * Math.cos((center.latitude * Math.PI) / 180));
+
+  const toTileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+  const toTileY = (lat: number, z: number) => {
+    const rad = (lat * Math.PI) / 180;
+    return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+  };
+
+  const tiles: MapTile[] = [];
+  for (const z of TILE_ZOOMS) {
+    const minX = toTileX(center.longitude - lngDelta, z);
+    const maxX = toTileX(center.longitude + lngDelta, z);
+    const minY = toTileY(center.latitude + latDelta, z); // Tile rows grow southwards
+    const maxY = toTileY(center.latitude - latDelta, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        if (tiles.length >= MAX_TILES) return tiles;
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+  return tiles;
+};
+
+/**
+ * PACK INDEX
+ */
+
+export const getCityPacks = async (): Promise<CityPack[]> => {
+  try {
+    return (await readStore(CITY_PACKS_STORE)) || [];
+  } catch (error) {
+    console.error('Error loading city packs:', error);
+    return [];
+  }
+};
+
+const saveCityPacks = async (packs: CityPack[]): Promise<void> => {
+  await writeStore(CITY_PACKS_STORE, packs);
+};
+
+export const getPackStorageUsage = async (): Promise<number> =>
+  (await getCityPacks()).reduce((sum, pack) => sum + pack.sizeBytes, 0);
+
+const loadContents = async (pack: CityPack): Promise<CityPackContents | null> => {
+  const cached = contentsCache.get(pack.id);
+  if (cached) return cached;
+
+  try {
+    const file = new File(packDirectory(pack.id), 'pack.json');
+    let contents: CityPackContents = JSON.parse(await file.text());
+    if ((pack.placeVersion ?? 0) < PLACE_VERSION) {
+      contents = migrateContents(contents, pack.placeVersion ?? 0);
+      file.write(JSON.stringify(contents));
+      await setPackPlaceVersion(pack.id);
+      console.log(`📦 Upgraded city pack ${pack.name} to place v${PLACE_VERSION}`);
+    }
+    contentsCache.set(pack.id, contents);
+    return contents;
+  } catch (error) {
+    console.error(`Error reading city pack ${pack.name}:`, error);
+    return null;
+  }
+};
+
+// Places that can't be upgraded are dropped from the pack and its results
+const migrateContents = (contents: CityPackContents, fromVersion: number): CityPackContents => {
+  const places: Record<string, PackPlace> = {};
+  Object.entries(contents.places).forEach(([id, packed]) => {
+    const place = migratePlace(packed.place, fromVersion);
+    if (place) places[id] = { ...packed, place };
+  });
+  const results = Object.fromEntries(
+    Object.entries(contents.results).map(([key, ids]) => [key, ids.filter(id => places[id])])
+  );
+  return { results, places };
+};
+
+const setPackPlaceVersion = async (packId: string): Promise<void> => {
+  const packs = await getCityPacks();
+  await saveCityPacks(packs.map(p => (p.id === packId ? { ...p, placeVersion: PLACE_VERSION } : p)));
+};
+
+const touchPack = async (packId: string): Promise<void> => {
+  try {
+    const packs = await getCityPacks();
+    const pack = packs.find(p => p.id === packId);
+    if (!pack) return;
+    pack.lastUsedAt = Date.now();
+    await saveCityPacks(packs);
+  } catch (error) {
+    console.error('Error updating city pack:', error);
+  }
+};
+
+export const deleteCityPack = async (packId: string): Promise<void> => {
+  try {
+    const packs = await getCityPacks();
+    await saveCityPacks(packs.filter(p => p.id !== packId));
+    contentsCache.delete(packId);
+    const directory = packDirectory(packId);
+    if (directory.exists) directory.delete();
+    console.log(`🗑️ Deleted city pack ${packId}`);
+  } catch (error) {
+    console.error('Error deleting city pack:', error);
+  }
+};
+
+// Evict least recently used packs (never `keepId`) until everything fits the budget
+const enforceStorageBudget = async (keepId: string): Promise<void> => {
+  const packs = await getCityPacks();
+  let total = packs.reduce((sum, pack) => sum + pack.sizeBytes, 0);
+  const evictable = packs.filter(p => p.id !== keepId).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+  for (const pack of evictable) {
+    if (total <= PACK_STORAGE_BUDGET_BYTES) break;
+    console.log(`🗑️ City pack budget: evicting ${pack.name} (${(pack.sizeBytes / 1024 / 1024).toFixed(1)} MB)`);
+    await deleteCityPack(pack.id);
+    total -= pack.sizeBytes;
+  }
+};
+
+/**
+ * LOOKUPS (offline)
+ */
+
+/**
+ * Closest pack whose area covers these coordinates
+ */
+export const findCityPack = async (coords: Coordinates): Promise<CityPack | null> => {
+  const covering = (await getCityPacks())
+    .filter(pack => getDistanceKm(pack.center, coords) <= pack.radiusKm)
+    .sort((a, b) => getDistanceKm(a.center, coords) - getDistanceKm(b.center, coords));
+  return covering[0] || null;
+};
+
+/**
+ * A pack's discovery results
+ * `categories` as in fetchVibe - one category reads its own results, more filter the unfiltered ones
+ */
+export const getPackResults = async (pack: CityPack, categories: string[] = []): Promise<Place[]> => {
+  const contents = await loadContents(pack);
+  if (!contents) return [];
+
+  const key = categories.length === 1 ? categories[0] : ALL_KEY;
+  const ids = contents.results[key] || contents.results[ALL_KEY] || [];
+  const places = ids
+    .map(id => contents.places[id]?.place)
+    .filter((place): place is Place => !!place)
+    .filter(place => categories.length === 0 || categories.includes(place.category));
+
+  await touchPack(pack.id);
+  console.log(`📦 City pack ${pack.name}: ${places.length} places for ${key}`);
+  return places;
+};
+
+/**
+ * A place's details, wiki extract and local photos from any pack
+ */
+export const getPackPlace = async (placeId: string): Promise<PackPlace | null> => {
+  for (const pack of await getCityPacks()) {
+    const packed = (await loadContents(pack))?.places[placeId];
+    if (packed) return packed;
+  }
+  return null;
+};
+
+/**
+ * Tile path template for react-native-maps' LocalTile
+ */
+export const getPackTilePathTemplate = (pack: CityPack): string =>
+  `${new Directory(packDirectory(pack.id), 'tiles').uri.replace(/^file:\/\//, '').replace(/\/?$/, '/')}{z}/{x}/{y}.png`;
+
+/**
+ * DOWNLOAD
+ */
+
+const photoUrlsFor = (place: Place, wiki: WikiEnrichment | null): string[] => {
+  const wikiPhotos = wiki?.images.map(image => image.url) || [];
+  // Same order as PlacePopup: Commons photos lead for sights, venue photos for restaurants and bars
+  const urls = place.category === PlaceCategory.EXPLORE
+    ? [...wikiPhotos, ...place.images]
+    : [...place.images, ...wikiPhotos];
+  return Array.from(new Set(urls.filter(url => /^https?:\/\//.test(url)))).slice(0, MAX_PHOTOS_PER_PLACE);
+};
+
+const photoExtension = (url: string): string => url.match(/\.(jpe?g|png|webp)(?:$|\?)/i)?.[0].replace('?', '') || '.jpg';
+
+/**
+ * Download a city pack around `center`
+ * Throws when discovery finds nothing (or on abort) - partial downloads are removed
+ */
+export const downloadCityPack = async (
+  name: string,
+  center: Coordinates,
+  options: {
+    radiusKm?: number;
+    onProgress?: (progress: PackDownloadProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<CityPack> => {
+  const { radiusKm = 3.2, onProgress, signal } = options;
+  const id = `pack-${Date.now()}`;
+  const directory = packDirectory(id);
+  let bytes = 0;
+
+  try {
+    directory.create({ intermediates: true, idempotent: true });
+    const hiddenPlaces = await getHiddenPlaces();
+
+    // 1. Discovery results - the same searches Discover runs
+    const contents: CityPackContents = { results: {}, places: {} };
+    const found = new Map<string, Place>();
+    for (const [index, { category, radiusKm: searchRadiusKm }] of DISCOVERY_SEARCHES.entries()) {
+      onProgress?.({ stage: 'results', done: index, total: DISCOVERY_SEARCHES.length });
+      const data = await getRecommendations(center, undefined, searchRadiusKm, false, [], category ? [category] : [], null, signal);
+      const places = data.places.filter(place => !isPlaceHidden(place, hiddenPlaces));
+      places.forEach(place => {
+        if (!found.has(place.id)) found.set(place.id, place);
+      });
+      contents.results[category || ALL_KEY] = places.map(place => place.id);
+    }
+    if (found.size === 0) throw new Error(`No places found around ${name}`);
+
+    // 2. Full details and Wikipedia extracts
+    const places = Array.from(found.values());
+    for (const [index, place] of places.entries()) {
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'details', done: index, total: places.length });
+      const detailed = withDetails(place, await getPlaceDetailsFromProvider(place));
+      const wiki = await fetchWikiEnrichment(detailed, signal);
+      contents.places[place.id] = { place: detailed, wiki, photos: [] };
+    }
+
+    // 3. Photos, until the pack is full
+    const photosDirectory = new Directory(directory, 'photos');
+    photosDirectory.create({ idempotent: true });
+    let photoCount = 0;
+    for (const [index, packed] of Object.values(contents.places).entries()) {
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'photos', done: index, total: places.length });
+      if (bytes >= MAX_PACK_BYTES) break;
+
+      for (const [n, url] of photoUrlsFor(packed.place, packed.wiki).entries()) {
+        try {
+          const file = new File(photosDirectory, `${toFileName(packed.place.id)}-${n}${photoExtension(url)}`);
+          const downloaded = await File.downloadFileAsync(url, file, { idempotent: true });
+          bytes += downloaded.size;
+          packed.photos.push(downloaded.uri);
+          photoCount++;
+        } catch (error) {
+          console.error(`Error downloading photo for ${packed.place.name}:`, error);
+        }
+      }
+    }
+
+    // 4. Map tiles for the area
+    const tiles = getTilesForArea(center, radiusKm);
+    let tileCount = 0;
+    for (const [index, { z, x, y }] of tiles.entries()) {
+      throwIfAborted(signal);
+      if (index % 20 === 0) onProgress?.({ stage: 'tiles', done: index, total: tiles.length });
+      if (bytes >= MAX_PACK_BYTES) break;
+
+      try {
+        const tileDirectory = new Directory(directory, 'tiles', `${z}`, `${x}`);
+        tileDirectory.create({ intermediates: true, idempotent: true });
+        const url = TILE_URL.replace('{z}', `${z}`).replace('{x}', `${x}`).replace('{y}', `${y}`);
+        const downloaded = await File.downloadFileAsync(url, new File(tileDirectory, `${y}.png`), {
+          headers: TILE_HEADERS,
+          idempotent: true,
+        });
+        bytes += downloaded.size;
+        tileCount++;
+      } catch (error) {
+        console.error(`Error downloading map tile ${z}/${x}/${y}:`, error);
+      }
+    }
+
+    const contentsFile = new File(directory, 'pack.json');
+    contentsFile.create({ overwrite: true });
+    contentsFile.write(JSON.stringify(contents));
+    contentsCache.set(id, contents);
+
+    const pack: CityPack = {
+      id,
+      name,
+      center,
+      radiusKm,
+      placeCount: places.length,
+      photoCount,
+      tileCount,
+      sizeBytes: directory.size ?? bytes + contentsFile.size,
+      createdAt: Date.now(),
+      lastUsedAt: Date.now(),
+      placeVersion: PLACE_VERSION,
+    };
+
+    // A new download of the same area replaces the old pack
+    const packs = await getCityPacks();
+    const replaced = packs.filter(p => p.name.toLowerCase() === name.toLowerCase());
+    await saveCityPacks([...packs.filter(p => !replaced.includes(p)), pack]);
+    for (const old of replaced) await deleteCityPack(old.id);
+    await enforceStorageBudget(id);
+
+    console.log(`📦 Downloaded city pack ${name}: ${places.length} places, ${photoCount} photos, ${tileCount} tiles, ${(pack.sizeBytes / 1024 / 1024).toFixed(1)} MB`);
+    return pack;
+  } catch (error) {
+    if (directory.exists) directory.delete();
+    if (!isAbortError(error)) console.error(`Error downloading city pack ${name}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,130 @@
+/**
+ * Offline Search
+ *
+ * What Discover shows without a connection, best source first:
+ *   1. a downloaded city pack covering the area (offlinePacks.ts)
+ *   2. the grid cache cell, however old
+ *   3. the last results, when they were found nearby
+ *   4. favorites within the search radius
+ *
+ * The search itself is queued and runs when the connection returns.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Coordinates, Place } from '../types';
+import { getFavorites } from './collections';
+import { getDistanceKm } from './geo';
+import { readStore, VersionedStore, writeStore } from './migrations';
+import { findCityPack, getPackResults } from './offlinePacks';
+import { getCachedResults, getGridCacheEntry } from './storage';
+
+const QUEUED_SEARCH_KEY = '@vibecheck_queued_search';
+const MAX_QUEUE_AGE_MS = 6 * 60 * 60 * 1000; // Older searches are dropped - the user has moved on
+
+export type OfflineSource = 'pack' | 'grid' | 'last' | 'favorites';
+
+export interface OfflineResults {
+  source: OfflineSource;
+  places: Place[];
+  city?: string; // Known for packs and last results
+  updatedAt?: number; // When the results were fetched
+}
+
+export interface QueuedSearch {
+  coords?: Coordinates; // Missing when the query's location couldn't be looked up offline
+  query?: string;
+  queuedAt: number;
+}
+
+const QUEUED_SEARCH_STORE: VersionedStore<QueuedSearch> = { key: QUEUED_SEARCH_KEY, version: 1 };
+
+const matchesCategories = (place: Place, categories: string[]): boolean =>
+  categories.length === 0 || categories.includes(place.category);
+
+/**
+ * Cached results for a search made offline, or null when nothing nearby is stored
+ * `categories` as in fetchVibe
+ */
+export const getOfflineResults = async (
+  coords: Coordinates,
+  options: { categories?: string[]; query?: string; radiusKm?: number } = {}
+): Promise<OfflineResults | null> => {
+  const { categories = [], query, radiusKm = 3.2 } = options;
+
+  try {
+    const pack = await findCityPack(coords);
+    if (pack) {
+      const places = await getPackResults(pack, categories);
+      if (places.length > 0) return { source: 'pack', places, city: pack.name, updatedAt: pack.createdAt };
+    }
+
+    const categoryKey = categories.length === 1 ? categories[0] : undefined;
+    const entry = await getGridCacheEntry(coords.latitude, coords.longitude, categoryKey);
+    // Same query rule as getGridCachedResults
+    if (entry && entry.places.length > 0 && !(query && entry.query && entry.query !== query)) {
+      return { source: 'grid', places: entry.places, updatedAt: entry.timestamp };
+    }
+
+    const last = await getCachedResults();
+    if (last && getDistanceKm({ latitude: last.latitude, longitude: last.longitude }, coords) <= radiusKm) {
+      const places = last.places.filter(place => matchesCategories(place, categories));
+      if (places.length > 0) return { source: 'last', places, city: last.city, updatedAt: last.timestamp };
+    }
+
+    const favorites = (await getFavorites())
+      // Favorites saved before places carried coordinates can't be placed
+      .filter(place => place.location && matchesCategories(place, categories))
+      .map(place => ({ place, distanceKm: getDistanceKm(place.location, coords) }))
+      .filter(({ distanceKm }) => distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .map(({ place }) => place);
+    if (favorites.length > 0) return { source: 'favorites', places: favorites };
+
+    return null;
+  } catch (error) {
+    console.error('Error loading offline results:', error);
+    return null;
+  }
+};
+
+/**
+ * SEARCH QUEUE
+ * One search - a newer offline search replaces the queued one
+ */
+
+export const queueSearch = async (search: Omit<QueuedSearch, 'queuedAt'>): Promise<void> => {
+  try {
+    await writeStore(QUEUED_SEARCH_STORE, { ...search, queuedAt: Date.now() });
+    console.log(`📥 Queued search until back online: "${search.query || 'default'}"`);
+  } catch (error) {
+    console.error('Error queueing search:', error);
+  }
+};
+
+export const getQueuedSearch = async (): Promise<QueuedSearch | null> => {
+  try {
+    const queued = await readStore(QUEUED_SEARCH_STORE);
+    if (!queued) return null;
+    return Date.now() - queued.queuedAt <= MAX_QUEUE_AGE_MS ? queued : null;
+  } catch (error) {
+    console.error('Error loading queued search:', error);
+    return null;
+  }
+};
+
+export const clearQueuedSearch = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(QUEUED_SEARCH_KEY);
+  } catch (error) {
+    console.error('Error clearing queued search:', error);
+  }
+};
+
+/**
+ * The queued search, removed from the queue - run it now
+ */
+export const takeQueuedSearch = async (): Promise<QueuedSearch | null> => {
+  const queued = await getQueuedSearch();
+  await clearQueuedSearch();
+  return queued;
+};
@@ -0,0 +1,285 @@
+/**
+ * Opening Hours
+ *
+ * Parses each provider's hours into one weekly model (see OpeningHours in types.ts):
+ * - Foursquare `hours.regular` (day 1 = Monday, "HHMM" times)
+ * - Google `weekdayDescriptions` ("Monday: 11:00 AM – 10:00 PM")
+ * - OSM `opening_hours` ("Mo-Fr 09:00-17:00; Sa 10:00-14:00; Su off")
+ * and answers "is it open at…" for any time in the week, so results can be
+ * filtered for Saturday night while planning on a Tuesday.
+ *
+ * Times are venue-local and compared against the device clock - fine while
+ * the traveler is in the city they're searching.
+ */
+
+import { OpeningHours, OpeningPeriod, Place } from '../types';
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+const CLOSING_SOON_MINUTES = 60;
+const NOW_TOLERANCE_MS = 15 * 60 * 1000; // Live open_now flags count as "now" for this long
+
+const OSM_DAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const SHORT_DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface OpenStatus {
+  isOpen?: boolean; // undefined = unknown
+  closesAt?: Date; // Set when open (never for 24/7 places)
+  opensAt?: Date; // Set when closed and it opens again within a week
+}
+
+/**
+ * Local calendar date "YYYY-MM-DD" (used to flag holidays)
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Close at or before open means the period runs past midnight
+const toPeriod = (day: number, open: number, close: number): OpeningPeriod => ({
+  day,
+  open,
+  close: close <= open ? close + DAY_MINUTES : close,
+});
+
+const toHours = (periods: OpeningPeriod[], daysCovered: number): OpeningHours | null =>
+  daysCovered > 0 ? { periods: periods.sort((a, b) => a.day - b.day || a.open - b.open) } : null;
+
+/**
+ * Foursquare `hours` - `regular` holds one entry per day and opening
+ * ("+0200" or a close before the open means past midnight)
+ */
+export const parseFoursquareHours = (
+  hours?: { regular?: Array<{ day: number; open: string; close: string }>; is_local_holiday?: boolean },
+  fetchedAt: Date = new Date()
+): OpeningHours | null => {
+  if (!hours?.regular || hours.regular.length === 0) return null;
+
+  const parseTime = (value: string): number | null => {
+    const match = value.match(/^(\+)?(\d{2})(\d{2})$/);
+    if (!match) return null;
+    return (match[1] ? DAY_MINUTES : 0) + parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  };
+
+  const periods: OpeningPeriod[] = [];
+  hours.regular.forEach(entry => {
+    const open = parseTime(entry.open);
+    const close = parseTime(entry.close);
+    if (open === null || close === null || entry.day < 1 || entry.day > 7) return;
+    periods.push(toPeriod(entry.day % 7, open, close)); // 7 = Sunday
+  });
+
+  const parsed = toHours(periods, periods.length);
+  if (parsed && hours.is_local_holiday) {
+    parsed.holiday = toDateKey(fetchedAt);
+  }
+  return parsed;
+};
+
+/**
+ * "11:00 AM", "5:30 PM", "17:30" → minutes since midnight
+ * `meridiem` fills in a missing AM/PM ("5:00 – 10:00 PM")
+ */
+const parseClockTime = (text: string, meridiem?: string): number | null => {
+  const match = text.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const suffix = (match[3] || meridiem || '').toUpperCase();
+  if (suffix === 'PM' && hour < 12) hour += 12;
+  if (suffix === 'AM' && hour === 12) hour = 0;
+  if (hour > 24 || minute > 59) return null;
+  return hour * 60 + minute;
+};
+
+/**
+ * Google `weekdayDescriptions` (or legacy `weekday_text`), one line per day
+ */
+export const parseGoogleWeekdayDescriptions = (lines?: string[]): OpeningHours | null => {
+  if (!lines || lines.length === 0) return null;
+
+  const periods: OpeningPeriod[] = [];
+  let daysCovered = 0;
+
+  lines.forEach(rawLine => {
+    // Google uses thin/narrow no-break spaces and en dashes
+    const line = rawLine.replace(/[\u00a0\u2009\u202f]/g, ' ').replace(/[\u2013\u2014]/g, '-');
+    const [dayName, ...rest] = line.split(':');
+    const day = DAY_NAMES.findIndex(name => name.toLowerCase() === dayName.trim().toLowerCase());
+    const schedule = rest.join(':').trim();
+    if (day === -1 || !schedule) return;
+
+    daysCovered++;
+    if (/^closed$/i.test(schedule)) return;
+    if (/^open 24 hours$/i.test(schedule)) {
+      periods.push({ day, open: 0, close: DAY_MINUTES });
+      return;
+    }
+
+    schedule.split(',').forEach(range => {
+      const [start, end] = range.split('-');
+      if (!start || !end) return;
+      const closeMeridiem = end.match(/(AM|PM)\s*$/i)?.[1];
+      const close = parseClockTime(end);
+      let open = parseClockTime(start, closeMeridiem);
+      if (open === null || close === null) return;
+      // "11:30 - 2:30 PM" - an inherited PM can't make the opening later than the close
+      if (!/(AM|PM)/i.test(start) && closeMeridiem?.toUpperCase() === 'PM' && open > close) open -= 12 * 60;
+      periods.push(toPeriod(day, open, close));
+    });
+  });
+
+  return toHours(periods, daysCovered);
+};
+
+const parseOsmTime = (text: string): number | null => {
+  const match = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes <= DAY_MINUTES * 2 ? minutes : null; // OSM allows "26:00" for 2am
+};
+
+/**
+ * "Mo-Fr,Su" → [1, 2, 3, 4, 5, 0], null when the selector uses syntax we don't support
+ * (months, weeks, dates, sunrise...). Public holidays are ignored.
+ */
+const parseOsmDays = (selector: string): number[] | null => {
+  const days = new Set<number>();
+  for (const part of selector.split(',')) {
+    if (part === 'PH' || part === 'SH') continue;
+    const [from, to] = part.split('-');
+    const start = OSM_DAYS.indexOf(from);
+    const end = to === undefined ? start : OSM_DAYS.indexOf(to);
+    if (start === -1 || end === -1) return null;
+    // Ranges wrap around the week ("Fr-Mo")
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) break;
+    }
+  }
+  return Array.from(days);
+};
+
+/**
+ * OSM `opening_hours` - the common subset: weekday ranges, comma-separated
+ * time ranges, "off"/"closed" and "24/7". Later rules override earlier ones
+ * for the same days; rules with unsupported syntax are skipped.
+ */
+export const parseOsmOpeningHours = (spec?: string): OpeningHours | null => {
+  if (!spec) return null;
+  const text = spec.trim();
+  if (text === '24/7') return { periods: [], alwaysOpen: true };
+
+  const byDay = new Map<number, OpeningPeriod[]>();
+
+  text.split(';').map(rule => rule.trim()).filter(Boolean).forEach(rule => {
+    const match = rule.match(/^(?:([A-Za-z,\-]+)\s+)?(.+)$/);
+    if (!match) return;
+    const [, selector, schedule] = match;
+
+    // No selector ("10:00-22:00") means every day; a bare selector is invalid
+    const days = selector ? parseOsmDays(selector) : [0, 1, 2, 3, 4, 5, 6];
+    if (!days || days.length === 0) return;
+
+    if (/^(off|closed)$/i.test(schedule)) {
+      days.forEach(day => byDay.set(day, []));
+      return;
+    }
+
+    const ranges = schedule.split(',').map(range => range.trim().split('-'));
+    const times = ranges.map(([start, end]) => [parseOsmTime(start || ''), parseOsmTime(end || '')]);
+    if (times.some(([open, close]) => open === null || close === null)) return;
+
+    days.forEach(day => {
+      byDay.set(day, times.map(([open, close]) => toPeriod(day, open as number, close as number)));
+    });
+  });
+
+  return toHours(Array.from(byDay.values()).flat(), byDay.size);
+};
+
+const addMinutes = (date: Date, minutes: number): Date => new Date(date.getTime() + minutes * 60 * 1000);
+
+/**
+ * Open/closed at a point in time, with the next change
+ * Uses the weekly hours when known; otherwise the provider's live open_now flag,
+ * which only answers for the present
+ */
+export const getOpenStatus = (
+  place: Pick<Place, 'openingHours' | 'isOpen'>,
+  at: Date = new Date(),
+  now: number = Date.now()
+): OpenStatus => {
+  const hours = place.openingHours;
+
+  if (!hours || (hours.holiday && hours.holiday === toDateKey(at))) {
+    // Holiday hours may differ from the regular week - only the live flag is reliable
+    return Math.abs(at.getTime() - now) <= NOW_TOLERANCE_MS ? { isOpen: place.isOpen } : {};
+  }
+
+  if (hours.alwaysOpen) return { isOpen: true };
+
+  const minuteOfWeek = at.getDay() * DAY_MINUTES + at.getHours() * 60 + at.getMinutes();
+  let nextOpening = Infinity;
+
+  for (const period of hours.periods) {
+    const start = period.day * DAY_MINUTES + period.open;
+    const end = period.day * DAY_MINUTES + period.close;
+    // Saturday-night periods run into Sunday morning of the next week
+    for (const t of [minuteOfWeek, minuteOfWeek + WEEK_MINUTES]) {
+      if (t >= start && t < end) {
+        return { isOpen: true, closesAt: addMinutes(at, end - t) };
+      }
+    }
+    const untilOpen = (start - minuteOfWeek + WEEK_MINUTES) % WEEK_MINUTES;
+    if (untilOpen > 0) nextOpening = Math.min(nextOpening, untilOpen);
+  }
+
+  return {
+    isOpen: false,
+    opensAt: Number.isFinite(nextOpening) ? addMinutes(at, nextOpening) : undefined,
+  };
+};
+
+export const isOpenAt = (place: Pick<Place, 'openingHours' | 'isOpen'>, at: Date = new Date()): boolean | undefined =>
+  getOpenStatus(place, at).isOpen;
+
+/**
+ * "5pm", "5:30pm", "12am"
+ */
+export const formatTimeOfDay = (date: Date): string => {
+  const hour = date.getHours() % 12 || 12;
+  const minutes = date.getMinutes();
+  const suffix = date.getHours() < 12 ? 'am' : 'pm';
+  return minutes === 0 ? `${hour}${suffix}` : `${hour}:${String(minutes).padStart(2, '0')}${suffix}`;
+};
+
+/**
+ * "today", "tomorrow" or a short weekday name, relative to `from`
+ */
+export const formatDayLabel = (date: Date, from: Date = new Date()): string => {
+  if (toDateKey(date) === toDateKey(from)) return 'today';
+  if (toDateKey(date) === toDateKey(addMinutes(from, DAY_MINUTES))) return 'tomorrow';
+  return SHORT_DAY_NAMES[date.getDay()];
+};
+
+/**
+ * Short badge for cards: "Closing soon", "Opens at 5pm", "Opens Sat 9am"
+ * null when there's nothing worth flagging (open for a while, or unknown)
+ */
+export const getOpenBadge = (place: Pick<Place, 'openingHours' | 'isOpen'>, at: Date = new Date()): string | null => {
+  if (place.openingHours?.holiday === toDateKey(at)) return 'Holiday hours';
+
+  const status = getOpenStatus(place, at);
+  if (status.isOpen && status.closesAt) {
+    const minutesLeft = (status.closesAt.getTime() - at.getTime()) / 60000;
+    return minutesLeft <= CLOSING_SOON_MINUTES ? 'Closing soon' : null;
+  }
+  if (status.isOpen === false && status.opensAt) {
+    const day = formatDayLabel(status.opensAt, at);
+    const time = formatTimeOfDay(status.opensAt);
+    return day === 'today' ? `Opens at ${time}` : `Opens ${day} ${time}`;
+  }
+  return null;
+};
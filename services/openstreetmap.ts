@@ -1,19 +1,36 @@
 /**
  * OpenStreetMap Overpass API Service
  *
- * FREE unlimited API - Community-maintained POI data
- * Used as fallback when Foursquare doesn't find enough DO venues
+ * FREE unlimited API - Community-maintained POI data, no API key needed
+ * Covers every category: restaurants/cafes (EAT), bars/pubs (DRINK),
+ * activity venues and sights (EXPLORE). With no Foursquare or Google keys
+ * it is the only provider that runs (see services/providers).
  *
  * Attribution required: © OpenStreetMap contributors
  */
 
 import { PlaceCategory } from '../types';
+import { isAbortError } from './transport';
+import { runOverpassQuery } from './overpass';
 
-const OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
+const MAX_RESULTS = 300; // Per query - dense city centers have thousands of restaurants
+
+// Queries are planned around the center of the ~1.1km grid cell the search is in
+// (same cells as the search grid cache), so nearby searches share cached responses
+const CELL_PRECISION = 2; // 0.01°
+const CELL_MARGIN_METERS = 800; // Covers the shift from the search center to the cell center
+const MAX_AROUND_RADIUS_METERS = 6000; // Larger searches are split into bounding-box tiles
+const MAX_TILES_PER_SIDE = 3;
+const MAX_QUERY_WEIGHT = 30; // Tag values per query before the union is split
+const ANY_VALUE_WEIGHT = 10; // historic=* matches far more than a single value
+const METERS_PER_DEGREE = 111320;
+
+// Tag key → accepted values (empty = any value, e.g. historic=*)
+type OSMTagFilter = Record<string, string[]>;
 
 // OpenStreetMap tags for activity venues (DO category)
 // Focus on specific interactive activities, exclude theaters/arts/outdoor spots
-const DO_ACTIVITY_TAGS = {
+const DO_ACTIVITY_TAGS: OSMTagFilter = {
   // Entertainment & Activities
   leisure: [
     'amusement_arcade',     // Arcades
@@ -50,6 +67,19 @@ const DO_ACTIVITY_TAGS = {
   ],
 };
 
+const EAT_TAGS: OSMTagFilter = {
+  amenity: ['restaurant', 'cafe', 'fast_food', 'food_court', 'ice_cream'],
+};
+
+const DRINK_TAGS: OSMTagFilter = {
+  amenity: ['bar', 'pub', 'biergarten', 'cafe'],
+};
+
+const SIGHT_TAGS: OSMTagFilter = {
+  tourism: ['museum', 'attraction', 'viewpoint', 'gallery'],
+  historic: [],
+};
+
 export interface OSMPlace {
   type: string; // 'node' or 'way'
   id: number;
@@ -70,50 +100,119 @@ export interface OSMPlace {
     amenity?: string;
     shop?: string;
     tourism?: string;
+    historic?: string;
+    cuisine?: string; // Semicolon-separated ("italian;pizza")
+    'contact:phone'?: string;
+    'contact:website'?: string;
+    wikidata?: string; // "Q243"
+    brand?: string; // Chain name ("Starbucks")
     [key: string]: string | undefined;
   };
 }
 
-interface OSMResponse {
-  version: number;
-  generator: string;
-  elements: OSMPlace[];
-}
+const matchesFilter = (tags: OSMPlace['tags'], filter: OSMTagFilter): boolean =>
+  Object.entries(filter).some(([key, values]) =>
+    tags[key] !== undefined && (values.length === 0 || values.includes(tags[key] as string))
+  );
 
 /**
- * Build Overpass QL query for activity venues
+ * Activity venues (DO) - the only group that needs a street address
  */
-function buildOverpassQuery(
-  latitude: number,
-  longitude: number,
-  radiusMeters: number
-): string {
-  // Build the query parts for each tag category
-  // Search both nodes (points) and ways (areas/buildings) since venues can be either
-  const queryParts: string[] = [];
+const isActivityVenue = (tags: OSMPlace['tags']): boolean => matchesFilter(tags, DO_ACTIVITY_TAGS);
 
-  // Add leisure tags (nodes + ways)
-  DO_ACTIVITY_TAGS.leisure.forEach(value => {
-    queryParts.push(`node["leisure"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
-    queryParts.push(`way["leisure"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
+/**
+ * Union of the tag filters for the requested categories (empty = all)
+ */
+const getTagFilter = (categories: PlaceCategory[]): OSMTagFilter => {
+  const requested = categories.length > 0
+    ? categories
+    : [PlaceCategory.EAT, PlaceCategory.DRINK, PlaceCategory.EXPLORE];
+
+  const filters: OSMTagFilter[] = requested.flatMap(category => {
+    if (category === PlaceCategory.EAT) return [EAT_TAGS];
+    if (category === PlaceCategory.DRINK) return [DRINK_TAGS];
+    if (category === PlaceCategory.EXPLORE) return [DO_ACTIVITY_TAGS, SIGHT_TAGS];
+    return [];
   });
 
-  // Add sport tags (nodes + ways)
-  DO_ACTIVITY_TAGS.sport.forEach(value => {
-    queryParts.push(`node["sport"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
-    queryParts.push(`way["sport"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
+  const merged: OSMTagFilter = {};
+  filters.forEach(filter => {
+    Object.entries(filter).forEach(([key, values]) => {
+      const existing = merged[key];
+      // Any-value wins over a value list
+      merged[key] = existing?.length === 0 || values.length === 0
+        ? []
+        : Array.from(new Set([...(existing || []), ...values]));
+    });
   });
+  return merged;
+};
 
-  // Add amenity tags (nodes + ways)
-  DO_ACTIVITY_TAGS.amenity.forEach(value => {
-    queryParts.push(`node["amenity"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
-    queryParts.push(`way["amenity"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
+/**
+ * Split a large tag union into smaller filters (greedy, in key order)
+ * A single key over the limit stays on its own
+ */
+const splitTagFilter = (filter: OSMTagFilter): OSMTagFilter[] => {
+  const groups: OSMTagFilter[] = [];
+  let current: OSMTagFilter = {};
+  let weight = 0;
+
+  Object.entries(filter).forEach(([key, values]) => {
+    const keyWeight = values.length === 0 ? ANY_VALUE_WEIGHT : values.length;
+    if (weight > 0 && weight + keyWeight > MAX_QUERY_WEIGHT) {
+      groups.push(current);
+      current = {};
+      weight = 0;
+    }
+    current[key] = values;
+    weight += keyWeight;
   });
 
-  // Add shop tags (nodes + ways)
-  DO_ACTIVITY_TAGS.shop.forEach(value => {
-    queryParts.push(`node["shop"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
-    queryParts.push(`way["shop"="${value}"](around:${radiusMeters},${latitude},${longitude});`);
+  if (weight > 0) groups.push(current);
+  return groups;
+};
+
+/**
+ * Overpass area clauses covering a circle
+ * Small radii use one around() query; larger ones a grid of bounding boxes
+ */
+const getQueryAreas = (latitude: number, longitude: number, radiusMeters: number): string[] => {
+  if (radiusMeters <= MAX_AROUND_RADIUS_METERS) {
+    return [`(around:${radiusMeters},${latitude},${longitude})`];
+  }
+
+  const tilesPerSide = Math.min(MAX_TILES_PER_SIDE, Math.ceil(radiusMeters / MAX_AROUND_RADIUS_METERS));
+  const latSpan = radiusMeters / METERS_PER_DEGREE;
+  const lonSpan = radiusMeters / (METERS_PER_DEGREE * Math.cos(latitude * Math.PI / 180));
+  const south = latitude - latSpan;
+  const west = longitude - lonSpan;
+  const tileLat = (2 * latSpan) / tilesPerSide;
+  const tileLon = (2 * lonSpan) / tilesPerSide;
+  const round = (value: number) => value.toFixed(5);
+
+  const areas: string[] = [];
+  for (let row = 0; row < tilesPerSide; row++) {
+    for (let col = 0; col < tilesPerSide; col++) {
+      const s = south + row * tileLat;
+      const w = west + col * tileLon;
+      areas.push(`(${round(s)},${round(w)},${round(s + tileLat)},${round(w + tileLon)})`);
+    }
+  }
+  return areas;
+};
+
+/**
+ * Build Overpass QL query for the tag filter in one area
+ * One regex selector per tag key keeps the union small
+ */
+function buildOverpassQuery(area: string, filter: OSMTagFilter): string {
+  // Search both nodes (points) and ways (areas/buildings) since venues can be either
+  const queryParts: string[] = [];
+
+  Object.entries(filter).forEach(([key, values]) => {
+    const selector = values.length === 0 ? `["${key}"]` : `["${key}"~"^(${values.join('|')})$"]`;
+    queryParts.push(`node${selector}["name"]${area};`);
+    queryParts.push(`way${selector}["name"]${area};`);
   });
 
   // Combine all parts into Overpass QL syntax
@@ -122,67 +221,111 @@ function buildOverpassQuery(
     (
       ${queryParts.join('\n      ')}
     );
-    out body center;
+    out body center ${MAX_RESULTS};
   `;
 
   return query;
 }
 
 /**
- * Search for activity venues near a location using OSM Overpass API
+ * Category for an OSM element
+ * Cafes count as DRINK (like Foursquare coffee shops) unless only EAT was requested
+ */
+export function getOSMPlaceCategory(place: OSMPlace, requested: PlaceCategory[] = []): PlaceCategory {
+  const { tags } = place;
+  if (tags.amenity === 'cafe') {
+    return requested.includes(PlaceCategory.EAT) && !requested.includes(PlaceCategory.DRINK)
+      ? PlaceCategory.EAT
+      : PlaceCategory.DRINK;
+  }
+  if (matchesFilter(tags, EAT_TAGS)) return PlaceCategory.EAT;
+  if (matchesFilter(tags, DRINK_TAGS)) return PlaceCategory.DRINK;
+  if (isActivityVenue(tags) || matchesFilter(tags, SIGHT_TAGS)) return PlaceCategory.EXPLORE;
+  return PlaceCategory.UNKNOWN;
+}
+
+/**
+ * Search for places near a location using OSM Overpass API
  */
-export async function searchOSMActivities(
+export async function searchOSMPlaces(
   latitude: number,
   longitude: number,
-  radiusMeters: number = 8000 // 5 miles default for DO
+  radiusMeters: number = 8000, // 5 miles default
+  categories: PlaceCategory[] = [],
+  signal?: AbortSignal
 ): Promise<OSMPlace[]> {
   try {
-    const query = buildOverpassQuery(latitude, longitude, radiusMeters);
-
-    console.log(`🗺️ OSM Overpass: Searching ${(radiusMeters/1000).toFixed(1)}km radius for activities`);
+    const categoryNames = categories.length > 0 ? categories.join(', ') : 'all categories';
+    console.log(`🗺️ OSM Overpass: Searching ${(radiusMeters/1000).toFixed(1)}km radius for ${categoryNames}`);
+
+    // Snap to the grid cell center; the margin keeps the whole search circle covered
+    const cellLat = Number(latitude.toFixed(CELL_PRECISION));
+    const cellLng = Number(longitude.toFixed(CELL_PRECISION));
+    const queryRadius = Math.ceil((radiusMeters + CELL_MARGIN_METERS) / 100) * 100;
+    const areas = getQueryAreas(cellLat, cellLng, queryRadius);
+    const filters = splitTagFilter(getTagFilter(categories));
+    const cellKey = `${cellLat},${cellLng}:${[...categories].sort().join(',') || 'ALL'}:${queryRadius}m`;
+
+    if (areas.length * filters.length > 1) {
+      console.log(`🧩 OSM query split into ${areas.length} area(s) × ${filters.length} tag group(s)`);
+    }
 
-    const response = await fetch(OVERPASS_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `data=${encodeURIComponent(query)}`,
-    });
+    // Sequential - public instances allow only a couple of concurrent queries per client
+    const elements = new Map<string, OSMPlace>();
+    let failedQueries = 0;
+    for (let a = 0; a < areas.length; a++) {
+      for (let f = 0; f < filters.length; f++) {
+        const result = await runOverpassQuery<OSMPlace>(buildOverpassQuery(areas[a], filters[f]), {
+          cacheKey: `${cellKey}:a${a}:g${f}`,
+          signal,
+        });
+        if (!result) {
+          failedQueries++;
+          continue;
+        }
+        result.forEach(el => elements.set(`${el.type}/${el.id}`, el));
+      }
+    }
 
-    if (!response.ok) {
-      console.error(`❌ OSM Overpass API error: ${response.status}`);
+    const totalQueries = areas.length * filters.length;
+    if (failedQueries === totalQueries) {
+      console.error('❌ OSM Overpass: every query failed');
       return [];
     }
+    if (failedQueries > 0) {
+      console.warn(`⚠️ OSM Overpass: ${failedQueries}/${totalQueries} queries failed, returning partial results`);
+    }
 
-    const data: OSMResponse = await response.json();
-
-    // Filter: must have name AND a STREET address
+    // Filter: must have a name; activity venues also need a STREET address
     // This excludes outdoor spots (crags, trails) which only have city tags
     // Accept both nodes (points) and ways (buildings/areas)
-    const places = data.elements.filter((el): el is OSMPlace => {
+    const places = Array.from(elements.values()).filter((el): el is OSMPlace => {
       if (!el.tags?.name) return false;
       if (el.type !== 'node' && el.type !== 'way') return false;
 
-      // MUST have a street address (real businesses always have street addresses)
-      // Outdoor spots (crags, parks) often only have city tags, not streets
-      const hasStreet = !!el.tags['addr:street'];
+      // Queries cover a padded area - keep only the requested circle
+      const lat = el.lat ?? el.center?.lat;
+      const lon = el.lon ?? el.center?.lon;
+      if (lat === undefined || lon === undefined) return false;
+      if (calculateDistance(latitude, longitude, lat, lon) > radiusMeters) return false;
 
-      return hasStreet;
+      // Sights and restaurants are often mapped without addresses - only activity venues need one
+      return !isActivityVenue(el.tags) || !!el.tags['addr:street'];
     });
 
-    console.log(`✅ OSM found ${places.length} activity venues (nodes + ways, filtered for addresses)`);
+    console.log(`✅ OSM found ${places.length} venues (nodes + ways)`);
 
     // Debug: Log sample venues
     if (places.length > 0) {
       console.log('🗺️ Sample OSM venues:');
       places.slice(0, 3).forEach(p => {
-        const type = p.tags.leisure || p.tags.sport || p.tags.amenity || p.tags.shop || 'attraction';
-        console.log(`  - ${p.tags.name}: ${type}`);
+        console.log(`  - ${p.tags.name}: ${getOSMCategoryDescription(p)}`);
       });
     }
 
     return places;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('❌ OSM Overpass search error:', error);
     return [];
   }
@@ -243,12 +386,47 @@ export function buildMapsLinkFromOSM(place: OSMPlace): string {
   return `https://www.google.com/maps/search/?api=1&query=${lat},${lon}&query_place_id=${encodeURIComponent(tags.name || '')}`;
 }
 
+const toTitleCase = (value: string): string =>
+  value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+/**
+ * Cuisines from the semicolon-separated cuisine tag ("italian;pizza" → ['italian', 'pizza'])
+ */
+export function getOSMCuisines(place: OSMPlace): string[] {
+  return (place.tags.cuisine || '')
+    .split(';')
+    .map(cuisine => cuisine.trim().toLowerCase())
+    .filter(Boolean);
+}
+
 /**
  * Get category description from OSM tags
  */
 export function getOSMCategoryDescription(place: OSMPlace): string {
   const { tags } = place;
 
+  // Food & drink
+  if (tags.amenity === 'restaurant') {
+    const cuisine = getOSMCuisines(place)[0];
+    return cuisine ? `${toTitleCase(cuisine)} Restaurant` : 'Restaurant';
+  }
+  if (tags.amenity === 'fast_food') return 'Fast Food';
+  if (tags.amenity === 'food_court') return 'Food Court';
+  if (tags.amenity === 'ice_cream') return 'Ice Cream';
+  if (tags.amenity === 'cafe') return 'Cafe';
+  if (tags.amenity === 'bar') return 'Bar';
+  if (tags.amenity === 'pub') return 'Pub';
+  if (tags.amenity === 'biergarten') return 'Beer Garden';
+
+  // Sights
+  if (tags.tourism === 'museum') return 'Museum';
+  if (tags.tourism === 'gallery') return 'Art Gallery';
+  if (tags.tourism === 'viewpoint') return 'Viewpoint';
+  if (tags.tourism === 'attraction') return 'Attraction';
+  if (tags.historic) {
+    return tags.historic === 'yes' ? 'Historic Site' : toTitleCase(tags.historic);
+  }
+
   // Leisure activities
   if (tags.leisure === 'amusement_arcade') return 'Arcade';
   if (tags.leisure === 'bowling_alley') return 'Bowling Alley';
@@ -0,0 +1,257 @@
+/**
+ * Overpass API Client
+ *
+ * Runs Overpass QL queries against a list of public mirrors. Each mirror's
+ * health is tracked in memory: one that errors, rate-limits (429) or times out
+ * (504) cools down with exponential backoff and the next mirror takes the query.
+ * Responses are cached under the caller's key (openstreetmap.ts keys them by grid cell),
+ * so repeat searches in the same area skip the network.
+ *
+ * Attribution required: © OpenStreetMap contributors
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readStore, VersionedStore, writeStore } from './migrations';
+import { createAbortError, httpFetch, isAbortError, throwIfAborted } from './transport';
+
+// Tried in order while healthy - the main instance first, community mirrors after
+export const OVERPASS_MIRRORS = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://overpass.private.coffee/api/interpreter',
+];
+
+const OVERPASS_CACHE_KEY = '@vibecheck:overpass_cache';
+const CACHE_TTL_HOURS = 24;
+const MAX_CACHE_ENTRIES = 30; // Responses can be large - keep the most recent
+
+const BASE_COOLDOWN_MS = 30 * 1000; // Doubles with each consecutive failure
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+const RETRY_DELAY_MS = 1000; // Wait before the next mirror after a 429/504, doubles each attempt
+
+export interface MirrorHealth {
+  url: string;
+  failures: number; // Consecutive failures
+  cooldownUntil: number; // Skipped (tried last) until this time
+}
+
+interface OverpassCacheEntry {
+  elements: unknown[];
+  timestamp: number;
+}
+
+interface OverpassCache {
+  [cacheKey: string]: OverpassCacheEntry;
+}
+
+const OVERPASS_CACHE_STORE: VersionedStore<OverpassCache> = { key: OVERPASS_CACHE_KEY, version: 1 };
+
+type AttemptResult =
+  | { ok: true; elements: unknown[] }
+  | { ok: false; retryable: boolean; backoff: boolean; retryAfterMs?: number; reason: string };
+
+const mirrorHealth = new Map<string, MirrorHealth>();
+
+const getHealth = (url: string): MirrorHealth =>
+  mirrorHealth.get(url) || { url, failures: 0, cooldownUntil: 0 };
+
+/**
+ * Mirrors in the order to try them: healthy ones first (fewest recent failures),
+ * then cooling-down ones by soonest recovery - they are still tried as a last resort
+ */
+export const getMirrorOrder = (now: number = Date.now()): string[] =>
+  [...OVERPASS_MIRRORS].sort((a, b) => {
+    const healthA = getHealth(a);
+    const healthB = getHealth(b);
+    const coolingA = healthA.cooldownUntil > now;
+    const coolingB = healthB.cooldownUntil > now;
+    if (coolingA !== coolingB) return coolingA ? 1 : -1;
+    if (coolingA) return healthA.cooldownUntil - healthB.cooldownUntil;
+    return healthA.failures - healthB.failures;
+  });
+
+export const getOverpassMirrorHealth = (): MirrorHealth[] => OVERPASS_MIRRORS.map(getHealth);
+
+export const resetOverpassMirrorHealth = (): void => {
+  mirrorHealth.clear();
+};
+
+const markFailure = (url: string, retryAfterMs?: number): void => {
+  const failures = getHealth(url).failures + 1;
+  const cooldown = retryAfterMs ?? Math.min(BASE_COOLDOWN_MS * Math.pow(2, failures - 1), MAX_COOLDOWN_MS);
+  mirrorHealth.set(url, { url, failures, cooldownUntil: Date.now() + cooldown });
+};
+
+const markSuccess = (url: string): void => {
+  mirrorHealth.set(url, { url, failures: 0, cooldownUntil: 0 });
+};
+
+// Retry-After is in seconds (HTTP dates are rare from Overpass - ignored)
+const parseRetryAfter = (value: string | null): number | undefined => {
+  const seconds = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Send a query to one mirror
+ */
+const queryMirror = async (url: string, query: string, signal?: AbortSignal): Promise<AttemptResult> => {
+  let response: Response;
+  try {
+    response = await httpFetch('overpass', url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: `data=${encodeURIComponent(query)}`,
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return { ok: false, retryable: true, backoff: false, reason: `network error (${error})` };
+  }
+
+  if (response.status === 429) {
+    return {
+      ok: false,
+      retryable: true,
+      backoff: true,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      reason: 'rate limited (429)',
+    };
+  }
+  if (response.status === 504) {
+    return { ok: false, retryable: true, backoff: true, reason: 'gateway timeout (504)' };
+  }
+  if (response.status >= 500) {
+    return { ok: false, retryable: true, backoff: false, reason: `server error (${response.status})` };
+  }
+  if (!response.ok) {
+    // 400 = bad query - every mirror would reject it
+    return { ok: false, retryable: false, backoff: false, reason: `HTTP ${response.status}` };
+  }
+
+  try {
+    const data = await response.json();
+    // A busy server can answer 200 with a runtime error and partial (or no) data
+    if (typeof data.remark === 'string' && data.remark.includes('runtime error')) {
+      return { ok: false, retryable: true, backoff: true, reason: data.remark };
+    }
+    return { ok: true, elements: Array.isArray(data.elements) ? data.elements : [] };
+  } catch (error) {
+    return { ok: false, retryable: true, backoff: false, reason: `invalid response (${error})` };
+  }
+};
+
+/**
+ * Get cached elements for a key
+ * Returns null if not cached or expired (>24 hours)
+ */
+const getCachedElements = async <T,>(cacheKey: string): Promise<T[] | null> => {
+  try {
+    const cache = await readStore(OVERPASS_CACHE_STORE);
+    if (!cache) return null;
+
+    const entry = cache[cacheKey];
+    if (!entry) return null;
+
+    const ageInHours = (Date.now() - entry.timestamp) / (1000 * 60 * 60);
+    if (ageInHours > CACHE_TTL_HOURS) return null;
+
+    console.log(`💾 Overpass cache HIT: ${cacheKey} (${ageInHours.toFixed(1)}h old)`);
+    return entry.elements as T[];
+  } catch (error) {
+    console.error('Error loading Overpass cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Save elements to the cache, dropping expired and the oldest entries
+ */
+const saveCachedElements = async (cacheKey: string, elements: unknown[]): Promise<void> => {
+  try {
+    const cache = (await readStore(OVERPASS_CACHE_STORE)) || {};
+    const now = Date.now();
+
+    cache[cacheKey] = { elements, timestamp: now };
+
+    const fresh = Object.entries(cache)
+      .filter(([, entry]) => (now - entry.timestamp) / (1000 * 60 * 60) <= CACHE_TTL_HOURS)
+      .sort(([, a], [, b]) => b.timestamp - a.timestamp)
+      .slice(0, MAX_CACHE_ENTRIES);
+
+    await writeStore(OVERPASS_CACHE_STORE, Object.fromEntries(fresh));
+  } catch (error) {
+    console.error('Error saving Overpass cache:', error);
+  }
+};
+
+/**
+ * Clear all cached Overpass responses
+ */
+export const clearOverpassCache = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(OVERPASS_CACHE_KEY);
+    console.log('🗑️ Cleared Overpass cache');
+  } catch (error) {
+    console.error('Error clearing Overpass cache:', error);
+  }
+};
+
+/**
+ * Run an Overpass QL query, failing over between mirrors
+ * Returns the response elements, or null when every mirror failed
+ */
+export const runOverpassQuery = async <T,>(
+  query: string,
+  options: { cacheKey?: string; signal?: AbortSignal } = {}
+): Promise<T[] | null> => {
+  const { cacheKey, signal } = options;
+
+  if (cacheKey) {
+    const cached = await getCachedElements<T>(cacheKey);
+    if (cached) return cached;
+  }
+
+  const mirrors = getMirrorOrder();
+  for (let attempt = 0; attempt < mirrors.length; attempt++) {
+    throwIfAborted(signal);
+    const url = mirrors[attempt];
+    const result = await queryMirror(url, query, signal);
+
+    if (result.ok) {
+      markSuccess(url);
+      if (cacheKey) await saveCachedElements(cacheKey, result.elements);
+      return result.elements as T[];
+    }
+
+    console.warn(`⚠️ Overpass mirror ${url.split('/')[2]} failed: ${result.reason}`);
+    if (!result.retryable) return null;
+
+    markFailure(url, result.retryAfterMs);
+    if (result.backoff && attempt < mirrors.length - 1) {
+      await wait(RETRY_DELAY_MS * Math.pow(2, attempt), signal);
+    }
+  }
+
+  console.error('❌ All Overpass mirrors failed');
+  return null;
+};
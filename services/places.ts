@@ -1,5 +1,6 @@
 import Constants from 'expo-constants';
 import { getCachedPlaceDetails, savePlaceDetailsToCache } from './storage';
+import { httpFetch, isAbortError } from './transport';
 
 // New Places API endpoint
 const PLACES_API_BASE = 'https://places.googleapis.com/v1';
@@ -49,7 +50,8 @@ const fetchWithRetry = async <T,>(fetchFn: () => Promise<T>, maxRetries: number
       const result = await fetchFn();
       return result;
     } catch (error) {
-      if (attempt === maxRetries) {
+      // Cancelled searches are not retried
+      if (attempt === maxRetries || isAbortError(error)) {
         throw error;
       }
       // Exponential backoff: 500ms, 1000ms, 2000ms
@@ -71,7 +73,7 @@ export const checkBusinessStatus = async (placeName: string, latitude: number, l
 
   try {
     const url = `${PLACES_API_BASE}/places:searchText`;
-    const response = await fetch(url, {
+    const response = await httpFetch('google-places', url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -113,14 +115,20 @@ export const checkBusinessStatus = async (placeName: string, latitude: number, l
 /**
  * Search for a place by name using New Places API Text Search
  */
-export const searchPlaceByName = async (name: string, latitude: number, longitude: number, radiusMeters: number = 10000): Promise<any | null> => {
+export const searchPlaceByName = async (
+  name: string,
+  latitude: number,
+  longitude: number,
+  radiusMeters: number = 10000,
+  signal?: AbortSignal
+): Promise<any | null> => {
   const apiKey = Constants.expoConfig?.extra?.GEMINI_API_KEY;
   if (!apiKey) return null;
 
   try {
     return await fetchWithRetry(async () => {
       const url = `${PLACES_API_BASE}/places:searchText`;
-      const response = await fetch(url, {
+      const response = await httpFetch('google-places', url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -138,7 +146,8 @@ export const searchPlaceByName = async (name: string, latitude: number, longitud
               radius: radiusMeters
             }
           }
-        })
+        }),
+        signal,
       });
 
       if (!response.ok) {
@@ -154,6 +163,7 @@ export const searchPlaceByName = async (name: string, latitude: number, longitud
       return null;
     });
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Places API Error after retries:', error);
     return null;
   }
@@ -171,13 +181,19 @@ export const getPlacePhotoUrl = (photoName: string, maxWidth: number = 800): str
  * Get comprehensive place details using New Places API
  * Returns all available information for a place including reviews, photos, hours, contact info
  */
-export const getPlaceFullDetails = async (name: string, latitude: number, longitude: number, radiusMeters: number = 10000): Promise<any | null> => {
+export const getPlaceFullDetails = async (
+  name: string,
+  latitude: number,
+  longitude: number,
+  radiusMeters: number = 10000,
+  signal?: AbortSignal
+): Promise<any | null> => {
   const apiKey = Constants.expoConfig?.extra?.GEMINI_API_KEY;
   if (!apiKey) return null;
 
   try {
     // First, find the place to get its ID
-    const searchResult = await searchPlaceByName(name, latitude, longitude, radiusMeters);
+    const searchResult = await searchPlaceByName(name, latitude, longitude, radiusMeters, signal);
     if (!searchResult || !searchResult.id) {
       return null;
     }
@@ -214,12 +230,13 @@ export const getPlaceFullDetails = async (name: string, latitude: number, longit
         'internationalPhoneNumber'
       ].join(',');
 
-      const response = await fetch(url, {
+      const response = await httpFetch('google-places', url, {
         method: 'GET',
         headers: {
           'X-Goog-Api-Key': apiKey,
           'X-Goog-FieldMask': fieldMask
-        }
+        },
+        signal,
       });
 
       if (!response.ok) {
@@ -274,6 +291,7 @@ export const getPlaceFullDetails = async (name: string, latitude: number, longit
 
     return result;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Place Full Details API Error after retries:', error);
     return null;
   }
@@ -284,7 +302,7 @@ export const getPlaceFullDetails = async (name: string, latitude: number, longit
  * Skips the searchPlaceByName step for cost optimization
  * Uses 24-hour cache to avoid repeated API calls
  */
-export const getPlaceDetailsByIdDirect = async (placeId: string): Promise<any | null> => {
+export const getPlaceDetailsByIdDirect = async (placeId: string, signal?: AbortSignal): Promise<any | null> => {
   const apiKey = Constants.expoConfig?.extra?.GEMINI_API_KEY;
   if (!apiKey) return null;
 
@@ -320,12 +338,13 @@ export const getPlaceDetailsByIdDirect = async (placeId: string): Promise<any |
         'internationalPhoneNumber'
       ].join(',');
 
-      const response = await fetch(url, {
+      const response = await httpFetch('google-places', url, {
         method: 'GET',
         headers: {
           'X-Goog-Api-Key': apiKey,
           'X-Goog-FieldMask': fieldMask
-        }
+        },
+        signal,
       });
 
       if (!response.ok) {
@@ -380,6 +399,7 @@ export const getPlaceDetailsByIdDirect = async (placeId: string): Promise<any |
 
     return result;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Place Details by ID API Error after retries:', error);
     return null;
   }
@@ -424,6 +444,44 @@ export const getPlacePhotos = async (name: string, latitude: number, longitude:
   }
 };
 
+export type GoogleCategory = 'EAT' | 'DRINK' | 'SIGHT' | 'DO';
+
+/**
+ * Category from Google place types - food takes priority over bars
+ */
+export const detectGoogleCategory = (types: string[]): GoogleCategory => {
+  const isFoodPlace = types.some((t: string) =>
+    t.includes('restaurant') || t.includes('cafe') || t.includes('bakery') ||
+    t.includes('meal') || t.includes('food'));
+
+  const isDrinkPlace = types.some((t: string) =>
+    t.includes('bar') || t.includes('night_club') || t.includes('liquor_store'));
+
+  const isSight = types.some((t: string) =>
+    t.includes('museum') || t.includes('art_gallery') || t.includes('landmark') ||
+    t.includes('place_of_worship') || t.includes('park') ||
+    (t.includes('tourist_attraction') && !t.includes('cafe') && !t.includes('restaurant')));
+
+  const isDo = types.some((t: string) =>
+    t.includes('amusement') || t.includes('aquarium') || t.includes('bowling') ||
+    t.includes('casino') || t.includes('movie') || t.includes('spa') || t.includes('gym') ||
+    t.includes('shopping') || t.includes('store'));
+
+  // Priority: If it serves food (restaurant/cafe), it's EAT even if it has a bar
+  // Only pure bars/nightclubs without food service are DRINK
+  let category: GoogleCategory = 'EAT'; // Default
+  if (isFoodPlace) {
+    category = 'EAT';
+  } else if (isDrinkPlace) {
+    category = 'DRINK';
+  } else if (isSight) {
+    category = 'SIGHT';
+  } else if (isDo) {
+    category = 'DO';
+  }
+  return category;
+};
+
 /**
  * Search for highly-rated places using Google Places API Text Search
  * Uses relevance ranking to prioritize top-rated local favorites
@@ -449,7 +507,8 @@ export const getNearbyPlaces = async (
   latitude: number,
   longitude: number,
   radiusMeters: number = 5000,
-  categories?: string[]
+  categories?: string[],
+  signal?: AbortSignal
 ): Promise<any[]> => {
   const apiKey = Constants.expoConfig?.extra?.GEMINI_API_KEY;
   if (!apiKey) return [];
@@ -474,14 +533,15 @@ export const getNearbyPlaces = async (
         maxResultCount: 20 // Max allowed by API
       };
 
-      const response = await fetch(url, {
+      const response = await httpFetch('google-places', url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'X-Goog-Api-Key': apiKey,
           'X-Goog-FieldMask': 'places.id,places.displayName,places.formattedAddress,places.rating,places.userRatingCount,places.types,places.businessStatus'
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal,
       });
 
       if (!response.ok) {
@@ -492,42 +552,10 @@ export const getNearbyPlaces = async (
       const places = data.places || [];
 
       // Assign categories to each place based on their types
-      const placesWithCategories = places.map((place: any) => {
-        const types = place.types || [];
-
-        // Determine category from types - FOOD takes priority over bars
-        const isFoodPlace = types.some((t: string) =>
-          t.includes('restaurant') || t.includes('cafe') || t.includes('bakery') ||
-          t.includes('meal') || t.includes('food'));
-
-        const isDrinkPlace = types.some((t: string) =>
-          t.includes('bar') || t.includes('night_club') || t.includes('liquor_store'));
-
-        const isSight = types.some((t: string) =>
-          t.includes('museum') || t.includes('art_gallery') || t.includes('landmark') ||
-          t.includes('place_of_worship') || t.includes('park') ||
-          (t.includes('tourist_attraction') && !t.includes('cafe') && !t.includes('restaurant')));
-
-        const isDo = types.some((t: string) =>
-          t.includes('amusement') || t.includes('aquarium') || t.includes('bowling') ||
-          t.includes('casino') || t.includes('movie') || t.includes('spa') || t.includes('gym') ||
-          t.includes('shopping') || t.includes('store'));
-
-        // Priority: If it serves food (restaurant/cafe), it's EAT even if it has a bar
-        // Only pure bars/nightclubs without food service are DRINK
-        let category = 'EAT'; // Default
-        if (isFoodPlace) {
-          category = 'EAT';
-        } else if (isDrinkPlace) {
-          category = 'DRINK';
-        } else if (isSight) {
-          category = 'SIGHT';
-        } else if (isDo) {
-          category = 'DO';
-        }
-
-        return { ...place, detectedCategory: category };
-      });
+      const placesWithCategories = places.map((place: any) => ({
+        ...place,
+        detectedCategory: detectGoogleCategory(place.types || []),
+      }));
 
       // Filter for highly-rated places (3.5+ stars to catch more local favorites)
       const filteredPlaces = placesWithCategories.filter((place: any) => {
@@ -560,6 +588,7 @@ export const getNearbyPlaces = async (
       return filteredPlaces;
     }) || [];
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Nearby Places API Error after retries:', error);
     return [];
   }
@@ -599,7 +628,7 @@ export const getPlaceDetails = async (placeId: string): Promise<any | null> => {
   try {
     return await fetchWithRetry(async () => {
       const url = `${PLACES_API_BASE}/places/${placeId}`;
-      const response = await fetch(url, {
+      const response = await httpFetch('google-places', url, {
         method: 'GET',
         headers: {
           'X-Goog-Api-Key': apiKey,
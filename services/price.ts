@@ -0,0 +1,42 @@
+/**
+ * Price Levels
+ *
+ * Providers use different price scales - Foursquare returns 1-4, Google's
+ * Places API returns PRICE_LEVEL_* enums (legacy responses 0-4). Everything
+ * is normalized to PriceLevel 1 ($) - 4 ($$$$) at mapping time.
+ */
+
+import { Place, PriceLevel } from '../types';
+import { PriceRange } from './queryIntent';
+
+const GOOGLE_PRICE_LEVELS: Record<string, PriceLevel> = {
+  PRICE_LEVEL_FREE: 1,
+  PRICE_LEVEL_INEXPENSIVE: 1,
+  PRICE_LEVEL_MODERATE: 2,
+  PRICE_LEVEL_EXPENSIVE: 3,
+  PRICE_LEVEL_VERY_EXPENSIVE: 4,
+};
+
+const clampLevel = (value: number): PriceLevel | undefined =>
+  Number.isFinite(value) ? (Math.min(4, Math.max(1, Math.round(value))) as PriceLevel) : undefined;
+
+export const fromFoursquarePrice = (price?: number): PriceLevel | undefined =>
+  price === undefined || price === null ? undefined : clampLevel(price);
+
+/**
+ * Google price level - enum string (new API) or 0-4 number (legacy, 0 = free)
+ */
+export const fromGooglePriceLevel = (level?: string | number): PriceLevel | undefined => {
+  if (level === undefined || level === null) return undefined;
+  if (typeof level === 'number') return clampLevel(level);
+  return GOOGLE_PRICE_LEVELS[level]; // PRICE_LEVEL_UNSPECIFIED → unknown
+};
+
+export const formatPriceLevel = (level: PriceLevel): string => '$'.repeat(level);
+
+/**
+ * Budget filter check - places without a known price pass
+ * (parks and landmarks rarely have one, and dropping them would empty EXPLORE searches)
+ */
+export const matchesPriceRange = (place: Place, range: PriceRange | null): boolean =>
+  !range || place.priceLevel === undefined || (place.priceLevel >= range.min && place.priceLevel <= range.max);
@@ -0,0 +1,141 @@
+/**
+ * Foursquare Place Provider
+ *
+ * Primary source when EXPO_PUBLIC_FOURSQUARE_API_KEY is set (FREE up to 10K calls/month).
+ * Photos come free with search results, so no extra photo calls are needed.
+ */
+
+import { Place, PlaceCategory } from '../../types';
+import {
+  searchFoursquarePlaces,
+  getFoursquarePlaceDetails,
+  getFoursquarePhotos,
+  mapFoursquareCategory,
+  formatFoursquareRating,
+  buildMapsLink,
+  getFoursquareCoordinates,
+  FoursquarePlace
+} from '../foursquare';
+import { isVenueAllowed, VenueFacts } from '../venueRules';
+import { getPopularityScore } from '../ranking';
+import { fromFoursquarePrice } from '../price';
+import { parseFoursquareHours } from '../openingHours';
+import { PlaceProvider, ProviderSearchParams } from './types';
+
+const toVenueFacts = (place: FoursquarePlace): VenueFacts => ({
+  name: place.name,
+  source: 'foursquare',
+  foursquareCategoryIds: place.categories?.map(c => c.fsq_category_id) || [],
+  foursquarePrimaryCategoryId: place.categories?.[0]?.fsq_category_id,
+  foursquarePrimaryCategory: place.categories?.[0]?.name,
+  chains: place.chains?.map(chain => chain.name) || [],
+});
+
+// Foursquare rates 0-10, rescale to 0-5
+const getPopularity = (place: FoursquarePlace): number =>
+  getPopularityScore((place.rating || 0) / 2, place.stats?.total_ratings);
+
+/**
+ * Convert a Foursquare place to our Place format
+ * Returns null for UNKNOWN categories (non-hospitality) and places without coordinates
+ */
+export const mapFoursquarePlace = (fsqPlace: FoursquarePlace): Place | null => {
+  const category = mapFoursquareCategory(fsqPlace.categories);
+  if (category === PlaceCategory.UNKNOWN) {
+    console.log(`🚫 Skipping UNKNOWN category: ${fsqPlace.name}`);
+    return null;
+  }
+
+  const location = getFoursquareCoordinates(fsqPlace);
+  if (!location) {
+    console.log(`📍 Skipping place without coordinates: ${fsqPlace.name}`);
+    return null;
+  }
+
+  return {
+    id: fsqPlace.fsq_place_id, // New API uses fsq_place_id
+    name: fsqPlace.name,
+    description: fsqPlace.categories?.[0]?.name || 'Local spot',
+    category,
+    rating: formatFoursquareRating(fsqPlace.rating, fsqPlace.stats?.total_ratings),
+    reviewCount: fsqPlace.stats?.total_ratings,
+    priceLevel: fromFoursquarePrice(fsqPlace.price),
+    tags: fsqPlace.categories?.map(c => c.name) || [],
+    mapLink: buildMapsLink(fsqPlace),
+    reason: fsqPlace.verified ? 'Verified local favorite' : 'Popular in the area',
+    address: fsqPlace.location?.formatted_address || fsqPlace.location?.address,
+    phone: fsqPlace.tel,
+    website: fsqPlace.website,
+    reviews: fsqPlace.tips?.slice(0, 2).map(tip => ({
+      author: 'Foursquare User',
+      text: tip.text,
+      type: 'user' as const
+    })) || [],
+    // Extract FREE photos from Foursquare search results (no extra API calls!)
+    images: fsqPlace.photos?.slice(0, 5).map(photo =>
+      `${photo.prefix}400x400${photo.suffix}`
+    ) || [],
+    isOpen: fsqPlace.hours?.open_now,
+    openingHours: parseFoursquareHours(fsqPlace.hours) || undefined,
+    hours: fsqPlace.hours?.display,
+    location,
+    source: 'foursquare',
+    chain: fsqPlace.chains?.[0]?.name,
+    foursquareCategory: fsqPlace.categories?.[0]
+      ? { id: fsqPlace.categories[0].fsq_category_id, name: fsqPlace.categories[0].name }
+      : undefined,
+  };
+};
+
+export const foursquareProvider: PlaceProvider = {
+  id: 'foursquare',
+  name: 'Foursquare',
+  capabilities: {
+    categories: [PlaceCategory.EAT, PlaceCategory.DRINK, PlaceCategory.EXPLORE],
+    details: true,
+    photos: true,
+    ratings: true,
+    requiresApiKey: true,
+  },
+  searchPolicy: { maxAttempts: 3, radiusMultiplier: 1.5 },
+
+  isAvailable: () => !!process.env.EXPO_PUBLIC_FOURSQUARE_API_KEY,
+
+  search: async ({ coords, radiusKm, intent, categories, price, venueRules, signal }: ProviderSearchParams): Promise<Place[]> => {
+    // Category filtering happens at API level
+    const fsqPlaces = await searchFoursquarePlaces(
+      coords.latitude,
+      coords.longitude,
+      radiusKm * 1000,
+      categories.length > 0 ? categories : undefined,
+      intent.keywords || undefined,
+      30, // API-level category filtering eliminates most non-hospitality places
+      price,
+      signal
+    );
+
+    console.log(`📊 Foursquare returned ${fsqPlaces.length} places`);
+
+    const hospitalityPlaces = fsqPlaces.filter(place => isVenueAllowed(toVenueFacts(place), venueRules));
+    console.log(`🔍 After venue rules: ${hospitalityPlaces.length}/${fsqPlaces.length} places remain`);
+
+    const sortedPlaces = hospitalityPlaces.sort((a, b) => getPopularity(b) - getPopularity(a));
+
+    console.log(`📊 Top 5 Foursquare places by popularity:`);
+    sortedPlaces.slice(0, 5).forEach((p, i) => {
+      const rating = p.rating ? (p.rating / 2).toFixed(1) : 'N/A';
+      console.log(`  ${i + 1}. ${p.name} - ${rating}⭐ (${p.stats?.total_ratings || 0} reviews)`);
+    });
+
+    return sortedPlaces
+      .map(mapFoursquarePlace)
+      .filter((place): place is Place => place !== null);
+  },
+
+  getDetails: async (placeId: string): Promise<Place | null> => {
+    const details = await getFoursquarePlaceDetails(placeId);
+    return details ? mapFoursquarePlace(details) : null;
+  },
+
+  getPhotos: (placeId: string, limit: number = 5): Promise<string[]> => getFoursquarePhotos(placeId, limit),
+};
@@ -0,0 +1,250 @@
+/**
+ * Google Places Provider
+ *
+ * Text Search for nearby top-rated places + Place Details for real data.
+ * Expensive (~$0.60/search) - runs after Foursquare in the default chain.
+ */
+
+import Constants from 'expo-constants';
+import { Coordinates, Place, PlaceCategory, Review } from '../../types';
+import {
+  detectGoogleCategory,
+  getNearbyPlaces,
+  getPlaceDetailsByIdDirect,
+  getPlaceDetails,
+  getPlacePhotoUrl
+} from '../places';
+import { getDistanceKm } from '../geo';
+import { isVenueAllowed } from '../venueRules';
+import { getPopularityScore } from '../ranking';
+import { throwIfAborted } from '../transport';
+import { fromGooglePriceLevel } from '../price';
+import { parseGoogleWeekdayDescriptions } from '../openingHours';
+import { PlaceProvider, ProviderSearchParams } from './types';
+
+const ID_PREFIX = 'google-';
+
+const isClosedBusiness = (status?: string): boolean =>
+  status === 'CLOSED_PERMANENTLY' || status === 'CLOSED_TEMPORARILY';
+
+/**
+ * getNearbyPlaces still speaks the legacy SIGHT/DO categories
+ */
+const toGoogleCategories = (categories: PlaceCategory[]): string[] | undefined => {
+  if (categories.length === 0) return undefined;
+  return categories.flatMap(cat => cat === PlaceCategory.EXPLORE ? ['SIGHT', 'DO'] : [cat]);
+};
+
+const toPlaceCategory = (detectedCategory?: string): PlaceCategory => {
+  if (detectedCategory === 'DRINK') return PlaceCategory.DRINK;
+  if (detectedCategory === 'EXPLORE' || detectedCategory === 'SIGHT' || detectedCategory === 'DO') return PlaceCategory.EXPLORE;
+  return PlaceCategory.EAT; // Default to EAT
+};
+
+const getGoogleCoordinates = (details: any): Coordinates | null =>
+  details.geometry?.location
+    ? { latitude: details.geometry.location.lat, longitude: details.geometry.location.lng }
+    : null;
+
+/**
+ * Convert Google place details (legacy-shaped, see getPlaceDetailsByIdDirect) to our Place format
+ * Returns null for places without coordinates
+ */
+export const mapGoogleDetails = (details: any, category: PlaceCategory, description: string): Place | null => {
+  const location = getGoogleCoordinates(details);
+  if (!location) return null;
+
+  // Get top reviews directly from Google (skip Gemini summarization for speed)
+  const reviews: Review[] = (details.reviews || [])
+    .sort((a: any, b: any) => b.rating - a.rating)
+    .slice(0, 2)
+    .map((review: any) => ({
+      author: review.author_name || 'Anonymous',
+      text: review.text || '',
+      type: 'user' as const
+    }));
+
+  // Get just 1 photo thumbnail for speed (400px, optimized for cards)
+  // More high-res photos can be lazy-loaded when user opens detail view
+  const images: string[] = details.photos && details.photos.length > 0
+    ? [getPlacePhotoUrl(details.photos[0].photo_reference, 400)]
+    : [];
+
+  return {
+    id: `${ID_PREFIX}${details.place_id}`,
+    name: details.name,
+    category,
+    description,
+    rating: details.rating ? `${details.rating}` : undefined,
+    reviewCount: details.user_ratings_total,
+    priceLevel: fromGooglePriceLevel(details.price_level),
+    tags: details.types ? details.types.slice(0, 3) : [category],
+    mapLink: details.url,
+    reason: `Highly rated ${category.toLowerCase()} spot with ${details.user_ratings_total || 0} reviews.`,
+    address: details.formatted_address,
+    phone: details.formatted_phone_number || details.international_phone_number,
+    website: details.website,
+    reviews,
+    images,
+    isOpen: details.opening_hours?.open_now,
+    openingHours: parseGoogleWeekdayDescriptions(details.opening_hours?.weekday_text) || undefined,
+    hours: details.opening_hours?.weekday_text?.join('\n'),
+    location,
+    source: 'google',
+  };
+};
+
+/**
+ * Resolve Google details for a list of candidates in batches to avoid rate limits
+ */
+export const fetchDetailsInBatches = async <T,>(
+  items: T[],
+  fetchFn: (item: T) => Promise<any | null>,
+  batchSize: number = 10,
+  signal?: AbortSignal
+): Promise<Array<any | null>> => {
+  const results: Array<any | null> = [];
+
+  for (let i = 0; i < items.length; i += batchSize) {
+    throwIfAborted(signal);
+    const batch = items.slice(i, i + batchSize);
+    results.push(...await Promise.all(batch.map(fetchFn)));
+
+    // Small delay between batches to avoid hitting rate limits
+    if (i + batchSize < items.length) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Drop closed, too-distant and low-rated places, then sort by popularity
+ */
+export const finalizeGooglePlaces = (
+  candidates: Array<{ details: any | null; category: PlaceCategory; description: string }>,
+  params: ProviderSearchParams
+): Place[] => {
+  const { coords, radiusKm, isRefresh } = params;
+  const maxDistance = radiusKm * 1.5; // Allow 1.5x current radius as max
+  // Use 3.5+ for normal searches to include good local spots, 3.0+ on refresh for more variety
+  const minRating = isRefresh ? 3.0 : 3.5;
+  const places: Place[] = [];
+
+  candidates.forEach(({ details, category, description }) => {
+    if (!details) return;
+
+    if (isClosedBusiness(details.business_status)) {
+      console.log(`🚫 Skipping closed business: ${details.name} (${details.business_status})`);
+      return;
+    }
+
+    if (!isVenueAllowed({ name: details.name, source: 'google', googleTypes: details.types }, params.venueRules)) {
+      return;
+    }
+
+    const rating = details.rating || 0;
+    if (rating !== 0 && rating < minRating) return; // Allow unrated places
+
+    const place = mapGoogleDetails(details, category, description);
+    if (!place) return;
+
+    // Validate location is within reasonable distance
+    const distance = getDistanceKm(coords, place.location);
+    if (distance > maxDistance) {
+      console.log(`❌ Skipping ${details.name} - ${distance.toFixed(1)}km away (too far from ${radiusKm}km search area)`);
+      return;
+    }
+
+    places.push(place);
+  });
+
+  console.log(`✅ Created ${places.length} places with real Google data`);
+
+  return places.sort((a, b) =>
+    getPopularityScore(parseFloat(b.rating || '0'), b.reviewCount) -
+    getPopularityScore(parseFloat(a.rating || '0'), a.reviewCount)
+  );
+};
+
+export const googleProvider: PlaceProvider = {
+  id: 'google',
+  name: 'Google Places',
+  capabilities: {
+    categories: [PlaceCategory.EAT, PlaceCategory.DRINK, PlaceCategory.EXPLORE],
+    details: true,
+    photos: true,
+    ratings: true,
+    requiresApiKey: true,
+  },
+  searchPolicy: { maxAttempts: 5, radiusMultiplier: 2 },
+
+  isAvailable: () => !!Constants.expoConfig?.extra?.GEMINI_API_KEY,
+
+  search: async (params: ProviderSearchParams): Promise<Place[]> => {
+    const { coords, radiusKm, categories, venueRules, signal } = params;
+
+    console.log(`🔍 Fetching nearby top-rated places from Google (within ${radiusKm}km)...`);
+    const nearbyPlacesRaw = await getNearbyPlaces(
+      coords.latitude,
+      coords.longitude,
+      radiusKm * 1000, // Convert km to meters
+      toGoogleCategories(categories),
+      signal
+    );
+
+    // Sort nearby places by popularity (reviews × rating)
+    const nearbyPlaces = nearbyPlacesRaw.sort((a: any, b: any) =>
+      getPopularityScore(b.rating, b.userRatingCount) - getPopularityScore(a.rating, a.userRatingCount)
+    );
+
+    const candidates = nearbyPlaces.filter((place: any) => {
+      const placeName = place.displayName?.text || '';
+
+      if (!placeName) return false;
+
+      if (isClosedBusiness(place.businessStatus)) {
+        console.log(`🚫 Skipping closed business: ${placeName} (${place.businessStatus})`);
+        return false;
+      }
+
+      // Apply venue rules before paying for a details call
+      return isVenueAllowed({ name: placeName, source: 'google', googleTypes: place.types }, venueRules);
+    });
+
+    console.log(`✅ Found ${nearbyPlaces.length} nearby places from Google API (${candidates.length} candidates)`);
+    console.log(`📍 Fetching Google details for ${candidates.length} places...`);
+
+    // COST OPTIMIZATION: We already have Place IDs, so fetch details directly (skips searchText call)
+    const details = await fetchDetailsInBatches(
+      candidates,
+      (place: any) => getPlaceDetailsByIdDirect(place.id, signal),
+      10,
+      signal
+    );
+
+    return finalizeGooglePlaces(
+      candidates.map((place: any, i: number) => ({
+        details: details[i],
+        category: toPlaceCategory(place.detectedCategory),
+        description: `${place.rating || '?'} stars · ${place.userRatingCount || 0} reviews`,
+      })),
+      params
+    );
+  },
+
+  getDetails: async (placeId: string): Promise<Place | null> => {
+    const details = await getPlaceDetailsByIdDirect(placeId.replace(ID_PREFIX, ''));
+    if (!details) return null;
+    return mapGoogleDetails(details, toPlaceCategory(detectGoogleCategory(details.types || [])), details.types?.[0] || 'Local spot');
+  },
+
+  getPhotos: async (placeId: string, limit: number = 8): Promise<string[]> => {
+    const details = await getPlaceDetails(placeId.replace(ID_PREFIX, ''));
+    if (!details?.photos) return [];
+    return details.photos
+      .slice(0, limit)
+      .map((photo: any) => getPlacePhotoUrl(photo.photo_reference));
+  },
+};
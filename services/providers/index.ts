@@ -0,0 +1,290 @@
+/**
+ * Place Provider Registry
+ *
+ * Runs place providers in a configurable order with fallback:
+ * each provider is retried with an expanding radius (per its search policy),
+ * duplicate venues are merged (see merge.ts), and the chain stops once enough places are found.
+ *
+ * Default order: Foursquare → OpenStreetMap → Gemini → Google
+ * Override with EXPO_PUBLIC_PLACE_PROVIDERS (e.g. "overpass,foursquare") or setProviderOrder().
+ * OpenStreetMap needs no key: with EXPO_PUBLIC_PLACE_PROVIDERS=overpass, or with no
+ * Foursquare/Google keys configured, it is the only place source (keyless mode).
+ *
+ * Supplemental providers (Wikipedia sights) don't take part in the fallback:
+ * they run after the chain on the searches they apply to and merge into its results.
+ */
+
+import { Coordinates, Place, PlaceCategory, PlaceSource } from '../../types';
+import { reverseGeocode } from '../geocoding';
+import { isAbortError, throwIfAborted } from '../transport';
+import { loadActiveVenueRules } from '../venueRules';
+import { loadRankingContext, rankPlaces } from '../ranking';
+import { parseQueryIntent, PriceRange } from '../queryIntent';
+import { matchesPriceRange } from '../price';
+import { foursquareProvider } from './foursquare';
+import { googleProvider } from './google';
+import { overpassProvider } from './overpass';
+import { geminiProvider } from './gemini';
+import { wikipediaProvider } from './wikipedia';
+import { dedupePlaces } from './merge';
+import { PlaceProvider, ProviderSearchParams } from './types';
+
+export * from './types';
+
+const DEFAULT_PROVIDER_ORDER: PlaceSource[] = ['foursquare', 'overpass', 'gemini', 'google', 'wikipedia'];
+
+const ALL_CATEGORIES = [PlaceCategory.EAT, PlaceCategory.DRINK, PlaceCategory.EXPLORE];
+
+const MAX_RESULTS = 18; // Closed places are filtered later, so return extra
+
+const providers = new Map<PlaceSource, PlaceProvider>([
+  [foursquareProvider.id, foursquareProvider],
+  [overpassProvider.id, overpassProvider],
+  [geminiProvider.id, geminiProvider],
+  [googleProvider.id, googleProvider],
+  [wikipediaProvider.id, wikipediaProvider],
+]);
+
+const parseProviderOrder = (value?: string): PlaceSource[] | null => {
+  if (!value) return null;
+  const ids = value.split(',').map(id => id.trim()).filter(Boolean) as PlaceSource[];
+  return ids.length > 0 ? ids : null;
+};
+
+let providerOrder: PlaceSource[] =
+  parseProviderOrder(process.env.EXPO_PUBLIC_PLACE_PROVIDERS) || DEFAULT_PROVIDER_ORDER;
+
+/**
+ * Register (or replace) a provider - new sources plug in here
+ */
+export const registerPlaceProvider = (provider: PlaceProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Set the order providers run in (unknown IDs are ignored)
+ */
+export const setProviderOrder = (order: PlaceSource[]): void => {
+  providerOrder = [...order];
+};
+
+export const getProviderOrder = (): PlaceSource[] => [...providerOrder];
+
+export const getPlaceProvider = (id: PlaceSource): PlaceProvider | undefined => providers.get(id);
+
+/**
+ * Convert string categories (EAT, DRINK, EXPLORE + legacy SIGHT/DO) to PlaceCategory enum
+ */
+const toCategoryFilters = (categories: string[]): PlaceCategory[] => {
+  const filters = categories
+    .map((cat): PlaceCategory | null => {
+      if (cat === 'EAT') return PlaceCategory.EAT;
+      if (cat === 'DRINK') return PlaceCategory.DRINK;
+      if (cat === 'EXPLORE' || cat === 'SIGHT' || cat === 'DO') return PlaceCategory.EXPLORE;
+      return null;
+    })
+    .filter((cat): cat is PlaceCategory => cat !== null);
+  return Array.from(new Set(filters));
+};
+
+/**
+ * A provider is eligible when it can serve every requested category
+ */
+const isEligible = (provider: PlaceProvider, categories: PlaceCategory[]): boolean => {
+  const requested = categories.length > 0 ? categories : ALL_CATEGORIES;
+  return requested.every(cat => provider.capabilities.categories.includes(cat));
+};
+
+/**
+ * Cross-provider filtering: unknown categories, category filter, budget, previously shown places
+ * (venue rules like chains are applied by each provider on its raw data)
+ */
+const applySharedFilters = (
+  places: Place[],
+  categories: PlaceCategory[],
+  price: PriceRange | null,
+  excludePlaceNames: string[]
+): Place[] => {
+  const excluded = new Set(excludePlaceNames.map(name => name.toLowerCase().trim()));
+
+  return places.filter(place => {
+    if (place.category === PlaceCategory.UNKNOWN) return false;
+
+    if (categories.length > 0 && !categories.includes(place.category)) {
+      return false;
+    }
+
+    // Providers without a price filter return every tier
+    if (!matchesPriceRange(place, price)) {
+      return false;
+    }
+
+    // Skip places from previous results (for refresh variety)
+    if (excluded.has(place.name.toLowerCase().trim())) {
+      console.log(`🔄 Skipping previously shown: ${place.name}`);
+      return false;
+    }
+
+    return true;
+  });
+};
+
+/**
+ * Run one provider with radius expansion, returning its best attempt
+ */
+const runProvider = async (
+  provider: PlaceProvider,
+  params: ProviderSearchParams,
+  excludePlaceNames: string[],
+  needed: number
+): Promise<Place[]> => {
+  const { maxAttempts, radiusMultiplier } = provider.searchPolicy;
+  let currentRadius = params.radiusKm;
+  let best: Place[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    console.log(`🔍 ${provider.name} search attempt ${attempt}/${maxAttempts} (radius: ${currentRadius.toFixed(1)}km)`);
+
+    throwIfAborted(params.signal);
+
+    try {
+      const results = await provider.search({ ...params, radiusKm: currentRadius });
+      const filtered = applySharedFilters(results, params.categories, params.price, excludePlaceNames);
+      console.log(`✅ ${provider.name}: ${filtered.length} places after filtering (${results.length} returned)`);
+
+      if (filtered.length > best.length) {
+        best = filtered;
+      }
+    } catch (error) {
+      // A cancelled search stops the whole chain
+      if (isAbortError(error)) throw error;
+      // Provider failure (quota, network) - fall through to the next provider
+      console.error(`❌ ${provider.name} search error:`, error);
+      return best;
+    }
+
+    if (best.length >= needed) break;
+
+    if (attempt < maxAttempts) {
+      console.log(`⚠️ Only ${best.length}/${needed} places from ${provider.name}, expanding radius...`);
+      currentRadius = currentRadius * radiusMultiplier;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Get recommendations by running the provider chain
+ */
+export const getRecommendations = async (
+  coords: Coordinates,
+  searchQuery?: string,
+  radiusKm: number = 3.2,
+  hotAndNew: boolean = false,
+  excludePlaceNames: string[] = [], // Places to exclude for variety
+  categories: string[] = [], // Category filters (EAT, DRINK, EXPLORE)
+  price: PriceRange | null = null, // Budget filter - falls back to a price in the query ("cheap eats")
+  signal?: AbortSignal, // Cancels every provider request
+  keylessOnly: boolean = false // Skip providers that need an API key (free background searches)
+): Promise<{ city: string; places: Place[] }> => {
+  const categoryFilters = toCategoryFilters(categories);
+  const isRefresh = excludePlaceNames.length > 0;
+
+  if (isRefresh) {
+    console.log(`🔄 REFRESH MODE: Excluding ${excludePlaceNames.length} previous places, expanding area by 20%`);
+    radiusKm = radiusKm * 1.2;
+  }
+
+  // Adjust minimum places based on category (EXPLORE is rarer than EAT/DRINK)
+  const minPlaces = categoryFilters.includes(PlaceCategory.EXPLORE) ? 4 : 8;
+  console.log(`📊 Target: ${minPlaces}+ places for ${categoryFilters.join(', ') || 'all categories'}`);
+
+  const city = await reverseGeocode(coords, signal) || 'Unknown Location';
+  console.log(`📍 Location: ${city}`);
+
+  const intent = parseQueryIntent(searchQuery);
+  const params: ProviderSearchParams = {
+    coords,
+    radiusKm,
+    intent,
+    categories: categoryFilters,
+    hotAndNew,
+    price: price || intent.price,
+    isRefresh,
+    venueRules: await loadActiveVenueRules(),
+    signal,
+  };
+
+  const enabled = providerOrder
+    .map(id => providers.get(id))
+    .filter((provider): provider is PlaceProvider => !!provider && provider.isAvailable())
+    .filter(provider => !keylessOnly || !provider.capabilities.requiresApiKey);
+  const runnable = enabled.filter(provider => !provider.supplements && isEligible(provider, categoryFilters));
+  const supplemental = enabled.filter(provider => provider.supplements?.(params));
+
+  if (runnable.length > 0 && runnable.every(provider => !provider.capabilities.requiresApiKey)) {
+    console.log(`🗺️ Keyless mode: ${runnable.map(provider => provider.name).join(', ')}`);
+  }
+
+  let places: Place[] = [];
+
+  for (const provider of runnable) {
+    console.log(`🧩 Running provider: ${provider.name}`);
+    const providerPlaces = await runProvider(provider, params, excludePlaceNames, minPlaces - places.length);
+    const before = places.length;
+    // Same venue from two providers becomes one place (fuzzy name + distance match)
+    places = dedupePlaces([...places, ...providerPlaces]);
+    console.log(`📍 ${provider.name} added ${places.length - before} places (total: ${places.length})`);
+
+    if (places.length >= minPlaces) break;
+    console.log(`⚠️ Only ${places.length}/${minPlaces} places, falling back to next provider`);
+  }
+
+  // Chain results come first, so a merged venue keeps their ratings and photos
+  for (const provider of supplemental) {
+    console.log(`🧩 Running supplemental provider: ${provider.name}`);
+    const providerPlaces = await runProvider(provider, params, excludePlaceNames, minPlaces);
+    const before = places.length;
+    places = dedupePlaces([...places, ...providerPlaces]);
+    console.log(`📍 ${provider.name} added ${places.length - before} places (total: ${places.length})`);
+  }
+
+  throwIfAborted(signal);
+
+  // Rank across providers (popularity, distance, open now, novelty, affinity)
+  const ranked = rankPlaces(places, await loadRankingContext(coords, radiusKm, excludePlaceNames));
+
+  console.log(`✅ Returning ${Math.min(ranked.length, MAX_RESULTS)} places`);
+  return { city, places: ranked.slice(0, MAX_RESULTS) };
+};
+
+/**
+ * Fetch full details for a place from the provider that produced it
+ */
+export const getPlaceDetailsFromProvider = async (place: Place): Promise<Place | null> => {
+  const provider = place.source ? providers.get(place.source) : undefined;
+  if (!provider || !provider.capabilities.details) return null;
+
+  try {
+    return await provider.getDetails(place.id);
+  } catch (error) {
+    console.error(`❌ ${provider.name} details error:`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetch photos for a place from the provider that produced it
+ */
+export const getPlacePhotosFromProvider = async (place: Place, limit?: number): Promise<string[]> => {
+  const provider = place.source ? providers.get(place.source) : undefined;
+  if (!provider || !provider.capabilities.photos) return [];
+
+  try {
+    return await provider.getPhotos(place.id, limit);
+  } catch (error) {
+    console.error(`❌ ${provider.name} photos error:`, error);
+    return [];
+  }
+};
@@ -0,0 +1,191 @@
+/**
+ * Cross-provider venue matching (entity resolution)
+ *
+ * The same venue often comes back from Foursquare, Google and OSM with slightly
+ * different names ("Joe's Pizza" vs "Joes Pizza & Pasta") and coordinates a few
+ * meters apart. Places are matched by fuzzy name + distance and merged into one,
+ * keeping the best field from each source.
+ */
+
+import { Place, PlaceSource } from '../../types';
+import { getDistanceMeters } from '../geo';
+
+// Closer venues need less name similarity to count as the same place
+// Farther apart, one name inside the other isn't enough ("Central Park" / "Central Park Zoo")
+const MATCH_RULES = [
+  { maxDistanceMeters: 75, minSimilarity: 0.6, allowContainment: true },
+  { maxDistanceMeters: 250, minSimilarity: 0.9, allowContainment: false },
+];
+
+// Words a contained name must share before containment counts ("The Bar" isn't "Bar Roma")
+const MIN_SHARED_TOKENS = 2;
+
+// Words that don't help tell two venues apart
+const STOPWORDS = ['the', 'and', 'a', 'an', 'of', 'at'];
+
+// Which provider to trust first for each field (unlisted providers come after)
+const FIELD_PRIORITY: Record<'images' | 'hours' | 'openingHours' | 'phone' | 'website' | 'address', PlaceSource[]> = {
+  images: ['foursquare', 'google'], // Foursquare photos come free with search
+  hours: ['overpass', 'foursquare', 'google'], // OSM opening_hours is the most detailed
+  openingHours: ['google', 'foursquare', 'overpass'], // Google includes this week's special hours
+  phone: ['google', 'foursquare', 'overpass'],
+  website: ['google', 'foursquare', 'overpass'],
+  address: ['google', 'foursquare', 'overpass'],
+};
+
+const MAX_REVIEWS = 4;
+
+/**
+ * Normalize a venue name for comparison: "Joe's Pizza & Pasta" → "joes pizza pasta"
+ */
+export const normalizeName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents (café → cafe)
+    .replace(/['’`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !STOPWORDS.includes(word))
+    .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = a[i - 1] === b[j - 1]
+        ? diagonal
+        : 1 + Math.min(diagonal, prev[j], prev[j - 1]);
+      diagonal = temp;
+    }
+  }
+
+  return prev[b.length];
+};
+
+/**
+ * Name similarity from 0 to 1
+ * Uses the best of token overlap (Jaccard), edit distance (typos, spacing differences)
+ * and - when allowed - token containment (one name is a subset of the other)
+ */
+export const nameSimilarity = (a: string, b: string, allowContainment: boolean = true): number => {
+  const normA = normalizeName(a);
+  const normB = normalizeName(b);
+  if (!normA || !normB) return 0;
+  if (normA === normB) return 1;
+
+  const tokensA = new Set(normA.split(' '));
+  const tokensB = new Set(normB.split(' '));
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  const jaccard = shared / (tokensA.size + tokensB.size - shared);
+  const containment = allowContainment && shared >= MIN_SHARED_TOKENS
+    ? shared / Math.min(tokensA.size, tokensB.size)
+    : 0;
+
+  const squashedA = normA.replace(/ /g, '');
+  const squashedB = normB.replace(/ /g, '');
+  const editRatio = 1 - levenshtein(squashedA, squashedB) / Math.max(squashedA.length, squashedB.length);
+
+  return Math.max(jaccard, containment, editRatio);
+};
+
+/**
+ * Check if two places are the same venue
+ */
+export const isSameVenue = (a: Place, b: Place): boolean => {
+  const distance = getDistanceMeters(a.location, b.location);
+
+  return MATCH_RULES.some(rule =>
+    distance <= rule.maxDistanceMeters && nameSimilarity(a.name, b.name, rule.allowContainment) >= rule.minSimilarity
+  );
+};
+
+const sourcesOf = (place: Place): PlaceSource[] =>
+  place.sources || (place.source ? [place.source] : []);
+
+/**
+ * Pick a field from the first place (by provider priority) that has a value
+ */
+const pickField = <K extends keyof typeof FIELD_PRIORITY>(
+  places: Place[],
+  field: K
+): Place[K] | undefined => {
+  const priority = FIELD_PRIORITY[field];
+  const rank = (place: Place) => {
+    const index = priority.findIndex(source => sourcesOf(place).includes(source));
+    return index === -1 ? priority.length : index;
+  };
+
+  const hasValue = (place: Place) => {
+    const value = place[field];
+    return Array.isArray(value) ? value.length > 0 : !!value;
+  };
+
+  const best = places.filter(hasValue).sort((a, b) => rank(a) - rank(b))[0];
+  return best ? best[field] : undefined;
+};
+
+const hasRating = (place: Place): boolean =>
+  !!place.rating && place.rating !== 'Not rated';
+
+/**
+ * Merge two records of the same venue
+ * The primary (earlier provider in the chain) keeps its identity - id, source, name, category -
+ * so detail and photo lookups still route to the provider that produced it
+ */
+export const mergeVenues = (primary: Place, secondary: Place): Place => {
+  const both = [primary, secondary];
+
+  const reviews = [...primary.reviews];
+  secondary.reviews.forEach(review => {
+    if (!reviews.some(r => r.text === review.text)) reviews.push(review);
+  });
+
+  // Rating and review count from the same source - one without the other is misleading
+  const rated = hasRating(primary) || !hasRating(secondary) ? primary : secondary;
+
+  return {
+    ...primary,
+    rating: rated.rating,
+    reviewCount: rated.reviewCount,
+    tags: Array.from(new Set([...primary.tags, ...secondary.tags])),
+    mapLink: primary.mapLink || secondary.mapLink,
+    signature: primary.signature || secondary.signature,
+    wikidataId: primary.wikidataId || secondary.wikidataId,
+    chain: primary.chain || secondary.chain,
+    foursquareCategory: primary.foursquareCategory || secondary.foursquareCategory,
+    address: pickField(both, 'address'),
+    phone: pickField(both, 'phone'),
+    website: pickField(both, 'website'),
+    hours: pickField(both, 'hours'),
+    openingHours: pickField(both, 'openingHours'),
+    images: pickField(both, 'images') || [],
+    reviews: reviews.slice(0, MAX_REVIEWS),
+    isOpen: primary.isOpen ?? secondary.isOpen,
+    sources: Array.from(new Set([...sourcesOf(primary), ...sourcesOf(secondary)])),
+  };
+};
+
+/**
+ * Collapse duplicate venues, keeping first-seen order
+ */
+export const dedupePlaces = (places: Place[]): Place[] => {
+  const merged: Place[] = [];
+
+  places.forEach(place => {
+    const index = merged.findIndex(existing => isSameVenue(existing, place));
+    if (index === -1) {
+      merged.push(place);
+    } else {
+      console.log(`🔗 Merging duplicate: ${place.name} (${place.source}) → ${merged[index].name} (${merged[index].source})`);
+      merged[index] = mergeVenues(merged[index], place);
+    }
+  });
+
+  return merged;
+};
@@ -0,0 +1,112 @@
+/**
+ * OpenStreetMap Overpass Provider
+ *
+ * FREE, keyless places for every category - restaurants, bars, activity
+ * venues and sights. Needs no API key, so with no Foursquare or Google keys
+ * it is the primary (and only) place source.
+ *
+ * Attribution required: © OpenStreetMap contributors
+ */
+
+import { Coordinates, Place, PlaceCategory } from '../../types';
+import {
+  searchOSMPlaces,
+  formatOSMAddress,
+  buildMapsLinkFromOSM,
+  getOSMCategoryDescription,
+  getOSMCuisines,
+  getOSMPlaceCategory,
+  OSMPlace
+} from '../openstreetmap';
+import { isVenueAllowed } from '../venueRules';
+import { parseOsmOpeningHours } from '../openingHours';
+import { PlaceProvider, ProviderSearchParams } from './types';
+
+const ID_PREFIX = 'osm-';
+
+// Nodes have lat/lon directly, ways have a center
+const getOSMCoordinates = (osm: OSMPlace): Coordinates | null => {
+  const lat = osm.lat ?? osm.center?.lat;
+  const lon = osm.lon ?? osm.center?.lon;
+  return lat !== undefined && lon !== undefined ? { latitude: lat, longitude: lon } : null;
+};
+
+// OSM websites are free text - "example.com" needs a scheme to open
+const normalizeWebsite = (url?: string): string | undefined => {
+  const trimmed = url?.split(';')[0].trim();
+  if (!trimmed) return undefined;
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+/**
+ * Convert an OSM element to our Place format
+ * `categories` are the requested ones (decides whether a cafe is EAT or DRINK)
+ * Returns null for elements without coordinates
+ */
+export const mapOSMPlace = (osm: OSMPlace, categories: PlaceCategory[] = []): Place | null => {
+  const location = getOSMCoordinates(osm);
+  if (!location) return null;
+
+  const category = getOSMPlaceCategory(osm, categories);
+  const description = getOSMCategoryDescription(osm);
+  const cuisines = getOSMCuisines(osm);
+
+  return {
+    id: `${ID_PREFIX}${osm.id}`,
+    name: osm.tags.name || 'Unknown',
+    address: formatOSMAddress(osm),
+    category,
+    rating: 'Not rated', // OSM doesn't have ratings
+    description,
+    reason: category === PlaceCategory.EXPLORE
+      ? `${description} - Community-recommended spot`
+      : `${description} - Community-mapped local spot`,
+    signature: cuisines.length > 0 ? cuisines.join(', ') : undefined,
+    mapLink: buildMapsLinkFromOSM(osm),
+    images: [], // OSM has no photos
+    tags: cuisines, // e.g. ['italian', 'pizza'] - feeds taste affinity in ranking
+    reviews: [], // OSM doesn't have reviews
+    phone: osm.tags.phone || osm.tags['contact:phone'],
+    website: normalizeWebsite(osm.tags.website || osm.tags['contact:website']),
+    wikidataId: osm.tags.wikidata,
+    hours: osm.tags.opening_hours,
+    openingHours: parseOsmOpeningHours(osm.tags.opening_hours) || undefined,
+    location,
+    source: 'overpass',
+    chain: osm.tags.brand,
+  };
+};
+
+export const overpassProvider: PlaceProvider = {
+  id: 'overpass',
+  name: 'OpenStreetMap',
+  capabilities: {
+    categories: [PlaceCategory.EAT, PlaceCategory.DRINK, PlaceCategory.EXPLORE],
+    details: false,
+    photos: false,
+    ratings: false,
+    requiresApiKey: false,
+  },
+  // Single attempt - Overpass queries are slow and the public instance is rate-limited
+  searchPolicy: { maxAttempts: 1, radiusMultiplier: 1 },
+
+  isAvailable: () => true,
+
+  search: async ({ coords, radiusKm, categories, venueRules, signal }: ProviderSearchParams): Promise<Place[]> => {
+    const osmPlaces = await searchOSMPlaces(
+      coords.latitude,
+      coords.longitude,
+      radiusKm * 1000,
+      categories,
+      signal
+    );
+    return osmPlaces
+      .filter(osm => isVenueAllowed({ name: osm.tags.name || '', source: 'overpass', osmTags: osm.tags }, venueRules))
+      .map(osm => mapOSMPlace(osm, categories))
+      .filter((place): place is Place => place !== null);
+  },
+
+  getDetails: async (): Promise<Place | null> => null,
+
+  getPhotos: async (): Promise<string[]> => [],
+};
@@ -0,0 +1,60 @@
+import { Coordinates, Place, PlaceCategory, PlaceSource } from '../../types';
+import { ActiveVenueRules } from '../venueRules';
+import { PriceRange, QueryIntent } from '../queryIntent';
+
+/**
+ * Search parameters shared by every provider in the chain.
+ * The registry owns radius expansion, so `radiusKm` is the radius for this attempt.
+ */
+export interface ProviderSearchParams {
+  coords: Coordinates;
+  radiusKm: number;
+  intent: QueryIntent; // Parsed search query (empty text = no query)
+  categories: PlaceCategory[]; // Empty = all categories
+  hotAndNew: boolean;
+  price: PriceRange | null; // Budget - sent in the request where supported, always re-checked by the registry
+  isRefresh: boolean; // True when excluding previously shown places (load more)
+  venueRules: ActiveVenueRules; // Resolved once per search by the registry
+  signal?: AbortSignal; // Aborted when the user cancels or starts a new search
+}
+
+/**
+ * What a provider can do - used by the registry to decide whether to run it
+ */
+export interface ProviderCapabilities {
+  categories: PlaceCategory[]; // Categories this provider can return
+  details: boolean; // Supports getDetails()
+  photos: boolean; // Supports getPhotos()
+  ratings: boolean; // Returns ratings/review counts
+  requiresApiKey: boolean;
+}
+
+/**
+ * Retry policy for a provider - the registry expands the radius between attempts
+ */
+export interface ProviderSearchPolicy {
+  maxAttempts: number;
+  radiusMultiplier: number;
+}
+
+/**
+ * Contract implemented by every place data source (Foursquare, Google, Overpass, Gemini, Wikipedia)
+ *
+ * Providers return fully-mapped Place objects with provider-specific filtering
+ * (closed businesses) and venue rules (see services/venueRules.ts) already applied -
+ * rules need raw provider data like category IDs and OSM tags. Cross-provider
+ * filtering (exclusions, category) happens in the registry.
+ */
+export interface PlaceProvider {
+  id: PlaceSource;
+  name: string;
+  capabilities: ProviderCapabilities;
+  searchPolicy: ProviderSearchPolicy;
+  isAvailable: () => boolean;
+  // Set on supplemental providers: they skip the fallback chain and instead run
+  // on every search this returns true for, merging into the chain's results
+  supplements?: (params: ProviderSearchParams) => boolean;
+  search: (params: ProviderSearchParams) => Promise<Place[]>;
+  getDetails: (placeId: string) => Promise<Place | null>;
+  getPhotos: (placeId: string, limit?: number) => Promise<string[]>;
+}
@@ -0,0 +1,122 @@
+/**
+ * Wikipedia Sights Provider
+ *
+ * FREE, keyless notable landmarks - monuments, historic buildings, museums -
+ * from geotagged Wikipedia articles around the search center, filtered with
+ * Wikidata so businesses, schools and neighborhoods stay out. These are often
+ * missing from Foursquare's hospitality categories and the OSM activity tags.
+ *
+ * Supplemental: runs after the chain on EXPLORE and iconic ("tourist" mode)
+ * searches and merges into their results, so iconic mode works without Gemini.
+ */
+
+import { Place, PlaceCategory } from '../../types';
+import { NearbyArticle, searchNearbyArticles, stripDisambiguation } from '../wikipedia';
+import { isVenueAllowed } from '../venueRules';
+import { PlaceProvider, ProviderSearchParams } from './types';
+
+const ID_PREFIX = 'wiki-';
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Wikidata "instance of" values that aren't sights
+const NON_SIGHT_TYPES = [
+  'Q5', // Human
+  'Q4830453', // Business
+  'Q783794', // Company
+  'Q6881511', // Enterprise
+  'Q11707', // Restaurant
+  'Q27686', // Hotel
+  'Q3914', // School
+  'Q9826', // High school
+  'Q3918', // University
+  'Q16917', // Hospital
+  'Q55488', // Railway station
+  'Q928830', // Metro station
+  'Q123705', // Neighborhood
+  'Q79007', // Street
+  'Q1021645', // Office building
+  'Q11755880', // Residential building
+];
+
+/**
+ * First sentences of an article extract, up to MAX_DESCRIPTION_LENGTH
+ */
+export const summarizeExtract = (extract?: string): string => {
+  if (!extract) return 'Notable landmark';
+
+  const firstParagraph = extract.split('\n')[0].trim();
+  const sentences = firstParagraph.match(/[^.!?]+[.!?]+(\s|$)/g) || [firstParagraph];
+
+  let summary = '';
+  for (const sentence of sentences) {
+    if (summary && summary.length + sentence.length > MAX_DESCRIPTION_LENGTH) break;
+    summary += sentence;
+  }
+
+  summary = summary.trim();
+  return summary.length > MAX_DESCRIPTION_LENGTH
+    ? `${summary.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+    : summary;
+};
+
+export const isSightArticle = (article: NearbyArticle): boolean =>
+  !article.instanceOf.some(id => NON_SIGHT_TYPES.includes(id));
+
+/**
+ * Convert a Wikipedia article to our Place format
+ */
+export const mapWikipediaArticle = (article: NearbyArticle): Place => {
+  const name = stripDisambiguation(article.title);
+  const { latitude, longitude } = article.location;
+
+  return {
+    id: `${ID_PREFIX}${article.pageId}`,
+    name,
+    category: PlaceCategory.EXPLORE,
+    rating: 'Not rated', // Wikipedia doesn't have ratings
+    description: summarizeExtract(article.extract),
+    reason: article.isHeritage
+      ? 'Protected heritage landmark - featured on Wikipedia'
+      : 'Notable landmark - featured on Wikipedia',
+    mapLink: `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}&query_place_id=${encodeURIComponent(name)}`,
+    images: article.thumbnail ? [article.thumbnail] : [],
+    tags: article.isHeritage ? ['landmark', 'heritage'] : ['landmark'],
+    reviews: [],
+    website: article.website,
+    wikidataId: article.wikidataId,
+    location: article.location,
+    source: 'wikipedia',
+  };
+};
+
+export const wikipediaProvider: PlaceProvider = {
+  id: 'wikipedia',
+  name: 'Wikipedia',
+  capabilities: {
+    categories: [PlaceCategory.EXPLORE],
+    details: false,
+    photos: false,
+    ratings: false,
+    requiresApiKey: false,
+  },
+  searchPolicy: { maxAttempts: 1, radiusMultiplier: 1 },
+
+  isAvailable: () => true,
+
+  // Sights searches, and "all categories" searches in iconic mode
+  supplements: ({ categories, intent }: ProviderSearchParams): boolean =>
+    categories.length === 0 ? intent.mode === 'tourist' : categories.includes(PlaceCategory.EXPLORE),
+
+  search: async ({ coords, radiusKm, venueRules, signal }: ProviderSearchParams): Promise<Place[]> => {
+    const articles = await searchNearbyArticles(coords, radiusKm * 1000, signal);
+    return articles
+      .filter(isSightArticle)
+      .filter(article => isVenueAllowed({ name: article.title, source: 'wikipedia' }, venueRules))
+      .map(mapWikipediaArticle);
+  },
+
+  getDetails: async (): Promise<Place | null> => null,
+
+  getPhotos: async (): Promise<string[]> => [],
+};
@@ -0,0 +1,266 @@
+/**
+ * Query Intent Parser
+ *
+ * Turns a free-text search ("cheap ramen near Shibuya open late") into the
+ * pieces the app acts on: where to search, what kind of places, cuisine,
+ * price, time, how far to look and tourist vs local mode.
+ * The search bar, the full-screen map and the providers all read the same intent.
+ */
+
+import { PlaceCategory } from '../types';
+
+export type SearchTheme = 'food' | 'coffee' | 'alcohol' | 'drinks' | 'activity' | 'sight';
+
+export type TimeConstraint = 'now' | 'tonight' | 'lateNight' | 'breakfast' | 'brunch' | 'lunch' | 'dinner' | 'weekend';
+
+export type RadiusHint = 'tight' | 'local' | 'city';
+
+export type SearchMode = 'tourist' | 'local';
+
+export type CityScale = 'major' | 'medium' | 'small';
+
+export interface PriceRange {
+  min: number; // 1 ($) - 4 ($$$$)
+  max: number;
+}
+
+export interface QueryIntent {
+  text: string; // Trimmed original query
+  query: string; // What to look for - the location clause removed ("pizza" for "pizza in Brooklyn")
+  keywords: string; // Query without near-me/price/time modifiers, for provider text search
+  location: string | null; // Place to geocode ("Brooklyn")
+  looksLikeLocation: boolean; // No location clause, but the whole query is a place ("Rome, Italy", "tokyo")
+  nearMe: boolean; // Search from the user's GPS position
+  themes: SearchTheme[];
+  categories: PlaceCategory[];
+  cuisine: string | null;
+  price: PriceRange | null;
+  time: TimeConstraint | null;
+  radiusHint: RadiusHint | null;
+  mode: SearchMode | null;
+}
+
+// Matches whole words, with an optional plural "s" ("bar" matches "bars")
+const words = (list: string[]): RegExp => new RegExp(`\\b(${list.join('|')})s?\\b`, 'i');
+
+const CUISINES = [
+  'indian', 'chinese', 'japanese', 'thai', 'mexican', 'italian', 'french', 'korean',
+  'vietnamese', 'greek', 'spanish', 'mediterranean', 'american', 'brazilian', 'ethiopian',
+  'peruvian', 'lebanese', 'turkish', 'middle eastern',
+  'pizza', 'ramen', 'sushi', 'burger', 'taco', 'pasta', 'noodle', 'bbq', 'seafood',
+  'steak', 'dim sum', 'pho', 'curry',
+];
+
+const THEME_PATTERNS: Array<[SearchTheme, RegExp]> = [
+  ['food', words([
+    'sandwich', 'chicken', 'pork', 'beef', 'salad', 'soup', 'breakfast', 'brunch', 'lunch', 'dinner',
+    'eat', 'food', 'restaurant', 'dining', 'cuisine', 'bakery', 'bakeries',
+  ])],
+  ['coffee', words(['coffee', 'cafe', 'cappuccino', 'latte', 'espresso', 'tea'])],
+  ['alcohol', words(['bar', 'cocktail', 'brewery', 'breweries', 'beer', 'wine', 'pub', 'nightclub', 'lounge'])],
+  ['drinks', words(['drink', 'juice'])],
+  ['activity', words(['do', 'activities', 'activity', 'things to do', 'entertainment', 'sport', 'gym', 'spa', 'park', 'bowling', 'arcade'])],
+  ['sight', words(['sight', 'see', 'view', 'landmark', 'attraction', 'museum', 'monument', 'statue', 'building', 'architecture'])],
+];
+
+const NEAR_ME = /\b(near me|nearby|around here|close by|walking distance)\b/i;
+// "local" alone means "near me"; "local sushi" is a mode, not a location reset
+const LOCAL_NEAR_ME = /^local$|\blocal\s+(favorites|things|places|spots|recommendations)\b/i;
+const TIGHT_RADIUS = /\b(nearby|around here|close by|walking distance)\b/i;
+const LOCAL_RADIUS = /\b(local|neighbou?rhood|near me)\b/i;
+
+const TOURIST_MODE = /\b(iconic|famous|tourist|touristy|must.see|landmarks?)\b/i;
+const LOCAL_MODE = /\b(hidden gems?|off the beaten path|locals|local favou?rites?|non.touristy|underrated)\b/i;
+
+const PRICE_PATTERNS: Array<[RegExp, PriceRange]> = [
+  [/\b(upscale|fancy|fine dining|splurge|luxury|high.end|expensive)\b/i, { min: 3, max: 4 }],
+  [/\b(mid.range|moderate|moderately priced)\b/i, { min: 2, max: 2 }],
+  [/\b(affordable|budget|inexpensive|good value)\b/i, { min: 1, max: 2 }],
+  [/\b(cheap|cheap eats|dirt cheap)\b/i, { min: 1, max: 1 }],
+];
+const DOLLAR_SIGNS = /(^|\s)(\${1,4})(?=\s|$)/;
+
+const TIME_PATTERNS: Array<[RegExp, TimeConstraint]> = [
+  [/\b(late night|late-night|after midnight|open late|late)\b/i, 'lateNight'],
+  [/\b(open now|right now|now)\b/i, 'now'],
+  [/\b(tonight)\b/i, 'tonight'],
+  [/\b(breakfast)\b/i, 'breakfast'],
+  [/\b(brunch)\b/i, 'brunch'],
+  [/\b(lunch)\b/i, 'lunch'],
+  [/\b(dinner)\b/i, 'dinner'],
+  [/\b(this weekend|weekend)\b/i, 'weekend'],
+];
+
+// Modifiers stripped from keywords - they filter results rather than describe places
+const MODIFIERS = [
+  NEAR_ME,
+  /\b(open now|right now|open late|late night|late-night|after midnight|tonight|this weekend)\b/i,
+  /\b(cheap|affordable|budget|inexpensive|upscale|fancy|splurge|mid.range)\b/i,
+  /(^|\s)\${1,4}(?=\s|$)/,
+];
+
+// "in the park", "in town", "near me" - a location clause that isn't a place to geocode
+const GENERIC_PLACE = /^(the |a |an |my |this |our )?(park|garden|woods|sun|shade|city|town|area|neighbou?rhood|downtown|center|centre|middle|morning|afternoon|evening|night|summer|winter|spring|fall|autumn|rain|snow|mood|house|office|hotel)s?$/i;
+const NOT_A_PLACE = /^(me|here|us|you|town|\d+\s*(min|mins|minutes|hours?|hrs?)?)$/i;
+const TRAILING_TIME = /\s+(tonight|today|now|right now|open now|open late|this weekend|for (breakfast|brunch|lunch|dinner|drinks))$/i;
+
+const LOCATION_CLAUSE = /\s+(in|near|around)\s+/i;
+
+const MAJOR_CITIES = [
+  'new york', 'nyc', 'los angeles', 'la', 'chicago', 'london', 'tokyo',
+  'paris', 'dubai', 'singapore', 'hong kong', 'shanghai', 'mumbai',
+  'delhi', 'beijing', 'mexico city', 'sao paulo', 'jakarta',
+];
+
+const MEDIUM_CITIES = [
+  'boston', 'seattle', 'san francisco', 'miami', 'denver', 'portland',
+  'austin', 'philadelphia', 'phoenix', 'san diego', 'dallas', 'houston',
+  'atlanta', 'detroit', 'washington', 'barcelona', 'amsterdam', 'berlin',
+  'rome', 'milan', 'sydney', 'melbourne', 'toronto', 'vancouver',
+];
+
+// A whole query that is one of these is a place, not something to look for
+const KNOWN_PLACE = new RegExp(`^(${[...MAJOR_CITIES, ...MEDIUM_CITIES].join('|')})$`, 'i');
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const cleanLocation = (candidate: string): string => {
+  let location = collapse(candidate);
+  while (TRAILING_TIME.test(location)) {
+    location = location.replace(TRAILING_TIME, '');
+  }
+  return location;
+};
+
+const isPlaceName = (candidate: string): boolean =>
+  candidate.length > 0 && !GENERIC_PLACE.test(candidate) && !NOT_A_PLACE.test(candidate);
+
+/**
+ * Split "X in/near/around Y" into query and location
+ * Takes the first clause naming a real place, so "drinks in the park" keeps
+ * "the park" in the query and "bars near me in Brooklyn" finds Brooklyn
+ */
+const splitLocation = (text: string): { query: string; location: string | null } => {
+  // [head, prep1, segment1, prep2, segment2, ...]
+  const parts = text.split(new RegExp(LOCATION_CLAUSE.source, 'gi'));
+
+  for (let i = 2; i < parts.length; i += 2) {
+    const location = cleanLocation(parts[i]);
+    if (!isPlaceName(location)) continue;
+
+    // Keep everything but the clause itself ("for dinner" after the location stays in the query)
+    const rest = collapse(parts[i]).slice(location.length);
+    const query = parts
+      .map((part, index) => (index === i - 1 ? '' : index === i ? rest : part))
+      .join(' ');
+    return { query: collapse(query), location };
+  }
+
+  return { query: text, location: null };
+};
+
+const detectPrice = (text: string): PriceRange | null => {
+  const dollars = text.match(DOLLAR_SIGNS);
+  if (dollars) return { min: dollars[2].length, max: dollars[2].length };
+
+  const match = PRICE_PATTERNS.find(([pattern]) => pattern.test(text));
+  return match ? { ...match[1] } : null;
+};
+
+const toCategories = (themes: SearchTheme[]): PlaceCategory[] => {
+  const categories = new Set<PlaceCategory>();
+  themes.forEach(theme => {
+    if (theme === 'food') categories.add(PlaceCategory.EAT);
+    else if (theme === 'coffee' || theme === 'alcohol' || theme === 'drinks') categories.add(PlaceCategory.DRINK);
+    else categories.add(PlaceCategory.EXPLORE);
+  });
+  return Array.from(categories);
+};
+
+/**
+ * Parse a search query into a QueryIntent
+ */
+export const parseQueryIntent = (searchQuery: string = ''): QueryIntent => {
+  const text = collapse(searchQuery);
+  const { query, location } = splitLocation(text);
+
+  const cuisineMatch = CUISINES.find(cuisine => words([cuisine]).test(query));
+  const themes = THEME_PATTERNS.filter(([, pattern]) => pattern.test(query)).map(([theme]) => theme);
+  if (cuisineMatch && !themes.includes('food')) themes.unshift('food');
+
+  const price = detectPrice(text);
+  const time = TIME_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] || null;
+  const mode: SearchMode | null = TOURIST_MODE.test(text) ? 'tourist' : LOCAL_MODE.test(text) ? 'local' : null;
+  const nearMe = NEAR_ME.test(text) || LOCAL_NEAR_ME.test(text);
+
+  let radiusHint: RadiusHint | null = null;
+  if (TIGHT_RADIUS.test(text)) radiusHint = 'tight';
+  else if (LOCAL_RADIUS.test(text)) radiusHint = 'local';
+  else if (location || mode === 'tourist') radiusHint = 'city';
+
+  const keywords = collapse(MODIFIERS.reduce((acc, pattern) => acc.replace(new RegExp(pattern.source, 'gi'), ' '), query));
+
+  // Only explicit places - geocoding any other query ("karaoke", "vegan") lands the search anywhere
+  const looksLikeLocation = !location && (query.includes(',') || KNOWN_PLACE.test(query));
+
+  return {
+    text,
+    query,
+    keywords,
+    location,
+    looksLikeLocation,
+    nearMe,
+    themes,
+    categories: toCategories(themes),
+    cuisine: cuisineMatch || null,
+    price,
+    time,
+    radiusHint,
+    mode,
+  };
+};
+
+/**
+ * City scale from its name - bigger cities need a wider search radius
+ */
+export const getCityScale = (cityName: string): CityScale => {
+  const lowerCity = cityName.toLowerCase();
+  if (MAJOR_CITIES.some(city => words([city]).test(lowerCity))) return 'major';
+  if (MEDIUM_CITIES.some(city => words([city]).test(lowerCity))) return 'medium';
+  return 'small';
+};
+
+/**
+ * Search radius (km) for an intent
+ * `currentCity` is used for city-scale searches without an explicit location
+ */
+export const getRadiusForIntent = (intent: QueryIntent, currentCity: string = ''): number => {
+  if (!intent.text) return 3.2; // Default 2 miles
+
+  switch (intent.radiusHint) {
+    case 'tight':
+      return 3.2; // 2 miles - "nearby" means truly close
+    case 'local':
+      return 4.8; // 3 miles
+    case 'city': {
+      const scale = getCityScale(intent.location || currentCity);
+      if (scale === 'major') return 20; // 12.4 miles - NYC, LA
+      if (scale === 'medium') return 14; // 8.7 miles - Boston
+      return 8; // 5 miles - towns
+    }
+    default:
+      return 4.8; // 3 miles
+  }
+};
+
+/**
+ * The searches Discover runs without a query - the default one and each
+ * category chip (EXPLORE looks wider, as in fetchVibe). Pre-caching for a
+ * trip or a city pack runs the same ones so they land on the same cache keys.
+ */
+export const DISCOVERY_SEARCHES: Array<{ category?: PlaceCategory; radiusKm: number }> = [
+  { radiusKm: 3.2 },
+  { category: PlaceCategory.EAT, radiusKm: 3.2 },
+  { category: PlaceCategory.DRINK, radiusKm: 3.2 },
+  { category: PlaceCategory.EXPLORE, radiusKm: 6 },
+];
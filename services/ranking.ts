@@ -0,0 +1,187 @@
+/**
+ * Recommendation Ranking
+ *
+ * Combines weighted signals into one score per place:
+ * popularity, distance from the search center, open now, novelty
+ * (not shown before) and affinity (favorites vs hidden places).
+ * Each place keeps its score breakdown so the popup can explain "Why this is here".
+ */
+
+import { Coordinates, HistoryEntry, Place, PlaceScore, RankingSignal, ScoreComponent } from '../types';
+import { getFavorites, getHistory } from './collections';
+import { getHiddenPlaces } from './storage';
+import { getDistanceKm } from './geo';
+import { getOpenStatus } from './openingHours';
+import { nameSimilarity } from './providers/merge';
+
+export type RankingWeights = Record<RankingSignal, number>;
+
+export interface RankingContext {
+  center: Coordinates;
+  radiusKm: number;
+  shownPlaceNames: string[]; // Already shown in this session
+  history: HistoryEntry[];
+  favorites: Place[];
+  hiddenPlaceNames: string[];
+  now: number;
+}
+
+const DEFAULT_WEIGHTS: RankingWeights = {
+  popularity: 0.4,
+  distance: 0.2,
+  openNow: 0.1,
+  novelty: 0.15,
+  affinity: 0.15,
+};
+
+let weights: RankingWeights = { ...DEFAULT_WEIGHTS };
+
+// Google types that say nothing about taste
+const GENERIC_TAGS = ['point_of_interest', 'establishment', 'food', 'store'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOVELTY_RECOVERY_DAYS = 30; // A place seen this long ago counts as new again
+
+/**
+ * Popularity: rating × log10(reviews + 10)
+ * Log scale prevents super-reviewed places from dominating
+ */
+export const getPopularityScore = (rating?: number, reviewCount?: number): number =>
+  (rating || 0) * Math.log10((reviewCount || 0) + 10);
+
+const MAX_POPULARITY = getPopularityScore(5, 10000);
+
+/**
+ * Tune signal weights (partial updates are merged with the current weights)
+ */
+export const setRankingWeights = (updates: Partial<RankingWeights>): void => {
+  weights = { ...weights, ...updates };
+};
+
+export const getRankingWeights = (): RankingWeights => ({ ...weights });
+
+export const resetRankingWeights = (): void => {
+  weights = { ...DEFAULT_WEIGHTS };
+};
+
+const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+
+const sameName = (a: string, b: string): boolean =>
+  a.toLowerCase().trim() === b.toLowerCase().trim();
+
+const scorePopularity = (place: Place): [number, string] => {
+  const rating = parseFloat(place.rating || '');
+  if (isNaN(rating)) return [0, 'No rating yet'];
+
+  const reviews = place.reviewCount !== undefined ? ` · ${place.reviewCount} reviews` : '';
+  return [clamp(getPopularityScore(rating, place.reviewCount) / MAX_POPULARITY), `${rating.toFixed(1)}★${reviews}`];
+};
+
+const scoreDistance = (place: Place, context: RankingContext): [number, string] => {
+  const distance = getDistanceKm(context.center, place.location);
+  return [clamp(1 - distance / context.radiusKm), `${distance.toFixed(1)} km from search center`];
+};
+
+const scoreOpenNow = (place: Place, context: RankingContext): [number, string] => {
+  const { isOpen } = getOpenStatus(place, new Date(context.now), context.now);
+  if (isOpen === true) return [1, 'Open now'];
+  if (isOpen === false) return [0, 'Closed right now'];
+  return [0.5, 'Hours unknown'];
+};
+
+const scoreNovelty = (place: Place, context: RankingContext): [number, string] => {
+  if (context.shownPlaceNames.some(name => sameName(name, place.name))) {
+    return [0, 'Already shown in this search'];
+  }
+
+  const lastSeen = context.history
+    .filter(entry => entry.place.id === place.id || sameName(entry.place.name, place.name))
+    .reduce((latest, entry) => Math.max(latest, entry.viewedAt), 0);
+
+  if (!lastSeen) return [1, 'New to you'];
+
+  const days = Math.floor((context.now - lastSeen) / DAY_MS);
+  return [
+    clamp(0.3 + 0.7 * (days / NOVELTY_RECOVERY_DAYS)),
+    days === 0 ? 'You saw this today' : `You saw this ${days} day${days === 1 ? '' : 's'} ago`,
+  ];
+};
+
+const scoreAffinity = (place: Place, context: RankingContext): [number, string] => {
+  if (context.hiddenPlaceNames.some(name => nameSimilarity(name, place.name) >= 0.9)) {
+    return [0, 'Similar to a place you hid'];
+  }
+
+  if (context.favorites.some(fav => fav.id === place.id || sameName(fav.name, place.name))) {
+    return [1, 'In your favorites'];
+  }
+
+  if (context.favorites.length === 0) return [0.5, 'No favorites to compare yet'];
+
+  const categoryShare = context.favorites.filter(fav => fav.category === place.category).length / context.favorites.length;
+
+  const favoriteTags = new Set(context.favorites.flatMap(fav => fav.tags));
+  const placeTags = place.tags.filter(tag => !GENERIC_TAGS.includes(tag));
+  const sharedTags = placeTags.filter(tag => favoriteTags.has(tag));
+  const tagShare = placeTags.length > 0 ? sharedTags.length / placeTags.length : 0;
+
+  const detail = sharedTags.length > 0
+    ? `Like your favorites: ${sharedTags.slice(0, 2).join(', ')}`
+    : `${Math.round(categoryShare * 100)}% of your favorites are ${place.category.toLowerCase()} spots`;
+
+  return [clamp(0.5 * categoryShare + 0.5 * tagShare), detail];
+};
+
+/**
+ * Score one place - every signal is normalized to 0-1 before weighting
+ */
+export const scorePlace = (
+  place: Place,
+  context: RankingContext,
+  signalWeights: RankingWeights = weights
+): PlaceScore => {
+  const signals: Record<RankingSignal, [number, string]> = {
+    popularity: scorePopularity(place),
+    distance: scoreDistance(place, context),
+    openNow: scoreOpenNow(place, context),
+    novelty: scoreNovelty(place, context),
+    affinity: scoreAffinity(place, context),
+  };
+
+  const components: ScoreComponent[] = (Object.keys(signals) as RankingSignal[]).map(signal => {
+    const [value, detail] = signals[signal];
+    const weight = signalWeights[signal];
+    return { signal, value, weight, contribution: value * weight, detail };
+  });
+
+  return {
+    total: components.reduce((sum, component) => sum + component.contribution, 0),
+    components,
+  };
+};
+
+/**
+ * Attach a score to each place and sort best first
+ */
+export const rankPlaces = (places: Place[], context: RankingContext): Place[] =>
+  places
+    .map(place => ({ ...place, score: scorePlace(place, context) }))
+    .sort((a, b) => b.score.total - a.score.total);
+
+/**
+ * Build the ranking context from saved favorites, history and hidden places
+ */
+export const loadRankingContext = async (
+  center: Coordinates,
+  radiusKm: number,
+  shownPlaceNames: string[] = []
+): Promise<RankingContext> => {
+  const [history, favorites, hiddenPlaces] = await Promise.all([
+    getHistory(),
+    getFavorites(),
+    getHiddenPlaces(),
+  ]);
+  const hiddenPlaceNames = hiddenPlaces.map(entry => entry.name);
+
+  return { center, radiusKm, shownPlaceNames, history, favorites, hiddenPlaceNames, now: Date.now() };
+};
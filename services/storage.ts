@@ -1,114 +1,80 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Place } from '../types';
+import { getDatabase } from './database';
+import { migratePlaces, PLACE_VERSION, readStore, VersionedStore, writeStore } from './migrations';
 
-const SAVED_PLACES_KEY = '@vibecheck:saved_places';
 const HIDDEN_PLACES_KEY = '@vibecheck:hidden_places';
-const CACHED_RESULTS_KEY = '@vibecheck:cached_results';
-const CACHED_PLACE_DETAILS_KEY = '@vibecheck:cached_place_details';
-const GRID_CACHE_KEY = '@vibecheck:grid_cache';
+// v2: places carry `location` - the v1 key is removed by the local database (see database.ts)
+const CACHED_RESULTS_KEY = '@vibecheck:cached_results_v2';
 
-export interface SavedPlace extends Place {
-  savedAt: number; // timestamp
+// HIDDEN PLACES
+export interface HiddenPlace {
+  placeId?: string; // Missing for places hidden by name, before IDs were stored
+  name: string;
+  city?: string; // Where it was hidden - shown in the Hidden list
+  hiddenAt: number; // timestamp (0 if unknown)
 }
 
-// SAVED PLACES
-export const getSavedPlaces = async (): Promise<SavedPlace[]> => {
-  try {
-    const json = await AsyncStorage.getItem(SAVED_PLACES_KEY);
-    return json ? JSON.parse(json) : [];
-  } catch (error) {
-    console.error('Error getting saved places:', error);
-    return [];
-  }
+// v1: entries saved as bare names become name-only entries
+const HIDDEN_PLACES_STORE: VersionedStore<HiddenPlace[]> = {
+  key: HIDDEN_PLACES_KEY,
+  version: 1,
+  migrate: (stored: (HiddenPlace | string)[]) =>
+    stored.map(entry => (typeof entry === 'string' ? { name: entry, hiddenAt: 0 } : entry)),
 };
 
-export const savePlace = async (place: Place): Promise<void> => {
-  try {
-    const saved = await getSavedPlaces();
-    
-    // Check if already saved
-    if (saved.some(p => p.name === place.name)) {
-      console.log(`${place.name} is already saved`);
-      return;
-    }
-    
-    const savedPlace: SavedPlace = {
-      ...place,
-      savedAt: Date.now(),
-    };
-    
-    await AsyncStorage.setItem(
-      SAVED_PLACES_KEY,
-      JSON.stringify([savedPlace, ...saved])
-    );
-    
-    console.log(`✅ Saved ${place.name}`);
-  } catch (error) {
-    console.error('Error saving place:', error);
-    throw error;
-  }
-};
-
-export const unsavePlace = async (placeName: string): Promise<void> => {
-  try {
-    const saved = await getSavedPlaces();
-    const filtered = saved.filter(p => p.name !== placeName);
-    await AsyncStorage.setItem(SAVED_PLACES_KEY, JSON.stringify(filtered));
-    console.log(`🗑️ Unsaved ${placeName}`);
-  } catch (error) {
-    console.error('Error unsaving place:', error);
-    throw error;
-  }
-};
+const isSameHiddenEntry = (a: HiddenPlace, b: HiddenPlace): boolean =>
+  a.placeId || b.placeId ? a.placeId === b.placeId : a.name === b.name;
 
-// HIDDEN PLACES
-export const getHiddenPlaces = async (): Promise<string[]> => {
+/**
+ * Newest first
+ */
+export const getHiddenPlaces = async (): Promise<HiddenPlace[]> => {
   try {
-    const json = await AsyncStorage.getItem(HIDDEN_PLACES_KEY);
-    return json ? JSON.parse(json) : [];
+    return (await readStore(HIDDEN_PLACES_STORE)) || [];
   } catch (error) {
     console.error('Error getting hidden places:', error);
     return [];
   }
 };
 
-export const hidePlace = async (placeName: string): Promise<void> => {
+/**
+ * Hide one place (by ID - other venues with the same name still show)
+ */
+export const hidePlace = async (place: Place, city?: string): Promise<HiddenPlace> => {
   try {
     const hidden = await getHiddenPlaces();
-    
-    if (hidden.includes(placeName)) {
-      console.log(`${placeName} is already hidden`);
-      return;
+    const entry: HiddenPlace = { placeId: place.id, name: place.name, ...(city && { city }), hiddenAt: Date.now() };
+
+    const existing = hidden.find(other => isSameHiddenEntry(other, entry));
+    if (existing) {
+      console.log(`${place.name} is already hidden`);
+      return existing;
     }
-    
-    await AsyncStorage.setItem(
-      HIDDEN_PLACES_KEY,
-      JSON.stringify([...hidden, placeName])
-    );
-    
-    console.log(`👻 Hidden ${placeName}`);
+
+    await writeStore(HIDDEN_PLACES_STORE, [entry, ...hidden]);
+    console.log(`👻 Hidden ${place.name}`);
+    return entry;
   } catch (error) {
     console.error('Error hiding place:', error);
     throw error;
   }
 };
 
-export const unhidePlace = async (placeName: string): Promise<void> => {
+export const unhidePlace = async (entry: HiddenPlace): Promise<void> => {
   try {
     const hidden = await getHiddenPlaces();
-    const filtered = hidden.filter(name => name !== placeName);
-    await AsyncStorage.setItem(HIDDEN_PLACES_KEY, JSON.stringify(filtered));
-    console.log(`👁️ Unhidden ${placeName}`);
+    const filtered = hidden.filter(other => !isSameHiddenEntry(other, entry));
+    await writeStore(HIDDEN_PLACES_STORE, filtered);
+    console.log(`👁️ Unhidden ${entry.name}`);
   } catch (error) {
     console.error('Error unhiding place:', error);
     throw error;
   }
 };
 
-export const isPlaceHidden = async (placeName: string): Promise<boolean> => {
-  const hidden = await getHiddenPlaces();
-  return hidden.includes(placeName);
-};
+export const isPlaceHidden = (place: Place, hidden: HiddenPlace[]): boolean =>
+  hidden.some(entry => (entry.placeId ? entry.placeId === place.id : entry.name === place.name));
 
 // CACHED SEARCH RESULTS
 export interface CachedSearchResults {
@@ -120,6 +86,12 @@ export interface CachedSearchResults {
   timestamp: number;
 }
 
+const CACHED_RESULTS_STORE: VersionedStore<CachedSearchResults> = {
+  key: CACHED_RESULTS_KEY,
+  version: PLACE_VERSION,
+  migrate: (cached: CachedSearchResults, fromVersion) => ({ ...cached, places: migratePlaces(cached.places, fromVersion) }),
+};
+
 export const saveCachedResults = async (
   places: Place[],
   city: string,
@@ -137,7 +109,7 @@ export const saveCachedResults = async (
       timestamp: Date.now(),
     };
 
-    await AsyncStorage.setItem(CACHED_RESULTS_KEY, JSON.stringify(cached));
+    await writeStore(CACHED_RESULTS_STORE, cached);
     console.log(`💾 Cached ${places.length} places for ${city}`);
   } catch (error) {
     console.error('Error caching results:', error);
@@ -146,10 +118,8 @@ export const saveCachedResults = async (
 
 export const getCachedResults = async (): Promise<CachedSearchResults | null> => {
   try {
-    const json = await AsyncStorage.getItem(CACHED_RESULTS_KEY);
-    if (!json) return null;
-
-    const cached: CachedSearchResults = JSON.parse(json);
+    const cached = await readStore(CACHED_RESULTS_STORE);
+    if (!cached) return null;
 
     // Check if cache is less than 24 hours old
     const ageInHours = (Date.now() - cached.timestamp) / (1000 * 60 * 60);
@@ -183,36 +153,48 @@ export interface CachedPlaceDetail {
   timestamp: number;
 }
 
+// Stored under one AsyncStorage key before the local database (see database.ts)
 export interface PlaceDetailsCache {
   [placeId: string]: CachedPlaceDetail;
 }
 
+const DETAILS_CACHE_HOURS = 24;
+const GRID_CACHE_HOURS = 6;
+const MAX_GRID_CELLS = 100;
+
+interface CacheRow {
+  key: string;
+  data: string;
+  cached_at: number;
+  hits: number;
+}
+
+const hoursSince = (timestamp: number): number => (Date.now() - timestamp) / (1000 * 60 * 60);
+
 /**
  * Get cached place details by place ID
  * Returns null if not cached or expired (>24 hours)
  */
 export const getCachedPlaceDetails = async (placeId: string): Promise<any | null> => {
   try {
-    const json = await AsyncStorage.getItem(CACHED_PLACE_DETAILS_KEY);
-    if (!json) return null;
-
-    const cache: PlaceDetailsCache = JSON.parse(json);
-    const cached = cache[placeId];
-
+    const db = await getDatabase();
+    const cached = await db.getFirstAsync<CacheRow>(
+      "SELECT * FROM cache_entries WHERE kind = 'details' AND key = ?",
+      placeId
+    );
     if (!cached) return null;
 
     // Check if cache is less than 24 hours old
-    const ageInHours = (Date.now() - cached.timestamp) / (1000 * 60 * 60);
-    if (ageInHours > 24) {
+    const ageInHours = hoursSince(cached.cached_at);
+    if (ageInHours > DETAILS_CACHE_HOURS) {
       console.log(`🗑️ Place details cache expired for ${placeId} (${ageInHours.toFixed(1)}h old)`);
       // Clean up this entry
-      delete cache[placeId];
-      await AsyncStorage.setItem(CACHED_PLACE_DETAILS_KEY, JSON.stringify(cache));
+      await db.runAsync("DELETE FROM cache_entries WHERE kind = 'details' AND key = ?", placeId);
       return null;
     }
 
     console.log(`💾 Using cached place details for ${placeId} (${ageInHours.toFixed(1)}h old)`);
-    return cached.details;
+    return JSON.parse(cached.data);
   } catch (error) {
     console.error('Error loading cached place details:', error);
     return null;
@@ -224,31 +206,19 @@ export const getCachedPlaceDetails = async (placeId: string): Promise<any | null
  */
 export const savePlaceDetailsToCache = async (placeId: string, details: any): Promise<void> => {
   try {
-    let cache: PlaceDetailsCache = {};
-
-    // Load existing cache
-    const json = await AsyncStorage.getItem(CACHED_PLACE_DETAILS_KEY);
-    if (json) {
-      cache = JSON.parse(json);
-    }
-
-    // Add new entry
-    cache[placeId] = {
+    const db = await getDatabase();
+    await db.runAsync(
+      "INSERT OR REPLACE INTO cache_entries (kind, key, data, cached_at) VALUES ('details', ?, ?, ?)",
       placeId,
-      details,
-      timestamp: Date.now(),
-    };
+      JSON.stringify(details),
+      Date.now()
+    );
 
     // Clean up expired entries (older than 24 hours)
-    const now = Date.now();
-    Object.keys(cache).forEach(id => {
-      const ageInHours = (now - cache[id].timestamp) / (1000 * 60 * 60);
-      if (ageInHours > 24) {
-        delete cache[id];
-      }
-    });
-
-    await AsyncStorage.setItem(CACHED_PLACE_DETAILS_KEY, JSON.stringify(cache));
+    await db.runAsync(
+      "DELETE FROM cache_entries WHERE kind = 'details' AND cached_at < ?",
+      Date.now() - DETAILS_CACHE_HOURS * 60 * 60 * 1000
+    );
     console.log(`💾 Cached place details for ${placeId}`);
   } catch (error) {
     console.error('Error saving place details to cache:', error);
@@ -260,7 +230,8 @@ export const savePlaceDetailsToCache = async (placeId: string, details: any): Pr
  */
 export const clearPlaceDetailsCache = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(CACHED_PLACE_DETAILS_KEY);
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM cache_entries WHERE kind = 'details'");
     console.log('🗑️ Cleared all cached place details');
   } catch (error) {
     console.error('Error clearing place details cache:', error);
@@ -277,10 +248,16 @@ export interface GridCacheEntry {
   query?: string; // Optional search query
 }
 
+// Stored under one AsyncStorage key before the local database (see database.ts)
 export interface GridCache {
   [gridKey: string]: GridCacheEntry;
 }
 
+const toGridCacheEntry = (row: CacheRow): GridCacheEntry => {
+  const { places, category, query } = JSON.parse(row.data);
+  return { gridKey: row.key, places, timestamp: row.cached_at, searchCount: row.hits, category, query };
+};
+
 /**
  * Get grid key from coordinates (rounds to 0.01° grid ~1.1km cells)
  * Includes category in key so different categories have separate cache entries
@@ -305,21 +282,17 @@ export const getGridCachedResults = async (
 ): Promise<Place[] | null> => {
   try {
     const gridKey = getGridKey(lat, lng, 2, category);
-    const json = await AsyncStorage.getItem(GRID_CACHE_KEY);
-    if (!json) return null;
-
-    const cache: GridCache = JSON.parse(json);
-    const entry = cache[gridKey];
-
-    if (!entry) return null;
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<CacheRow>("SELECT * FROM cache_entries WHERE kind = 'grid' AND key = ?", gridKey);
+    if (!row) return null;
+    const entry = toGridCacheEntry(row);
 
     // Check if cache is less than 6 hours old
-    const ageInHours = (Date.now() - entry.timestamp) / (1000 * 60 * 60);
-    if (ageInHours > 6) {
+    const ageInHours = hoursSince(entry.timestamp);
+    if (ageInHours > GRID_CACHE_HOURS) {
       console.log(`🗑️ Grid cache expired for ${gridKey} (${ageInHours.toFixed(1)}h old)`);
       // Clean up expired entry
-      delete cache[gridKey];
-      await AsyncStorage.setItem(GRID_CACHE_KEY, JSON.stringify(cache));
+      await db.runAsync("DELETE FROM cache_entries WHERE kind = 'grid' AND key = ?", gridKey);
       return null;
     }
 
@@ -345,11 +318,12 @@ export const getGridCachedResults = async (
 
     console.log(`💾 Grid cache HIT: ${gridKey} (${ageInHours.toFixed(1)}h old, ${entry.searchCount} searches)`);
 
-    // Increment search count for popularity tracking
-    entry.searchCount++;
-    entry.timestamp = Date.now(); // Refresh timestamp on use
-    cache[gridKey] = entry;
-    await AsyncStorage.setItem(GRID_CACHE_KEY, JSON.stringify(cache));
+    // Increment search count for popularity tracking, refresh timestamp on use
+    await db.runAsync(
+      "UPDATE cache_entries SET hits = hits + 1, cached_at = ? WHERE kind = 'grid' AND key = ?",
+      Date.now(),
+      gridKey
+    );
 
     return entry.places;
   } catch (error) {
@@ -358,9 +332,31 @@ export const getGridCachedResults = async (
   }
 };
 
+/**
+ * Grid cell entry of any age, without touching it
+ * Offline, expired results beat none - see offlineSearch.ts
+ */
+export const getGridCacheEntry = async (
+  lat: number,
+  lng: number,
+  category?: string
+): Promise<GridCacheEntry | null> => {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<CacheRow>(
+      "SELECT * FROM cache_entries WHERE kind = 'grid' AND key = ?",
+      getGridKey(lat, lng, 2, category)
+    );
+    return row ? toGridCacheEntry(row) : null;
+  } catch (error) {
+    console.error('Error loading grid cache:', error);
+    return null;
+  }
+};
+
 /**
  * Save results to grid cache
- * Automatically evicts old entries if cache grows too large (keeps top 100)
+ * Evicts the least searched cells past 100 - never the one just saved, which starts with the fewest searches
  */
 export const saveGridCachedResults = async (
   lat: number,
@@ -371,36 +367,33 @@ export const saveGridCachedResults = async (
 ): Promise<void> => {
   try {
     const gridKey = getGridKey(lat, lng, 2, category);
-    let cache: GridCache = {};
-
-    // Load existing cache
-    const json = await AsyncStorage.getItem(GRID_CACHE_KEY);
-    if (json) {
-      cache = JSON.parse(json);
-    }
+    const db = await getDatabase();
 
     // Add/update entry
-    cache[gridKey] = {
+    await db.runAsync(
+      `INSERT INTO cache_entries (kind, key, data, cached_at, hits) VALUES ('grid', ?, ?, ?, 1)
+       ON CONFLICT (kind, key) DO UPDATE SET data = excluded.data, cached_at = excluded.cached_at, hits = hits + 1`,
       gridKey,
-      places,
-      timestamp: Date.now(),
-      searchCount: cache[gridKey]?.searchCount ? cache[gridKey].searchCount + 1 : 1,
-      category,
-      query,
-    };
+      JSON.stringify({ places, category, query }),
+      Date.now()
+    );
 
-    // Evict old entries if cache too large (keep top 100 by search count)
-    const entries = Object.values(cache);
-    if (entries.length > 100) {
-      // Sort by searchCount (descending) and keep top 100
-      const sorted = entries.sort((a, b) => b.searchCount - a.searchCount);
-      const top100 = sorted.slice(0, 100);
-      cache = Object.fromEntries(top100.map(e => [e.gridKey, e]));
-      console.log(`🗑️ Evicted ${entries.length - 100} old grid cache entries (LRU)`);
+    // Evict old entries if cache too large: keep the top 99 by search count + the entry just saved
+    // (a new cell has the lowest count and would otherwise be evicted immediately)
+    const { changes } = await db.runAsync(
+      `DELETE FROM cache_entries WHERE kind = 'grid' AND key != ? AND key NOT IN (
+         SELECT key FROM cache_entries WHERE kind = 'grid' AND key != ? ORDER BY hits DESC LIMIT ?
+       )`,
+      gridKey,
+      gridKey,
+      MAX_GRID_CELLS - 1
+    );
+    if (changes > 0) {
+      console.log(`🗑️ Evicted ${changes} old grid cache entries (LRU)`);
     }
 
-    await AsyncStorage.setItem(GRID_CACHE_KEY, JSON.stringify(cache));
-    console.log(`💾 Grid cache saved: ${gridKey} (${places.length} places, search #${cache[gridKey].searchCount})`);
+    const saved = await db.getFirstAsync<{ hits: number }>("SELECT hits FROM cache_entries WHERE kind = 'grid' AND key = ?", gridKey);
+    console.log(`💾 Grid cache saved: ${gridKey} (${places.length} places, search #${saved?.hits})`);
   } catch (error) {
     console.error('Error saving grid cache:', error);
   }
@@ -411,7 +404,8 @@ export const saveGridCachedResults = async (
  */
 export const clearGridCache = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(GRID_CACHE_KEY);
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM cache_entries WHERE kind = 'grid'");
     console.log('🗑️ Cleared all grid cache');
   } catch (error) {
     console.error('Error clearing grid cache:', error);
@@ -428,24 +422,17 @@ export const getGridCacheStats = async (): Promise<{
   newestEntry: number;
 }> => {
   try {
-    const json = await AsyncStorage.getItem(GRID_CACHE_KEY);
-    if (!json) {
-      return { totalCells: 0, totalSearches: 0, oldestEntry: 0, newestEntry: 0 };
-    }
-
-    const cache: GridCache = JSON.parse(json);
-    const entries = Object.values(cache);
-
-    const totalSearches = entries.reduce((sum, e) => sum + e.searchCount, 0);
-    const timestamps = entries.map(e => e.timestamp);
-    const oldestEntry = Math.min(...timestamps);
-    const newestEntry = Math.max(...timestamps);
+    const db = await getDatabase();
+    const stats = await db.getFirstAsync<{ cells: number; searches: number | null; oldest: number | null; newest: number | null }>(
+      `SELECT COUNT(*) AS cells, SUM(hits) AS searches, MIN(cached_at) AS oldest, MAX(cached_at) AS newest
+       FROM cache_entries WHERE kind = 'grid'`
+    );
 
     return {
-      totalCells: entries.length,
-      totalSearches,
-      oldestEntry,
-      newestEntry,
+      totalCells: stats?.cells || 0,
+      totalSearches: stats?.searches || 0,
+      oldestEntry: stats?.oldest || 0,
+      newestEntry: stats?.newest || 0,
     };
   } catch (error) {
     console.error('Error getting grid cache stats:', error);
@@ -0,0 +1,248 @@
+/**
+ * HTTP Transport with record/replay
+ *
+ * Every external API call goes through here so real responses can be recorded
+ * as fixtures and replayed deterministically - the full provider pipeline can
+ * then run offline in CI and in local development without spending quota.
+ *
+ * Modes (EXPO_PUBLIC_HTTP_MODE or setTransportMode()):
+ * - live: plain fetch (default)
+ * - record: call the API, then save the response as a fixture
+ * - replay: serve fixtures only - a missing fixture throws, it never hits the network
+ *
+ * Fixture keys never include API keys, so fixtures recorded with one key
+ * replay with any (dummy) key.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export type ApiService =
+  | 'foursquare'
+  | 'google-places'
+  | 'google-geocoding'
+  | 'overpass'
+  | 'nominatim'
+  | 'wikipedia'
+  | 'gemini';
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface Fixture {
+  key: string;
+  service: ApiService;
+  request: {
+    method: string;
+    url: string; // API keys redacted
+    body?: string;
+  };
+  response: RecordedResponse;
+  recordedAt: number;
+}
+
+/**
+ * Where fixtures live - AsyncStorage in the app, files in Node (see fixtureFileStore.ts)
+ */
+export interface FixtureStore {
+  get: (key: string) => Promise<Fixture | null>;
+  put: (fixture: Fixture) => Promise<void>;
+}
+
+const FIXTURE_KEY_PREFIX = '@vibecheck:http_fixture:';
+
+// Query params that carry credentials
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token'];
+
+/**
+ * Keep fixtures across app reloads (dev builds recording against real APIs)
+ */
+export const createAsyncStorageFixtureStore = (): FixtureStore => ({
+  get: async (key) => {
+    try {
+      const json = await AsyncStorage.getItem(`${FIXTURE_KEY_PREFIX}${key}`);
+      return json ? JSON.parse(json) : null;
+    } catch (error) {
+      console.error('Error reading fixture:', error);
+      return null;
+    }
+  },
+  put: async (fixture) => {
+    try {
+      await AsyncStorage.setItem(`${FIXTURE_KEY_PREFIX}${fixture.key}`, JSON.stringify(fixture));
+    } catch (error) {
+      console.error('Error saving fixture:', error);
+    }
+  },
+});
+
+export const createMemoryFixtureStore = (fixtures: Fixture[] = []): FixtureStore => {
+  const entries = new Map(fixtures.map(fixture => [fixture.key, fixture]));
+  return {
+    get: async (key) => entries.get(key) || null,
+    put: async (fixture) => {
+      entries.set(fixture.key, fixture);
+    },
+  };
+};
+
+const parseMode = (value?: string): TransportMode =>
+  value === 'record' || value === 'replay' ? value : 'live';
+
+let mode: TransportMode = parseMode(process.env.EXPO_PUBLIC_HTTP_MODE);
+let store: FixtureStore = createAsyncStorageFixtureStore();
+
+export const setTransportMode = (next: TransportMode): void => {
+  mode = next;
+};
+
+export const getTransportMode = (): TransportMode => mode;
+
+export const setFixtureStore = (next: FixtureStore): void => {
+  store = next;
+};
+
+/**
+ * Strip credentials from a URL so fixture keys are stable across API keys
+ */
+export const redactUrl = (url: string): string => {
+  const [base, query] = url.split('?');
+  if (!query) return url;
+
+  // Manual parsing - React Native's URLSearchParams doesn't implement delete()
+  const redacted = query
+    .split('&')
+    .filter(pair => !SECRET_PARAMS.includes(decodeURIComponent(pair.split('=')[0]).toLowerCase()))
+    .join('&');
+  return redacted ? `${base}?${redacted}` : base;
+};
+
+// djb2 - short, filename-safe keys
+const hash = (text: string): string => {
+  let value = 5381;
+  for (let i = 0; i < text.length; i++) {
+    value = ((value << 5) + value + text.charCodeAt(i)) | 0;
+  }
+  return (value >>> 0).toString(36);
+};
+
+export const getFixtureKey = (service: ApiService, method: string, url: string, body?: string): string =>
+  `${service}-${hash(`${method.toUpperCase()} ${redactUrl(url)}\n${body || ''}`)}`;
+
+/**
+ * Cancellation - searches pass an AbortSignal down to every request
+ */
+export const createAbortError = (): Error => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal | null): void => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+const toResponse = ({ status, headers, body }: RecordedResponse): Response =>
+  new Response(status === 204 ? null : body, { status, headers });
+
+const readHeaders = (response: Response): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  return headers;
+};
+
+const replayFixture = async (key: string, description: string): Promise<Fixture> => {
+  const fixture = await store.get(key);
+  if (!fixture) {
+    throw new Error(`No recorded fixture for ${description} (${key}) - run in record mode first`);
+  }
+  console.log(`📼 Replaying ${description}`);
+  return fixture;
+};
+
+/**
+ * fetch() replacement for external APIs
+ */
+export const httpFetch = async (service: ApiService, url: string, init: RequestInit = {}): Promise<Response> => {
+  const method = init.method || 'GET';
+  const body = typeof init.body === 'string' ? init.body : undefined;
+  const key = getFixtureKey(service, method, url, body);
+  const description = `${service} ${method} ${redactUrl(url)}`;
+
+  throwIfAborted(init.signal);
+
+  if (mode === 'replay') {
+    const fixture = await replayFixture(key, description);
+    throwIfAborted(init.signal);
+    return toResponse(fixture.response);
+  }
+
+  const response = await fetch(url, init);
+  if (mode === 'live') return response;
+
+  // Read a clone so the caller still gets an unread body
+  const recorded: RecordedResponse = {
+    status: response.status,
+    headers: readHeaders(response),
+    body: await response.clone().text(),
+  };
+  await store.put({
+    key,
+    service,
+    request: { method, url: redactUrl(url), body },
+    response: recorded,
+    recordedAt: Date.now(),
+  });
+  console.log(`🔴 Recorded ${description}`);
+
+  return response;
+};
+
+/**
+ * Record/replay for SDK clients that don't expose fetch (e.g. @google/genai)
+ * The result must be JSON-serializable - map SDK objects to plain data inside `call`
+ * Pass the AbortSignal to the SDK inside `call`; keep it out of `request` (it is the fixture key)
+ */
+export const recordCall = async <T,>(
+  service: ApiService,
+  request: unknown,
+  call: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const requestBody = JSON.stringify(request);
+  const key = getFixtureKey(service, 'CALL', service, requestBody);
+  const description = `${service} call`;
+
+  throwIfAborted(signal);
+
+  if (mode === 'replay') {
+    const fixture = await replayFixture(key, description);
+    throwIfAborted(signal);
+    return JSON.parse(fixture.response.body);
+  }
+
+  const result = await call();
+  // SDKs don't always reject on abort - drop the late result either way
+  throwIfAborted(signal);
+  if (mode === 'live') return result;
+
+  await store.put({
+    key,
+    service,
+    request: { method: 'CALL', url: service, body: requestBody },
+    response: { status: 200, headers: {}, body: JSON.stringify(result) },
+    recordedAt: Date.now(),
+  });
+  console.log(`🔴 Recorded ${description}`);
+
+  return result;
+};
@@ -0,0 +1,494 @@
+/**
+ * Trips
+ *
+ * A trip ties a destination and date range to the places found there: linked
+ * collections, notes, and the history entries from those dates - archived on
+ * the trip so a week away survives the 100-entry cap on general history.
+ * Trips live in the local database (see database.ts), so recording a search
+ * writes only that search's rows.
+ *
+ * Starting a trip pre-runs discovery for the destination into the grid cache
+ * (the same cells Discover reads) and pins the destination as the search
+ * center until the trip is unpinned.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Coordinates, HistoryEntry, Place, Trip } from '../types';
+import { getHistory } from './collections';
+import { deleteOrphanPlaces, getDatabase, insertPlaceIfMissing } from './database';
+import { geocodeLocation } from './geocoding';
+import { toDateKey } from './openingHours';
+import { getRecommendations } from './providers';
+import { DISCOVERY_SEARCHES } from './queryIntent';
+import { getGridCachedResults, getHiddenPlaces, isPlaceHidden, saveGridCachedResults } from './storage';
+import { isAbortError } from './transport';
+
+const PINNED_TRIP_KEY = '@vibecheck_pinned_trip';
+
+const MAX_TRIP_HISTORY = 500;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface TripInput {
+  destination: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  homeBase?: string;
+  notes?: string;
+}
+
+export interface TripDay {
+  date: string; // YYYY-MM-DD
+  entries: HistoryEntry[];
+}
+
+interface TripRow {
+  id: string;
+  destination: string;
+  destination_latitude: number;
+  destination_longitude: number;
+  start_date: string;
+  end_date: string;
+  home_base: string | null;
+  notes: string;
+  started_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface TripHistoryRow {
+  trip_id: string;
+  data: string;
+  viewed_at: number;
+  search_query: string | null;
+  location: string;
+}
+
+const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const isValidDateKey = (dateKey: string): boolean =>
+  DATE_KEY_PATTERN.test(dateKey) && toDateKey(parseDateKey(dateKey)) === dateKey;
+
+/**
+ * Whether a timestamp falls on one of the trip's days (local time)
+ */
+export const isDuringTrip = (trip: Pick<Trip, 'startDate' | 'endDate'>, timestamp: number): boolean => {
+  const dateKey = toDateKey(new Date(timestamp));
+  return dateKey >= trip.startDate && dateKey <= trip.endDate;
+};
+
+/**
+ * "May 28 – Jun 3" (or a single day)
+ */
+export const formatTripDates = (trip: Pick<Trip, 'startDate' | 'endDate'>): string => {
+  const format = (dateKey: string) =>
+    parseDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return trip.startDate === trip.endDate
+    ? format(trip.startDate)
+    : `${format(trip.startDate)} – ${format(trip.endDate)}`;
+};
+
+/**
+ * "Tue, May 28" - headers for a trip's days
+ */
+export const formatTripDay = (dateKey: string): string =>
+  parseDateKey(dateKey).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+/**
+ * Last day of a trip that starts on `startDate` and lasts `days` days
+ */
+export const getTripEndDate = (startDate: string, days: number): string => {
+  const end = parseDateKey(startDate);
+  end.setDate(end.getDate() + Math.max(1, days) - 1);
+  return toDateKey(end);
+};
+
+/**
+ * TRIPS
+ */
+
+const toTrip = (row: TripRow, collectionIds: string[], history: HistoryEntry[]): Trip => ({
+  id: row.id,
+  destination: row.destination,
+  destinationCoords: { latitude: row.destination_latitude, longitude: row.destination_longitude },
+  startDate: row.start_date,
+  endDate: row.end_date,
+  ...(row.home_base !== null && { homeBase: JSON.parse(row.home_base) }),
+  collectionIds,
+  notes: row.notes,
+  history,
+  ...(row.started_at !== null && { startedAt: row.started_at }),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toHistoryEntry = (row: TripHistoryRow): HistoryEntry => ({
+  place: JSON.parse(row.data),
+  viewedAt: row.viewed_at,
+  ...(row.search_query !== null && { searchQuery: row.search_query }),
+  location: row.location,
+});
+
+const getTrip = async (tripId: string): Promise<Trip | null> => {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<TripRow>('SELECT * FROM trips WHERE id = ?', tripId);
+  if (!row) return null;
+  const collections = await db.getAllAsync<{ collection_id: string }>(
+    'SELECT collection_id FROM trip_collections WHERE trip_id = ? ORDER BY position',
+    tripId
+  );
+  const history = await db.getAllAsync<TripHistoryRow>(
+    `SELECT trip_history.trip_id, places.data, trip_history.viewed_at, trip_history.search_query, trip_history.location
+     FROM trip_history JOIN places ON places.id = trip_history.place_id
+     WHERE trip_history.trip_id = ?
+     ORDER BY trip_history.viewed_at DESC`,
+    tripId
+  );
+  return toTrip(row, collections.map(link => link.collection_id), history.map(toHistoryEntry));
+};
+
+export const getTrips = async (): Promise<Trip[]> => {
+  try {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<TripRow>('SELECT * FROM trips ORDER BY created_at, rowid');
+    const collections = await db.getAllAsync<{ trip_id: string; collection_id: string }>(
+      'SELECT trip_id, collection_id FROM trip_collections ORDER BY position'
+    );
+    const history = await db.getAllAsync<TripHistoryRow>(
+      `SELECT trip_history.trip_id, places.data, trip_history.viewed_at, trip_history.search_query, trip_history.location
+       FROM trip_history JOIN places ON places.id = trip_history.place_id
+       ORDER BY trip_history.viewed_at DESC`
+    );
+    return rows.map(row => toTrip(
+      row,
+      collections.filter(link => link.trip_id === row.id).map(link => link.collection_id),
+      history.filter(entry => entry.trip_id === row.id).map(toHistoryEntry)
+    ));
+  } catch (error) {
+    console.error('Error loading trips:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a trip - geocodes the destination (and home base, near it)
+ * Throws when the dates are invalid or the destination can't be found
+ */
+export const createTrip = async (input: TripInput, signal?: AbortSignal): Promise<Trip> => {
+  const destination = input.destination.trim();
+  if (!destination) throw new Error('Enter a destination');
+  if (!isValidDateKey(input.startDate) || !isValidDateKey(input.endDate)) {
+    throw new Error('Dates should look like 2025-05-28');
+  }
+  if (input.endDate < input.startDate) throw new Error('The trip ends before it starts');
+
+  const geocoded = await geocodeLocation(destination, undefined, signal);
+  if (!geocoded) throw new Error(`Could not find ${destination}`);
+
+  const homeBaseLabel = input.homeBase?.trim();
+  const homeBase = homeBaseLabel
+    ? {
+        label: homeBaseLabel,
+        coords: (await geocodeLocation(homeBaseLabel, geocoded.coords, signal))?.coords,
+      }
+    : undefined;
+
+  const trip: Trip = {
+    id: `trip-${Date.now()}`,
+    destination,
+    destinationCoords: geocoded.coords,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    homeBase,
+    collectionIds: [],
+    notes: input.notes?.trim() || '',
+    history: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+
+  try {
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO trips (id, destination, destination_latitude, destination_longitude, start_date, end_date,
+         home_base, notes, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      trip.id,
+      trip.destination,
+      trip.destinationCoords.latitude,
+      trip.destinationCoords.longitude,
+      trip.startDate,
+      trip.endDate,
+      homeBase ? JSON.stringify(homeBase) : null,
+      trip.notes,
+      trip.createdAt,
+      trip.updatedAt
+    );
+    console.log(`✈️ Created trip: ${destination} (${trip.startDate} → ${trip.endDate})`);
+    return trip;
+  } catch (error) {
+    console.error('Error creating trip:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a trip's editable fields (notes, dates, home base)
+ */
+export const updateTrip = async (
+  tripId: string,
+  changes: Partial<Pick<Trip, 'notes' | 'startDate' | 'endDate' | 'homeBase'>>
+): Promise<Trip | null> => {
+  try {
+    const trip = await getTrip(tripId);
+    if (!trip) {
+      console.error(`Trip ${tripId} not found`);
+      return null;
+    }
+    const updated: Trip = { ...trip, ...changes, updatedAt: Date.now() };
+    const db = await getDatabase();
+    await db.runAsync(
+      'UPDATE trips SET notes = ?, start_date = ?, end_date = ?, home_base = ?, updated_at = ? WHERE id = ?',
+      updated.notes,
+      updated.startDate,
+      updated.endDate,
+      updated.homeBase ? JSON.stringify(updated.homeBase) : null,
+      updated.updatedAt,
+      tripId
+    );
+    return updated;
+  } catch (error) {
+    console.error('Error updating trip:', error);
+    return null;
+  }
+};
+
+export const deleteTrip = async (tripId: string): Promise<void> => {
+  try {
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM trip_history WHERE trip_id = ?', tripId);
+      await db.runAsync('DELETE FROM trip_collections WHERE trip_id = ?', tripId);
+      await db.runAsync('DELETE FROM trips WHERE id = ?', tripId);
+    });
+    await deleteOrphanPlaces(db);
+    if ((await AsyncStorage.getItem(PINNED_TRIP_KEY)) === tripId) {
+      await AsyncStorage.removeItem(PINNED_TRIP_KEY);
+    }
+    console.log(`Deleted trip ${tripId}`);
+  } catch (error) {
+    console.error('Error deleting trip:', error);
+  }
+};
+
+const setTripCollectionLinked = async (tripId: string, collectionId: string, linked: boolean): Promise<void> => {
+  try {
+    const db = await getDatabase();
+    if (!(await db.getFirstAsync('SELECT 1 FROM trips WHERE id = ?', tripId))) {
+      console.error(`Trip ${tripId} not found`);
+      return;
+    }
+    await db.runAsync('DELETE FROM trip_collections WHERE trip_id = ? AND collection_id = ?', tripId, collectionId);
+    if (linked) {
+      await db.runAsync(
+        `INSERT INTO trip_collections (trip_id, collection_id, position)
+         SELECT ?, ?, COALESCE(MAX(position) + 1, 0) FROM trip_collections WHERE trip_id = ?`,
+        tripId,
+        collectionId,
+        tripId
+      );
+    }
+    await db.runAsync('UPDATE trips SET updated_at = ? WHERE id = ?', Date.now(), tripId);
+  } catch (error) {
+    console.error('Error linking collection to trip:', error);
+  }
+};
+
+export const linkCollectionToTrip = (tripId: string, collectionId: string): Promise<void> =>
+  setTripCollectionLinked(tripId, collectionId, true);
+
+export const unlinkCollectionFromTrip = (tripId: string, collectionId: string): Promise<void> =>
+  setTripCollectionLinked(tripId, collectionId, false);
+
+/**
+ * TRIP HISTORY
+ */
+
+// Newest entry per place
+const mergeEntries = (entries: HistoryEntry[]): HistoryEntry[] => {
+  const byPlace = new Map<string, HistoryEntry>();
+  entries.forEach(entry => {
+    const existing = byPlace.get(entry.place.id);
+    if (!existing || entry.viewedAt > existing.viewedAt) byPlace.set(entry.place.id, entry);
+  });
+  return Array.from(byPlace.values()).sort((a, b) => b.viewedAt - a.viewedAt);
+};
+
+// Add the entries from the trip's dates to its archive - a place keeps its newest entry
+const archiveEntries = async (trip: Pick<Trip, 'id' | 'startDate' | 'endDate'>, entries: HistoryEntry[]): Promise<void> => {
+  const during = entries.filter(entry => isDuringTrip(trip, entry.viewedAt));
+  if (during.length === 0) return;
+
+  const db = await getDatabase();
+  await db.withTransactionAsync(async () => {
+    for (const entry of during) {
+      await insertPlaceIfMissing(db, entry.place);
+      await db.runAsync(
+        `INSERT INTO trip_history (trip_id, place_id, viewed_at, search_query, location) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (trip_id, place_id) DO UPDATE SET
+           viewed_at = excluded.viewed_at, search_query = excluded.search_query, location = excluded.location
+         WHERE excluded.viewed_at > trip_history.viewed_at`,
+        trip.id,
+        entry.place.id,
+        entry.viewedAt,
+        entry.searchQuery ?? null,
+        entry.location
+      );
+    }
+    await db.runAsync(
+      `DELETE FROM trip_history WHERE trip_id = ? AND place_id NOT IN (
+         SELECT place_id FROM trip_history WHERE trip_id = ? ORDER BY viewed_at DESC LIMIT ?
+       )`,
+      trip.id,
+      trip.id,
+      MAX_TRIP_HISTORY
+    );
+    await db.runAsync('UPDATE trips SET updated_at = ? WHERE id = ?', Date.now(), trip.id);
+  });
+  await deleteOrphanPlaces(db);
+};
+
+/**
+ * Archive discoveries on every trip whose dates cover them
+ * (called alongside addToHistory, which only keeps the last 100)
+ */
+export const recordTripHistory = async (
+  places: Place[],
+  searchQuery?: string,
+  location?: string
+): Promise<void> => {
+  try {
+    if (places.length === 0) return;
+    const viewedAt = Date.now();
+    const today = toDateKey(new Date(viewedAt));
+    const db = await getDatabase();
+    const current = await db.getAllAsync<Pick<TripRow, 'id' | 'start_date' | 'end_date'>>(
+      'SELECT id, start_date, end_date FROM trips WHERE start_date <= ? AND end_date >= ?',
+      today,
+      today
+    );
+    if (current.length === 0) return;
+
+    const entries = places.map(place => ({ place, viewedAt, searchQuery, location: location || 'Unknown' }));
+    for (const row of current) {
+      await archiveEntries({ id: row.id, startDate: row.start_date, endDate: row.end_date }, entries);
+    }
+  } catch (error) {
+    console.error('Error recording trip history:', error);
+  }
+};
+
+/**
+ * Everything seen during a trip - its archive plus general history from
+ * those dates - newest first, one entry per place
+ */
+export const getTripHistory = (trip: Trip, history: HistoryEntry[]): HistoryEntry[] =>
+  mergeEntries([...trip.history, ...history.filter(entry => isDuringTrip(trip, entry.viewedAt))]);
+
+/**
+ * Group entries (newest first) by the day they were seen
+ */
+export const groupHistoryByDay = (entries: HistoryEntry[]): TripDay[] => {
+  const days: TripDay[] = [];
+  entries.forEach(entry => {
+    const date = toDateKey(new Date(entry.viewedAt));
+    const day = days.find(d => d.date === date);
+    if (day) {
+      day.entries.push(entry);
+    } else {
+      days.push({ date, entries: [entry] });
+    }
+  });
+  return days;
+};
+
+/**
+ * PINNED TRIP (search center for Discover)
+ */
+
+export const getPinnedTrip = async (): Promise<Trip | null> => {
+  try {
+    const tripId = await AsyncStorage.getItem(PINNED_TRIP_KEY);
+    return tripId ? await getTrip(tripId) : null;
+  } catch (error) {
+    console.error('Error loading pinned trip:', error);
+    return null;
+  }
+};
+
+export const unpinTrip = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(PINNED_TRIP_KEY);
+    console.log('📌 Unpinned trip');
+  } catch (error) {
+    console.error('Error unpinning trip:', error);
+  }
+};
+
+/**
+ * Pre-run discovery for a destination into the grid cache
+ * Only keyless providers run, so starting a trip never spends paid searches.
+ * Cells that are already fresh are skipped; failed searches are left for
+ * Discover to retry. Returns how many cells hold results.
+ */
+const precacheDestination = async (coords: Coordinates, signal?: AbortSignal): Promise<number> => {
+  const { latitude, longitude } = coords;
+  const hiddenPlaces = await getHiddenPlaces();
+  let cached = 0;
+
+  for (const { category, radiusKm } of DISCOVERY_SEARCHES) {
+    const fresh = await getGridCachedResults(latitude, longitude, category);
+    if (fresh && fresh.length > 0) {
+      cached++;
+      continue;
+    }
+
+    try {
+      const data = await getRecommendations(coords, undefined, radiusKm, false, [], category ? [category] : [], null, signal, true);
+      const places = data.places.filter(place => !isPlaceHidden(place, hiddenPlaces));
+      if (places.length === 0) continue;
+      await saveGridCachedResults(latitude, longitude, places, category);
+      cached++;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`Error pre-caching ${category || 'all'} for trip:`, error);
+    }
+  }
+
+  return cached;
+};
+
+/**
+ * Start a trip: archive history already seen on its dates, pre-cache
+ * discovery for the destination, and pin it as the search center
+ */
+export const startTrip = async (tripId: string, signal?: AbortSignal): Promise<Trip> => {
+  const trip = await getTrip(tripId);
+  if (!trip) throw new Error(`Trip ${tripId} not found`);
+
+  const cells = await precacheDestination(trip.destinationCoords, signal);
+  console.log(`✈️ Pre-cached ${cells}/${DISCOVERY_SEARCHES.length} searches for ${trip.destination}`);
+
+  // The pre-cache can take a while - the trip may have been deleted or re-dated meanwhile
+  const current = await getTrip(tripId);
+  if (!current) throw new Error(`Trip ${tripId} not found`);
+  await archiveEntries(current, await getHistory());
+  const db = await getDatabase();
+  await db.runAsync('UPDATE trips SET started_at = ?, updated_at = ? WHERE id = ?', Date.now(), Date.now(), tripId);
+  await AsyncStorage.setItem(PINNED_TRIP_KEY, tripId);
+
+  const started = (await getTrip(tripId))!;
+  console.log(`📌 Pinned ${started.destination} as the search center`);
+  return started;
+};
@@ -1,11 +1,14 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearCachedResults, clearGridCache, clearPlaceDetailsCache } from './storage';
+import { getFavoriteCount } from './collections';
+import { readStore, VersionedStore, writeStore } from './migrations';
 
 export interface UsageStats {
   userId: string; // Anonymous device ID
   currentMonth: string; // YYYY-MM format
   searchCount: number;
   placeViewCount: number;
-  favoriteCount: number;
+  favoriteCount: number; // Saved places right now - read from favorites, not stored
   lastSearchAt: number;
   createdAt: number;
   totalSearchesAllTime: number;
@@ -17,8 +20,8 @@ export interface DailyUsage {
   placeViews: number;
 }
 
-const USAGE_STATS_KEY = '@usage_stats';
-const DAILY_USAGE_KEY = '@daily_usage';
+const USAGE_STATS_STORE: VersionedStore<UsageStats> = { key: '@usage_stats', version: 1 };
+const DAILY_USAGE_STORE: VersionedStore<DailyUsage[]> = { key: '@daily_usage', version: 1 };
 
 // Free tier limits
 export const FREE_TIER_LIMITS = {
@@ -56,37 +59,36 @@ const getCurrentMonth = (): string => {
 export const getUsageStats = async (): Promise<UsageStats> => {
   const userId = await getUserId();
   const currentMonth = getCurrentMonth();
+  const favoriteCount = await getFavoriteCount();
 
   try {
-    const statsJson = await AsyncStorage.getItem(USAGE_STATS_KEY);
-
-    if (statsJson) {
-      const stats: UsageStats = JSON.parse(statsJson);
+    const stats = await readStore(USAGE_STATS_STORE);
 
+    if (stats) {
       // Reset if new month
       if (stats.currentMonth !== currentMonth) {
-        return createNewMonthStats(userId, currentMonth, stats.totalSearchesAllTime);
+        return createNewMonthStats(userId, currentMonth, stats.totalSearchesAllTime, favoriteCount);
       }
 
-      return stats;
+      return { ...stats, favoriteCount };
     }
   } catch (error) {
     console.error('Error loading usage stats:', error);
   }
 
-  return createNewMonthStats(userId, currentMonth, 0);
+  return createNewMonthStats(userId, currentMonth, 0, favoriteCount);
 };
 
 /**
  * Create new month stats
  */
-const createNewMonthStats = (userId: string, currentMonth: string, totalSearches: number): UsageStats => {
+const createNewMonthStats = (userId: string, currentMonth: string, totalSearches: number, favoriteCount: number): UsageStats => {
   return {
     userId,
     currentMonth,
     searchCount: 0,
     placeViewCount: 0,
-    favoriteCount: 0,
+    favoriteCount,
     lastSearchAt: 0,
     createdAt: Date.now(),
     totalSearchesAllTime: totalSearches,
@@ -103,7 +105,7 @@ export const trackSearch = async (): Promise<UsageStats> => {
   stats.totalSearchesAllTime += 1;
   stats.lastSearchAt = Date.now();
 
-  await AsyncStorage.setItem(USAGE_STATS_KEY, JSON.stringify(stats));
+  await writeStore(USAGE_STATS_STORE, stats);
 
   // Also track daily usage
   await trackDailyUsage('search');
@@ -121,23 +123,12 @@ export const trackPlaceView = async (): Promise<void> => {
 
   stats.placeViewCount += 1;
 
-  await AsyncStorage.setItem(USAGE_STATS_KEY, JSON.stringify(stats));
+  await writeStore(USAGE_STATS_STORE, stats);
 
   // Also track daily usage
   await trackDailyUsage('placeView');
 };
 
-/**
- * Track favorite count
- */
-export const updateFavoriteCount = async (count: number): Promise<void> => {
-  const stats = await getUsageStats();
-
-  stats.favoriteCount = count;
-
-  await AsyncStorage.setItem(USAGE_STATS_KEY, JSON.stringify(stats));
-};
-
 /**
  * Check if user has exceeded free tier limits
  */
@@ -162,8 +153,7 @@ const trackDailyUsage = async (type: 'search' | 'placeView'): Promise<void> => {
   const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
 
   try {
-    const dailyJson = await AsyncStorage.getItem(DAILY_USAGE_KEY);
-    const dailyUsage: DailyUsage[] = dailyJson ? JSON.parse(dailyJson) : [];
+    const dailyUsage = (await readStore(DAILY_USAGE_STORE)) || [];
 
     // Find or create today's entry
     let todayEntry = dailyUsage.find(d => d.date === today);
@@ -185,7 +175,7 @@ const trackDailyUsage = async (type: 'search' | 'placeView'): Promise<void> => {
       .sort((a, b) => b.date.localeCompare(a.date))
       .slice(0, 30);
 
-    await AsyncStorage.setItem(DAILY_USAGE_KEY, JSON.stringify(last30Days));
+    await writeStore(DAILY_USAGE_STORE, last30Days);
   } catch (error) {
     console.error('Error tracking daily usage:', error);
   }
@@ -196,8 +186,7 @@ const trackDailyUsage = async (type: 'search' | 'placeView'): Promise<void> => {
  */
 export const getDailyUsage = async (): Promise<DailyUsage[]> => {
   try {
-    const dailyJson = await AsyncStorage.getItem(DAILY_USAGE_KEY);
-    return dailyJson ? JSON.parse(dailyJson) : [];
+    return (await readStore(DAILY_USAGE_STORE)) || [];
   } catch (error) {
     console.error('Error loading daily usage:', error);
     return [];
@@ -222,16 +211,16 @@ export const getWeeklySummary = async (): Promise<{ searches: number; placeViews
 
 /**
  * Reset usage stats (for testing)
- * Also clears all caches to ensure fresh data
+ * Also clears all caches to ensure fresh data - saved places are kept, and still counted
  */
 export const resetUsageStats = async (): Promise<void> => {
-  await AsyncStorage.removeItem(USAGE_STATS_KEY);
-  await AsyncStorage.removeItem(DAILY_USAGE_KEY);
+  await AsyncStorage.removeItem(USAGE_STATS_STORE.key);
+  await AsyncStorage.removeItem(DAILY_USAGE_STORE.key);
 
   // Also clear all caches so user sees fresh filtered results
-  await AsyncStorage.removeItem('@vibecheck:cached_results');
-  await AsyncStorage.removeItem('@vibecheck:cached_place_details');
-  await AsyncStorage.removeItem('@vibecheck:grid_cache');
+  await clearCachedResults();
+  await clearPlaceDetailsCache();
+  await clearGridCache();
 
   console.log('✅ Usage stats reset');
   console.log('🗑️ All caches cleared');
@@ -0,0 +1,476 @@
+/**
+ * Venue Filter Rules
+ *
+ * Declarative rules for dropping venues that aren't worth recommending
+ * (pharmacies, banks, big chains...). Each rule carries a reason so filtered
+ * venues can be explained. Rule sets are picked per region, and users can
+ * switch off rules or always allow a name (e.g. "I actually want Starbucks"),
+ * or add their own from a result ("hide this chain everywhere").
+ */
+
+import { Place, PlaceSource } from '../types';
+import { readStore, VersionedStore, writeStore } from './migrations';
+
+export type VenueRuleMatch =
+  | { type: 'name'; patterns: string[] } // Whole-word match, trailing * = prefix ("dry clean*")
+  | { type: 'chain'; names: string[] } // Venue name or Foursquare chain membership
+  | { type: 'foursquareCategoryId'; ids: string[] }
+  | { type: 'foursquarePrimaryCategoryId'; ids: string[] } // Primary category only
+  | { type: 'foursquareCategoryName'; keywords: string[]; except?: string[] } // Primary category only
+  | { type: 'googleType'; types: string[]; except?: string[] }
+  | { type: 'osmTag'; key: string; values: string[] };
+
+export interface VenueRule {
+  id: string;
+  reason: string; // Why venues matching this rule are filtered
+  match: VenueRuleMatch;
+  sources?: PlaceSource[]; // Only apply to these providers (default: all)
+}
+
+export interface VenueRuleSet {
+  id: string; // Region code, or 'default'
+  name: string;
+  rules: VenueRule[];
+}
+
+/**
+ * Raw provider data a rule can look at - providers fill what they have
+ */
+export interface VenueFacts {
+  name: string;
+  source: PlaceSource;
+  foursquareCategoryIds?: string[];
+  foursquarePrimaryCategoryId?: string;
+  foursquarePrimaryCategory?: string;
+  chains?: string[]; // Foursquare chain names
+  googleTypes?: string[];
+  osmTags?: Record<string, string | undefined>;
+}
+
+export interface VenueRulePreferences {
+  region?: string; // Rule set ID - defaults to the device region
+  disabledRuleIds: string[];
+  allowedNames: string[]; // Always allowed, even if a rule matches
+  customRules: VenueRule[];
+}
+
+/**
+ * Rules resolved for one search (rule set + user preferences)
+ */
+export interface ActiveVenueRules {
+  rules: VenueRule[];
+  allowedNames: string[];
+}
+
+// Non-hospitality venues - shared by every region
+const CORE_RULES: VenueRule[] = [
+  {
+    id: 'pharmacy',
+    reason: 'Pharmacy',
+    match: { type: 'name', patterns: ['cvs', 'walgreens', 'pharmacy', 'drugstore', 'rite aid'] },
+  },
+  {
+    id: 'grocery',
+    reason: 'Grocery store',
+    match: {
+      type: 'name',
+      patterns: ['market basket', 'grocery', 'supermarket', 'walmart', 'target', 'safeway', 'whole foods', 'stop & shop', 'trader joe*'],
+    },
+  },
+  {
+    id: 'retail',
+    reason: 'Retail store',
+    match: { type: 'name', patterns: ['homegoods', 'home goods', 'tj maxx', 'tjmaxx', 'marshalls', 'ross dress for less'] },
+  },
+  {
+    id: 'butcher',
+    reason: 'Butcher / fish market',
+    match: { type: 'name', patterns: ['butcher*', 'meat market', 'fish market'] },
+  },
+  {
+    // Brand names like "BP" or "Shell" match too many venues - gas stations are caught by category below
+    id: 'gas-station',
+    reason: 'Gas station',
+    match: { type: 'name', patterns: ['gas station', 'chevron', 'exxon', '7-eleven'] },
+  },
+  {
+    id: 'bank',
+    reason: 'Bank / ATM',
+    match: { type: 'name', patterns: ['bank of america', 'chase bank', 'wells fargo', 'citibank', 'atm'] },
+  },
+  {
+    id: 'medical',
+    reason: 'Medical facility',
+    match: { type: 'name', patterns: ['clinic', 'hospital', 'urgent care', 'medical center'] },
+  },
+  {
+    id: 'postal',
+    reason: 'Shipping / post office',
+    match: { type: 'name', patterns: ['post office', 'usps', 'fedex', 'ups'] },
+  },
+  {
+    id: 'services',
+    reason: 'Local service',
+    match: { type: 'name', patterns: ['laundromat', 'dry clean*', 'car wash', 'tuxedo', 'tux rental', 'formal wear'] },
+  },
+  {
+    id: 'wholesale',
+    reason: 'Wholesale supplier',
+    match: { type: 'name', patterns: ['restaurant depot', 'restaurant supply', 'food service supply', 'wholesale'] },
+  },
+  {
+    id: 'automotive',
+    reason: 'Automotive',
+    match: { type: 'name', patterns: ['auto', 'car dealer*', 'service center'] },
+  },
+  {
+    id: 'paintball-laser-tag',
+    reason: 'Paintball / laser tag',
+    match: { type: 'name', patterns: ['paintball', 'laser tag'] },
+    sources: ['foursquare'],
+  },
+  {
+    id: 'foursquare-non-hospitality-category',
+    reason: 'Non-hospitality Foursquare category',
+    match: {
+      type: 'foursquareCategoryId',
+      ids: [
+        '4bf58dd8d48988d1fc941735', // Home & Garden Store
+        '4bf58dd8d48988d1fd941735', // Clothing Store
+        '4bf58dd8d48988d1fe941735', // Department Store
+        '52f2ab2ebcbc57f1066b8b42', // Butcher
+        '4bf58dd8d48988d10c951735', // Grocery Store
+        '4d954b0ea243a5684a65b473', // Automotive Shop
+        '4bf58dd8d48988d1e2941735', // Gas Station
+        '4bf58dd8d48988d10a951735', // Bank
+        '4bf58dd8d48988d196941735', // Sporting Goods Shop
+      ],
+    },
+  },
+  {
+    // "farmers market" and "food market" are food-focused, so they stay
+    id: 'foursquare-retail-category',
+    reason: 'Retail Foursquare category',
+    match: {
+      type: 'foursquareCategoryName',
+      keywords: [
+        'store', 'shop', 'market', 'retail', 'clothing', 'apparel', 'furniture',
+        'hardware', 'automotive', 'sporting goods', 'department', 'discount',
+        'pharmacy', 'drugstore', 'grocery', 'supermarket', 'bank', 'atm',
+        'gas station', 'service station', 'medical', 'hospital', 'clinic'
+      ],
+      except: ['food', 'farmers'],
+    },
+  },
+  {
+    id: 'google-non-hospitality-type',
+    reason: 'Non-hospitality Google place type',
+    match: {
+      type: 'googleType',
+      types: [
+        'gas_station', 'bank', 'atm', 'pharmacy', 'drugstore', 'hospital', 'doctor',
+        'supermarket', 'grocery_store', 'car_dealer', 'car_repair', 'car_wash',
+        'post_office', 'laundry', 'department_store', 'clothing_store', 'hardware_store'
+      ],
+      except: ['restaurant', 'cafe', 'bar', 'bakery', 'meal_takeaway'], // e.g. a cafe inside a department store
+    },
+  },
+  {
+    id: 'osm-non-hospitality-amenity',
+    reason: 'Non-hospitality OSM amenity',
+    match: { type: 'osmTag', key: 'amenity', values: ['fuel', 'bank', 'atm', 'pharmacy', 'hospital', 'clinic', 'car_wash'] },
+  },
+];
+
+// Chains that show up everywhere
+const GLOBAL_CHAINS = [
+  'mcdonalds', 'mcdonald\'s', 'burger king', 'kfc', 'starbucks', 'subway',
+  'pizza hut', 'dominos', 'domino\'s', 'taco bell'
+];
+
+const US_CHAINS = [
+  ...GLOBAL_CHAINS,
+  'wendy\'s', 'wendys', 'dunkin', 'dunkin donuts', 'popeyes', 'chipotle',
+  'panera bread', 'five guys', 'chick-fil-a', 'chick fil a',
+  'sonic drive-in', 'sonic', 'arby\'s', 'arbys',
+  'papa john\'s', 'papa johns', 'applebee\'s', 'applebees', 'olive garden', 'red lobster',
+  'chili\'s', 'chilis', 'outback steakhouse', 'buffalo wild wings',
+  'ihop', 'denny\'s', 'dennys', 'waffle house',
+  'panda express', 'dairy queen', 'tgi fridays', 'tgi friday\'s',
+  'texas roadhouse'
+];
+
+const GB_CHAINS = [
+  ...GLOBAL_CHAINS,
+  'greggs', 'pret a manger', 'costa coffee', 'caffe nero', 'wetherspoon', 'harvester', 'toby carvery'
+];
+
+const chainRule = (names: string[]): VenueRule => ({
+  id: 'chains',
+  reason: 'Chain restaurant - prioritizing local favorites',
+  match: { type: 'chain', names },
+});
+
+export const VENUE_RULE_SETS: VenueRuleSet[] = [
+  { id: 'US', name: 'United States', rules: [...CORE_RULES, chainRule(US_CHAINS)] },
+  { id: 'GB', name: 'United Kingdom', rules: [...CORE_RULES, chainRule(GB_CHAINS)] },
+  { id: 'default', name: 'International', rules: [...CORE_RULES, chainRule(GLOBAL_CHAINS)] },
+];
+
+const DEFAULT_PREFERENCES: VenueRulePreferences = {
+  disabledRuleIds: [],
+  allowedNames: [],
+  customRules: [],
+};
+
+const VENUE_RULE_PREFS_STORE: VersionedStore<VenueRulePreferences> = {
+  key: '@vibecheck:venue_rule_prefs',
+  version: 1,
+};
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/’/g, '\'').trim();
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whole-word pattern match - "ross" no longer matches "Rossini's", "bp" no longer matches "bpm"
+ */
+export const matchesNamePattern = (name: string, pattern: string): boolean => {
+  const normalizedPattern = normalize(pattern);
+  const isPrefix = normalizedPattern.endsWith('*');
+  const body = escapeRegExp(isPrefix ? normalizedPattern.slice(0, -1) : normalizedPattern);
+  const regex = new RegExp(`(^|[^a-z0-9])${body}${isPrefix ? '' : '(?=$|[^a-z0-9])'}`);
+  return regex.test(normalize(name));
+};
+
+const matchesRule = (facts: Omit<VenueFacts, 'source'>, match: VenueRuleMatch): boolean => {
+  switch (match.type) {
+    case 'name':
+      return match.patterns.some(pattern => matchesNamePattern(facts.name, pattern));
+    case 'chain':
+      return match.names.some(chain =>
+        matchesNamePattern(facts.name, chain) ||
+        (facts.chains || []).some(chainName => matchesNamePattern(chainName, chain))
+      );
+    case 'foursquareCategoryId':
+      return (facts.foursquareCategoryIds || []).some(id => match.ids.includes(id));
+    case 'foursquarePrimaryCategoryId':
+      return !!facts.foursquarePrimaryCategoryId && match.ids.includes(facts.foursquarePrimaryCategoryId);
+    case 'foursquareCategoryName': {
+      const category = normalize(facts.foursquarePrimaryCategory || '');
+      if (!category) return false;
+      if ((match.except || []).some(word => category.includes(word))) return false;
+      return match.keywords.some(keyword => category.includes(keyword));
+    }
+    case 'googleType': {
+      const types = facts.googleTypes || [];
+      if ((match.except || []).some(type => types.includes(type))) return false;
+      return types.some(type => match.types.includes(type));
+    }
+    case 'osmTag': {
+      const value = facts.osmTags?.[match.key];
+      return !!value && match.values.includes(value);
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Would this rule have filtered a place we already have? (checks what the Place kept of the provider data)
+ * Used to drop on-screen results as soon as the user adds a rule
+ */
+export const placeMatchesRule = (place: Place, rule: VenueRule): boolean =>
+  matchesRule(
+    {
+      name: place.name,
+      chains: place.chain ? [place.chain] : [],
+      foursquareCategoryIds: place.foursquareCategory ? [place.foursquareCategory.id] : [],
+      foursquarePrimaryCategoryId: place.foursquareCategory?.id,
+      foursquarePrimaryCategory: place.foursquareCategory?.name,
+    },
+    rule.match
+  );
+
+/**
+ * Check a place we already have (e.g. from a cache) against the active rules
+ */
+export const isPlaceAllowed = (place: Place, active: ActiveVenueRules): boolean => {
+  if (active.allowedNames.some(allowed => matchesNamePattern(place.name, allowed))) return true;
+  const sources = place.sources || (place.source ? [place.source] : []);
+  return !active.rules.some(rule =>
+    (!rule.sources || rule.sources.some(source => sources.includes(source))) && placeMatchesRule(place, rule)
+  );
+};
+
+/**
+ * Find the first rule that filters this venue (null = keep it)
+ */
+export const findBlockingRule = (facts: VenueFacts, active: ActiveVenueRules): VenueRule | null => {
+  if (active.allowedNames.some(allowed => matchesNamePattern(facts.name, allowed))) {
+    return null;
+  }
+
+  return active.rules.find(rule =>
+    (!rule.sources || rule.sources.includes(facts.source)) && matchesRule(facts, rule.match)
+  ) || null;
+};
+
+/**
+ * Check a venue against the active rules, logging the reason when it's filtered
+ */
+export const isVenueAllowed = (facts: VenueFacts, active: ActiveVenueRules): boolean => {
+  const rule = findBlockingRule(facts, active);
+  if (rule) {
+    console.log(`🏢 Filtering ${facts.name}: ${rule.reason}`);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Rule set for the device region (e.g. en-GB → GB), falling back to 'default'
+ */
+export const getDeviceRuleSetId = (): string => {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    const region = locale.split('-').pop()?.toUpperCase();
+    return VENUE_RULE_SETS.some(set => set.id === region) ? region! : 'default';
+  } catch {
+    return 'default';
+  }
+};
+
+export const getVenueRuleSet = (id: string): VenueRuleSet =>
+  VENUE_RULE_SETS.find(set => set.id === id) || VENUE_RULE_SETS.find(set => set.id === 'default')!;
+
+// PREFERENCES
+export const getVenueRulePreferences = async (): Promise<VenueRulePreferences> => {
+  try {
+    const stored = await readStore(VENUE_RULE_PREFS_STORE);
+    return stored ? { ...DEFAULT_PREFERENCES, ...stored } : DEFAULT_PREFERENCES;
+  } catch (error) {
+    console.error('Error getting venue rule preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const saveVenueRulePreferences = async (prefs: VenueRulePreferences): Promise<void> => {
+  try {
+    await writeStore(VENUE_RULE_PREFS_STORE, prefs);
+  } catch (error) {
+    console.error('Error saving venue rule preferences:', error);
+  }
+};
+
+export const setVenueRuleRegion = async (region: string): Promise<void> => {
+  const prefs = await getVenueRulePreferences();
+  await saveVenueRulePreferences({ ...prefs, region });
+};
+
+export const setVenueRuleEnabled = async (ruleId: string, enabled: boolean): Promise<void> => {
+  const prefs = await getVenueRulePreferences();
+  const disabledRuleIds = prefs.disabledRuleIds.filter(id => id !== ruleId);
+  if (!enabled) disabledRuleIds.push(ruleId);
+  await saveVenueRulePreferences({ ...prefs, disabledRuleIds });
+};
+
+export const addAllowedVenueName = async (name: string): Promise<void> => {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+
+  const prefs = await getVenueRulePreferences();
+  if (prefs.allowedNames.some(allowed => normalize(allowed) === normalize(trimmed))) return;
+  await saveVenueRulePreferences({ ...prefs, allowedNames: [...prefs.allowedNames, trimmed] });
+};
+
+export const removeAllowedVenueName = async (name: string): Promise<void> => {
+  const prefs = await getVenueRulePreferences();
+  await saveVenueRulePreferences({
+    ...prefs,
+    allowedNames: prefs.allowedNames.filter(allowed => allowed !== name),
+  });
+};
+
+/**
+ * Add (or replace, by ID) one of the user's own rules - switched on
+ */
+export const addCustomVenueRule = async (rule: VenueRule): Promise<void> => {
+  const prefs = await getVenueRulePreferences();
+  await saveVenueRulePreferences({
+    ...prefs,
+    disabledRuleIds: prefs.disabledRuleIds.filter(id => id !== rule.id),
+    customRules: [...prefs.customRules.filter(custom => custom.id !== rule.id), rule],
+  });
+  console.log(`🏢 Added venue rule: ${rule.reason}`);
+};
+
+export const removeCustomVenueRule = async (ruleId: string): Promise<void> => {
+  const prefs = await getVenueRulePreferences();
+  await saveVenueRulePreferences({
+    ...prefs,
+    disabledRuleIds: prefs.disabledRuleIds.filter(id => id !== ruleId),
+    customRules: prefs.customRules.filter(custom => custom.id !== ruleId),
+  });
+};
+
+const toRuleIdPart = (text: string): string =>
+  normalize(text).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * A rule added from a result, with the preferences from before - saving them undoes the change
+ */
+export interface VenueRuleChange {
+  rule: VenueRule;
+  previous: VenueRulePreferences;
+}
+
+/**
+ * Hide a chain in every region and from every provider (by venue name, and Foursquare chain membership)
+ * An "always allow" for the same name would keep it showing, so it's dropped
+ */
+export const hideChain = async (chain: string): Promise<VenueRuleChange> => {
+  const previous = await getVenueRulePreferences();
+  const rule: VenueRule = {
+    id: `hidden-chain-${toRuleIdPart(chain)}`,
+    reason: `Hidden chain: ${chain}`,
+    match: { type: 'chain', names: [chain] },
+  };
+  await addCustomVenueRule(rule);
+
+  const prefs = await getVenueRulePreferences();
+  const allowedNames = prefs.allowedNames.filter(allowed => normalize(allowed) !== normalize(chain));
+  if (allowedNames.length !== prefs.allowedNames.length) {
+    await saveVenueRulePreferences({ ...prefs, allowedNames });
+  }
+  return { rule, previous };
+};
+
+/**
+ * Hide every venue whose primary Foursquare category is this one
+ */
+export const hideFoursquareCategory = async (category: { id: string; name: string }): Promise<VenueRuleChange> => {
+  const previous = await getVenueRulePreferences();
+  const rule: VenueRule = {
+    id: `hidden-foursquare-category-${category.id}`,
+    reason: `Hidden Foursquare category: ${category.name}`,
+    match: { type: 'foursquarePrimaryCategoryId', ids: [category.id] },
+  };
+  await addCustomVenueRule(rule);
+  return { rule, previous };
+};
+
+/**
+ * Resolve the rules for a search: region rule set + custom rules, minus disabled ones
+ */
+export const loadActiveVenueRules = async (): Promise<ActiveVenueRules> => {
+  const prefs = await getVenueRulePreferences();
+  const ruleSet = getVenueRuleSet(prefs.region || getDeviceRuleSetId());
+
+  return {
+    rules: [...ruleSet.rules, ...prefs.customRules].filter(rule => !prefs.disabledRuleIds.includes(rule.id)),
+    allowedNames: prefs.allowedNames,
+  };
+};
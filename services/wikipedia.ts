@@ -1,23 +1,418 @@
+/**
+ * Wikipedia / Wikidata Enrichment
+ *
+ * Resolves a place to its Wikipedia article and Wikidata entity, then pulls the
+ * intro, founding year, official website, heritage designations and Commons
+ * photos (with licenses) for the "About" section in PlacePopup.
+ *
+ * Matching is by location first: an OSM wikidata tag, then articles geotagged
+ * near the venue, then a name search that only accepts geotagged articles close
+ * by. A restaurant named after a famous person never matches the person's article.
+ *
+ * searchNearbyArticles() runs the other way - geotagged articles around a point,
+ * for the Wikipedia sights provider (services/providers/wikipedia.ts).
+ */
+
+import { Coordinates, Place } from '../types';
+import { getDistanceMeters } from './geo';
+import { nameSimilarity } from './providers/merge';
+import { httpFetch, isAbortError, throwIfAborted } from './transport';
+
+// origin=* is required for CORS to work directly from browser
+const WIKIPEDIA_API_URL = 'https://en.wikipedia.org/w/api.php';
+const WIKIDATA_API_URL = 'https://www.wikidata.org/w/api.php';
+const COMMONS_API_URL = 'https://commons.wikimedia.org/w/api.php';
+
+const GEOSEARCH_RADIUS_METERS = 300;
+const MAX_GEOSEARCH_RADIUS_METERS = 10000; // API limit
+const MAX_NEARBY_ARTICLES = 20; // Extracts are limited to 20 pages per request
+const NAME_SEARCH_MAX_DISTANCE_METERS = 1000;
+const MIN_NAME_SIMILARITY = 0.8;
+const MAX_IMAGES = 5;
+const IMAGE_WIDTH = 800;
+
+// Article images that aren't photos of the place
+const NON_PHOTO = /(logo|icon|flag|map|locator|symbol|coat.of.arms|signature|seal)/i;
+const PHOTO_FILE = /\.(jpe?g|png|webp)$/i;
+
+// {{coord}} types that are areas or infrastructure, not sights
+const NON_SIGHT_COORD_TYPES = [
+  'country', 'state', 'adm1st', 'adm2nd', 'adm3rd', 'city', 'railwaystation', 'airport', 'edu', 'event',
+];
+
+// Wikidata properties
+const INSTANCE_OF = 'P31';
+const COORDINATES = 'P625';
+const INCEPTION = 'P571';
+const OFFICIAL_OPENING = 'P1619';
+const OFFICIAL_WEBSITE = 'P856';
+const HERITAGE_DESIGNATION = 'P1435';
+const IMAGE = 'P18';
+
+export interface CommonsImage {
+  url: string; // Thumbnail, IMAGE_WIDTH wide
+  title: string; // "File:Eiffel Tower.jpg"
+  license?: string; // "CC BY-SA 4.0"
+  artist?: string; // Plain text author credit
+  descriptionUrl: string; // Commons file page (attribution link)
+}
+
+export interface NearbyArticle {
+  pageId: number;
+  title: string;
+  articleUrl: string;
+  location: Coordinates; // Wikidata coordinates when available, else the article's
+  extract?: string; // Intro, plain text
+  thumbnail?: string;
+  length: number; // Article size in bytes - a rough notability signal
+  wikidataId?: string;
+  instanceOf: string[]; // Wikidata item IDs ("Q33506" = museum)
+  isHeritage: boolean; // Has a heritage designation
+  website?: string;
+}
+
+export interface WikiEnrichment {
+  title: string; // Wikipedia article title
+  articleUrl: string;
+  wikidataId?: string; // "Q243"
+  extract?: string; // Intro paragraph(s), plain text
+  foundedYear?: number; // Negative for BC
+  website?: string;
+  heritage: string[]; // e.g. ["World Heritage Site", "monument historique classé"]
+  images: CommonsImage[];
+}
+
+const enrichmentCache = new Map<string, WikiEnrichment | null>();
+
+const buildUrl = (base: string, params: Record<string, string>): string =>
+  `${base}?${new URLSearchParams({ format: 'json', origin: '*', ...params }).toString()}`;
+
+const getJson = async (base: string, params: Record<string, string>, signal?: AbortSignal): Promise<any> => {
+  const response = await httpFetch('wikipedia', buildUrl(base, params), { signal });
+  if (!response.ok) throw new Error(`Wikimedia API error: ${response.status}`);
+  return response.json();
+};
+
+// "Central Park (Manhattan)" → "Central Park"
+export const stripDisambiguation = (title: string): string => title.replace(/\s*\([^)]*\)$/, '');
+
+const isNameMatch = (placeName: string, title: string): boolean =>
+  nameSimilarity(placeName, stripDisambiguation(title)) >= MIN_NAME_SIMILARITY;
+
+/**
+ * Article geotagged near the place with a matching name
+ */
+const findArticleByCoordinates = async (place: Place, signal?: AbortSignal): Promise<string | null> => {
+  const data = await getJson(WIKIPEDIA_API_URL, {
+    action: 'query',
+    list: 'geosearch',
+    gscoord: `${place.location.latitude}|${place.location.longitude}`,
+    gsradius: `${GEOSEARCH_RADIUS_METERS}`,
+    gslimit: '50',
+  }, signal);
+
+  // Results are sorted by distance - the closest match wins
+  const results: Array<{ title: string }> = data.query?.geosearch || [];
+  return results.find(result => isNameMatch(place.name, result.title))?.title || null;
+};
+
+/**
+ * Article found by name, accepted only if it is geotagged close to the place
+ */
+const findArticleByName = async (place: Place, signal?: AbortSignal): Promise<string | null> => {
+  const data = await getJson(WIKIPEDIA_API_URL, {
+    action: 'query',
+    generator: 'search',
+    gsrsearch: place.name,
+    gsrnamespace: '0',
+    gsrlimit: '5',
+    prop: 'coordinates',
+  }, signal);
+
+  const pages: any[] = Object.values(data.query?.pages || {});
+  const match = pages
+    .sort((a, b) => a.index - b.index)
+    .find(page => {
+      const coords = page.coordinates?.[0];
+      if (!coords || !isNameMatch(place.name, page.title)) return false;
+      const articleLocation: Coordinates = { latitude: coords.lat, longitude: coords.lon };
+      return getDistanceMeters(place.location, articleLocation) <= NAME_SEARCH_MAX_DISTANCE_METERS;
+    });
+  return match?.title || null;
+};
+
+/**
+ * English article title for a Wikidata entity
+ */
+const findArticleByWikidataId = async (wikidataId: string, signal?: AbortSignal): Promise<string | null> => {
+  const data = await getJson(WIKIDATA_API_URL, {
+    action: 'wbgetentities',
+    ids: wikidataId,
+    props: 'sitelinks',
+    sitefilter: 'enwiki',
+  }, signal);
+  return data.entities?.[wikidataId]?.sitelinks?.enwiki?.title || null;
+};
+
+/**
+ * Claim values for a property, preferred rank first, deprecated ones dropped
+ */
+const getClaimValues = (entity: any, property: string): any[] =>
+  ((entity?.claims?.[property] || []) as any[])
+    .filter(claim => claim.rank !== 'deprecated' && claim.mainsnak?.datavalue)
+    .sort((a, b) => (b.rank === 'preferred' ? 1 : 0) - (a.rank === 'preferred' ? 1 : 0))
+    .map(claim => claim.mainsnak.datavalue.value);
+
+/**
+ * Year from a Wikidata time value ("+1889-03-31T00:00:00Z" → 1889, "-0300-..." → -300)
+ */
+export const parseWikidataYear = (time?: string): number | undefined => {
+  const match = time?.match(/^([+-])(\d+)-/);
+  if (!match) return undefined;
+  const year = parseInt(match[2], 10);
+  return match[1] === '-' ? -year : year;
+};
+
+export const formatFoundedYear = (year: number): string => (year < 0 ? `${-year} BC` : `${year}`);
+
+// Commons extmetadata values can contain HTML (links around the author's name)
+const stripHtml = (html?: string): string | undefined => {
+  const text = html?.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+/**
+ * Thumbnail URLs and license metadata for Commons files
+ * Files that only exist on Wikipedia (fair use) have no Commons imageinfo and are skipped
+ */
+const fetchCommonsImages = async (titles: string[], signal?: AbortSignal): Promise<CommonsImage[]> => {
+  if (titles.length === 0) return [];
+
+  const data = await getJson(COMMONS_API_URL, {
+    action: 'query',
+    titles: titles.join('|'),
+    prop: 'imageinfo',
+    iiprop: 'url|extmetadata',
+    iiurlwidth: `${IMAGE_WIDTH}`,
+  }, signal);
+
+  const pages: any[] = Object.values(data.query?.pages || {});
+  const byTitle = new Map(pages.map(page => [page.title, page]));
+
+  // Keep the requested order (the Wikidata image first)
+  return titles
+    .map(title => byTitle.get(title))
+    .filter(page => page?.imageinfo?.[0])
+    .map(page => {
+      const info = page.imageinfo[0];
+      const metadata = info.extmetadata || {};
+      return {
+        url: info.thumburl || info.url,
+        title: page.title,
+        license: stripHtml(metadata.LicenseShortName?.value),
+        artist: stripHtml(metadata.Artist?.value),
+        descriptionUrl: info.descriptionurl,
+      };
+    });
+};
+
+/**
+ * Labels for Wikidata items (heritage designations are items, not strings)
+ */
+const fetchLabels = async (ids: string[], signal?: AbortSignal): Promise<string[]> => {
+  if (ids.length === 0) return [];
+  const data = await getJson(WIKIDATA_API_URL, {
+    action: 'wbgetentities',
+    ids: ids.join('|'),
+    props: 'labels',
+    languages: 'en',
+  }, signal);
+  return ids
+    .map(id => data.entities?.[id]?.labels?.en?.value)
+    .filter((label): label is string => !!label);
+};
+
+/**
+ * Build the enrichment for a resolved article
+ */
+const fetchArticleEnrichment = async (title: string, signal?: AbortSignal): Promise<WikiEnrichment | null> => {
+  const data = await getJson(WIKIPEDIA_API_URL, {
+    action: 'query',
+    titles: title,
+    redirects: '1',
+    prop: 'extracts|pageprops|images|info',
+    exintro: '1',
+    explaintext: '1',
+    ppprop: 'wikibase_item',
+    imlimit: '50',
+    inprop: 'url',
+  }, signal);
+
+  const page: any = Object.values(data.query?.pages || {})[0];
+  if (!page || page.missing !== undefined) return null;
+
+  const wikidataId: string | undefined = page.pageprops?.wikibase_item;
+  let entity: any = null;
+  if (wikidataId) {
+    const entityData = await getJson(WIKIDATA_API_URL, {
+      action: 'wbgetentities',
+      ids: wikidataId,
+      props: 'claims',
+    }, signal);
+    entity = entityData.entities?.[wikidataId];
+  }
+
+  const founded = getClaimValues(entity, INCEPTION)[0] || getClaimValues(entity, OFFICIAL_OPENING)[0];
+  const heritageIds = getClaimValues(entity, HERITAGE_DESIGNATION).map(value => value.id).filter(Boolean);
+  const mainImage: string | undefined = getClaimValues(entity, IMAGE)[0];
+
+  // Wikidata's image first, then photos used in the article
+  const articleImages: string[] = (page.images || [])
+    .map((image: { title: string }) => image.title)
+    .filter((file: string) => PHOTO_FILE.test(file) && !NON_PHOTO.test(file));
+  const imageTitles = Array.from(new Set([
+    ...(mainImage ? [`File:${mainImage}`] : []),
+    ...articleImages,
+  ])).slice(0, MAX_IMAGES + 3); // A few spares for files missing from Commons
+
+  const [heritage, images] = await Promise.all([
+    fetchLabels(heritageIds, signal),
+    fetchCommonsImages(imageTitles, signal),
+  ]);
+
+  return {
+    title: page.title,
+    articleUrl: page.fullurl || `https://en.wikipedia.org/wiki/${encodeURIComponent(page.title.replace(/ /g, '_'))}`,
+    wikidataId,
+    extract: page.extract?.trim() || undefined,
+    foundedYear: parseWikidataYear(founded?.time),
+    website: getClaimValues(entity, OFFICIAL_WEBSITE)[0],
+    heritage,
+    images: images.slice(0, MAX_IMAGES),
+  };
+};
+
+/**
+ * Resolve a place to Wikipedia + Wikidata and fetch its "About" details
+ * Returns null when no article confidently matches the place
+ */
+export const fetchWikiEnrichment = async (place: Place, signal?: AbortSignal): Promise<WikiEnrichment | null> => {
+  if (enrichmentCache.has(place.id)) return enrichmentCache.get(place.id) || null;
 
-export const fetchWikiImage = async (query: string): Promise<string | null> => {
   try {
-    // Search for the page matches and get the main page image
-    // origin=* is required for CORS to work directly from browser
-    const endpoint = `https://en.wikipedia.org/w/api.php?action=query&format=json&origin=*&generator=search&gsrnamespace=0&gsrlimit=1&gsrsearch=${encodeURIComponent(query)}&prop=pageimages&pithumbsize=800`;
-    
-    const res = await fetch(endpoint);
-    const data = await res.json();
-    
-    if (data.query?.pages) {
-        const pages = Object.values(data.query.pages);
-        if (pages.length > 0) {
-            const page = pages[0] as any;
-            return page.thumbnail?.source || null;
-        }
+    let title: string | null = null;
+    if (place.wikidataId) {
+      title = await findArticleByWikidataId(place.wikidataId, signal);
     }
+    if (!title) title = await findArticleByCoordinates(place, signal);
+    if (!title) title = await findArticleByName(place, signal);
+
+    throwIfAborted(signal);
+    if (!title) {
+      console.log(`📖 No Wikipedia article for ${place.name}`);
+      enrichmentCache.set(place.id, null);
+      return null;
+    }
+
+    const enrichment = await fetchArticleEnrichment(title, signal);
+    console.log(`📖 Wikipedia: ${place.name} → ${enrichment?.title} (${enrichment?.images.length || 0} images)`);
+    enrichmentCache.set(place.id, enrichment);
+    return enrichment;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn('Wiki enrichment failed', error);
     return null;
-  } catch (err) {
-    console.warn("Wiki fetch failed", err);
-    return null;
+  }
+};
+
+/**
+ * Notable geotagged articles around a point, most substantial articles first
+ * Areas and infrastructure (cities, stations, schools) are dropped by coordinate type
+ */
+export const searchNearbyArticles = async (
+  center: Coordinates,
+  radiusMeters: number,
+  signal?: AbortSignal
+): Promise<NearbyArticle[]> => {
+  try {
+    const geo = await getJson(WIKIPEDIA_API_URL, {
+      action: 'query',
+      list: 'geosearch',
+      gscoord: `${center.latitude}|${center.longitude}`,
+      gsradius: `${Math.round(Math.min(radiusMeters, MAX_GEOSEARCH_RADIUS_METERS))}`,
+      gslimit: '50',
+      gsprop: 'type',
+    }, signal);
+
+    const results: Array<{ pageid: number; lat: number; lon: number; type?: string | null }> =
+      (geo.query?.geosearch || []).filter((result: any) => !NON_SIGHT_COORD_TYPES.includes(result.type));
+    if (results.length === 0) return [];
+
+    // Page sizes for all candidates, then full data for the most substantial ones
+    const info = await getJson(WIKIPEDIA_API_URL, {
+      action: 'query',
+      pageids: results.map(result => result.pageid).join('|'),
+      prop: 'info',
+    }, signal);
+    const lengths = new Map<number, number>(
+      Object.values(info.query?.pages || {}).map((page: any) => [page.pageid, page.length || 0])
+    );
+    const top = [...results]
+      .sort((a, b) => (lengths.get(b.pageid) || 0) - (lengths.get(a.pageid) || 0))
+      .slice(0, MAX_NEARBY_ARTICLES);
+
+    const data = await getJson(WIKIPEDIA_API_URL, {
+      action: 'query',
+      pageids: top.map(result => result.pageid).join('|'),
+      prop: 'extracts|pageprops|pageimages|info',
+      exintro: '1',
+      explaintext: '1',
+      exlimit: `${MAX_NEARBY_ARTICLES}`,
+      ppprop: 'wikibase_item',
+      piprop: 'thumbnail',
+      pithumbsize: `${IMAGE_WIDTH}`,
+      inprop: 'url',
+    }, signal);
+    const pages = new Map<number, any>(Object.values(data.query?.pages || {}).map((page: any) => [page.pageid, page]));
+
+    const wikidataIds = Array.from(pages.values())
+      .map(page => page.pageprops?.wikibase_item)
+      .filter((id): id is string => !!id);
+    const entities = wikidataIds.length > 0
+      ? (await getJson(WIKIDATA_API_URL, {
+          action: 'wbgetentities',
+          ids: wikidataIds.join('|'),
+          props: 'claims',
+        }, signal)).entities || {}
+      : {};
+
+    return top
+      .filter(result => pages.has(result.pageid))
+      .map(result => {
+        const page = pages.get(result.pageid);
+        const wikidataId: string | undefined = page.pageprops?.wikibase_item;
+        const entity = wikidataId ? entities[wikidataId] : null;
+        const coordinates = getClaimValues(entity, COORDINATES)[0];
+
+        return {
+          pageId: result.pageid,
+          title: page.title,
+          articleUrl: page.fullurl,
+          location: coordinates
+            ? { latitude: coordinates.latitude, longitude: coordinates.longitude }
+            : { latitude: result.lat, longitude: result.lon },
+          extract: page.extract?.trim() || undefined,
+          thumbnail: page.thumbnail?.source,
+          length: page.length || lengths.get(result.pageid) || 0,
+          wikidataId,
+          instanceOf: getClaimValues(entity, INSTANCE_OF).map(value => value.id).filter(Boolean),
+          isHeritage: getClaimValues(entity, HERITAGE_DESIGNATION).length > 0,
+          website: getClaimValues(entity, OFFICIAL_WEBSITE)[0],
+        };
+      });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('❌ Wikipedia geosearch error:', error);
+    return [];
   }
 };
@@ -11,6 +11,26 @@ export enum PlaceCategory {
   UNKNOWN = 'UNKNOWN'
 }
 
+// Normalized price tier: 1 ($) - 4 ($$$$), see services/price.ts
+export type PriceLevel = 1 | 2 | 3 | 4;
+
+// One opening in the weekly schedule, in venue-local time
+export interface OpeningPeriod {
+  day: number; // 0 = Sunday ... 6 = Saturday (same as Date.getDay())
+  open: number; // Minutes since midnight
+  close: number; // Minutes since midnight of `day` - above 1440 when open past midnight
+}
+
+// Weekly opening hours parsed from the provider (see services/openingHours.ts)
+export interface OpeningHours {
+  periods: OpeningPeriod[]; // Days without periods are closed
+  alwaysOpen?: boolean; // 24/7
+  holiday?: string; // Local date (YYYY-MM-DD) flagged as a holiday - regular hours may not apply
+}
+
+// Data source a Place was mapped from (see services/providers)
+export type PlaceSource = 'foursquare' | 'google' | 'overpass' | 'gemini' | 'wikipedia';
+
 export interface Review {
   author: string;
   text: string;
@@ -29,22 +49,50 @@ export interface Review {
 //   totalSources: number;
 // }
 
+// Signals combined by the ranking engine (see services/ranking.ts)
+export type RankingSignal = 'popularity' | 'distance' | 'openNow' | 'novelty' | 'affinity';
+
+export interface ScoreComponent {
+  signal: RankingSignal;
+  value: number; // Normalized 0-1
+  weight: number;
+  contribution: number; // value × weight
+  detail: string; // e.g. "0.4 km from search center"
+}
+
+export interface PlaceScore {
+  total: number; // Sum of contributions
+  components: ScoreComponent[];
+}
+
 export interface Place {
   id: string;
   name: string;
   description: string;
   category: PlaceCategory;
   rating?: string; // e.g. "4.5 stars"
+  reviewCount?: number; // Number of ratings behind `rating`
+  priceLevel?: PriceLevel; // Unknown for most sights and activities
   tags: string[];
   mapLink?: string; // From grounding
   reason: string; // Detailed "why visit" / "what to eat"
   signature?: string; // Signature dishes, drinks, or things to see
   address?: string; // Street address
   phone?: string; // Phone number
+  website?: string; // Venue's own site
+  wikidataId?: string; // e.g. "Q243" - from OSM, used to find the Wikipedia article
   reviews: Review[];
   images: string[]; // Initially empty from Gemini, filled by Google Maps API
-  isOpen?: boolean; // Whether the place is currently open (from Google Places API)
+  isOpen?: boolean; // Live open-now flag from the provider at search time
+  openingHours?: OpeningHours; // Weekly schedule - answers "open at…" for any time
   knowBeforeYouGo?: string[]; // AI-generated practical tips (3-5 tips)
+  source?: PlaceSource; // Provider that produced this place (used to route details/photo lookups)
+  sources?: PlaceSource[]; // Every provider merged into this place (see services/providers/merge.ts)
+  chain?: string; // Chain or brand name, when the provider knows it (Foursquare chains, OSM brand)
+  foursquareCategory?: { id: string; name: string }; // Primary Foursquare category - lets users hide it
+  location: Coordinates; // Venue coordinates, filled by the provider at mapping time
+  hours?: string; // Opening hours as displayed by the source (e.g. "Mo-Fr 09:00-17:00")
+  score?: PlaceScore; // Ranking breakdown, shown as "Why this is here"
   // aggregatedRatings?: AggregatedRatings; // DISABLED: Cost optimization - using Google ratings only
   // compositeScore?: number; // DISABLED: Not needed without aggregated ratings
 }
@@ -56,11 +104,30 @@ export interface LocationState {
   loading: boolean;
 }
 
+export type TravelMode = 'walk' | 'drive';
+
+// One stop in a day plan
+export interface ItineraryStop {
+  placeId: string;
+  dwellMinutes: number; // Time spent at the place
+}
+
+// Day plan for a collection - timings are computed from it (see services/itinerary.ts)
+export interface Itinerary {
+  date: string; // Local date (YYYY-MM-DD)
+  startMinutes: number; // Start time, minutes since midnight
+  start?: Coordinates; // Where the day starts - the first stop when unset
+  travelMode: TravelMode;
+  stops: ItineraryStop[]; // In visiting order
+  updatedAt: number; // Timestamp
+}
+
 export interface Collection {
   id: string;
   name: string;
   icon?: string; // Emoji icon
   placeIds: string[]; // IDs of places in this collection
+  itinerary?: Itinerary; // Day plan, if one was made
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
 }
@@ -71,3 +138,24 @@ export interface HistoryEntry {
   searchQuery?: string; // What query led to this discovery
   location: string; // City/area where it was discovered
 }
+
+// Where you're staying on a trip
+export interface HomeBase {
+  label: string; // Hotel name or address, as entered
+  coords?: Coordinates; // Unset when it couldn't be geocoded
+}
+
+export interface Trip {
+  id: string;
+  destination: string; // As entered, e.g. "Lisbon"
+  destinationCoords: Coordinates; // Search center while the trip is pinned
+  startDate: string; // Local date (YYYY-MM-DD)
+  endDate: string; // Local date (YYYY-MM-DD), inclusive
+  homeBase?: HomeBase;
+  collectionIds: string[]; // Linked collections
+  notes: string;
+  history: HistoryEntry[]; // Discoveries during the trip - kept after they fall out of general history
+  startedAt?: number; // Timestamp of the last "Start trip"
+  createdAt: number; // Timestamp
+  updatedAt: number; // Timestamp
+}